@@ -6,8 +6,9 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from './../dspf-edit.providers/dspf-edit.providers';
-import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, parseIndicatorsFromLine, groupConsecutiveLines, applyWorkspaceEdit } from './../dspf-edit.utils/dspf-edit.helper';
-import { fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
+import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, parseIndicatorsFromLine, groupConsecutiveLines, applyWorkspaceEdit, getDocumentModel } from './../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { DISPLAY_ATTRIBUTES, getKeywordValue } from '../dspf-edit.keywords/dspf-edit.keywords';
  
 // INTERFACES AND TYPES
 
@@ -182,14 +183,14 @@ function getCurrentAttributesForElement(editor: vscode.TextEditor, element: any)
     return attributes;
 };
 
-function getNumberOfAttributesForElement(element: any): number | undefined {
+function getNumberOfAttributesForElement(model: DdsDocumentModel, element: any): number | undefined {
     // If element doesn't have required properties, return undefined
     if (!element.name || !element.recordname) {
         return undefined;
     };
 
     // Find the record that contains this element
-    const recordEntry = fieldsPerRecords.find(r => r.record === element.recordname);
+    const recordEntry = model.fieldsPerRecords.find(r => r.record === element.recordname);
     if (!recordEntry) {
         return undefined;
     };
@@ -214,7 +215,7 @@ function getNumberOfAttributesForElement(element: any): number | undefined {
  * @returns Array of available attributes
  */
 function getAvailableAttributes(currentAttributes: string[]): string[] {
-    const allAttributes: string[] = ['HI', 'RI', 'CS', 'BL', 'ND', 'UL', 'PC', 'PR'];
+    const allAttributes: string[] = DISPLAY_ATTRIBUTES.slice(0, 8).map(attribute => attribute.value);
     return allAttributes.filter(attribute => !currentAttributes.includes(attribute));
 };
 
@@ -230,15 +231,16 @@ async function collectAttributesWithIndicatorsFromUser(availableAttributes: stri
     let remainingAttributes = [...availableAttributes];
 
     while (remainingAttributes.length > 0) {
-        const selectedAttribute = await vscode.window.showQuickPick(
-            remainingAttributes,
+        const selectedItem = await vscode.window.showQuickPick(
+            remainingAttributes.map(attribute => ({ label: attribute, description: getKeywordValue('DSPATR', attribute)?.description })),
             {
                 title: `Add Attribute (${selectedAttributes.length} selected) - Press ESC to finish`,
                 placeHolder: 'Select attribute from list'
             }
         );
 
-        if (!selectedAttribute) break;
+        if (!selectedItem) break;
+        const selectedAttribute = selectedItem.label;
 
         // Collect indicators for this attribute
         const indicators = await collectIndicatorsForAttribute(selectedAttribute);
@@ -314,7 +316,7 @@ async function addAttributesToElement(
     attrToAdd: AttributeWithIndicators[]
 ): Promise<boolean> {
     const isConstant = element.kind === 'constant';
-    const numberOfAttributes = getNumberOfAttributesForElement(element);
+    const numberOfAttributes = getNumberOfAttributesForElement(getDocumentModel(editor.document), element);
     const workspaceEdit = new vscode.WorkspaceEdit();
     const uri = editor.document.uri;
 
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from './../dspf-edit.providers/dspf-edit.providers';
-import { getRecordSize, fieldsPerRecords, DdsSize, getDefaultSize } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { getRecordSize, DdsSize, getDefaultSize, DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // TYPE DEFINITIONS
 
@@ -92,7 +92,7 @@ async function handleAddButtonsCommand(node: DdsNode): Promise<void> {
         };
 
         // Get record information
-        const recordInfo = getRecordInformation(node.ddsElement.name);
+        const recordInfo = getRecordInformation(getDocumentModel(document), node.ddsElement.name);
         if (!recordInfo) {
             vscode.window.showErrorMessage('Record size or info not found.');
             return;
@@ -218,11 +218,12 @@ function validateButtonLabel(value: string): string {
 /**
  * Gets comprehensive record information needed for button placement.
  * Prioritizes WINDOW attributes over file-level size information.
+ * @param model - The parsed model of the document the record belongs to
  * @param recordName - The name of the record
  * @returns Complete record information or null if not found
  */
-function getRecordInformation(recordName: string): RecordInformation | null {
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+function getRecordInformation(model: DdsDocumentModel, recordName: string): RecordInformation | null {
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     
     if (!recordInfo) {
         return null;
@@ -270,7 +271,7 @@ function getRecordInformation(recordName: string): RecordInformation | null {
     
     // Fallback 2: Use legacy getRecordSize function
     if (!effectiveSize) {
-        const legacySize = getRecordSize(recordName);
+        const legacySize = getRecordSize(model, recordName);
         if (legacySize) {
             effectiveSize = legacySize;
         };
@@ -278,7 +279,7 @@ function getRecordInformation(recordName: string): RecordInformation | null {
     
     // Fallback 3: Use default size from file attributes
     if (!effectiveSize) {
-        effectiveSize = getDefaultSize();
+        effectiveSize = getDefaultSize(model);
     };
     
     // Final validation
@@ -434,11 +435,12 @@ function sortButtonsByFKeyOrder(buttons: ButtonDefinition[]): ButtonDefinition[]
 /**
  * Finds the insertion point for adding new elements to a record.
  * This is a utility function that could be reused by other modules.
+ * @param model - The parsed model of the document the record belongs to
  * @param recordName - The name of the record
  * @returns The line index where new elements should be inserted
  */
-export function findRecordInsertionPoint(recordName: string): number | null {
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+export function findRecordInsertionPoint(model: DdsDocumentModel, recordName: string): number | null {
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     return recordInfo ? recordInfo.endIndex + 1 : null;
 };
 
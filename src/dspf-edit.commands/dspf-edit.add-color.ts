@@ -6,8 +6,9 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, parseIndicatorsFromLine, groupConsecutiveLines, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
-import { fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
+import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, parseIndicatorsFromLine, groupConsecutiveLines, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { DISPLAY_COLORS, getKeywordValue } from '../dspf-edit.keywords/dspf-edit.keywords';
 
 // INTERFACES AND TYPES
 
@@ -189,7 +190,7 @@ function getCurrentColorsForElement(editor: vscode.TextEditor, element: any): Co
  * @returns Array of available colors
  */
 function getAvailableColors(currentColors: string[]): string[] {
-    const allColors: string[] = ['BLU', 'GRN', 'PNK', 'RED', 'TRQ', 'WHT', 'YLW'];
+    const allColors: string[] = DISPLAY_COLORS.map(color => color.value);
     return allColors.filter(color => !currentColors.includes(color));
 };
 
@@ -205,15 +206,16 @@ async function collectColorsWithIndicatorsFromUser(availableColors: string[]): P
     let remainingColors = [...availableColors];
 
     while (remainingColors.length > 0) {
-        const selectedColor = await vscode.window.showQuickPick(
-            remainingColors,
+        const selectedItem = await vscode.window.showQuickPick(
+            remainingColors.map(color => ({ label: color, description: getKeywordValue('COLOR', color)?.description })),
             {
                 title: `Add Color (${selectedColors.length} selected) - Press ESC to finish`,
                 placeHolder: 'Select color from list'
             }
         );
 
-        if (!selectedColor) break;
+        if (!selectedItem) break;
+        const selectedColor = selectedItem.label;
 
         // Collect indicators for this color
         const indicators = await collectIndicatorsForColor(selectedColor);
@@ -289,7 +291,7 @@ async function addColorsToElement(
     colorsToAdd: ColorWithIndicators[]
 ): Promise<boolean> {
     const isConstant = element.kind === 'constant';
-    const numberOfAttributes = getNumberOfAttributesForElement(element);
+    const numberOfAttributes = getNumberOfAttributesForElement(getDocumentModel(editor.document), element);
     const workspaceEdit = new vscode.WorkspaceEdit();
     const uri = editor.document.uri;
 
@@ -356,14 +358,14 @@ async function addColorsToElement(
     return applyWorkspaceEdit(workspaceEdit, 'add the colors');
 };
 
-function getNumberOfAttributesForElement(element: any): number | undefined {
+function getNumberOfAttributesForElement(model: DdsDocumentModel, element: any): number | undefined {
     // If element doesn't have required properties, return undefined
     if (!element.name || !element.recordname) {
         return undefined;
     };
 
     // Find the record that contains this element
-    const recordEntry = fieldsPerRecords.find(r => r.record === element.recordname);
+    const recordEntry = model.fieldsPerRecords.find(r => r.record === element.recordname);
     if (!recordEntry) {
         return undefined;
     };
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from './../dspf-edit.providers/dspf-edit.providers';
-import { DdsAttribute, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsAttribute } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 import { validateRecordName } from './dspf-edit.new-record';
 import { findRecordInsertionPoint } from './dspf-edit.add-buttons';
 
@@ -53,7 +53,8 @@ async function handleAddCommandsRecordCommand(node: DdsNode): Promise<void> {
     };
     const sflCtlRecordName = node.ddsElement.name;
 
-    const recordInfo = fieldsPerRecords.find(r => r.record === sflCtlRecordName);
+    const model = getDocumentModel(document);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === sflCtlRecordName);
     const isSflCtl = recordInfo?.attributes?.some(attr => attr.value.toUpperCase().startsWith('SFLCTL(')) ?? false;
     if (!isSflCtl) {
         vscode.window.showWarningMessage('A commands record can only be added from a subfile control (SFLCTL) record.');
@@ -84,14 +85,14 @@ async function handleAddCommandsRecordCommand(node: DdsNode): Promise<void> {
         title: 'Add Commands Record',
         prompt: 'Enter the name for the new commands record',
         placeHolder: 'FOOTER',
-        validateInput: validateRecordName
+        validateInput: value => validateRecordName(model, value)
     });
     if (!recordName) {
         return;
     };
     const newRecordName = recordName.toUpperCase();
 
-    const insertionLine = findRecordInsertionPoint(sflCtlRecordName);
+    const insertionLine = findRecordInsertionPoint(model, sflCtlRecordName);
     if (insertionLine === null) {
         vscode.window.showErrorMessage('Could not determine where to insert the new record.');
         return;
@@ -143,13 +144,11 @@ async function insertCommandsRecord(
     titleAttrsToMove: DdsAttribute[],
     borderAttrsToMove: DdsAttribute[]
 ): Promise<boolean> {
-    const bodyLines = [
-        ' '.repeat(5) + 'A' + ' '.repeat(10) + 'R ' + recordName.padEnd(10, ' '),
-        ' '.repeat(5) + 'A' + ' '.repeat(38) + 'OVERLAY',
+    const bodyLines = generateCommandsRecordLines(recordName, [
         ...windowAttrsToMove.flatMap(attr => fullAttributeLines(document, attr)),
         ...titleAttrsToMove.flatMap(attr => fullAttributeLines(document, attr)),
         ...borderAttrsToMove.flatMap(attr => fullAttributeLines(document, attr))
-    ];
+    ]);
 
     const workspaceEdit = new vscode.WorkspaceEdit();
     const insertPos = new vscode.Position(insertionLine, 0);
@@ -176,3 +175,17 @@ async function insertCommandsRecord(
 
     return applyWorkspaceEdit(workspaceEdit, 'add the commands record');
 };
+
+/**
+ * Generates the lines of a commands record: an OVERLAY record, owning the subfile's window when
+ * there is one (the SFLCTL then refers to it with WINDOW(recordName)).
+ * @param recordName - Name of the commands record
+ * @param windowLines - The WINDOW()/WDWTITLE()/WDWBORDER() lines of the window it owns, if any
+ */
+export function generateCommandsRecordLines(recordName: string, windowLines: string[] = []): string[] {
+    return [
+        ' '.repeat(5) + 'A' + ' '.repeat(10) + 'R ' + recordName.padEnd(10, ' '),
+        ' '.repeat(5) + 'A' + ' '.repeat(38) + 'OVERLAY',
+        ...windowLines
+    ];
+};
@@ -6,9 +6,10 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, groupConsecutiveLines, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, groupConsecutiveLines, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 import { getResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { EDIT_CODES } from '../dspf-edit.keywords/dspf-edit.keywords';
 
 // INTERFACES AND TYPES
 
@@ -18,14 +19,6 @@ interface EditConfiguration {
     modifier?: string; // For EDTCDE: * for asterisk fill, or currency symbol
 };
 
-interface EditCodeOption {
-    code: string;
-    description: string;
-    category: 'Standard' | 'Credit' | 'Minus' | 'Special' | 'User-Defined';
-    supportsAsterisk: boolean;
-    supportsCurrency: boolean;
-};
-
 // COMMAND REGISTRATION
 
 /**
@@ -55,6 +48,7 @@ async function handleEditingKeywordsCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         // Validate element type - only fields can have editing
         if (node.ddsElement.kind !== 'field') {
@@ -65,7 +59,7 @@ async function handleEditingKeywordsCommand(node: DdsNode): Promise<void> {
         // Get field information — for a referenced field, its own DDS source leaves type/length/
         // decimals blank (they live in the external database field), so fall back to whatever's
         // already been resolved from IBM i (via "Resolve Referenced Field") when available.
-        const fieldInfo = getFieldInfo(node.ddsElement);
+        const fieldInfo = getFieldInfo(model, node.ddsElement);
         if (!fieldInfo) {
             vscode.window.showErrorMessage('Could not determine field information for editing.');
             return;
@@ -73,7 +67,7 @@ async function handleEditingKeywordsCommand(node: DdsNode): Promise<void> {
         const effectiveFieldInfo = getEffectiveFieldInfo(fieldInfo, node.ddsElement, document.uri.toString());
 
         // Get current editing configuration
-        const currentEditing = getCurrentEditingForField(node.ddsElement);
+        const currentEditing = getCurrentEditingForField(model, node.ddsElement);
 
         // Show current editing if exists
         if (currentEditing.length > 0) {
@@ -202,11 +196,12 @@ async function handleEditingKeywordsCommand(node: DdsNode): Promise<void> {
 
 /**
  * Extracts current editing configuration from a DDS field.
+ * @param model - The parsed model of the document
  * @param element - The DDS field element
  * @returns Array of current editing configurations
  */
-function getCurrentEditingForField(element: any): EditConfiguration[] {
-    const recordInfo = fieldsPerRecords.find(r => r.record === element.recordname);
+function getCurrentEditingForField(model: DdsDocumentModel, element: any): EditConfiguration[] {
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === element.recordname);
     if (!recordInfo) return [];
 
     const fieldInfo = recordInfo.fields.find(field => field.name === element.name);
@@ -243,11 +238,12 @@ function getCurrentEditingForField(element: any): EditConfiguration[] {
 
 /**
  * Gets field information including type and length.
+ * @param model - The parsed model of the document
  * @param element - The DDS field element
  * @returns Field information or null if not found
  */
-function getFieldInfo(element: any): any {
-    const recordInfo = fieldsPerRecords.find(r => r.record === element.recordname);
+function getFieldInfo(model: DdsDocumentModel, element: any): any {
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === element.recordname);
     if (!recordInfo) return null;
 
     return recordInfo.fields.find(field => field.name === element.name);
@@ -364,50 +360,6 @@ function isNumericFieldDetailed(fieldInfo: any): boolean {
     return false;
 };
 
-// EDIT CODE DEFINITIONS
-
-/**
- * Gets all available edit codes with their descriptions and capabilities.
- * @returns Array of edit code options
- */
-function getAvailableEditCodes(): EditCodeOption[] {
-    return [
-        // Standard codes (1-4)
-        { code: '1', description: 'Commas, decimals, no sign, zero as .00/0', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
-        { code: '2', description: 'Commas, decimals, no sign, zero as blanks', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
-        { code: '3', description: 'Commas, no decimals, no sign, zero as .00/0', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
-        { code: '4', description: 'Commas, no decimals, no sign, zero as blanks', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
-
-        // Credit codes (A-D) - show CR for negative
-        { code: 'A', description: 'Commas, decimals, CR for negative, zero as .00/0', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'B', description: 'Commas, decimals, CR for negative, zero as blanks', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'C', description: 'Commas, no decimals, CR for negative, zero as .00/0', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'D', description: 'Commas, no decimals, CR for negative, zero as blanks', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
-
-        // Minus codes (J-Q) - show - for negative
-        { code: 'J', description: 'Commas, decimals, minus for negative, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'K', description: 'Commas, decimals, minus for negative, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'L', description: 'Commas, no decimals, minus for negative, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'M', description: 'Commas, no decimals, minus for negative, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'N', description: 'Commas, decimals, leading minus, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'O', description: 'Commas, decimals, leading minus, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'P', description: 'Commas, no decimals, leading minus, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-        { code: 'Q', description: 'Commas, no decimals, leading minus, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
-
-        // Special codes
-        { code: 'W', description: 'Date format with slashes, suppresses leftmost zeros', category: 'Special', supportsAsterisk: false, supportsCurrency: false },
-        { code: 'Y', description: 'Date format with slashes, different zero suppression', category: 'Special', supportsAsterisk: false, supportsCurrency: false },
-        { code: 'Z', description: 'Remove sign, suppress leading zeros', category: 'Special', supportsAsterisk: false, supportsCurrency: false },
-
-        // User-defined codes
-        { code: '5', description: 'User-defined edit code QEDIT5', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
-        { code: '6', description: 'User-defined edit code QEDIT6', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
-        { code: '7', description: 'User-defined edit code QEDIT7', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
-        { code: '8', description: 'User-defined edit code QEDIT8', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
-        { code: '9', description: 'User-defined edit code QEDIT9', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false }
-    ];
-};
-
 // USER INTERACTION FUNCTIONS
 
 /**
@@ -416,7 +368,7 @@ function getAvailableEditCodes(): EditCodeOption[] {
  * @returns Selected edit code configuration
  */
 async function collectEditCode(fieldInfo: any): Promise<EditConfiguration | null> {
-    const availableEditCodes = getAvailableEditCodes();
+    const availableEditCodes = EDIT_CODES;
     
     // Group edit codes by category for better organization
     const categories = ['Standard', 'Credit', 'Minus', 'Special', 'User-Defined'];
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { isAttributeLine, findElementInsertionPointRecordFirstLine, checkForEditorAndDocument, groupConsecutiveLines, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { isAttributeLine, findElementInsertionPointRecordFirstLine, checkForEditorAndDocument, groupConsecutiveLines, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
 
@@ -47,6 +47,7 @@ async function handleAddErrorMessageCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         // Validate element type - error messages can only be added to input-capable fields
         if (node.ddsElement.kind !== 'field') {
@@ -65,7 +66,7 @@ async function handleAddErrorMessageCommand(node: DdsNode): Promise<void> {
         };
 
         // Get current error messages from the field
-        const currentErrorMessages = getCurrentErrorMessages(field);
+        const currentErrorMessages = getCurrentErrorMessages(model, field);
 
         // Show current error messages if any exist
         if (currentErrorMessages.length > 0) {
@@ -148,12 +149,13 @@ function isInputCapableField(field: any): boolean {
 
 /**
  * Extracts current error messages from a DDS field.
+ * @param model - The parsed model of the document
  * @param field - The DDS field element
  * @returns Array of current error message configurations
  */
-function getCurrentErrorMessages(field: any): ErrorMessageConfig[] {
+function getCurrentErrorMessages(model: DdsDocumentModel, field: any): ErrorMessageConfig[] {
     // Find the record containing this field
-    const recordInfo = fieldsPerRecords.find(r => r.record === field.recordname);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === field.recordname);
     if (!recordInfo) return [];
 
     const elementInfo = [
@@ -6,13 +6,14 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { attributesFileLevel, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
 import {
     isAttributeLine, findElementInsertionPointRecordFirstLine, findElementInsertionPointFileFirstLine,
     handleDspsizWorkflow, DspsizConfig,
     checkForEditorAndDocument,
     groupConsecutiveLines,
-    applyWorkspaceEdit
+    applyWorkspaceEdit,
+    getDocumentModel
 } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
@@ -53,6 +54,7 @@ async function handleAddKeyCommandCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         // Validate element type - key commands can only be added to records
         if (node.ddsElement.kind !== 'record' && node.ddsElement.kind !== 'file') {
@@ -75,11 +77,11 @@ async function handleAddKeyCommandCommand(node: DdsNode): Promise<void> {
         switch (node.ddsElement.kind) {
             case 'record':
                 // Get current key commands from the record
-                currentKeyCommands = getCurrentKeyCommandsForRecord(node.ddsElement);
+                currentKeyCommands = getCurrentKeyCommandsForRecord(model, node.ddsElement);
                 break;
             case 'file':
                 // Get current key commands from the file
-                currentKeyCommands = getCurrentKeyCommandsForFile(node.ddsElement);
+                currentKeyCommands = getCurrentKeyCommandsForFile(model, node.ddsElement);
                 break;
         };
 
@@ -191,12 +193,13 @@ async function handleAddKeyCommandCommand(node: DdsNode): Promise<void> {
 
 /**
  * Extracts current key commands from a DDS record.
+ * @param model - The parsed model of the document
  * @param element - The DDS record element
  * @returns Array of current key commands
  */
-function getCurrentKeyCommandsForRecord(element: any): KeyCommandWithIndicators[] {
+function getCurrentKeyCommandsForRecord(model: DdsDocumentModel, element: any): KeyCommandWithIndicators[] {
     // Find the record in the fieldsPerRecords data
-    const recordInfo = fieldsPerRecords.find(r => r.record === element.name);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === element.name);
     if (!recordInfo || !recordInfo.attributes) return [];
 
     const keyCommands: KeyCommandWithIndicators[] = [];
@@ -221,12 +224,13 @@ function getCurrentKeyCommandsForRecord(element: any): KeyCommandWithIndicators[
 
 /**
  * Extracts current key commands from a DDS file (file level).
+ * @param model - The parsed model of the document
  * @param element - The DDS file element
  * @returns Array of current key commands
  */
-function getCurrentKeyCommandsForFile(element: any): KeyCommandWithIndicators[] {
+function getCurrentKeyCommandsForFile(model: DdsDocumentModel, element: any): KeyCommandWithIndicators[] {
     // Find the record in the fieldsPerRecords data
-    const fileInfo = attributesFileLevel;
+    const fileInfo = model.attributesFileLevel;
     if (!fileInfo) return [];
 
     const keyCommands: KeyCommandWithIndicators[] = [];
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, groupConsecutiveLines, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { isAttributeLine, findElementInsertionPoint, checkForEditorAndDocument, groupConsecutiveLines, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
 
@@ -50,6 +50,7 @@ async function handleAddValidityCheckCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         // Validate element type - only fields can have validity checks
         if (node.ddsElement.kind !== 'field') {
@@ -64,7 +65,7 @@ async function handleAddValidityCheckCommand(node: DdsNode): Promise<void> {
         };
 
         // Get current validity checks from the field
-        const currentValidityChecks = getCurrentValidityChecksForField(node.ddsElement);
+        const currentValidityChecks = getCurrentValidityChecksForField(model, node.ddsElement);
 
         // Show current validity checks if any exist
         if (currentValidityChecks.length > 0) {
@@ -97,7 +98,7 @@ async function handleAddValidityCheckCommand(node: DdsNode): Promise<void> {
         };
 
         // Get field information to determine valid options
-        const fieldInfo = getFieldInfo(node.ddsElement);
+        const fieldInfo = getFieldInfo(model, node.ddsElement);
         if (!fieldInfo) {
             vscode.window.showErrorMessage('Could not determine field type for validity checks.');
             return;
@@ -136,12 +137,13 @@ async function handleAddValidityCheckCommand(node: DdsNode): Promise<void> {
 
 /**
  * Extracts current validity checks from a DDS field.
+ * @param model - The parsed model of the document
  * @param element - The DDS field element
  * @returns Array of current validity checks
  */
-function getCurrentValidityChecksForField(element: any): ValidityCheck[] {
+function getCurrentValidityChecksForField(model: DdsDocumentModel, element: any): ValidityCheck[] {
     // Find the field in the fieldsPerRecords data
-    const recordInfo = fieldsPerRecords.find(r => r.record === element.recordname);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === element.recordname);
     if (!recordInfo) return [];
 
     const fieldInfo = recordInfo.fields.find(field => field.name === element.name);
@@ -188,11 +190,12 @@ function getCurrentValidityChecksForField(element: any): ValidityCheck[] {
 
 /**
  * Gets field information including type and length for validity checks.
+ * @param model - The parsed model of the document
  * @param element - The DDS field element
  * @returns Field information or null if not found
  */
-function getFieldInfo(element: any): any {
-    const recordInfo = fieldsPerRecords.find(r => r.record === element.recordname);
+function getFieldInfo(model: DdsDocumentModel, element: any): any {
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === element.recordname);
     if (!recordInfo) return null;
 
     return recordInfo.fields.find(field => field.name === element.name);
@@ -7,7 +7,7 @@
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
 import { getRecordSize, SYSTEM_FIELD_PLACEHOLDER } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // POSITION CENTERING FUNCTIONALITY
 
@@ -51,7 +51,7 @@ async function handleCenterCommand(node: DdsNode): Promise<void> {
         if (!('recordname' in element)) {
             return;
         };
-        const windowSize = getRecordSize(element.recordname);
+        const windowSize = getRecordSize(getDocumentModel(document), element.recordname);
         if (!windowSize) {
             vscode.window.showWarningMessage("Unable to retrieve window size.");
             return;
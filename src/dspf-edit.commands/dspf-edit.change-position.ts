@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fileSizeAttributes } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
 
@@ -56,6 +56,7 @@ async function handleChangePositionCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -72,7 +73,7 @@ async function handleChangePositionCommand(node: DdsNode): Promise<void> {
         };
 
         // Show current position and collect new position
-        const newPosition = await collectNewPosition(element.name, currentPosition);
+        const newPosition = await collectNewPosition(model, element.name, currentPosition);
         if (!newPosition) {
             // User cancelled the operation
             return;
@@ -108,17 +109,18 @@ async function handleChangePositionCommand(node: DdsNode): Promise<void> {
 
 /**
  * Collects new position coordinates from user through interactive dialogs.
+ * @param model - The parsed model of the document
  * @param elementName - Name of the element being repositioned
  * @param currentPosition - Current position of the element
  * @returns New position coordinates or null if user cancelled
  */
-async function collectNewPosition(elementName: string, currentPosition: ElementPosition): Promise<ElementPosition | null> {
+async function collectNewPosition(model: DdsDocumentModel, elementName: string, currentPosition: ElementPosition): Promise<ElementPosition | null> {
     // Step 1: Get new row
-    const newRow = await collectRowPosition(elementName, currentPosition.row);
+    const newRow = await collectRowPosition(model, elementName, currentPosition.row);
     if (newRow === null) return null;
 
     // Step 2: Get new column
-    const newColumn = await collectColumnPosition(elementName, currentPosition.column);
+    const newColumn = await collectColumnPosition(model, elementName, currentPosition.column);
     if (newColumn === null) return null;
 
     return {
@@ -129,17 +131,18 @@ async function collectNewPosition(elementName: string, currentPosition: ElementP
 
 /**
  * Collects and validates the new row position from user input.
+ * @param model - The parsed model of the document
  * @param elementName - Name of the element being repositioned
  * @param currentRow - Current row position
  * @returns Valid row number or null if cancelled
  */
-async function collectRowPosition(elementName: string, currentRow: number): Promise<number | null> {
+async function collectRowPosition(model: DdsDocumentModel, elementName: string, currentRow: number): Promise<number | null> {
     const rowInput = await vscode.window.showInputBox({
         title: `Change Position - Step 1/2: Row for ${elementName}`,
-        prompt: `Enter the new row position (1-${fileSizeAttributes.maxRow1})`,
+        prompt: `Enter the new row position (1-${model.fileSizeAttributes.maxRow1})`,
         value: String(currentRow),
         placeHolder: String(currentRow),
-        validateInput: (value: string) => validateRowPosition(value)
+        validateInput: (value: string) => validateRowPosition(model, value)
     });
 
     if (rowInput === undefined) return null; // User cancelled
@@ -148,17 +151,18 @@ async function collectRowPosition(elementName: string, currentRow: number): Prom
 
 /**
  * Collects and validates the new column position from user input.
+ * @param model - The parsed model of the document
  * @param elementName - Name of the element being repositioned
  * @param currentColumn - Current column position
  * @returns Valid column number or null if cancelled
  */
-async function collectColumnPosition(elementName: string, currentColumn: number): Promise<number | null> {
+async function collectColumnPosition(model: DdsDocumentModel, elementName: string, currentColumn: number): Promise<number | null> {
     const columnInput = await vscode.window.showInputBox({
         title: `Change Position - Step 2/2: Column for ${elementName}`,
-        prompt: `Enter the new column position (1-${fileSizeAttributes.maxCol1})`,
+        prompt: `Enter the new column position (1-${model.fileSizeAttributes.maxCol1})`,
         value: String(currentColumn),
         placeHolder: String(currentColumn),
-        validateInput: (value: string) => validateColumnPosition(value)
+        validateInput: (value: string) => validateColumnPosition(model, value)
     });
 
     if (columnInput === undefined) return null; // User cancelled
@@ -169,21 +173,23 @@ async function collectColumnPosition(elementName: string, currentColumn: number)
 
 /**
  * Validates row position input according to DDS rules.
+ * @param model - The parsed model of the document
  * @param value - The row position to validate
  * @returns Error message or null if valid
  */
-function validateRowPosition(value: string): string | null {
-    const validation = validatePositionInput(value, 1, fileSizeAttributes.maxRow1, "Row");
+function validateRowPosition(model: DdsDocumentModel, value: string): string | null {
+    const validation = validatePositionInput(value, 1, model.fileSizeAttributes.maxRow1, "Row");
     return validation.isValid ? null : validation.errorMessage!;
 };
 
 /**
  * Validates column position input according to DDS rules.
+ * @param model - The parsed model of the document
  * @param value - The column position to validate
  * @returns Error message or null if valid
  */
-function validateColumnPosition(value: string): string | null {
-    const validation = validatePositionInput(value, 1, fileSizeAttributes.maxCol1, "Column");
+function validateColumnPosition(model: DdsDocumentModel, value: string): string | null {
+    const validation = validatePositionInput(value, 1, model.fileSizeAttributes.maxCol1, "Column");
     return validation.isValid ? null : validation.errorMessage!;
 };
 
@@ -226,14 +232,15 @@ function validatePositionInput(value: string, min: number, max: number, fieldNam
 
 /**
  * Validates that a position is within the display file boundaries.
+ * @param model - The parsed model of the document
  * @param position - Position to validate
  * @returns Validation result with error message if invalid
  */
-function validatePositionBounds(position: ElementPosition): PositionValidation {
+function validatePositionBounds(model: DdsDocumentModel, position: ElementPosition): PositionValidation {
     const rowValidation = validatePositionInput(
         String(position.row), 
         1, 
-        fileSizeAttributes.maxRow1, 
+        model.fileSizeAttributes.maxRow1, 
         "Row"
     );
     
@@ -244,7 +251,7 @@ function validatePositionBounds(position: ElementPosition): PositionValidation {
     const columnValidation = validatePositionInput(
         String(position.column), 
         1, 
-        fileSizeAttributes.maxCol1, 
+        model.fileSizeAttributes.maxCol1, 
         "Column"
     );
     
@@ -265,7 +272,7 @@ async function updateElementPosition(
     newPosition: ElementPosition
 ): Promise<boolean> {
     // Validate the new position
-    const positionValidation = validatePositionBounds(newPosition);
+    const positionValidation = validatePositionBounds(getDocumentModel(editor.document), newPosition);
     if (!positionValidation.isValid) {
         throw new Error(`Invalid position: ${positionValidation.errorMessage}`);
     };
@@ -301,11 +308,12 @@ async function updateElementPosition(
 
 /**
  * Creates an updated DDS line with new position coordinates.
+ * Also used by the diagnostics quick fixes that move an element.
  * @param originalLine - The original line text
  * @param newPosition - New position coordinates
  * @returns Updated line with new position
  */
-function createUpdatedLineWithPosition(originalLine: string, newPosition: ElementPosition): string {
+export function createUpdatedLineWithPosition(originalLine: string, newPosition: ElementPosition): string {
     // DDS position format: positions 39-41 for row, 42-44 for column (1-based)
     // In 0-based indexing: 38-40 for row, 41-43 for column
     const formattedRow = String(newPosition.row).padStart(3, ' ');
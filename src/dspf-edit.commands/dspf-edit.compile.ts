@@ -0,0 +1,181 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.compile.ts
+*/
+
+import * as vscode from 'vscode';
+import { checkForEditorAndDocument } from '../dspf-edit.utils/dspf-edit.helper';
+import { CompileMessage, CompileResult, compileDisplayFile, getIBMiConnection, parseMemberUri } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+/** Source shown next to the compile's diagnostics in the Problems panel. */
+const COMPILE_DIAGNOSTIC_SOURCE = 'CRTDSPF';
+
+/** A valid IBM i object or library name. */
+const OBJECT_NAME = /^[A-Z$#@][A-Z0-9$#@_.]{0,9}$/;
+
+/** The compile's diagnostics, kept apart from the ones recomputed on every edit. */
+let compileDiagnostics: vscode.DiagnosticCollection | undefined;
+
+/** Library a local source was last compiled into, offered again next time. */
+let lastObjectLibrary = '*CURLIB';
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the command that compiles the current DSPF source on the connected IBM i.
+ * @param context - The VS Code extension context
+ */
+export function compileDspf(context: vscode.ExtensionContext): void {
+    compileDiagnostics = vscode.languages.createDiagnosticCollection(COMPILE_DIAGNOSTIC_SOURCE);
+    context.subscriptions.push(
+        compileDiagnostics,
+        vscode.commands.registerCommand("dspf-edit.compile-dspf", async () => {
+            await handleCompileDspfCommand();
+        })
+    );
+};
+
+/**
+ * Removes the compile's diagnostics of a document (e.g. once it's closed).
+ * @param uri - The document URI
+ */
+export function clearCompileDiagnostics(uri: vscode.Uri): void {
+    compileDiagnostics?.delete(uri);
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the compile DSPF command: runs CRTDSPF through the Code for i connection, on the member
+ * itself when the source is one (saved first), or on a copy of a local source in QTEMP, and shows
+ * the listing's messages as problems on their source lines.
+ */
+async function handleCompileDspfCommand(): Promise<void> {
+    // Check for editor and document
+    const { editor, document } = checkForEditorAndDocument();
+    if (!document || !editor) {
+        return;
+    };
+
+    const connection = getIBMiConnection();
+    if (!connection) {
+        vscode.window.showErrorMessage('No active IBM i connection. Connect via the Code for i extension first.');
+        return;
+    };
+
+    const member = parseMemberUri(document.uri);
+    let objectLibrary: string;
+    let objectName: string;
+    if (member) {
+        // CRTDSPF reads the member as saved
+        if (document.isDirty && !(await document.save())) {
+            vscode.window.showErrorMessage(`Could not save ${member.member} before compiling it.`);
+            return;
+        };
+        objectLibrary = member.library;
+        objectName = member.member;
+    } else {
+        const object = await askForObject(document);
+        if (!object) {
+            return;
+        };
+        ({ library: objectLibrary, name: objectName } = object);
+        lastObjectLibrary = objectLibrary;
+    };
+
+    let result: CompileResult;
+    try {
+        result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Compiling ${objectLibrary}/${objectName}...`, cancellable: false },
+            async () => compileDisplayFile(connection, objectLibrary, objectName, member ?? document.getText().split(/\r?\n/))
+        );
+    } catch (error) {
+        console.error('Error compiling the display file:', error);
+        vscode.window.showErrorMessage(`Could not compile ${objectLibrary}/${objectName}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    };
+
+    compileDiagnostics?.set(document.uri, result.messages.map(message => toDiagnostic(document, message)));
+    await reportCompileResult(result);
+};
+
+// HELPERS
+
+/**
+ * Asks where to create the display file of a local source: LIBRARY/NAME, the name defaulting to
+ * the source's file name and the library to the last one used.
+ * @param document - The local source
+ * @returns The library and name, or undefined when cancelled
+ */
+async function askForObject(document: vscode.TextDocument): Promise<{ library: string; name: string } | undefined> {
+    const fileName = document.uri.path.split('/').pop() ?? '';
+    const baseName = (fileName.includes('.') ? fileName.substring(0, fileName.lastIndexOf('.')) : fileName).toUpperCase();
+
+    const input = await vscode.window.showInputBox({
+        title: 'Compile DSPF',
+        prompt: 'Display file to create (LIBRARY/NAME); the source is copied to QTEMP to be compiled',
+        value: `${lastObjectLibrary}/${OBJECT_NAME.test(baseName) ? baseName : ''}`,
+        validateInput: value => {
+            const [library, name] = value.trim().toUpperCase().split('/');
+            if (name === undefined) {
+                return 'Enter the library and name, as LIBRARY/NAME.';
+            };
+            if (library !== '*CURLIB' && !OBJECT_NAME.test(library)) {
+                return `'${library}' is not a valid library name.`;
+            };
+            return OBJECT_NAME.test(name) ? null : `'${name}' is not a valid file name (up to 10 characters).`;
+        }
+    });
+    if (!input) {
+        return undefined;
+    };
+    const [library, name] = input.trim().toUpperCase().split('/');
+    return { library, name };
+};
+
+/**
+ * Turns a compile message into a diagnostic on its source line (the file's first line when it's
+ * about the whole file). Severity 20 and up stop the display file from being created.
+ * @param document - The compiled source
+ * @param message - The message
+ */
+function toDiagnostic(document: vscode.TextDocument, message: CompileMessage): vscode.Diagnostic {
+    const lineIndex = Math.min(message.lineIndex ?? 0, Math.max(document.lineCount - 1, 0));
+    const line = document.lineAt(lineIndex);
+    const range = line.isEmptyOrWhitespace
+        ? line.range
+        : new vscode.Range(lineIndex, line.firstNonWhitespaceCharacterIndex, lineIndex, line.text.trimEnd().length);
+    const severity = message.severity >= 20 ? vscode.DiagnosticSeverity.Error
+        : message.severity >= 10 ? vscode.DiagnosticSeverity.Warning
+            : vscode.DiagnosticSeverity.Information;
+
+    const diagnostic = new vscode.Diagnostic(range, `${message.text} (severity ${message.severity})`, severity);
+    diagnostic.source = COMPILE_DIAGNOSTIC_SOURCE;
+    diagnostic.code = message.id;
+    return diagnostic;
+};
+
+/**
+ * Tells whether the display file was created, offering the Problems panel when there are messages.
+ * @param result - The compile's outcome
+ */
+async function reportCompileResult(result: CompileResult): Promise<void> {
+    const errors = result.messages.filter(message => message.severity >= 20).length;
+    const others = result.messages.length - errors;
+    const counts = [
+        errors > 0 ? `${errors} error${errors === 1 ? '' : 's'}` : '',
+        others > 0 ? `${others} other message${others === 1 ? '' : 's'}` : ''
+    ].filter(Boolean).join(', ');
+
+    const summary = result.created
+        ? `Display file ${result.object} created${counts ? ` (${counts})` : ''}.`
+        : `Display file ${result.object} not created${counts ? `: ${counts}` : ''}.`;
+    const show = result.messages.length > 0 ? ['Show Problems'] : [];
+    const choice = result.created
+        ? await vscode.window.showInformationMessage(summary, ...show)
+        : await vscode.window.showErrorMessage(summary, ...show);
+    if (choice) {
+        await vscode.commands.executeCommand('workbench.actions.view.problems');
+    };
+};
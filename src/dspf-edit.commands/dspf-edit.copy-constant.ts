@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords, ConstantInfo, DdsConstant, AttributeWithIndicators } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel, ConstantInfo, DdsConstant, AttributeWithIndicators } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 /**
  * Interface for constant copy configuration
@@ -90,6 +90,7 @@ async function handleCopyConstantCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         // Validate the selected node
         const validationResult = validateNodeForCopy(node);
@@ -106,7 +107,7 @@ async function handleCopyConstantCommand(node: DdsNode): Promise<void> {
         const sourceElement = toConstantInfo(node.ddsElement as DdsConstant);
                 
         // Find the source record
-        const sourceRecord = findRecordContainingConstant(sourceElement.name, sourceElement.lineIndex);
+        const sourceRecord = findRecordContainingConstant(model, sourceElement.name, sourceElement.lineIndex);
         if (!sourceRecord) {
             vscode.window.showErrorMessage(`Could not determine source record for constant '${sourceElement.name}'.`);
             return;
@@ -157,10 +158,12 @@ function toConstantInfo(constant: DdsConstant): ConstantInfo {
             value: attr.value,
             indicators: attr.indicators,
             lineIndex: attr.lineIndex,
-            lastLineIndex: attr.lastLineIndex ?? attr.lineIndex
+            lastLineIndex: attr.lastLineIndex ?? attr.lineIndex,
+            conditionLineIndex: attr.conditionLineIndex
         })) ?? [],
         lineIndex: constant.lineIndex,
-        lastLineIndex: constant.lineIndex 
+        lastLineIndex: constant.lineIndex,
+        conditionLineIndex: constant.conditionLineIndex
     };
 };
 
@@ -186,9 +189,11 @@ function calculateConstantLength(constant: DdsConstant): number {
  * @returns The copy configuration or null if cancelled
  */
 async function collectCopyConfiguration(editor: vscode.TextEditor, sourceConstant: ConstantInfo, sourceRecord: string): Promise<CopyConstantConfig | null> {
+    const model = getDocumentModel(editor.document);
+
     
     // Step 1: Ask for target record (default to same record)
-    const targetRecord = await promptForTargetRecord(sourceRecord);
+    const targetRecord = await promptForTargetRecord(model, sourceRecord);
     if (!targetRecord) return null;
 
     // Step 2: Get constant content
@@ -211,12 +216,13 @@ async function collectCopyConfiguration(editor: vscode.TextEditor, sourceConstan
 /**
  * Prompts user to select target record
  * 
+ * @param model - The parsed model of the document
  * @param sourceRecord The source record name
  * @returns The selected target record name or null if cancelled
  */
-async function promptForTargetRecord(sourceRecord: string): Promise<string | null> {
+async function promptForTargetRecord(model: DdsDocumentModel, sourceRecord: string): Promise<string | null> {
     // Get all available records
-    const availableRecords = fieldsPerRecords.map(r => r.record);
+    const availableRecords = model.fieldsPerRecords.map(r => r.record);
     
     if (availableRecords.length === 0) {
         vscode.window.showErrorMessage('No records found in the current file.');
@@ -488,9 +494,13 @@ async function getRelativePosition(editor: vscode.TextEditor, targetRecord: stri
 async function generateCopiedConstantLines(editor: vscode.TextEditor, config: CopyConstantConfig): Promise<string[]> {
     const lines: string[] = [];
 
+    // Keep the constant's condition: the indicator-only lines above it and its own indicators
+    const source = config.sourceConstant;
+    lines.push(...copyConditionLines(editor, source.conditionLineIndex, source.lineIndex));
+
     // Generate the new constant content lines
     const newConstantValue = config.newName ? `'${config.newName}'` : `'${config.sourceConstant.name.slice(1, -1)}'`;
-    const constantContentLines = generateConstantContentLines(config, newConstantValue);
+    const constantContentLines = generateConstantContentLines(config, newConstantValue, getConditionZone(editor, source.lineIndex));
     
     // Add the constant content lines
     lines.push(...constantContentLines);
@@ -509,15 +519,16 @@ async function generateCopiedConstantLines(editor: vscode.TextEditor, config: Co
  * 
  * @param config The copy configuration
  * @param newConstantValue The new constant value to use
+ * @param conditionZone The source constant's condition (columns 7-16)
  * @returns Array of generated constant content lines
  */
-function generateConstantContentLines(config: CopyConstantConfig, newConstantValue: string): string[] {
+function generateConstantContentLines(config: CopyConstantConfig, newConstantValue: string, conditionZone: string): string[] {
     const lines: string[] = [];
     
-    // Create base line with position (row at raw 38-41, column at raw 41-44, each 3 chars wide)
+    // Create base line with condition and position (row at raw 38-41, column at raw 41-44, each 3 chars wide)
     const rowStr = config.targetPosition.row.toString().padStart(3, ' ');
     const colStr = config.targetPosition.column.toString().padStart(3, ' ');
-    const baseLine = `     A` + ' '.repeat(32) + `${rowStr}${colStr}`;
+    const baseLine = `     A` + conditionZone + ' '.repeat(22) + `${rowStr}${colStr}`;
 
     // Check if the new constant fits in a single line (36 characters or less)
     if (newConstantValue.length <= 36) {
@@ -576,8 +587,9 @@ async function generateAttributeLines(editor: vscode.TextEditor, attribute: Attr
         return copyOriginalAttributeLines(editor, attribute);
     };
 
-    // Generate new attribute lines with proper positioning
-    const attributeLines = generateAttributeContentLines(attribute, attributeValue, targetPosition);
+    // Keep the attribute's condition lines, then generate new attribute lines with proper positioning
+    lines.push(...copyConditionLines(editor, attribute.conditionLineIndex, attribute.lineIndex));
+    const attributeLines = generateAttributeContentLines(attribute, attributeValue, targetPosition, getConditionZone(editor, attribute.lineIndex));
     lines.push(...attributeLines);
 
     return lines;
@@ -626,20 +638,22 @@ function extractAttributeValue(editor: vscode.TextEditor, attribute: AttributeWi
  * @param attribute The attribute information
  * @param attributeValue The attribute value to use
  * @param targetPosition The target position for the attribute
+ * @param conditionZone The source attribute's condition (columns 7-16)
  * @returns Array of generated attribute content lines
  */
 function generateAttributeContentLines(
     attribute: AttributeWithIndicators,
     attributeValue: string,
-    targetPosition: { row: number; column: number }
+    targetPosition: { row: number; column: number },
+    conditionZone: string
 ): string[] {
     const lines: string[] = [];
     
-    // Create base line with position for the attribute (row at raw 38-41, column at raw 41-44, each 3 chars wide)
+    // Create base line with condition and position for the attribute (row at raw 38-41, column at raw 41-44, each 3 chars wide)
     const rowStr = targetPosition.row.toString().padStart(3, ' ');
     const colStr = targetPosition.column.toString().padStart(3, ' ');
 
-    const baseLine = `     A`+ ' '.repeat(32) + `${rowStr}${colStr}`;
+    const baseLine = `     A` + conditionZone + ' '.repeat(22) + `${rowStr}${colStr}`;
 
     // Check if the attribute value fits in a single line (36 characters or less)
     if (attributeValue.length <= 36) {
@@ -689,8 +703,8 @@ function copyOriginalAttributeLines(editor: vscode.TextEditor, attribute: Attrib
     const document = editor.document;
     const lines: string[] = [];
 
-    // Get the original attribute lines from the document
-    for (let lineIndex = attribute.lineIndex; lineIndex <= attribute.lastLineIndex; lineIndex++) {
+    // Get the original attribute lines from the document, with the condition lines above them
+    for (let lineIndex = attribute.conditionLineIndex ?? attribute.lineIndex; lineIndex <= attribute.lastLineIndex; lineIndex++) {
         if (lineIndex >= document.lineCount) break;
         
         const originalLine = document.lineAt(lineIndex).text;
@@ -700,6 +714,34 @@ function copyOriginalAttributeLines(editor: vscode.TextEditor, attribute: Attrib
     return lines;
 };
 
+/**
+ * Copies the indicator-only lines conditioning a line, as they are
+ * 
+ * @param editor The active VS Code text editor
+ * @param conditionLineIndex The first condition line, if there are any
+ * @param lineIndex The line they condition
+ * @returns Array of original condition lines
+ */
+function copyConditionLines(editor: vscode.TextEditor, conditionLineIndex: number | undefined, lineIndex: number): string[] {
+    const lines: string[] = [];
+    for (let index = conditionLineIndex ?? lineIndex; index < lineIndex && index < editor.document.lineCount; index++) {
+        lines.push(editor.document.lineAt(index).text);
+    };
+    return lines;
+};
+
+/**
+ * Reads a line's condition: the AND/OR column and the indicators (columns 7-16)
+ * 
+ * @param editor The active VS Code text editor
+ * @param lineIndex The line
+ * @returns The 10 condition columns, blank-padded
+ */
+function getConditionZone(editor: vscode.TextEditor, lineIndex: number): string {
+    const line = lineIndex < editor.document.lineCount ? editor.document.lineAt(lineIndex).text : '';
+    return line.padEnd(16, ' ').substring(6, 16);
+};
+
 /**
  * Inserts the copied constant into the target record
  * 
@@ -712,7 +754,7 @@ async function insertCopiedConstant(editor: vscode.TextEditor, targetRecord: str
     const uri = editor.document.uri;
 
     // Find insertion point in target record
-    const insertLineIndex = findConstantInsertionPoint(targetRecord);
+    const insertLineIndex = findConstantInsertionPoint(getDocumentModel(editor.document), targetRecord);
     
     // Build full block text with line breaks
     let blockText = constantLines.join('\n');
@@ -768,12 +810,13 @@ function validateNodeForCopy(node: DdsNode): ValidationResult {
 /**
  * Finds the record that contains a specific constant
  * 
+ * @param model - The parsed model of the document
  * @param constantName The name of the constant
  * @param lineIndex The line index where the constant is located
  * @returns The record name containing the constant or null if not found
  */
-function findRecordContainingConstant(constantName: string, lineIndex: number): string | null {
-    for (const record of fieldsPerRecords) {
+function findRecordContainingConstant(model: DdsDocumentModel, constantName: string, lineIndex: number): string | null {
+    for (const record of model.fieldsPerRecords) {
         if (lineIndex >= record.startIndex && lineIndex <= record.endIndex) {
             return record.record;
         };
@@ -821,7 +864,8 @@ async function isPositionAvailable(editor: vscode.TextEditor, recordName: string
  * @returns Array of existing elements in the record
  */
 async function getExistingElementsInRecord(editor: vscode.TextEditor, recordName: string): Promise<ExistingElementInfo[]> {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+    const model = getDocumentModel(editor.document);
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!record) return [];
 
     const elements: ExistingElementInfo[] = [];
@@ -864,11 +908,12 @@ async function getExistingElementsInRecord(editor: vscode.TextEditor, recordName
 /**
  * Finds the insertion point for a new constant in a record
  * 
+ * @param model - The parsed model of the document
  * @param recordName The record name to find insertion point in
  * @returns The line index where the constant should be inserted
  */
-function findConstantInsertionPoint(recordName: string): number {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+function findConstantInsertionPoint(model: DdsDocumentModel, recordName: string): number {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!record) return 0;
     
     // Constants are typically placed after fields, so insert at record end
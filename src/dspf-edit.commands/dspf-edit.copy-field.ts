@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords, FieldInfo, DdsField } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel, FieldInfo, DdsField } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 /**
  * Interface for field copy configuration
@@ -105,6 +105,7 @@ async function handleCopyFieldCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         // Validate the selected node
         const validationResult = validateNodeForCopy(node);
@@ -123,7 +124,7 @@ async function handleCopyFieldCommand(node: DdsNode): Promise<void> {
         const sourceElement = toFieldInfo(node.ddsElement as DdsField);
                 
         // Find the record containing the source field
-        const sourceRecord = findRecordContainingField(sourceElement.name, sourceElement.lineIndex);
+        const sourceRecord = findRecordContainingField(model, sourceElement.name, sourceElement.lineIndex);
         if (!sourceRecord) {
             vscode.window.showErrorMessage(`Could not determine source record for field '${sourceElement.name}'.`);
             return;
@@ -180,11 +181,13 @@ function toFieldInfo(field: DdsField): FieldInfo {
             value: attr.value,
             indicators: attr.indicators,
             lineIndex: attr.lineIndex,
-            lastLineIndex: attr.lastLineIndex ?? attr.lineIndex
+            lastLineIndex: attr.lastLineIndex ?? attr.lineIndex,
+            conditionLineIndex: attr.conditionLineIndex
         })) ?? [],
         indicators: field.indicators,
         lineIndex: field.lineIndex,
-        lastLineIndex: field.lineIndex 
+        lastLineIndex: field.lineIndex,
+        conditionLineIndex: field.conditionLineIndex
     };
 };
 
@@ -215,13 +218,15 @@ function isFieldHidden(field: DdsField): boolean {
  * @returns Complete copy configuration or null if user cancelled
  */
 async function collectCopyConfiguration(editor: vscode.TextEditor, sourceField: FieldInfo, sourceRecord: string, isHidden: boolean): Promise<CopyFieldConfig | null> {
+    const model = getDocumentModel(editor.document);
+
     
     // Step 1: Ask for target record (default to same record)
-    const targetRecord = await promptForTargetRecord(sourceRecord);
+    const targetRecord = await promptForTargetRecord(model, sourceRecord);
     if (!targetRecord) return null;
 
     // Step 2: Get new field name
-    const newName = await promptForCopiedFieldName(sourceField, targetRecord);
+    const newName = await promptForCopiedFieldName(model, sourceField, targetRecord);
     if (!newName) return null;
 
     // Step 3: Get target position (only if field is not hidden)
@@ -247,12 +252,13 @@ async function collectCopyConfiguration(editor: vscode.TextEditor, sourceField:
  * Presents a quick pick list of available records, with the source record
  * shown first as the default option.
  * 
+ * @param model - The parsed model of the document
  * @param sourceRecord - Name of the source record (shown as default)
  * @returns Selected target record name or null if cancelled
  */
-async function promptForTargetRecord(sourceRecord: string): Promise<string | null> {
+async function promptForTargetRecord(model: DdsDocumentModel, sourceRecord: string): Promise<string | null> {
     // Get all available records from the global state
-    const availableRecords = fieldsPerRecords.map(r => r.record);
+    const availableRecords = model.fieldsPerRecords.map(r => r.record);
     
     if (availableRecords.length === 0) {
         vscode.window.showErrorMessage('No records found in the current file.');
@@ -293,20 +299,21 @@ async function promptForTargetRecord(sourceRecord: string): Promise<string | nul
  * Shows an input box with a suggested default name and validates
  * the input according to DDS field naming rules.
  * 
+ * @param model - The parsed model of the document
  * @param sourceField - Information about the source field
  * @param targetRecord - Name of the target record
  * @returns New field name or null if cancelled
  */
-async function promptForCopiedFieldName(sourceField: FieldInfo, targetRecord: string): Promise<string | null> {
+async function promptForCopiedFieldName(model: DdsDocumentModel, sourceField: FieldInfo, targetRecord: string): Promise<string | null> {
     // Suggest a default name (original name + copy suffix or increment)
-    const defaultName = generateDefaultCopyName(sourceField.name, targetRecord);
+    const defaultName = generateDefaultCopyName(model, sourceField.name, targetRecord);
 
     const newName = await vscode.window.showInputBox({
         title: `Copy field '${sourceField.name}' to record '${targetRecord}'`,
         prompt: "Enter the new field name (max 10 characters, no spaces, cannot start with number)",
         placeHolder: defaultName,
         value: defaultName,
-        validateInput: (value: string) => validateCopiedFieldName(value, targetRecord)
+        validateInput: (value: string) => validateCopiedFieldName(model, value, targetRecord)
     });
 
     return newName?.trim().toUpperCase() || null;
@@ -321,17 +328,18 @@ async function promptForCopiedFieldName(sourceField: FieldInfo, targetRecord: st
  * 3. Shortening the base name if needed
  * 4. Falling back to 'NEWFIELD' as last resort
  * 
+ * @param model - The parsed model of the document
  * @param originalName - The original field name
  * @param targetRecord - The target record name
  * @returns A suggested unique field name
  */
-function generateDefaultCopyName(originalName: string, targetRecord: string): string {
+function generateDefaultCopyName(model: DdsDocumentModel, originalName: string, targetRecord: string): string {
     let baseName = originalName;
     let counter = 1;
     let suggestedName = baseName;
 
     // Try with original name first
-    if (!fieldExistsInRecord(suggestedName, targetRecord)) {
+    if (!fieldExistsInRecord(model, suggestedName, targetRecord)) {
         return suggestedName;
     };
 
@@ -341,7 +349,7 @@ function generateDefaultCopyName(originalName: string, targetRecord: string): st
         const nameWithoutSuffix = baseName.substring(0, Math.min(baseName.length, 8)); // Leave room for suffix
         suggestedName = `${nameWithoutSuffix}${suffix}`;
         
-        if (suggestedName.length <= 10 && !fieldExistsInRecord(suggestedName, targetRecord)) {
+        if (suggestedName.length <= 10 && !fieldExistsInRecord(model, suggestedName, targetRecord)) {
             return suggestedName;
         };
         counter++;
@@ -350,7 +358,7 @@ function generateDefaultCopyName(originalName: string, targetRecord: string): st
     // Fallback: try shortening the base name
     for (let i = baseName.length - 1; i >= 1; i--) {
         const shortName = baseName.substring(0, i);
-        if (!fieldExistsInRecord(shortName, targetRecord)) {
+        if (!fieldExistsInRecord(model, shortName, targetRecord)) {
             return shortName;
         };
     };
@@ -369,11 +377,12 @@ function generateDefaultCopyName(originalName: string, targetRecord: string): st
  * - Only valid characters (letters, numbers, @, #, $, _, -)
  * - Must be unique in the target record
  * 
+ * @param model - The parsed model of the document
  * @param value - The field name to validate
  * @param targetRecord - The target record name
  * @returns Validation error message or null if valid
  */
-function validateCopiedFieldName(value: string, targetRecord: string): string | null {
+function validateCopiedFieldName(model: DdsDocumentModel, value: string, targetRecord: string): string | null {
     const trimmedValue = value.trim();
     
     if (trimmedValue === '') {
@@ -397,7 +406,7 @@ function validateCopiedFieldName(value: string, targetRecord: string): string |
     };
 
     // Check if field already exists in target record
-    if (fieldExistsInRecord(trimmedValue.toUpperCase(), targetRecord)) {
+    if (fieldExistsInRecord(model, trimmedValue.toUpperCase(), targetRecord)) {
         return `Field '${trimmedValue.toUpperCase()}' already exists in record '${targetRecord}'.`;
     };
     
@@ -620,8 +629,9 @@ async function generateCopiedFieldLines(editor: vscode.TextEditor, config: CopyF
     const document = editor.document;
     const lines: string[] = [];
 
-    // Get all lines for the source field (main line + continuation lines)
-    const startLine = config.sourceField.lineIndex;
+    // Get all lines for the source field (its condition lines, main line + continuation lines)
+    const fieldLine = config.sourceField.lineIndex;
+    const startLine = config.sourceField.conditionLineIndex ?? fieldLine;
     let endLine = config.sourceField.lastLineIndex;
     
     // Add field attributes lines to determine the full range
@@ -638,8 +648,8 @@ async function generateCopiedFieldLines(editor: vscode.TextEditor, config: CopyF
         const originalLine = document.lineAt(lineIndex).text;
         let copiedLine = originalLine;
 
-        // For the first line, update name and position
-        if (lineIndex === startLine) {
+        // For the field's own line, update name and position
+        if (lineIndex === fieldLine) {
             copiedLine = updateMainFieldLine(originalLine, config, isHidden);
         };
         // For continuation lines, just copy as-is (they contain attributes/indicators)
@@ -714,7 +724,7 @@ async function insertCopiedField(editor: vscode.TextEditor, targetRecord: string
     const uri = editor.document.uri;
 
     // Find insertion point in target record
-    const insertLineIndex = findFieldInsertionPoint(targetRecord);
+    const insertLineIndex = findFieldInsertionPoint(getDocumentModel(editor.document), targetRecord);
     
     // Build full block text with line breaks
     let blockText = fieldLines.join('\n');
@@ -776,12 +786,13 @@ function validateNodeForCopy(node: DdsNode): ValidationResult {
  * Searches through all records to find which one contains
  * the field at the specified line index.
  * 
+ * @param model - The parsed model of the document
  * @param fieldName - Name of the field to find
  * @param lineIndex - Line index where the field is defined
  * @returns Record name or null if not found
  */
-function findRecordContainingField(fieldName: string, lineIndex: number): string | null {
-    for (const record of fieldsPerRecords) {
+function findRecordContainingField(model: DdsDocumentModel, fieldName: string, lineIndex: number): string | null {
+    for (const record of model.fieldsPerRecords) {
         if (lineIndex >= record.startIndex && lineIndex <= record.endIndex) {
             return record.record;
         };
@@ -795,12 +806,13 @@ function findRecordContainingField(fieldName: string, lineIndex: number): string
  * Searches the specified record to see if a field with
  * the given name already exists.
  * 
+ * @param model - The parsed model of the document
  * @param fieldName - Name of the field to check
  * @param recordName - Name of the record to search in
  * @returns True if field exists, false otherwise
  */
-function fieldExistsInRecord(fieldName: string, recordName: string): boolean {
-    const record = fieldsPerRecords.find(r => 
+function fieldExistsInRecord(model: DdsDocumentModel, fieldName: string, recordName: string): boolean {
+    const record = model.fieldsPerRecords.find(r => 
         r.record.toUpperCase() === recordName.toUpperCase()
     );
     
@@ -857,7 +869,8 @@ async function isPositionAvailable(editor: vscode.TextEditor, recordName: string
  * @returns Array of existing elements with position information
  */
 async function getExistingElementsInRecord(editor: vscode.TextEditor, recordName: string): Promise<ExistingElementInfo[]> {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+    const model = getDocumentModel(editor.document);
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!record) return [];
 
     const elements: ExistingElementInfo[] = [];
@@ -905,11 +918,12 @@ async function getExistingElementsInRecord(editor: vscode.TextEditor, recordName
  * Determines the line index where a new field should be inserted
  * within the target record (typically at the end of the record).
  * 
+ * @param model - The parsed model of the document
  * @param recordName - Name of the record where field will be inserted
  * @returns Line index for insertion
  */
-function findFieldInsertionPoint(recordName: string): number {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+function findFieldInsertionPoint(model: DdsDocumentModel, recordName: string): number {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!record) return 0;
     
     // Insert at the end of the record
@@ -6,7 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { checkForEditorAndDocument, recordExists, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, recordExists, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
 
@@ -58,6 +59,7 @@ async function handleCopyRecordCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -75,7 +77,7 @@ async function handleCopyRecordCommand(node: DdsNode): Promise<void> {
         };
 
         // Collect new record name from user
-        const newRecordName = await collectNewRecordName(element.name);
+        const newRecordName = await collectNewRecordName(model, element.name);
         if (!newRecordName) {
             // User cancelled the operation
             return;
@@ -115,15 +117,16 @@ async function handleCopyRecordCommand(node: DdsNode): Promise<void> {
 
 /**
  * Collects and validates the new record name from user input.
+ * @param model - The parsed model of the document
  * @param originalName - Name of the record being copied
  * @returns Valid new record name or null if cancelled
  */
-async function collectNewRecordName(originalName: string): Promise<string | null> {
+async function collectNewRecordName(model: DdsDocumentModel, originalName: string): Promise<string | null> {
     const newName = await vscode.window.showInputBox({
         title: 'Copy Record - New Record Name',
         prompt: 'Enter the name for the new record',
         placeHolder: `${originalName}_COPY`,
-        validateInput: (value: string) => validateNewRecordName(value, originalName)
+        validateInput: (value: string) => validateNewRecordName(model, value, originalName)
     });
 
     return newName?.toUpperCase().trim() || null;
@@ -133,11 +136,12 @@ async function collectNewRecordName(originalName: string): Promise<string | null
 
 /**
  * Validates the new record name according to DDS rules.
+ * @param model - The parsed model of the document
  * @param value - The new record name to validate
  * @param originalName - The original record name being copied
  * @returns Error message or null if valid
  */
-function validateNewRecordName(value: string, originalName: string): string | null {
+function validateNewRecordName(model: DdsDocumentModel, value: string, originalName: string): string | null {
     if (!value || value.trim() === '') {
         return "The record name cannot be empty.";
     };
@@ -164,7 +168,7 @@ function validateNewRecordName(value: string, originalName: string): string | nu
         return "The new record name cannot be the same as the original.";
     };
 
-    if (recordExists(trimmedValue.toUpperCase())) {
+    if (recordExists(model, trimmedValue.toUpperCase())) {
         return "A record with this name already exists.";
     };
 
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fileSizeAttributes, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, findEndLineIndex, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, findEndLineIndex, applyWorkspaceEdit, getDocumentModel, getMaxRows, getMaxCols } from '../dspf-edit.utils/dspf-edit.helper';
 
 // TYPE DEFINITIONS
 
@@ -40,26 +40,6 @@ interface ExistingConstantInfo {
     lineIndex: number;
 };
 
-/**
- * Gets the maximum rows value from fileSizeAttributes
- */
-function getMaxRows(): number {
-    const maxRow1 = fileSizeAttributes.maxRow1 || 0;
-    const maxRow2 = fileSizeAttributes.maxRow2 || 0;
-    const maxRow = Math.max(maxRow1, maxRow2);
-    return maxRow > 0 ? maxRow : 27;
-};
-
-/**
- * Gets the maximum columns value from fileSizeAttributes
- */
-function getMaxCols(): number {
-    const maxCol1 = fileSizeAttributes.maxCol1 || 0;
-    const maxCol2 = fileSizeAttributes.maxCol2 || 0;
-    const maxCol = Math.max(maxCol1, maxCol2);
-    return maxCol > 0 ? maxCol : 132;
-};
-
 // COMMAND REGISTRATION FUNCTIONS
 
 /**
@@ -211,13 +191,14 @@ async function getNewConstantInfo(editor: vscode.TextEditor, contextNode?: DdsNo
  * @returns Position information or null if cancelled
  */
 async function getConstantPosition(editor: vscode.TextEditor, contextNode?: DdsNode): Promise<ConstantPosition | null> {
+    const model = getDocumentModel(editor.document);
     // If we have a record context, suggest positions within that record
     if (contextNode && contextNode.ddsElement.kind === 'record') {
         return await getPositionForRecord(editor, contextNode.ddsElement);
     };
 
     // Otherwise, ask for manual position entry
-    return await getManualPosition();
+    return await getManualPosition(model);
 };
 
 /**
@@ -226,6 +207,7 @@ async function getConstantPosition(editor: vscode.TextEditor, contextNode?: DdsN
  * @returns Position information or null if cancelled
  */
 async function getPositionForRecord(editor: vscode.TextEditor, recordElement: any): Promise<ConstantPosition | null> {
+    const model = getDocumentModel(editor.document);
     // First ask if user wants relative or absolute positioning
     const positioningType = await vscode.window.showQuickPick(
         [
@@ -251,7 +233,7 @@ async function getPositionForRecord(editor: vscode.TextEditor, recordElement: an
     if (positioningType.value === "relative") {
         return await getRelativePosition(editor, recordElement);
     } else {
-        return await getAbsolutePositionForRecord(recordElement);
+        return await getAbsolutePositionForRecord(model, recordElement);
     }
 };
 
@@ -261,12 +243,13 @@ async function getPositionForRecord(editor: vscode.TextEditor, recordElement: an
  * @returns Position information or null if cancelled
  */
 async function getRelativePosition(editor: vscode.TextEditor, recordElement: any): Promise<ConstantPosition | null> {
+    const model = getDocumentModel(editor.document);
     // Get existing constants in this record
     const existingConstants = await getExistingConstantsInRecord(recordElement.name, editor);
     
     if (existingConstants.length === 0) {
         vscode.window.showInformationMessage("No existing constants found in this record. Using absolute positioning.");
-        return await getAbsolutePositionForRecord(recordElement);
+        return await getAbsolutePositionForRecord(model, recordElement);
     };
 
     // Show constants for selection
@@ -314,7 +297,7 @@ async function getRelativePosition(editor: vscode.TextEditor, recordElement: any
         : referenceConstant.row + 1;
 
     // Validate the new row position
-    const maxRows = getMaxRows();
+    const maxRows = getMaxRows(model);
     if (newRow < 1 || newRow > maxRows) {
         vscode.window.showErrorMessage(`Cannot position constant at row ${newRow}. Row must be between 1 and ${maxRows}.`);
         return null;
@@ -330,19 +313,20 @@ async function getRelativePosition(editor: vscode.TextEditor, recordElement: any
 
 /**
  * Gets absolute position information for a record.
+ * @param model - The parsed model of the document
  * @param recordElement - The record element
  * @returns Position information or null if cancelled
  */
-async function getAbsolutePositionForRecord(recordElement: any): Promise<ConstantPosition | null> {
+async function getAbsolutePositionForRecord(model: DdsDocumentModel, recordElement: any): Promise<ConstantPosition | null> {
     const row = await vscode.window.showInputBox({
         title: `Enter row position for constant in record ${recordElement.name}`,
-        validateInput: value => validateRowInput(value)
+        validateInput: value => validateRowInput(model, value)
     });
     if (!row) return null;
 
     const column = await vscode.window.showInputBox({
         title: "Enter column position for constant",
-        validateInput: value => validateColumnInput(value)
+        validateInput: value => validateColumnInput(model, value)
     });
     if (!column) return null;
 
@@ -355,9 +339,10 @@ async function getAbsolutePositionForRecord(recordElement: any): Promise<Constan
 
 /**
  * Gets position information through manual entry.
+ * @param model - The parsed model of the document
  * @returns Position information or null if cancelled
  */
-async function getManualPosition(): Promise<ConstantPosition | null> {
+async function getManualPosition(model: DdsDocumentModel): Promise<ConstantPosition | null> {
     const recordName = await vscode.window.showInputBox({
         title: "Enter record name for the constant",
         validateInput: value => value.trim() === '' ? "Record name cannot be empty" : null
@@ -366,13 +351,13 @@ async function getManualPosition(): Promise<ConstantPosition | null> {
 
     const row = await vscode.window.showInputBox({
         title: "Enter row position for constant",
-        validateInput: value => validateRowInput(value)
+        validateInput: value => validateRowInput(model, value)
     });
     if (!row) return null;
 
     const column = await vscode.window.showInputBox({
         title: "Enter column position for constant",
-        validateInput: value => validateColumnInput(value)
+        validateInput: value => validateColumnInput(model, value)
     });
     if (!column) return null;
 
@@ -391,12 +376,13 @@ async function getManualPosition(): Promise<ConstantPosition | null> {
 async function getExistingConstantsInRecord(recordName: string, editor : vscode.TextEditor): Promise<ExistingConstantInfo[]> {
     
     if (!editor) return [];
+    const model = getDocumentModel(editor.document);
 
     const constants: ExistingConstantInfo[] = [];
     const document = editor.document;
     
     // Find record boundaries
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!recordInfo) return [];
 
     // Scan through the record lines to find constants
@@ -500,11 +486,12 @@ function validateConstantText(value: string): string | null {
 
 /**
  * Validates row input.
+ * @param model - The parsed model of the document
  * @param value - The row value to validate
  * @returns Error message or null if valid
  */
-function validateRowInput(value: string): string | null {
-    const maxRows = getMaxRows();
+function validateRowInput(model: DdsDocumentModel, value: string): string | null {
+    const maxRows = getMaxRows(model);
     const num = parseInt(value, 10);
     if (isNaN(num) || num < 1 || num > maxRows) {
         return `Row must be a number between 1 and ${maxRows}.`;
@@ -514,11 +501,12 @@ function validateRowInput(value: string): string | null {
 
 /**
  * Validates column input.
+ * @param model - The parsed model of the document
  * @param value - The column value to validate
  * @returns Error message or null if valid
  */
-function validateColumnInput(value: string): string | null {
-    const maxCols = getMaxCols();
+function validateColumnInput(model: DdsDocumentModel, value: string): string | null {
+    const maxCols = getMaxCols(model);
     const num = parseInt(value, 10);
     if (isNaN(num) || num < 1 || num > maxCols) {
         return `Column must be a number between 1 and ${maxCols}.`;
@@ -730,8 +718,9 @@ function createMultiLineConstantFromBase(baseLine: string, value: string): strin
  * @returns The line number where the constant should be inserted
  */
 function findConstantInsertionPoint(editor: vscode.TextEditor, recordName: string): number {
+    const model = getDocumentModel(editor.document);
     // The constant must be inserted in the last line of the record (in the DDS source file)
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!recordInfo) {
         return 0;
     }
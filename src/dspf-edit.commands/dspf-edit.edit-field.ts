@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fileSizeAttributes, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, parseSize } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, parseSize, getDocumentModel, getMaxRows, getMaxCols } from '../dspf-edit.utils/dspf-edit.helper';
 
 /**
  * Interface defining the structure of a field's size properties
@@ -44,7 +44,7 @@ interface FieldUsage {
 /**
  * Available field usage types for DDS (position 38)
  */
-const FIELD_USAGE_TYPES = {
+export const FIELD_USAGE_TYPES = {
     'I': { label: 'Input only', description: 'Field passes data from display to program' },
     'O': { label: 'Output only', description: 'Field passes data from program to display' },
     'B': { label: 'Both (Input/Output)', description: 'Field can pass data in both directions' },
@@ -102,7 +102,7 @@ interface ExistingElementInfo {
  * Available field types for DDS based on IBM official documentation
  * Updated with correct length requirements based on IBM System i Programming DDS manual
  */
-const FIELD_TYPES = {
+export const FIELD_TYPES = {
     // Character data types - require length
     'A': { label: 'A - Alphanumeric shift', hasLength: true, hasDecimals: false, description: 'Character field with alphanumeric shift', keyboardShift: 'A' },
     'X': { label: 'X - Alphabetic only', hasLength: true, hasDecimals: false, description: 'Character field, only A-Z, comma, period, dash, space', keyboardShift: 'X' },
@@ -158,26 +158,6 @@ const FIELD_CONSTANTS = {
     NUMERIC_TYPES: ['Y', 'P', 'S', 'Z'] as const
 } as const;
 
-/**
- * Gets the maximum rows value from fileSizeAttributes
- */
-function getMaxRows(): number {
-    const maxRow1 = fileSizeAttributes.maxRow1 || 0;
-    const maxRow2 = fileSizeAttributes.maxRow2 || 0;
-    const maxRow = Math.max(maxRow1, maxRow2);
-    return maxRow > 0 ? maxRow : 27;
-}
-
-/**
- * Gets the maximum columns value from fileSizeAttributes
- */
-function getMaxCols(): number {
-    const maxCol1 = fileSizeAttributes.maxCol1 || 0;
-    const maxCol2 = fileSizeAttributes.maxCol2 || 0;
-    const maxCol = Math.max(maxCol1, maxCol2);
-    return maxCol > 0 ? maxCol : 132;
-}
-
 /**
  * Registers both field editing and adding commands for the VS Code extension
  * 
@@ -316,20 +296,17 @@ async function handleAddFieldCommand(node: DdsNode): Promise<void> {
  * absolute/relative positioning sub-flow). Collects the same name + quick kind/usage/size (or, via
  * "More options...", the full usage/referenced/type flow) as the tree's "Add field" command, just
  * skipping the position-picking step.
+ * @param editor - The editor showing the document the field is added to
  * @param recordName - Name of the record to add the field to
  * @param position - Row/column already determined (e.g. by a preview click); ignored for usage
  * types that don't have a screen position (Hidden, Message, Program-to-system)
  */
-export async function addFieldAtPosition(recordName: string, position: FieldPosition): Promise<void> {
+export async function addFieldAtPosition(editor: vscode.TextEditor, recordName: string, position: FieldPosition): Promise<void> {
     try {
-        const { editor } = checkForEditorAndDocument();
-        if (!editor) {
-            return;
-        };
-
+        const model = getDocumentModel(editor.document);
         const recordElement = { name: recordName };
 
-        const fieldName = await promptForNewFieldName(recordElement);
+        const fieldName = await promptForNewFieldName(model, recordElement);
         if (!fieldName) return;
 
         const quickKind = await collectQuickFieldKind(fieldName);
@@ -522,7 +499,8 @@ async function collectAdvancedFieldDefinition(fieldName: string): Promise<{
  * @returns The field's name (for the success message) and its generated source line, or null if cancelled
  */
 async function collectNewFieldConfiguration(editor: vscode.TextEditor, recordElement: any): Promise<{ name: string; line: string } | null> {
-    const fieldName = await promptForNewFieldName(recordElement);
+    const model = getDocumentModel(editor.document);
+    const fieldName = await promptForNewFieldName(model, recordElement);
     if (!fieldName) return null;
 
     const quickKind = await collectQuickFieldKind(fieldName);
@@ -566,13 +544,14 @@ async function collectNewFieldConfiguration(editor: vscode.TextEditor, recordEle
 
 /**
  * Prompts for new field name with validation against existing fields
+ * @param model - The parsed model of the document
  */
-async function promptForNewFieldName(recordElement: any): Promise<string | undefined> {
+async function promptForNewFieldName(model: DdsDocumentModel, recordElement: any): Promise<string | undefined> {
     const newName = await vscode.window.showInputBox({
         title: `Add new field to record '${recordElement.name}'`,
         prompt: "Enter the field name (max 10 characters, no spaces, cannot start with number)",
         placeHolder: "NEWFIELD",
-        validateInput: (value: string) => validateNewFieldName(value, recordElement)
+        validateInput: (value: string) => validateNewFieldName(model, value, recordElement)
     });
 
     return newName?.trim().toUpperCase();
@@ -580,15 +559,16 @@ async function promptForNewFieldName(recordElement: any): Promise<string | undef
 
 /**
  * Validates new field name ensuring it doesn't exist in the record
+ * @param model - The parsed model of the document
  */
-function validateNewFieldName(value: string, recordElement: any): string | null {
+function validateNewFieldName(model: DdsDocumentModel, value: string, recordElement: any): string | null {
     const basicValidation = validateFieldNameFormat(value);
     if (basicValidation) return basicValidation;
 
     const trimmedValue = value.trim().toUpperCase();
 
     // Check if field already exists in the record
-    if (fieldExists(trimmedValue, recordElement.name)) {
+    if (fieldExists(model, trimmedValue, recordElement.name)) {
         return `Field '${trimmedValue}' already exists in record '${recordElement.name}'.`;
     };
 
@@ -848,6 +828,7 @@ function validateFieldLength(value: string): string | null {
  * Collects field position information with relative positioning options
  */
 async function collectFieldPosition(editor: vscode.TextEditor, fieldName: string, recordElement: any, fieldSize?: FieldSize): Promise<FieldPosition | null> {
+    const model = getDocumentModel(editor.document);
     // First ask if user wants relative or absolute positioning
     const positioningType = await vscode.window.showQuickPick(
         [
@@ -873,7 +854,7 @@ async function collectFieldPosition(editor: vscode.TextEditor, fieldName: string
     if (positioningType.value === "relative") {
         return await getRelativeFieldPosition(editor, recordElement, fieldSize);
     } else {
-        return await getAbsoluteFieldPosition(fieldName);
+        return await getAbsoluteFieldPosition(model, fieldName);
     };
 };
 
@@ -881,12 +862,13 @@ async function collectFieldPosition(editor: vscode.TextEditor, fieldName: string
  * Gets relative position information based on existing fields and constants
  */
 async function getRelativeFieldPosition(editor: vscode.TextEditor, recordElement: any, fieldSize?: FieldSize): Promise<FieldPosition | null> {
+    const model = getDocumentModel(editor.document);
     // Get existing elements (fields and constants) in this record
     const existingElements = await getExistingElementsInRecord(editor, recordElement.name);
     
     if (existingElements.length === 0) {
         vscode.window.showInformationMessage("No existing fields or constants found in this record. Using absolute positioning.");
-        return await getAbsoluteFieldPosition("field");
+        return await getAbsoluteFieldPosition(model, "field");
     };
 
     // Show elements for selection
@@ -962,8 +944,8 @@ async function getRelativeFieldPosition(editor: vscode.TextEditor, recordElement
     };
 
     // Validate the new position
-    const maxRows = getMaxRows();
-    const maxCols = getMaxCols();
+    const maxRows = getMaxRows(model);
+    const maxCols = getMaxCols(model);
 
     if (newRow < 1 || newRow > maxRows) {
         vscode.window.showErrorMessage(`Cannot position field at row ${newRow}. Row must be between 1 and ${maxRows}.`);
@@ -989,10 +971,11 @@ async function getRelativeFieldPosition(editor: vscode.TextEditor, recordElement
 
 /**
  * Gets absolute position information for a field
+ * @param model - The parsed model of the document
  */
-async function getAbsoluteFieldPosition(fieldName: string): Promise<FieldPosition | null> {
-    const maxRows = getMaxRows();
-    const maxCols = getMaxCols();
+async function getAbsoluteFieldPosition(model: DdsDocumentModel, fieldName: string): Promise<FieldPosition | null> {
+    const maxRows = getMaxRows(model);
+    const maxCols = getMaxCols(model);
 
     // Get row position
     const row = await vscode.window.showInputBox({
@@ -1022,13 +1005,14 @@ async function getAbsoluteFieldPosition(fieldName: string): Promise<FieldPositio
  * Gets existing elements (fields and constants) in a specific record
  */
 async function getExistingElementsInRecord(editor: vscode.TextEditor, recordName: string): Promise<ExistingElementInfo[]> {
+    const model = getDocumentModel(editor.document);
     if (!editor) return [];
 
     const elements: ExistingElementInfo[] = [];
     const document = editor.document;
     
     // Find record boundaries
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!recordInfo) return [];
 
     // Scan through the record lines to find fields and constants
@@ -1255,8 +1239,9 @@ export async function insertNewField(editor: vscode.TextEditor, recordElement: a
  * Finds the appropriate line to insert a new field
  */
 function findFieldInsertionPoint(editor: vscode.TextEditor, recordName: string): number {
+    const model = getDocumentModel(editor.document);
     // The field must be inserted in the last line of the record (in the DDS source file)
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!recordInfo) {
         return 0;
     }
@@ -1270,13 +1255,14 @@ function findFieldInsertionPoint(editor: vscode.TextEditor, recordName: string):
 /**
  * Checks if a field already exists in the specified record using the parsed model data
  * 
+ * @param model - The parsed model of the document
  * @param fieldName - The field name to check (case-insensitive)
  * @param recordName - The record name to search in
  * @returns true if field exists, false otherwise
  */
-function fieldExists(fieldName: string, recordName: string): boolean {
+function fieldExists(model: DdsDocumentModel, fieldName: string, recordName: string): boolean {
     // Find the record in the parsed data
-    const record = fieldsPerRecords.find(r => 
+    const record = model.fieldsPerRecords.find(r => 
         r.record.toUpperCase() === recordName.toUpperCase()
     );
     
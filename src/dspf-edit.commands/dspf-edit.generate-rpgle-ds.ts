@@ -0,0 +1,224 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.generate-rpgle-ds.ts
+*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
+import { DdsAttribute, DdsDocumentModel, DdsField } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { getIBMiConnection, getResolvedRef, resolveReferencedField } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+// TYPE DEFINITIONS
+
+/** Type, length and decimals of a field, once a referenced field's are known. */
+interface FieldDefinition {
+    type?: string;
+    length?: number;
+    decimals?: number;
+    /** Whether decimal positions are coded (or resolved), making the field numeric */
+    decimalsCoded?: boolean;
+};
+
+/** Data types that are numeric in a display file (and zoned in its record buffer). */
+const NUMERIC_TYPES = ['S', 'Y', 'P', 'B'];
+
+/** Where the generated structure goes. */
+const OPEN_IN_EDITOR = 'Open in New Editor';
+const COPY_TO_CLIPBOARD = 'Copy to Clipboard';
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the command that generates an RPGLE free-format data structure from a record.
+ * @param context - The VS Code extension context
+ */
+export function generateRpgleDataStructure(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.generate-rpgle-ds", async (node: DdsNode) => {
+            await handleGenerateRpgleDataStructureCommand(node);
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the generate RPGLE data structure command: builds a qualified data structure with one
+ * subfield per field of the record, then opens it in a new editor or copies it to the clipboard.
+ * @param node - The record's node in the DDS tree
+ */
+async function handleGenerateRpgleDataStructureCommand(node: DdsNode): Promise<void> {
+    try {
+        const element = node?.ddsElement;
+        if (element?.kind !== 'record') {
+            vscode.window.showWarningMessage('Data structures can only be generated from records.');
+            return;
+        };
+
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+
+        const model = getDocumentModel(document);
+        const fields = model.elements.filter((candidate): candidate is DdsField =>
+            candidate.kind === 'field' && candidate.recordname === element.name
+        );
+        if (fields.length === 0) {
+            vscode.window.showInformationMessage(`Record ${element.name} has no fields.`);
+            return;
+        };
+
+        const unresolved = await resolveReferencedFields(model, fields);
+        const source = buildRpgleDataStructure(model, element.name, fields, path.parse(document.uri.path).name);
+
+        const destination = await vscode.window.showQuickPick([OPEN_IN_EDITOR, COPY_TO_CLIPBOARD], {
+            title: `RPGLE Data Structure for ${element.name}`,
+            placeHolder: 'Where to put the generated data structure'
+        });
+        if (!destination) {
+            return;
+        };
+
+        if (destination === OPEN_IN_EDITOR) {
+            const generated = await vscode.workspace.openTextDocument({ language: 'rpgle', content: source });
+            await vscode.window.showTextDocument(generated, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+        } else {
+            await vscode.env.clipboard.writeText(source);
+            vscode.window.showInformationMessage(`Data structure for ${element.name} copied to the clipboard.`);
+        };
+
+        if (unresolved.length > 0) {
+            vscode.window.showWarningMessage(
+                `${unresolved.length} referenced field${unresolved.length === 1 ? '' : 's'} could not be resolved ` +
+                `(${unresolved.join(', ')}); ${unresolved.length === 1 ? 'its' : 'their'} subfield${unresolved.length === 1 ? ' is' : 's are'} marked TODO.`
+            );
+        };
+
+    } catch (error) {
+        console.error('Error generating RPGLE data structure:', error);
+        vscode.window.showErrorMessage('An error occurred while generating the RPGLE data structure.');
+    };
+};
+
+// GENERATION
+
+/**
+ * Resolves the referenced fields of a record that aren't resolved yet, when there's an IBM i
+ * connection. Without one, they're left to the generation to mark.
+ * @param model - The parsed model of the DDS document
+ * @param fields - The record's fields
+ * @returns Names of the referenced fields whose type is still unknown
+ */
+async function resolveReferencedFields(model: DdsDocumentModel, fields: DdsField[]): Promise<string[]> {
+    const pending = fields.filter(field => field.referenced && !field.length && !getResolvedRef(model.uri, field.recordname, field.name));
+    if (pending.length > 0 && getIBMiConnection()) {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Resolving referenced fields...' },
+            async () => {
+                for (const field of pending) {
+                    const recordAttributes = model.fieldsPerRecords.find(record => record.record === field.recordname)?.attributes;
+                    try {
+                        await resolveReferencedField(model.uri, field, recordAttributes, model.attributesFileLevel);
+                    } catch (error) {
+                        console.error(`Error resolving referenced field ${field.name}:`, error);
+                    };
+                };
+            }
+        );
+    };
+    return pending
+        .filter(field => !getResolvedRef(model.uri, field.recordname, field.name))
+        .map(field => field.name);
+};
+
+/**
+ * Builds the RPGLE free-format source of a qualified data structure matching a record's buffer:
+ * one subfield per field, hidden and program-to-system fields included.
+ * @param model - The parsed model of the DDS document
+ * @param recordName - The record
+ * @param fields - The record's fields, in source order
+ * @param fileName - Name of the display file, for the heading comment
+ */
+export function buildRpgleDataStructure(model: DdsDocumentModel, recordName: string, fields: DdsField[], fileName: string): string {
+    const subfields = fields.map(field => {
+        const definition = getFieldDefinition(model, field);
+        const rpgType = mapDdsTypeToRpgle(definition, field.attributes);
+        const notes = [
+            field.usage === 'H' || field.hidden ? 'Hidden' : undefined,
+            field.usage === 'P' ? 'Program-to-system' : undefined,
+            rpgType ? undefined : 'TODO: referenced field not resolved'
+        ].filter(Boolean);
+        const declaration = `${field.name} ${rpgType ?? 'char(1)'};`;
+        return `  ${notes.length > 0 ? `${declaration.padEnd(30, ' ')} // ${notes.join(', ')}` : declaration}`;
+    });
+
+    return [
+        '**free',
+        '',
+        `// Record format ${recordName} of display file ${fileName.toUpperCase()}`,
+        `dcl-ds ${recordName}_ds qualified;`,
+        ...subfields,
+        'end-ds;',
+        ''
+    ].join('\n');
+};
+
+/**
+ * Gets the type, length and decimals of a field: its own, completed with what was resolved for a
+ * referenced field (a referenced field can still override its length or decimals).
+ * @param model - The parsed model of the DDS document
+ * @param field - The field
+ */
+function getFieldDefinition(model: DdsDocumentModel, field: DdsField): FieldDefinition {
+    const resolved = field.referenced ? getResolvedRef(model.uri, field.recordname, field.name) : undefined;
+    return {
+        type: field.type || resolved?.type,
+        length: field.length || resolved?.length,
+        decimals: field.length || !resolved ? field.decimals : resolved.decimals,
+        decimalsCoded: field.decimalsCoded || (!field.length && resolved !== undefined && resolved.decimals > 0)
+    };
+};
+
+/**
+ * Maps a DDS field definition to an RPGLE free-format type. Numeric fields are zoned in a display
+ * file's buffer, whatever their type in a referenced database file.
+ * @param definition - The field's type, length and decimals
+ * @param attributes - The field's keywords (DATFMT, TIMFMT, FLTPCN)
+ * @returns The RPGLE type, or undefined when the field's type isn't known
+ */
+function mapDdsTypeToRpgle(definition: FieldDefinition, attributes: DdsAttribute[] | undefined): string | undefined {
+    const type = definition.type?.toUpperCase();
+    const keywordValue = (name: string) => attributes
+        ?.map(attribute => attribute.value.match(new RegExp(`\\b${name}\\(\\s*(\\*?\\w+)`, 'i'))?.[1])
+        .find(Boolean)
+        ?.toUpperCase();
+
+    switch (type) {
+        case 'L': {
+            const format = keywordValue('DATFMT');
+            return format && format !== '*JOB' ? `date(${format})` : 'date';
+        };
+        case 'T': {
+            const format = keywordValue('TIMFMT');
+            return format ? `time(${format})` : 'time';
+        };
+        case 'Z':
+            return 'timestamp';
+        case 'F':
+            return keywordValue('FLTPCN') === '*DOUBLE' ? 'float(8)' : 'float(4)';
+    };
+
+    if (!definition.length) {
+        return undefined;
+    };
+    // A field with decimal positions coded is numeric whatever its keyboard shift (Y, S, N, D...)
+    if ((type && NUMERIC_TYPES.includes(type)) || definition.decimalsCoded || (definition.decimals ?? 0) > 0) {
+        return `zoned(${definition.length}:${definition.decimals ?? 0})`;
+    };
+    return `char(${definition.length})`;
+};
@@ -0,0 +1,355 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.generate-rpgle-program.ts
+*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DdsAttribute, DdsDocumentModel, DdsIndicator } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { splitKeywords } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { collectIndicatorUsages, findResponseIndicator } from '../dspf-edit.providers/dspf-edit.indicator-provider';
+
+// TYPE DEFINITIONS
+
+/** A command key (CAnn/CFnn) a record accepts. */
+interface CommandKey {
+    key: string;
+    indicator?: number;
+    description?: string;
+};
+
+/** A subfile record and its control record. */
+interface SubfilePair {
+    subfile: string;
+    control: string;
+    /** Name of the relative record number variable of the SFILE keyword. */
+    rrn: string;
+    /** SFLSIZ of the control record, when coded. */
+    size?: number;
+};
+
+/** Subfile keywords whose conditioning indicators drive the subfile routines. */
+const SUBFILE_KEYWORDS: Record<string, string> = {
+    SFLDSP: 'sflDsp',
+    SFLDSPCTL: 'sflDspCtl',
+    SFLCLR: 'sflClr',
+    SFLEND: 'sflEnd'
+};
+
+/** Name of the named-indicator data structure. */
+const INDICATORS_DS = 'Indicators';
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the command that generates an RPGLE free-format program skeleton for a display file.
+ * @param context - The VS Code extension context
+ */
+export function generateRpgleProgram(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.generate-rpgle-program", async () => {
+            await handleGenerateRpgleProgramCommand();
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the generate RPGLE program command: builds the skeleton for the current DSPF source
+ * and opens it in a new editor.
+ */
+async function handleGenerateRpgleProgramCommand(): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+
+        const model = getDocumentModel(document);
+        if (model.records.length === 0) {
+            vscode.window.showInformationMessage('The DSPF source has no records.');
+            return;
+        };
+
+        const source = buildRpgleProgram(model, path.parse(document.uri.path).name);
+        const generated = await vscode.workspace.openTextDocument({ language: 'rpgle', content: source });
+        await vscode.window.showTextDocument(generated, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+
+    } catch (error) {
+        console.error('Error generating RPGLE program:', error);
+        vscode.window.showErrorMessage('An error occurred while generating the RPGLE program.');
+    };
+};
+
+// GENERATION
+
+/**
+ * Builds a free-format RPGLE program skeleton for a display file: the workstation file (with
+ * INDDS when the file uses INDARA, and an SFILE per subfile), a named-indicator data structure
+ * over the indicators the source uses, a screen loop per record with a select over its command
+ * keys, and clear/load/display routines for each subfile.
+ * @param model - The parsed model of the DDS document
+ * @param fileName - Name of the display file
+ * @returns The program source
+ */
+export function buildRpgleProgram(model: DdsDocumentModel, fileName: string): string {
+    const dspfName = fileName.toUpperCase();
+    const usesIndara = model.attributesFileLevel.some(attribute => keywordNames(attribute).includes('INDARA'));
+    const subfiles = findSubfilePairs(model);
+    const subfileRecords = new Set(subfiles.map(pair => pair.subfile));
+    const screenRecords = model.records.filter(record => !subfileRecords.has(record));
+    const indicatorNames = nameIndicators(model, subfiles);
+
+    const lines: string[] = [
+        '**free',
+        '',
+        `// Program skeleton for display file ${dspfName}`,
+        '',
+        'ctl-opt dftactgrp(*no) actgrp(*caller) option(*srcstmt:*nodebugio);',
+        '',
+        `dcl-f ${dspfName} workstn${usesIndara ? ` indds(${INDICATORS_DS})` : ''}` +
+            subfiles.map(pair => ` sfile(${pair.subfile}:${pair.rrn})`).join('') + ';',
+        ''
+    ];
+
+    // Named indicators: the separate indicator area with INDARA, *IN otherwise
+    if (usesIndara) {
+        lines.push(`dcl-ds ${INDICATORS_DS} len(99) qualified;`);
+    } else {
+        lines.push(`dcl-s p${INDICATORS_DS} pointer inz(%addr(*in));`);
+        lines.push(`dcl-ds ${INDICATORS_DS} len(99) qualified based(p${INDICATORS_DS});`);
+    };
+    [...indicatorNames.entries()]
+        .sort(([a], [b]) => a - b)
+        .forEach(([indicator, name]) => lines.push(`  ${name} ind pos(${indicator});`));
+    lines.push('end-ds;', '');
+
+    subfiles.forEach(pair => lines.push(`dcl-s ${pair.rrn} packed(4:0);`));
+    lines.push('dcl-s exitProgram ind inz(*off);', '');
+
+    // Main procedure
+    if (screenRecords.length > 0) {
+        lines.push(`exsr Screen${screenRecords[0]};`);
+        if (screenRecords.length > 1) {
+            lines.push(`// Other screens: ${screenRecords.slice(1).map(record => `exsr Screen${record};`).join(' ')}`);
+        };
+    };
+    lines.push('', '*inlr = *on;', 'return;');
+
+    for (const record of screenRecords) {
+        const pair = subfiles.find(candidate => candidate.control === record);
+        lines.push('', ...buildScreenRoutine(model, record, pair, indicatorNames));
+    };
+    for (const pair of subfiles) {
+        lines.push('', ...buildSubfileRoutines(model, pair, indicatorNames));
+    };
+
+    lines.push('');
+    return lines.join('\n');
+};
+
+/**
+ * Builds the subroutine showing a record until the user leaves it: EXFMT, then a select over the
+ * record's command keys. A subfile control record first clears and loads its subfile.
+ * @param model - The parsed model of the DDS document
+ * @param record - The record
+ * @param pair - The subfile the record controls, if it's a subfile control record
+ * @param indicatorNames - Name of each indicator in the named-indicator data structure
+ */
+function buildScreenRoutine(model: DdsDocumentModel, record: string, pair: SubfilePair | undefined, indicatorNames: Map<number, string>): string[] {
+    const keys = getCommandKeys(model, record);
+    const lines: string[] = [`begsr Screen${record};`];
+
+    if (pair) {
+        lines.push(`  exsr Clear${pair.subfile};`, `  exsr Load${pair.subfile};`);
+    };
+    for (const key of keys.filter(candidate => candidate.indicator === undefined)) {
+        lines.push(`  // ${key.key} has no response indicator: give it one (e.g. C${key.key}(${key.key.substring(1)})) to handle it here`);
+    };
+
+    lines.push('  dow not exitProgram;');
+    if (pair) {
+        lines.push(`    exsr Display${pair.subfile};`);
+    };
+    lines.push(`    exfmt ${record};`, '    select;');
+    for (const key of keys.filter(candidate => candidate.indicator !== undefined)) {
+        const comment = key.description ? `  // ${key.description}` : '';
+        lines.push(`      when ${INDICATORS_DS}.${indicatorNames.get(key.indicator!)};${comment}`);
+        if (key.key === 'F03') {
+            lines.push('        exitProgram = *on;');
+        } else if (key.key === 'F12') {
+            lines.push('        leave;');
+        } else {
+            lines.push(`        // TODO: handle ${key.key}`);
+        };
+    };
+    lines.push('      other;', '        // TODO: validate and process the input', '    endsl;', '  enddo;', 'endsr;');
+    return lines;
+};
+
+/**
+ * Builds the clear, load and display subroutines of a subfile, setting the indicators that
+ * condition its control record's SFLCLR, SFLDSP, SFLDSPCTL and SFLEND.
+ * @param model - The parsed model of the DDS document
+ * @param pair - The subfile and its control record
+ * @param indicatorNames - Name of each indicator in the named-indicator data structure
+ */
+function buildSubfileRoutines(model: DdsDocumentModel, pair: SubfilePair, indicatorNames: Map<number, string>): string[] {
+    const attributes = model.fieldsPerRecords.find(record => record.record === pair.control)?.attributes ?? [];
+    const condition = (keyword: string) => findKeywordCondition(attributes, keyword);
+
+    // Sets the indicators that switch a keyword on (or off), minding those coded with N. An
+    // indicator shared by two keywords (SFLDSP and SFLDSPCTL often are) is set once per group
+    const setKeyword = (keyword: string, on: boolean | string, alreadySet: Set<number> = new Set()): string[] => {
+        const indicators = (condition(keyword) ?? []).filter(indicator => !alreadySet.has(indicator.number));
+        return indicators.map(indicator => {
+            alreadySet.add(indicator.number);
+            const value = typeof on === 'string'
+                ? (indicator.active ? `(${on})` : `not (${on})`)
+                : (on === indicator.active ? '*on' : '*off');
+            return `  ${INDICATORS_DS}.${indicatorNames.get(indicator.number)} = ${value};`;
+        });
+    };
+    const hidden = new Set<number>();
+    const shown = new Set<number>();
+
+    return [
+        `begsr Clear${pair.subfile};`,
+        ...setKeyword('SFLDSP', false, hidden),
+        ...setKeyword('SFLDSPCTL', false, hidden),
+        ...setKeyword('SFLCLR', true),
+        `  write ${pair.control};`,
+        ...setKeyword('SFLCLR', false),
+        ...setKeyword('SFLEND', false),
+        `  ${pair.rrn} = 0;`,
+        'endsr;',
+        '',
+        `begsr Load${pair.subfile};`,
+        `  dow ${pair.rrn} < ${pair.size ?? 9999};`,
+        '    // TODO: read the next record and leave at the end of the data',
+        `    // TODO: fill the fields of ${pair.subfile}`,
+        `    ${pair.rrn} += 1;`,
+        `    write ${pair.subfile};`,
+        '  enddo;',
+        ...setKeyword('SFLEND', true),
+        'endsr;',
+        '',
+        `begsr Display${pair.subfile};`,
+        ...setKeyword('SFLDSP', `${pair.rrn} > 0`, shown),
+        ...setKeyword('SFLDSPCTL', true, shown),
+        'endsr;'
+    ];
+};
+
+// MODEL QUERIES
+
+/**
+ * Finds the subfiles of a display file: each record with SFLCTL, paired with the subfile record
+ * it names.
+ * @param model - The parsed model of the DDS document
+ */
+function findSubfilePairs(model: DdsDocumentModel): SubfilePair[] {
+    const pairs: SubfilePair[] = [];
+    for (const record of model.fieldsPerRecords) {
+        const keywords = (record.attributes ?? []).flatMap(attribute => splitKeywords(attribute.value).keywords);
+        const subfile = keywords.map(keyword => keyword.match(/^SFLCTL\(\s*(\w+)\s*\)/i)?.[1]).find(Boolean)?.toUpperCase();
+        if (!subfile || !model.records.includes(subfile)) {
+            continue;
+        };
+        const size = keywords.map(keyword => keyword.match(/^SFLSIZ\(\s*(\d+)\s*\)/i)?.[1]).find(Boolean);
+        pairs.push({ subfile, control: record.record, rrn: `rrn${subfile}`, size: size ? Number(size) : undefined });
+    };
+    return pairs;
+};
+
+/**
+ * Gets the command keys a record accepts: its own CA/CF keywords and the file-level ones.
+ * @param model - The parsed model of the DDS document
+ * @param record - The record
+ */
+function getCommandKeys(model: DdsDocumentModel, record: string): CommandKey[] {
+    const recordAttributes = model.fieldsPerRecords.find(candidate => candidate.record === record)?.attributes ?? [];
+    const keys: CommandKey[] = [];
+
+    for (const attribute of [...recordAttributes, ...model.attributesFileLevel]) {
+        for (const keyword of splitKeywords(attribute.value).keywords) {
+            const match = keyword.match(/^C[AF](\d{2})\b/i);
+            const key = match ? `F${match[1]}` : undefined;
+            // A record-level key overrides the file-level one
+            if (!key || keys.some(existing => existing.key === key)) {
+                continue;
+            };
+            keys.push({
+                key,
+                indicator: findResponseIndicator(keyword)?.indicator,
+                description: keyword.match(/'([^']*)'/)?.[1]
+            });
+        };
+    };
+    return keys.sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Names the indicators the source uses, for the named-indicator data structure: F03, F12... for
+ * command keys' response indicators, sflDsp, sflClr... for those conditioning subfile keywords,
+ * and indNN for the rest.
+ * @param model - The parsed model of the DDS document
+ * @param subfiles - The subfiles of the display file
+ * @returns Name of each indicator
+ */
+function nameIndicators(model: DdsDocumentModel, subfiles: SubfilePair[]): Map<number, string> {
+    const names = new Map<number, string>();
+    const assign = (indicator: number, name: string) => {
+        if (!names.has(indicator) && ![...names.values()].includes(name)) {
+            names.set(indicator, name);
+        };
+    };
+
+    for (const record of model.records) {
+        for (const key of getCommandKeys(model, record)) {
+            if (key.indicator !== undefined) {
+                assign(key.indicator, key.key);
+            };
+        };
+    };
+
+    for (const pair of subfiles) {
+        const attributes = model.fieldsPerRecords.find(record => record.record === pair.control)?.attributes ?? [];
+        for (const [keyword, name] of Object.entries(SUBFILE_KEYWORDS)) {
+            for (const indicator of findKeywordCondition(attributes, keyword) ?? []) {
+                assign(indicator.number, subfiles.length > 1 ? `${name}_${pair.subfile}` : name);
+            };
+        };
+    };
+
+    for (const usage of collectIndicatorUsages(model).usages) {
+        assign(usage.indicator, `ind${String(usage.indicator).padStart(2, '0')}`);
+    };
+    return names;
+};
+
+/**
+ * Finds the indicators conditioning a keyword of a record (its first OR group).
+ * @param attributes - The record's attributes
+ * @param keyword - The keyword's name
+ * @returns The indicators (empty when the keyword isn't conditioned), or undefined when it isn't coded
+ */
+function findKeywordCondition(attributes: DdsAttribute[], keyword: string): DdsIndicator[] | undefined {
+    const attribute = attributes.find(candidate => keywordNames(candidate).includes(keyword));
+    return attribute
+        ? (attribute.indicators ?? []).filter(indicator => (indicator.orGroup ?? 0) === 0)
+        : undefined;
+};
+
+/**
+ * Gets the names of the keywords of an attribute line, in uppercase.
+ * @param attribute - The attribute
+ */
+function keywordNames(attribute: DdsAttribute): string[] {
+    return splitKeywords(attribute.value).keywords
+        .map(keyword => keyword.match(/^[A-Za-z][A-Za-z0-9]*/)?.[0]?.toUpperCase() ?? keyword);
+};
@@ -5,8 +5,7 @@
 */
 
 import { DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
-import { checkForEditorAndDocument, isDdsFile } from '../dspf-edit.utils/dspf-edit.helper';
-import { parseDocument } from '../dspf-edit.parser/dspf-edit.parser';
+import { checkForEditorAndDocument, isDdsFile, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 export function generateStructure(treeProvider: DdsTreeProvider) {
     // Check for editor and document
@@ -21,8 +20,7 @@ export function generateStructure(treeProvider: DdsTreeProvider) {
 	};
 	
 	if (editor && isDdsFile(editor.document)) {
-		const text = editor.document.getText();
-		treeProvider.setElements(parseDocument(text));
+		treeProvider.setElements(getDocumentModel(editor.document).elements);
 		treeProvider.refresh();
 	} else {
         treeProvider.setElements([]);
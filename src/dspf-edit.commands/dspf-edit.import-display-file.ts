@@ -0,0 +1,316 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.import-display-file.ts
+*/
+
+import * as vscode from 'vscode';
+import { DisplayFileField, DisplayFileRecord, describeDisplayFile, getIBMiConnection } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { DspsizConfig, collectDspsizConfiguration, generateDspsizLines } from '../dspf-edit.utils/dspf-edit.helper';
+
+/** A valid IBM i object or library name. */
+const OBJECT_NAME = /^[A-Z$#@][A-Z0-9$#@_.]{0,9}$/;
+
+/** First column of the keyword area (0-based), and the last one a keyword line can use. */
+const KEYWORD_COLUMN = 44;
+const LAST_COLUMN = 80;
+
+/** Usages that put a field on the screen. */
+const DISPLAYED_USAGES = ['B', 'I', 'O', 'M'];
+
+/**
+ * A display file field and where the import puts it: no position for a field not on the screen,
+ * nor for a displayed field there's no room left for (`unplaced`).
+ */
+interface PlacedField {
+    field: DisplayFileField;
+    row?: number;
+    col?: number;
+    unplaced?: boolean;
+};
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the command that rebuilds a DDS source from a compiled display file on the connected
+ * IBM i, for display files whose source is lost.
+ * @param context - The VS Code extension context
+ */
+export function importDisplayFile(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.import-display-file", async () => {
+            await handleImportDisplayFileCommand();
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the import display file command: asks for the display file, reads its record formats
+ * and fields, saves the rebuilt source where asked and opens it.
+ */
+async function handleImportDisplayFileCommand(): Promise<void> {
+    const connection = getIBMiConnection();
+    if (!connection) {
+        vscode.window.showErrorMessage('No active IBM i connection. Connect via the Code for i extension first.');
+        return;
+    };
+
+    const input = await vscode.window.showInputBox({
+        title: 'Import Display File',
+        prompt: 'Compiled display file to rebuild the DDS source of (LIBRARY/NAME, or NAME for the library list)',
+        validateInput: validateObjectInput
+    });
+    if (!input) {
+        return;
+    };
+    const parts = input.trim().toUpperCase().split('/');
+    const [library, name] = parts.length === 2 ? parts : ['*LIBL', parts[0]];
+
+    let records: DisplayFileRecord[];
+    try {
+        records = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Reading ${library}/${name}...`, cancellable: false },
+            async () => describeDisplayFile(connection, library, name)
+        );
+    } catch (error) {
+        console.error('Error reading the display file:', error);
+        vscode.window.showErrorMessage(`Could not read ${library}/${name}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    };
+
+    // DSPFFD doesn't tell the display sizes the file was created for
+    const dspsizConfig = await collectDspsizConfiguration();
+    if (!dspsizConfig) {
+        return;
+    };
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        title: `Save the DDS source of ${name}`,
+        defaultUri: folder ? vscode.Uri.joinPath(folder, `${name}.dspf`) : undefined,
+        filters: { 'DDS display file': ['dspf'] }
+    });
+    if (!target) {
+        return;
+    };
+
+    try {
+        const source = buildImportedSource(`${library}/${name}`, records, dspsizConfig);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(source.join('\n') + '\n', 'utf8'));
+        const document = await vscode.workspace.openTextDocument(target);
+        await vscode.window.showTextDocument(document, { preview: false });
+    } catch (error) {
+        console.error('Error saving the imported display file:', error);
+        vscode.window.showErrorMessage('An error occurred while saving the imported display file.');
+        return;
+    };
+
+    const fieldCount = records.reduce((total, record) => total + record.fields.length, 0);
+    vscode.window.showInformationMessage(
+        `Imported ${records.length} record${records.length === 1 ? '' : 's'} and ${fieldCount} field${fieldCount === 1 ? '' : 's'} from ${library}/${name}. ` +
+        'Positions, constants and most keywords couldn\'t be recovered: see the comments in the source.'
+    );
+};
+
+// SOURCE GENERATION
+
+/**
+ * Builds the DDS source of an imported display file. DSPFFD gives no screen positions or
+ * constants, so the displayed fields are laid out in buffer order, left to right, on the primary
+ * display size, and comments say what has to be redone by hand.
+ * @param object - The display file, qualified (LIBRARY/NAME)
+ * @param records - Its record formats and fields
+ * @param dspsizConfig - The display sizes chosen
+ * @returns The source's lines
+ */
+function buildImportedSource(object: string, records: DisplayFileRecord[], dspsizConfig: DspsizConfig): string[] {
+    const screen = dspsizConfig.sizes[0];
+    const lines = [
+        commentLine(`Rebuilt from the compiled display file ${object}.`),
+        commentLine('Not recovered: screen positions (fields are laid out in buffer'),
+        commentLine('order), constants, indicators and most keywords.'),
+        ...generateDspsizLines(dspsizConfig)
+    ];
+
+    for (const record of records) {
+        let recordLine = replaceAt(' '.repeat(KEYWORD_COLUMN), 5, 'A');
+        recordLine = replaceAt(recordLine, 16, 'R');
+        recordLine = replaceAt(recordLine, 18, record.name.padEnd(10, ' '));
+        lines.push(recordLine.trimEnd());
+        if (record.text) {
+            lines.push(...continuedKeywordLines(`TEXT(${quote(record.text)})`));
+        };
+        lines.push(commentLine(`${record.name}: record keywords (SFL, SFLCTL, WINDOW, CA/CF...) not recovered.`));
+
+        const placed = layoutFields(record.fields, screen.rows, screen.cols);
+        if (placed.some(item => item.unplaced)) {
+            lines.push(commentLine('No room left on the screen: the fields commented out below'));
+            lines.push(commentLine('have to be placed by hand.'));
+        };
+        for (const item of placed) {
+            const fieldLines = generateFieldLines(item);
+            lines.push(...(item.unplaced ? fieldLines.map(line => replaceAt(line, 6, '*')) : fieldLines));
+        };
+    };
+    return lines;
+};
+
+/**
+ * Lays the displayed fields out left to right in buffer order, one blank between them for the
+ * attribute byte, starting a new row when a field doesn't fit. Fields that would go past the
+ * screen's last row are left unplaced. Hidden and program-to-system fields get no position.
+ * @param fields - A record's fields
+ * @param maxRows - Rows of the screen
+ * @param maxCols - Columns of the screen
+ */
+function layoutFields(fields: DisplayFileField[], maxRows: number, maxCols: number): PlacedField[] {
+    let row = 1;
+    let col = 2;
+    return fields.map(field => {
+        if (!DISPLAYED_USAGES.includes(field.usage)) {
+            return { field };
+        };
+
+        const width = getDisplayWidth(field);
+        let startRow = row;
+        let startCol = col;
+        if (startCol > 2 && startCol + width - 1 > maxCols) {
+            startRow++;
+            startCol = 2;
+        };
+
+        // A field wider than a row wraps onto the following ones
+        const end = startCol + width;
+        const endRow = startRow + Math.floor((end - 2) / maxCols);
+        if (endRow > maxRows) {
+            return { field, unplaced: true };
+        };
+        row = startRow + Math.floor((end - 1) / maxCols);
+        col = (end - 1) % maxCols + 2;
+        return { field, row: startRow, col: startCol };
+    });
+};
+
+/**
+ * Gets how many positions a field takes on the screen.
+ * @param field - The field
+ */
+function getDisplayWidth(field: DisplayFileField): number {
+    switch (field.type) {
+        case 'L': return 10;
+        case 'T': return 8;
+        case 'Z': return 26;
+        // Numeric fields show a sign and a decimal point besides the digits
+        default: return field.numeric ? field.length + (field.decimals > 0 ? 1 : 0) + 1 : field.length;
+    };
+};
+
+/**
+ * Generates a field's line, and its keyword lines (REFFLD, TEXT, EDTCDE, EDTWRD). A field
+ * referring to a database field still on the system is an R field, its length and decimals left
+ * to the reference unless they differ.
+ * @param item - The field and its position
+ */
+function generateFieldLines(item: PlacedField): string[] {
+    const { field } = item;
+    const isDateTime = ['L', 'T', 'Z'].includes(field.type);
+    const ownLength = !isDateTime && !field.reference?.sameLength;
+
+    let line = replaceAt(' '.repeat(KEYWORD_COLUMN), 5, 'A');
+    line = replaceAt(line, 18, field.name.padEnd(10, ' '));
+    if (field.reference) {
+        line = replaceAt(line, 28, 'R');
+    };
+    if (ownLength) {
+        line = replaceAt(line, 29, field.length.toString().padStart(5, ' '));
+    };
+    line = replaceAt(line, 34, field.type);
+    if (ownLength && field.numeric) {
+        line = replaceAt(line, 35, field.decimals.toString().padStart(2, ' '));
+    };
+    line = replaceAt(line, 37, field.usage || ' ');
+    if (item.row !== undefined && item.col !== undefined) {
+        line = replaceAt(line, 38, item.row.toString().padStart(3, ' '));
+        line = replaceAt(line, 41, item.col.toString().padStart(3, ' '));
+    };
+
+    const { reference } = field;
+    const keywords = [
+        ...(reference ? [`REFFLD(${reference.field} ${reference.library}/${reference.file})`] : []),
+        ...(field.editCode ? [`EDTCDE(${field.editCode})`] : []),
+        ...(field.editWord ? [`EDTWRD(${quote(field.editWord)})`] : []),
+        ...(field.text ? [`TEXT(${quote(field.text)})`] : [])
+    ];
+    const lines = [line.trimEnd()];
+    for (const keyword of keywords) {
+        lines.push(...continuedKeywordLines(keyword));
+    };
+    return lines;
+};
+
+// HELPERS
+
+/**
+ * Validates the display file input: NAME or LIBRARY/NAME.
+ * @param value - The input
+ */
+function validateObjectInput(value: string): string | null {
+    const parts = value.trim().toUpperCase().split('/');
+    if (parts.length > 2) {
+        return 'Enter the name, or the library and name as LIBRARY/NAME.';
+    };
+    const [library, name] = parts.length === 2 ? parts : ['*LIBL', parts[0]];
+    if (library !== '*LIBL' && library !== '*CURLIB' && !OBJECT_NAME.test(library)) {
+        return `'${library}' is not a valid library name.`;
+    };
+    return OBJECT_NAME.test(name) ? null : `'${name}' is not a valid file name (up to 10 characters).`;
+};
+
+/**
+ * Generates a comment line.
+ * @param text - The comment
+ */
+function commentLine(text: string): string {
+    return `     A* ${text}`;
+};
+
+/**
+ * Generates a line holding only a keyword.
+ * @param keyword - The keyword, short enough for one line
+ */
+function keywordLine(keyword: string): string {
+    return ' '.repeat(5) + 'A' + ' '.repeat(KEYWORD_COLUMN - 6) + keyword;
+};
+
+/**
+ * Generates the lines of a keyword, continued with '-' on the next lines when it doesn't fit on one.
+ * @param keyword - The keyword
+ */
+function continuedKeywordLines(keyword: string): string[] {
+    const width = LAST_COLUMN - KEYWORD_COLUMN;
+    const lines: string[] = [];
+    let remaining = keyword;
+    while (remaining.length > width) {
+        lines.push(keywordLine(remaining.substring(0, width - 1) + '-'));
+        remaining = remaining.substring(width - 1);
+    };
+    lines.push(keywordLine(remaining));
+    return lines;
+};
+
+/** Quotes a text for a DDS keyword, its quotes doubled. */
+function quote(text: string): string {
+    return `'${text.replace(/'/g, "''")}'`;
+};
+
+/**
+ * Replaces characters at a specific position in a string.
+ * @param str - The original string
+ * @param index - Position to start the replacement
+ * @param replacement - The replacement text
+ */
+function replaceAt(str: string, index: number, replacement: string): string {
+    return str.substring(0, index) + replacement + str.substring(index + replacement.length);
+};
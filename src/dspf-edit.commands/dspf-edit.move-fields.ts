@@ -6,26 +6,17 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fileSizeAttributes, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, findEndLineIndex, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
-
-/**
- * Gets the maximum columns value from fileSizeAttributes
- */
-function getMaxCols(): number {
-    const maxCol1 = fileSizeAttributes.maxCol1 || 0;
-    const maxCol2 = fileSizeAttributes.maxCol2 || 0;
-    const maxCol = Math.max(maxCol1, maxCol2);
-    return maxCol > 0 ? maxCol : 132;
-}
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, findEndLineIndex, applyWorkspaceEdit, getDocumentModel, getMaxCols } from '../dspf-edit.utils/dspf-edit.helper';
 
 /**
  * Checks if a record is a subfile record by looking for the SFL attribute
+ * @param model - The parsed model of the document
  * @param recordName - The name of the record to check
  * @returns True if the record has the SFL attribute
  */
-function isSubfileRecord(recordName: string): boolean {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+function isSubfileRecord(model: DdsDocumentModel, recordName: string): boolean {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     
     if (!record || !record.attributes) {
         return false;
@@ -98,6 +89,7 @@ async function handleMoveFieldCommand(node: DdsNode, offset: number): Promise<vo
         if (!document || !editor) {
             return;
         }
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -108,7 +100,7 @@ async function handleMoveFieldCommand(node: DdsNode, offset: number): Promise<vo
         }
 
         // Check if the record is a subfile (SFL) - in subfiles, fields use row instead of column
-        const isSflRecord = isSubfileRecord(element.recordname);
+        const isSflRecord = isSubfileRecord(model, element.recordname);
 
         // Calculate new position based on whether it's a subfile or not
         const currentPosition = isSflRecord ? element.row : element.column;
@@ -122,7 +114,7 @@ async function handleMoveFieldCommand(node: DdsNode, offset: number): Promise<vo
         // This command only ever moves a field horizontally, so the bound is always the column
         // limit — regardless of record type. For a subfile, currentPosition already came from
         // element.row precisely because that's where the column value is stored for SFL records.
-        const maxPosition = getMaxCols();
+        const maxPosition = getMaxCols(model);
 
         // Validate new position
         if (newPosition < 1) {
@@ -0,0 +1,543 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.new-record-from-table.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import {
+    DspsizConfig, checkIfDspsizNeeded, collectDspsizConfiguration, generateDspsizLines,
+    checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel, getMaxRows, getMaxCols
+} from '../dspf-edit.utils/dspf-edit.helper';
+import { validateRecordName } from './dspf-edit.new-record';
+import { TableColumn, getIBMiConnection, getTableColumns, setResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+// INTERFACES AND TYPES
+
+/** Usages a generated field can have. */
+type ColumnUsage = 'B' | 'I' | 'O';
+
+/** Where the labels' text comes from. */
+type LabelSource = 'text' | 'heading' | 'name';
+
+/** A database file, as typed by the user. */
+export interface TableReference {
+    file: string;
+    library?: string;
+};
+
+/** A column placed on the screen: its label constant and its field. */
+interface PlacedColumn {
+    column: TableColumn;
+    label: string;
+    row: number;
+    labelCol: number;
+    fieldCol: number;
+};
+
+/** Result of laying the columns out: those placed, and those there was no room for. */
+interface ColumnLayout {
+    placed: PlacedColumn[];
+    overflow: TableColumn[];
+};
+
+/** First row used by the generated fields, and rows left free at the bottom (messages, keys). */
+const FIRST_ROW = 3;
+const BOTTOM_MARGIN = 2;
+
+/** Widest a label can be, in one and in two screen columns. */
+const MAX_LABEL_WIDTH = 30;
+const MAX_LABEL_WIDTH_TWO_COLUMNS = 18;
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the command that creates a record from the columns of a database file.
+ * @param context - The VS Code extension context
+ */
+export function newRecordFromTable(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.new-record-from-table", async () => {
+            await handleNewRecordFromTableCommand();
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the new record from table command: reads the columns of a database file from the
+ * connected IBM i, lets the user pick the columns, the usage and the layout, and adds a record
+ * with a label constant and a referenced field per column (and a file-level REF to the file).
+ */
+async function handleNewRecordFromTableCommand(): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+
+        if (!getIBMiConnection()) {
+            vscode.window.showErrorMessage('No active IBM i connection. Connect via the Code for i extension first.');
+            return;
+        };
+
+        const table = await collectTableReference();
+        if (!table) {
+            return;
+        };
+
+        const columns = await readTableColumns(table);
+        if (!columns) {
+            return;
+        };
+
+        const selectedColumns = await collectColumns(table, columns);
+        if (!selectedColumns) {
+            return;
+        };
+
+        const usage = await collectUsage();
+        if (!usage) {
+            return;
+        };
+
+        const labelSource = await collectLabelSource();
+        if (!labelSource) {
+            return;
+        };
+
+        const twoColumns = await collectLayout();
+        if (twoColumns === null) {
+            return;
+        };
+
+        const model = getDocumentModel(document);
+        const recordName = await vscode.window.showInputBox({
+            title: `Record from ${formatTable(table)}`,
+            prompt: 'Enter the new record name',
+            value: `${table.file.substring(0, 7)}R`,
+            validateInput: value => validateRecordName(model, value)
+        });
+        if (!recordName) {
+            return;
+        };
+
+        let dspsizConfig: DspsizConfig | null = null;
+        if (await checkIfDspsizNeeded(editor)) {
+            dspsizConfig = await collectDspsizConfiguration();
+            if (!dspsizConfig) {
+                return;
+            };
+        };
+
+        const maxRows = dspsizConfig ? dspsizConfig.sizes[0].rows : getMaxRows(model);
+        const maxCols = dspsizConfig ? dspsizConfig.sizes[0].cols : getMaxCols(model);
+
+        // Two screen columns only when every field fits in half the screen
+        let layout = layoutColumns(selectedColumns, labelSource, twoColumns, maxRows, maxCols);
+        if (twoColumns && !layout) {
+            vscode.window.showInformationMessage('Some fields are too wide for two columns; they are laid out in one.');
+        };
+        layout ??= layoutColumns(selectedColumns, labelSource, false, maxRows, maxCols)!;
+
+        const uppercaseName = recordName.trim().toUpperCase();
+        const refKeyword = getFileLevelReference(model, table);
+        const workspaceEdit = buildRecordEdit(document, model, uppercaseName, table, layout.placed, usage, refKeyword, dspsizConfig);
+        if (!(await applyWorkspaceEdit(workspaceEdit, 'create the record'))) {
+            return;
+        };
+
+        // The fields' types are already known: no need to resolve them again
+        for (const placed of layout.placed) {
+            const { type, length, decimals } = placed.column;
+            setResolvedRef(document.uri.toString(), uppercaseName, placed.column.name, { type, length, decimals });
+        };
+
+        if (layout.overflow.length > 0) {
+            vscode.window.showWarningMessage(
+                `Record '${uppercaseName}' created, but ${layout.overflow.length} column${layout.overflow.length === 1 ? '' : 's'} didn't fit on the screen: ` +
+                layout.overflow.map(column => column.name).join(', ') + '.'
+            );
+        } else {
+            vscode.window.showInformationMessage(`Successfully created record '${uppercaseName}' with ${layout.placed.length} field${layout.placed.length === 1 ? '' : 's'} from ${formatTable(table)}.`);
+        };
+
+    } catch (error) {
+        console.error('Error creating record from table:', error);
+        vscode.window.showErrorMessage('An error occurred while creating the record from the table.');
+    };
+};
+
+// USER INPUT COLLECTION FUNCTIONS
+
+/**
+ * Collects the database file to read the columns from.
+ * @param title - Title of the wizard asking
+ * @returns The file and its library (if given), or null if cancelled
+ */
+export async function collectTableReference(title: string = 'New Record from Table'): Promise<TableReference | null> {
+    const value = await vscode.window.showInputBox({
+        title: `${title} - File`,
+        prompt: 'Enter the database file as LIBRARY/FILE, or FILE to look for it in the library list',
+        placeHolder: 'LIBRARY/FILE',
+        validateInput: validateTableReference
+    });
+    if (!value) {
+        return null;
+    };
+
+    const parts = value.trim().toUpperCase().split('/');
+    return parts.length === 2 ? { library: parts[0], file: parts[1] } : { file: parts[0] };
+};
+
+/**
+ * Validates a LIBRARY/FILE or FILE name.
+ * @param value - The text typed
+ * @returns Error message or null if valid
+ */
+function validateTableReference(value: string): string | null {
+    const parts = value.trim().split('/');
+    if (parts.length > 2) {
+        return 'Use LIBRARY/FILE or FILE.';
+    };
+    for (const part of parts) {
+        if (!/^[A-Za-z@#$][A-Za-z0-9@#$_.]{0,9}$/.test(part)) {
+            return 'Library and file names are 1 to 10 characters: letters, numbers, @, #, $, _ and .';
+        };
+    };
+    return null;
+};
+
+/**
+ * Reads the columns of a database file, showing the error when they can't be read.
+ * @param table - The database file
+ * @returns The columns, or null when they couldn't be read
+ */
+export async function readTableColumns(table: TableReference): Promise<TableColumn[] | null> {
+    try {
+        return await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Reading the columns of ${formatTable(table)}...` },
+            () => getTableColumns(table.file, table.library)
+        );
+    } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : `Could not read the columns of ${formatTable(table)}.`);
+        return null;
+    };
+};
+
+/**
+ * Lets the user pick the columns to add (all of them, by default).
+ * @param table - The database file
+ * @param columns - Its columns
+ * @param title - Title of the wizard asking
+ * @returns The picked columns, in the file's order, or null if cancelled
+ */
+export async function collectColumns(table: TableReference, columns: TableColumn[], title: string = 'New Record from Table'): Promise<TableColumn[] | null> {
+    const selection = await vscode.window.showQuickPick(
+        columns.map(column => ({
+            label: column.name,
+            description: formatColumnType(column),
+            detail: column.text ?? column.heading,
+            picked: true,
+            column
+        })),
+        {
+            title: `${title} - Columns of ${formatTable(table)}`,
+            placeHolder: 'Select the columns to add to the record',
+            canPickMany: true,
+            ignoreFocusOut: true
+        }
+    );
+    if (!selection || selection.length === 0) {
+        return null;
+    };
+
+    return columns.filter(column => selection.some(item => item.column === column));
+};
+
+/**
+ * Collects the usage of the generated fields.
+ * @returns The usage, or null if cancelled
+ */
+async function collectUsage(): Promise<ColumnUsage | null> {
+    const selection = await vscode.window.showQuickPick(
+        [
+            { label: 'B - Both', description: 'Input and output: a maintenance screen', value: 'B' as ColumnUsage },
+            { label: 'I - Input', description: 'Input only: an entry screen', value: 'I' as ColumnUsage },
+            { label: 'O - Output', description: 'Output only: a display screen', value: 'O' as ColumnUsage }
+        ],
+        { title: 'New Record from Table - Field Usage', placeHolder: 'Select the usage of the fields', ignoreFocusOut: true }
+    );
+    return selection?.value ?? null;
+};
+
+/**
+ * Collects where the labels' text comes from.
+ * @returns The label source, or null if cancelled
+ */
+async function collectLabelSource(): Promise<LabelSource | null> {
+    const selection = await vscode.window.showQuickPick(
+        [
+            { label: 'Column text', description: 'COLUMN_TEXT (TEXT keyword)', value: 'text' as LabelSource },
+            { label: 'Column heading', description: 'COLUMN_HEADING (COLHDG keyword)', value: 'heading' as LabelSource },
+            { label: 'Column name', description: 'The field name', value: 'name' as LabelSource }
+        ],
+        { title: 'New Record from Table - Labels', placeHolder: 'Select the text of the labels', ignoreFocusOut: true }
+    );
+    return selection?.value ?? null;
+};
+
+/**
+ * Collects whether the fields are laid out in one or two screen columns.
+ * @returns True for two columns, or null if cancelled
+ */
+async function collectLayout(): Promise<boolean | null> {
+    const selection = await vscode.window.showQuickPick(
+        [
+            { label: 'One column', description: 'A label and a field per row', value: false },
+            { label: 'Two columns', description: 'The fields split between the left and right halves of the screen', value: true }
+        ],
+        { title: 'New Record from Table - Layout', placeHolder: 'Select the layout', ignoreFocusOut: true }
+    );
+    return selection ? selection.value : null;
+};
+
+// LAYOUT
+
+/**
+ * Lays the columns out inside the screen, from row 3 down, leaving the last rows for messages and
+ * command keys. With two screen columns, the first half of the columns goes on the left.
+ * @param columns - The columns, in order
+ * @param labelSource - Where the labels' text comes from
+ * @param twoColumns - Whether to use two screen columns
+ * @param maxRows - Rows of the screen
+ * @param maxCols - Columns of the screen
+ * @returns The layout, or undefined when a field doesn't fit in half the screen with two columns
+ */
+function layoutColumns(columns: TableColumn[], labelSource: LabelSource, twoColumns: boolean, maxRows: number, maxCols: number): ColumnLayout | undefined {
+    const blockCount = twoColumns ? 2 : 1;
+    const blockWidth = Math.floor((maxCols - 1) / blockCount);
+    const lastRow = maxRows - BOTTOM_MARGIN;
+
+    const labels = columns.map(column => getLabelText(column, labelSource));
+    const labelWidth = Math.min(Math.max(...labels.map(label => label.length)), twoColumns ? MAX_LABEL_WIDTH_TWO_COLUMNS : MAX_LABEL_WIDTH);
+
+    if (twoColumns && columns.some(column => labelWidth + 1 + getDisplayLength(column) > blockWidth - 1)) {
+        return undefined;
+    };
+
+    const placed: PlacedColumn[] = [];
+    const overflow: TableColumn[] = [];
+    const perBlock = Math.ceil(columns.length / blockCount);
+
+    for (let block = 0; block < blockCount; block++) {
+        const labelCol = 2 + block * blockWidth;
+        const fieldCol = labelCol + labelWidth + 1;
+        let row = FIRST_ROW;
+
+        columns.slice(block * perBlock, (block + 1) * perBlock).forEach(column => {
+            // A field longer than the rest of the row continues on the next rows
+            const rowsUsed = Math.ceil((fieldCol - 1 + getDisplayLength(column)) / maxCols);
+            if (row + rowsUsed - 1 > lastRow) {
+                overflow.push(column);
+                return;
+            };
+            placed.push({ column, label: formatLabel(labels[columns.indexOf(column)], labelWidth), row, labelCol, fieldCol });
+            row += rowsUsed;
+        });
+    };
+
+    return { placed, overflow };
+};
+
+/**
+ * Gets the text of a column's label.
+ * @param column - The column
+ * @param labelSource - Where the label's text comes from
+ */
+function getLabelText(column: TableColumn, labelSource: LabelSource): string {
+    switch (labelSource) {
+        case 'text': return column.text ?? column.heading ?? column.name;
+        case 'heading': return column.heading ?? column.text ?? column.name;
+        default: return column.name;
+    };
+};
+
+/**
+ * Fits a label to its width: cut when longer, followed by dot leaders when shorter. The dots fall
+ * on the same columns on every row, the last one at the end of the label area.
+ * @param text - The label's text
+ * @param width - Width of the label area
+ */
+function formatLabel(text: string, width: number): string {
+    let label = text.substring(0, width) + ' ';
+    for (let position = label.length; position < width; position++) {
+        label += (width - 1 - position) % 2 === 0 ? '.' : ' ';
+    };
+    return label.trimEnd();
+};
+
+/**
+ * Gets how many positions a column's field takes on the screen.
+ * @param column - The column
+ */
+export function getDisplayLength(column: TableColumn): number {
+    switch (column.type) {
+        case 'L': return 10;
+        case 'T': return 8;
+        case 'Z': return 26;
+        case 'A': return column.length;
+        // Numeric fields show a sign and a decimal point besides the digits
+        default: return column.length + (column.decimals > 0 ? 1 : 0) + 1;
+    };
+};
+
+// DDS GENERATION
+
+/**
+ * Builds the edit adding the record at the end of the source, and the REF keyword (and DSPSIZ,
+ * when the source has none yet) at file level.
+ * @param document - The DDS document
+ * @param model - Its parsed model
+ * @param recordName - Name of the new record
+ * @param table - The database file the fields reference
+ * @param placed - The columns laid out
+ * @param usage - Usage of the fields
+ * @param refKeyword - The file-level REF keyword to add, if the file has none
+ * @param dspsizConfig - The DSPSIZ to add, if the file needs one
+ */
+function buildRecordEdit(
+    document: vscode.TextDocument,
+    model: DdsDocumentModel,
+    recordName: string,
+    table: TableReference,
+    placed: PlacedColumn[],
+    usage: ColumnUsage,
+    refKeyword: string | undefined | null,
+    dspsizConfig: DspsizConfig | null
+): vscode.WorkspaceEdit {
+    const prefix = ' '.repeat(5) + 'A' + ' '.repeat(38);
+
+    // The fields take REFFLD only when the file-level REF names another file
+    const qualifiedFile = formatTable(table);
+    const recordLines = [
+        ' '.repeat(5) + 'A' + ' '.repeat(10) + 'R ' + recordName,
+        ...placed.flatMap(item => [
+            generateLabelLine(item),
+            generateFieldLine(item, usage, refKeyword === null ? `REFFLD(${item.column.name} ${qualifiedFile})` : undefined)
+        ])
+    ];
+
+    const fileLevelLines = [
+        ...(dspsizConfig ? generateDspsizLines(dspsizConfig) : []),
+        ...(refKeyword ? [prefix + refKeyword] : [])
+    ];
+    return buildInsertRecordsEdit(document, model, fileLevelLines, recordLines);
+};
+
+/**
+ * Builds the edit adding records at the end of the source, and keywords at file level: before
+ * the first record, or right before the new ones when the source has no records yet.
+ * @param document - The DDS document
+ * @param model - Its parsed model
+ * @param fileLevelLines - The file-level keyword lines to add
+ * @param recordLines - The lines of the new records
+ */
+export function buildInsertRecordsEdit(document: vscode.TextDocument, model: DdsDocumentModel, fileLevelLines: string[], recordLines: string[]): vscode.WorkspaceEdit {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const firstRecord = model.fieldsPerRecords.length > 0
+        ? Math.min(...model.fieldsPerRecords.map(record => record.startIndex))
+        : undefined;
+    if (firstRecord !== undefined && fileLevelLines.length > 0) {
+        workspaceEdit.insert(document.uri, new vscode.Position(firstRecord, 0), fileLevelLines.join('\n') + '\n');
+    };
+
+    const lines = firstRecord !== undefined ? recordLines : [...fileLevelLines, ...recordLines];
+    const endPosition = new vscode.Position(document.lineCount, 0);
+    const lastLine = document.lineCount > 0 ? document.lineAt(document.lineCount - 1).text : '';
+    workspaceEdit.insert(document.uri, endPosition, (lastLine.trim() !== '' ? '\n' : '') + lines.join('\n'));
+    return workspaceEdit;
+};
+
+/**
+ * Gets the REF keyword to add at file level for the fields to reference a file.
+ * @param model - The parsed model of the document
+ * @param table - The database file
+ * @returns The keyword to add; undefined when the file-level REF already names the file; null when
+ * it names another one (the fields then need REFFLD)
+ */
+export function getFileLevelReference(model: DdsDocumentModel, table: TableReference): string | undefined | null {
+    const existing = model.attributesFileLevel
+        .map(attribute => attribute.value.match(/^REF\(\s*(\S+)\s*\)/i)?.[1]?.toUpperCase())
+        .find(Boolean);
+    if (!existing) {
+        return `REF(${formatTable(table)})`;
+    };
+    const [library, file] = existing.includes('/') ? existing.split('/') : [undefined, existing];
+    return file === table.file && (!library || !table.library || library === table.library) ? undefined : null;
+};
+
+/**
+ * Generates the constant line of a column's label.
+ * @param item - The placed column
+ */
+function generateLabelLine(item: PlacedColumn): string {
+    let line = ' '.repeat(44);
+    line = replaceAt(line, 5, 'A');
+    line = replaceAt(line, 38, item.row.toString().padStart(3, ' '));
+    line = replaceAt(line, 41, item.labelCol.toString().padStart(3, ' '));
+    return line + `'${item.label.replace(/'/g, "''")}'`;
+};
+
+/**
+ * Generates the referenced field line of a column.
+ * @param item - The placed column
+ * @param usage - The field's usage
+ * @param refSpec - The REFFLD keyword, when the file-level REF doesn't name the file
+ */
+function generateFieldLine(item: PlacedColumn, usage: ColumnUsage, refSpec: string | undefined): string {
+    let line = ' '.repeat(44);
+    line = replaceAt(line, 5, 'A');
+    line = replaceAt(line, 18, item.column.name.padEnd(10, ' '));
+    line = replaceAt(line, 28, 'R');
+    if (usage !== 'O') {
+        line = replaceAt(line, 37, usage);
+    };
+    line = replaceAt(line, 38, item.row.toString().padStart(3, ' '));
+    line = replaceAt(line, 41, item.fieldCol.toString().padStart(3, ' '));
+    return (line + (refSpec ?? '')).trimEnd();
+};
+
+// UTILITY FUNCTIONS
+
+/**
+ * Formats a database file as LIBRARY/FILE, or FILE without a library.
+ * @param table - The database file
+ */
+export function formatTable(table: TableReference): string {
+    return table.library ? `${table.library}/${table.file}` : table.file;
+};
+
+/**
+ * Formats a column's type for the column list, e.g. "10A" or "7P 2".
+ * @param column - The column
+ */
+function formatColumnType(column: TableColumn): string {
+    if (column.type === 'L' || column.type === 'T' || column.type === 'Z') {
+        return column.type;
+    };
+    return column.type === 'A' ? `${column.length}A` : `${column.length}${column.type} ${column.decimals}`;
+};
+
+/**
+ * Replaces characters at a specific position in a string.
+ * @param str - The original string
+ * @param index - Position to start the replacement
+ * @param replacement - The replacement text
+ */
+function replaceAt(str: string, index: number, replacement: string): string {
+    return str.substring(0, index) + replacement + str.substring(index + replacement.length);
+};
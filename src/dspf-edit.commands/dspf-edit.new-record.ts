@@ -8,8 +8,8 @@ import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
 import { recordExists, DspsizConfig,
     checkIfDspsizNeeded, collectDspsizConfiguration, generateDspsizLines,
-    checkForEditorAndDocument, applyWorkspaceEdit} from '../dspf-edit.utils/dspf-edit.helper';
-import { fileSizeAttributes } from '../dspf-edit.model/dspf-edit.model';
+    checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel} from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
 
 // INTERFACES AND TYPES
 
@@ -34,7 +34,7 @@ type WindowPosition = 'CENTERED' | 'BOTTOM_CENTERED' | 'TOP_LEFT';
 /**
  * Window/Subfile window dimensions configuration.
  */
-interface WindowDimensions {
+export interface WindowDimensions {
     startRow: number;
     startCol: number;
     numRows: number;
@@ -44,7 +44,7 @@ interface WindowDimensions {
 /**
  * Window configuration including title.
  */
-interface WindowConfig {
+export interface WindowConfig {
     dimensions: WindowDimensions;
     title?: string;
 };
@@ -103,7 +103,7 @@ async function handleNewRecordCommand(node: DdsNode): Promise<void> {
         const needsDspsiz = await checkIfDspsizNeeded(editor);
 
         // Collect record configuration from user
-        const recordConfig = await collectRecordConfiguration(needsDspsiz);
+        const recordConfig = await collectRecordConfiguration(getDocumentModel(document), needsDspsiz);
         if (!recordConfig) {
             // User cancelled the operation
             return;
@@ -136,10 +136,11 @@ async function handleNewRecordCommand(node: DdsNode): Promise<void> {
 
 /**
  * Collects complete record configuration from user through interactive dialogs.
+ * @param model - The parsed model of the document the record is added to
  * @param needsDspsiz - Whether DSPSIZ configuration is needed
  * @returns Complete record configuration or null if user cancelled
  */
-async function collectRecordConfiguration(needsDspsiz: boolean): Promise<NewRecordConfig | null> {
+async function collectRecordConfiguration(model: DdsDocumentModel, needsDspsiz: boolean): Promise<NewRecordConfig | null> {
     // Step 0: Collect DSPSIZ configuration if needed
     let dspsizConfig: DspsizConfig | undefined | null;
     if (needsDspsiz) {
@@ -148,7 +149,7 @@ async function collectRecordConfiguration(needsDspsiz: boolean): Promise<NewReco
     };
 
     // Step 1: Get record name
-    const recordName = await collectRecordName();
+    const recordName = await collectRecordName(model);
     if (!recordName) return null;
 
     // Step 2: Get record type
@@ -160,12 +161,12 @@ async function collectRecordConfiguration(needsDspsiz: boolean): Promise<NewReco
     let subfileConfig: SubfileConfig | undefined | null;
 
     if (recordType === 'WINDOW' || recordType === 'SFLWDW') {
-        windowConfig = await collectWindowConfiguration();
+        windowConfig = await collectWindowConfiguration(model);
         if (!windowConfig) return null;
     };
 
     if (recordType === 'SFL' || recordType === 'SFLWDW') {
-        subfileConfig = await collectSubfileConfiguration();
+        subfileConfig = await collectSubfileConfiguration(model);
         if (!subfileConfig) return null;
     };
 
@@ -184,15 +185,16 @@ async function collectRecordConfiguration(needsDspsiz: boolean): Promise<NewReco
 
 /**
  * Collects and validates the new record name from user input.
+ * @param model - The parsed model of the document the record is added to
  * @returns Valid record name or null if cancelled
  */
-async function collectRecordName(): Promise<string | null> {
+async function collectRecordName(model: DdsDocumentModel): Promise<string | null> {
     const stepNumber = '1/4'; // Will be adjusted based on whether DSPSIZ is needed
     const recordName = await vscode.window.showInputBox({
         title: `Create New Record - Step ${stepNumber}`,
         prompt: 'Enter the new record name (In case of subfile, this is the subfile detail record name)',
         placeHolder: 'RECORD',
-        validateInput: validateRecordName
+        validateInput: value => validateRecordName(model, value)
     });
 
     return recordName?.toUpperCase() || null;
@@ -200,10 +202,11 @@ async function collectRecordName(): Promise<string | null> {
 
 /**
  * Validates record name according to DDS rules.
+ * @param model - The parsed model of the document the record would be added to
  * @param value - The record name to validate
  * @returns Error message or null if valid
  */
-export function validateRecordName(value: string): string | null {
+export function validateRecordName(model: DdsDocumentModel, value: string): string | null {
     if (!value || value.trim() === '') {
         return "The record name cannot be empty.";
     };
@@ -226,7 +229,7 @@ export function validateRecordName(value: string): string | null {
         return "Invalid characters in record name. Use letters, numbers, @, #, $.";
     };
 
-    if (recordExists(trimmedValue.toUpperCase())) {
+    if (recordExists(model, trimmedValue.toUpperCase())) {
         return "Record name already exists.";
     };
 
@@ -273,11 +276,12 @@ async function collectRecordType(): Promise<RecordType | null> {
 
 /**
  * Collects complete window configuration including size and position.
+ * @param model - The parsed model of the document the record is added to
  * @returns Window configuration or null if cancelled
  */
-async function collectWindowConfiguration(): Promise<WindowConfig | null> {
+export async function collectWindowConfiguration(model: DdsDocumentModel): Promise<WindowConfig | null> {
     // First, collect window size
-    const windowSize = await collectWindowSize();
+    const windowSize = await collectWindowSize(model);
     if (!windowSize) return null;
 
     // Then, collect positioning preference
@@ -285,7 +289,7 @@ async function collectWindowConfiguration(): Promise<WindowConfig | null> {
     if (!position) return null;
 
     // Calculate actual dimensions based on size and position
-    const dimensions = calculateWindowDimensions(windowSize, position);
+    const dimensions = calculateWindowDimensions(model, windowSize, position);
     if (!dimensions) {
         vscode.window.showErrorMessage("Cannot position window with these dimensions on the current screen size.");
         return null;
@@ -303,11 +307,12 @@ async function collectWindowConfiguration(): Promise<WindowConfig | null> {
 
 /**
  * Collects window size (rows and columns).
+ * @param model - The parsed model of the document the record is added to
  * @returns Window size or null if cancelled
  */
-async function collectWindowSize(): Promise<WindowSize | null> {
-    const maxRows = fileSizeAttributes.maxRow1 || 24;
-    const maxCols = fileSizeAttributes.maxCol1 || 80;
+async function collectWindowSize(model: DdsDocumentModel): Promise<WindowSize | null> {
+    const maxRows = model.fileSizeAttributes.maxRow1 || 24;
+    const maxCols = model.fileSizeAttributes.maxCol1 || 80;
 
     const numRows = await vscode.window.showInputBox({
         title: 'Window Configuration - Size',
@@ -366,13 +371,14 @@ async function collectWindowPosition(): Promise<WindowPosition | null> {
 
 /**
  * Calculates actual window dimensions based on size and position preferences.
+ * @param model The parsed model of the document the record is added to
  * @param size Window size requirements
  * @param position Positioning preference
  * @returns Calculated dimensions or null if invalid
  */
-function calculateWindowDimensions(size: WindowSize, position: WindowPosition): WindowDimensions | null {
-    const maxRows = fileSizeAttributes.maxRow1 || 24;
-    const maxCols = fileSizeAttributes.maxCol1 || 80;
+function calculateWindowDimensions(model: DdsDocumentModel, size: WindowSize, position: WindowPosition): WindowDimensions | null {
+    const maxRows = model.fileSizeAttributes.maxRow1 || 24;
+    const maxCols = model.fileSizeAttributes.maxCol1 || 80;
 
     // Validate that window fits on screen
     if (size.numRows > maxRows || size.numCols > maxCols) {
@@ -456,14 +462,15 @@ function validateWindowTitle(value: string, maxLength: number): string | null {
 
 /**
  * Collects subfile configuration for SFL and SFLWDW record types.
+ * @param model - The parsed model of the document the record is added to
  * @returns Subfile configuration or null if cancelled
  */
-async function collectSubfileConfiguration(): Promise<SubfileConfig | null> {
+async function collectSubfileConfiguration(model: DdsDocumentModel): Promise<SubfileConfig | null> {
     const controlRecordName = await vscode.window.showInputBox({
         title: 'Subfile Configuration - Control Record',
         prompt: 'Enter the subfile control record name (This is the subfile header record name)',
         placeHolder: 'SFLCTL',
-        validateInput: validateRecordName
+        validateInput: value => validateRecordName(model, value)
     });
     if (!controlRecordName) return null;
 
@@ -500,7 +507,7 @@ async function collectSubfileConfiguration(): Promise<SubfileConfig | null> {
  * @param fieldName - Field name for error messages
  * @returns Error message or null if valid
  */
-function validateNumericRange(value: string, min: number, max: number, fieldName: string): string | null {
+export function validateNumericRange(value: string, min: number, max: number, fieldName: string): string | null {
     if (!value || value.trim() === '') {
         return `${fieldName} cannot be empty.`;
     };
@@ -595,7 +602,7 @@ function generateMainRecordLine(config: NewRecordConfig): string {
  * @param dimensions - Window dimensions
  * @returns Formatted window line
  */
-function generateWindowLine(dimensions: WindowDimensions): string {
+export function generateWindowLine(dimensions: WindowDimensions): string {
     return ' '.repeat(5) + 'A' + ' '.repeat(38) + 'WINDOW(' + 
            dimensions.startRow + ' ' + 
            dimensions.startCol + ' ' + 
@@ -653,7 +660,7 @@ export function generateWindowTitleLines(
  * Generates window border specification lines.
  * @returns Array of formatted window border lines
  */
-function generateWindowBorderLines(): string[] {
+export function generateWindowBorderLines(): string[] {
     const baseLine = ' '.repeat(5) + 'A' + ' '.repeat(38) + 'WDWBORDER((*COLOR BLU) (*DSPATR RI)-';
     const continuationLine = ' '.repeat(5) + 'A' + ' '.repeat(39) + "(*CHAR '" + ' '.repeat(8) + "')) ";
     return [baseLine, continuationLine];
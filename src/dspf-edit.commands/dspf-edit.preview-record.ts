@@ -6,9 +6,10 @@
 
 import * as vscode from 'vscode';
 import { DdsNode, DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords, getRecordSize, getDefaultSize } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument } from '../dspf-edit.utils/dspf-edit.helper';
+import { getRecordSize, getDefaultSize } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 import { RecordPreviewPanel } from '../dspf-edit.webview/dspf-edit.record-preview-panel';
+import { ExtensionState } from '../dspf-edit.states/state';
 
 /**
  * Registers the "Preview Screen Layout" command for DDS records, and keeps the preview panel
@@ -29,18 +30,25 @@ export function previewRecord(context: vscode.ExtensionContext, treeProvider: Dd
         context.subscriptions.push(
             treeView.onDidChangeSelection(event => {
                 try {
-                    if (!RecordPreviewPanel.isOpen()) {
+                    // The tree always shows the last active DDS document; only that document's
+                    // own preview (if open) follows its selection.
+                    const document = ExtensionState.lastDdsDocument;
+                    if (!document) {
+                        return;
+                    };
+                    const documentUri = document.uri.toString();
+                    if (!RecordPreviewPanel.isOpen(documentUri)) {
                         return;
                     };
 
                     const element = event.selection[0]?.ddsElement;
                     if (element?.kind === 'record') {
-                        showRecordInPreview(element.name, treeProvider);
+                        showRecordInPreview(document, element.name, treeProvider);
                     } else if (element?.kind === 'field' || element?.kind === 'constant') {
-                        if (element.recordname !== RecordPreviewPanel.getCurrentRecordName()) {
-                            showRecordInPreview(element.recordname, treeProvider);
+                        if (element.recordname !== RecordPreviewPanel.getCurrentRecordName(documentUri)) {
+                            showRecordInPreview(document, element.recordname, treeProvider);
                         };
-                        RecordPreviewPanel.selectLineIfOpen(element.lineIndex);
+                        RecordPreviewPanel.selectLineIfOpen(documentUri, element.lineIndex);
                     };
                 } catch (error) {
                     console.error('Error updating record preview on selection change:', error);
@@ -74,7 +82,7 @@ function handlePreviewRecordCommand(node: DdsNode, treeProvider: DdsTreeProvider
             return;
         };
 
-        showRecordInPreview(element.name, treeProvider);
+        showRecordInPreview(document, element.name, treeProvider);
 
     } catch (error) {
         console.error('Error previewing record:', error);
@@ -83,18 +91,20 @@ function handlePreviewRecordCommand(node: DdsNode, treeProvider: DdsTreeProvider
 };
 
 /**
- * Shows the given record in the (single, shared) preview panel, creating it if needed,
+ * Shows the given record in the document's preview panel, creating it if needed,
  * and keeps it refreshed on every subsequent tree/model refresh.
+ * @param document - The DDS source document the record belongs to
  * @param recordName - Name of the record to preview
  * @param treeProvider - The tree provider, whose refresh event drives the panel's updates
  */
-function showRecordInPreview(recordName: string, treeProvider: DdsTreeProvider): void {
-    const panel = RecordPreviewPanel.getOrCreate(recordName, treeProvider);
+function showRecordInPreview(document: vscode.TextDocument, recordName: string, treeProvider: DdsTreeProvider): void {
+    const panel = RecordPreviewPanel.getOrCreate(document, recordName, treeProvider);
 
     const refresh = () => {
-        const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
-        const size = getRecordSize(recordName) ?? getDefaultSize();
-        panel.update(recordInfo, size);
+        const model = getDocumentModel(document);
+        const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
+        const size = getRecordSize(model, recordName) ?? getDefaultSize(model);
+        panel.update(model, recordInfo, size);
     };
 
     panel.setRefreshSource(treeProvider.onDidChangeTreeData, refresh);
@@ -0,0 +1,59 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.reflow.ts
+*/
+
+import * as vscode from 'vscode';
+import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { getFormattingEdits } from '../dspf-edit.formatter/dspf-edit.formatter';
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the reflow command, which realigns the DDS source in its fixed columns.
+ * Works on the selected lines, or on the whole source when nothing is selected.
+ * @param context - The VS Code extension context
+ */
+export function reflow(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.reflow", async () => {
+            await handleReflowCommand();
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the reflow command: applies the formatter's edits to the active DDS editor.
+ */
+async function handleReflowCommand(): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+
+        const selection = editor.selection;
+        const edits = selection.isEmpty
+            ? getFormattingEdits(document)
+            : getFormattingEdits(document, selection.start.line, selection.end.line);
+
+        if (edits.length === 0) {
+            vscode.window.showInformationMessage('The DDS source is already aligned.');
+            return;
+        };
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        edits.forEach(edit => workspaceEdit.replace(document.uri, edit.range, edit.newText));
+        if (await applyWorkspaceEdit(workspaceEdit, 'reflow the source')) {
+            vscode.window.showInformationMessage(`Reflowed ${edits.length} statement${edits.length === 1 ? '' : 's'}.`);
+        };
+
+    } catch (error) {
+        console.error('Error reflowing DDS source:', error);
+        vscode.window.showErrorMessage('An error occurred while reflowing the DDS source.');
+    };
+};
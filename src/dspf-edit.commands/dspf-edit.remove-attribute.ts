@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
-import { fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
 
 // TYPE DEFINITIONS
 
@@ -64,6 +64,7 @@ async function handleRemoveAttributeCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -78,7 +79,7 @@ async function handleRemoveAttributeCommand(node: DdsNode): Promise<void> {
         const endLine = element.lastLineIndex;
 
         // Find the parent field or constant information
-        const parentInfo = findAttributeParentFromFieldsPerRecords(startLine);
+        const parentInfo = findAttributeParentFromFieldsPerRecords(model, startLine);
 
         if (!parentInfo.parentName || !parentInfo.recordName) {
             vscode.window.showWarningMessage(`Could not determine parent field/constant or record for this attribute.`);
@@ -283,17 +284,18 @@ function calculateDeletionOffsets(
 /**
  * Searches the fieldsPerRecords structure to find parent information for a given attribute.
  * Determines whether the attribute belongs to a field or constant and provides parent details.
+ * @param model - The parsed model of the document
  * @param attributeLineIndex - The line number where the attribute is located
  * @returns Object containing record name, parent type, parent name, and parent details
  */
-function findAttributeParentFromFieldsPerRecords(attributeLineIndex: number): {
+function findAttributeParentFromFieldsPerRecords(model: DdsDocumentModel, attributeLineIndex: number): {
     recordName: string | null;
     parentType: 'field' | 'constant' | null;
     parentName: string | null;
     parentDetails: any;
 } {
     // Iterate through all records in the fieldsPerRecords structure
-    for (const recordEntry of fieldsPerRecords) {
+    for (const recordEntry of model.fieldsPerRecords) {
         // Search within fields of the current record
         for (const field of recordEntry.fields) {
             // Check if the attribute is within the field's line range
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords, FieldInfo, ConstantInfo } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel, FieldInfo, ConstantInfo } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // TYPE DEFINITIONS
 
@@ -72,6 +72,7 @@ async function handleRemoveElementCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -81,7 +82,7 @@ async function handleRemoveElementCommand(node: DdsNode): Promise<void> {
         };
 
         // Find the element in our model
-        const elementInfo = findElementInModel(element.name, element.lineIndex, element.recordname, element.kind);
+        const elementInfo = findElementInModel(model, element.name, element.lineIndex, element.recordname, element.kind);
         if (!elementInfo) {
             vscode.window.showErrorMessage(`Could not find ${element.name} in the model.`);
             return;
@@ -115,6 +116,7 @@ async function handleRemoveElementCommand(node: DdsNode): Promise<void> {
 
 /**
  * Finds an element in the model by name and line index within a specific record.
+ * @param model - The parsed model of the document
  * @param elementName - The name of the element to find
  * @param lineIndex - The line index where the element is located
  * @param recordName - The name of the record containing the element
@@ -122,13 +124,14 @@ async function handleRemoveElementCommand(node: DdsNode): Promise<void> {
  * @returns The element info or null if not found
  */
 function findElementInModel(
+    model: DdsDocumentModel,
     elementName: string, 
     lineIndex: number, 
     recordName: string, 
     elementType: 'field' | 'constant'
 ): DeletableElement | null {
     // Find the specific record
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!record) {
         console.warn(`Record ${recordName} not found in model`);
         return null;
@@ -170,9 +173,9 @@ function findElementInModel(
 function createDeletionPlan(elementInfo: DeletableElement, elementType: 'field' | 'constant', recordName: string): ElementDeletionPlan {
     const ranges: DeletionRange[] = [];
 
-    // Add the main element range
+    // Add the main element range, with the indicator-only lines conditioning it
     ranges.push({
-        startLine: elementInfo.lineIndex,
+        startLine: elementInfo.conditionLineIndex ?? elementInfo.lineIndex,
         endLine: elementInfo.lastLineIndex,
         description: `${elementType.charAt(0).toUpperCase() + elementType.slice(1)} ${elementInfo.name}`
     });
@@ -180,7 +183,7 @@ function createDeletionPlan(elementInfo: DeletableElement, elementType: 'field'
     // Add ranges for all attributes
     elementInfo.attributes.forEach((attribute, index) => {
         ranges.push({
-            startLine: attribute.lineIndex,
+            startLine: attribute.conditionLineIndex ?? attribute.lineIndex,
             endLine: attribute.lastLineIndex,
             description: `Attribute ${index + 1}: ${attribute.value}`
         });
@@ -261,10 +264,11 @@ async function executeElementDeletion(
  * Checks whether the deleted element's own record is a subfile (SFL) — in a subfile, the raw
  * source's row/column spec columns keep their physical meaning but end up swapped onto
  * element.row/element.column (see dspf-edit.move-fields.ts, which established this same mapping).
+ * @param model - The parsed model of the document
  * @param recordName - The record to check
  */
-function isSubfileRecord(recordName: string): boolean {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+function isSubfileRecord(model: DdsDocumentModel, recordName: string): boolean {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     return record?.attributes?.some(attr => attr.value === 'SFL') ?? false;
 };
 
@@ -273,11 +277,12 @@ function isSubfileRecord(recordName: string): boolean {
  * the only element whose relative position (if any) could be anchored to whatever's at that line,
  * since DDS's relative record format always resolves against the immediately preceding
  * field/constant in source order.
+ * @param model - The parsed model of the document
  * @param recordName - The record to search within
  * @param afterLineIndex - Source line index of the element being deleted
  */
-function findNextPositionedElement(recordName: string, afterLineIndex: number): DeletableElement | null {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
+function findNextPositionedElement(model: DdsDocumentModel, recordName: string, afterLineIndex: number): DeletableElement | null {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!record) return null;
 
     const candidates: DeletableElement[] = [...record.fields, ...record.constants]
@@ -305,13 +310,14 @@ function addPositionMaterializationEdit(
     uri: vscode.Uri,
     deletionPlan: ElementDeletionPlan
 ): void {
+    const model = getDocumentModel(document);
     const { element, elementType, recordName } = deletionPlan;
 
     if (elementType === 'field' && (element as FieldInfo).usage === 'H') {
         return;
     };
 
-    const nextElement = findNextPositionedElement(recordName, element.lineIndex);
+    const nextElement = findNextPositionedElement(model, recordName, element.lineIndex);
     if (!nextElement) {
         return;
     };
@@ -329,7 +335,7 @@ function addPositionMaterializationEdit(
     // Raw columns 38-41 (Line/row spec) and 41-44 (Position/col spec) always keep that same
     // physical meaning; a subfile only swaps which of those raw values ends up labeled
     // element.row vs element.column internally.
-    const isSfl = isSubfileRecord(recordName);
+    const isSfl = isSubfileRecord(model, recordName);
     const rawRowValue = isSfl ? nextElement.col : nextElement.row;
     const rawColValue = isSfl ? nextElement.row : nextElement.col;
 
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
-import { fieldsPerRecords, records } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
 
 // TYPE DEFINITIONS
 
@@ -78,6 +78,7 @@ async function handleRenameFieldCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -95,7 +96,7 @@ async function handleRenameFieldCommand(node: DdsNode): Promise<void> {
         const inputName = await vscode.window.showInputBox({
             prompt: `Enter new name for field "${oldName}"`,
             value: oldName,
-            validateInput: (value) => validateFieldName(value, recordName, oldName)
+            validateInput: (value) => validateFieldName(model, value, recordName, oldName)
         });
         if (!inputName) {
             return;
@@ -142,6 +143,7 @@ async function handleRenameRecordCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
 
         const element = node.ddsElement;
 
@@ -155,7 +157,7 @@ async function handleRenameRecordCommand(node: DdsNode): Promise<void> {
         const lineIndex = element.lineIndex;
 
         // Find the record in fieldsPerRecords to get start and end indices
-        const recordEntry = fieldsPerRecords.find(r => r.record === oldName);
+        const recordEntry = model.fieldsPerRecords.find(r => r.record === oldName);
         if (!recordEntry) {
             vscode.window.showWarningMessage(`Could not find record information for "${oldName}".`);
             return;
@@ -165,7 +167,7 @@ async function handleRenameRecordCommand(node: DdsNode): Promise<void> {
         const inputName = await vscode.window.showInputBox({
             prompt: `Enter new name for record "${oldName}"`,
             value: oldName,
-            validateInput: (value) => validateRecordName(value, oldName)
+            validateInput: (value) => validateRecordName(model, value, oldName)
         });
         if (!inputName) {
             return;
@@ -203,12 +205,13 @@ async function handleRenameRecordCommand(node: DdsNode): Promise<void> {
 
 /**
  * Validates a field name according to DDS rules.
+ * @param model - The parsed model of the document
  * @param name - The name to validate
  * @param recordName - The record containing the field
  * @param oldName - The current name (to allow unchanged name)
  * @returns Error message if invalid, undefined if valid
  */
-function validateFieldName(name: string, recordName: string, oldName: string): string | undefined {
+function validateFieldName(model: DdsDocumentModel, name: string, recordName: string, oldName: string): string | undefined {
     // Check if name is empty
     if (!name || name.trim().length === 0) {
         return 'Field name cannot be empty.';
@@ -243,7 +246,7 @@ function validateFieldName(name: string, recordName: string, oldName: string): s
     };
 
     // Check if name already exists in the same record
-    const recordEntry = fieldsPerRecords.find(r => r.record === recordName);
+    const recordEntry = model.fieldsPerRecords.find(r => r.record === recordName);
     if (recordEntry) {
         const nameExists = recordEntry.fields.some(f => f.name.toUpperCase() === name.toUpperCase());
         if (nameExists) {
@@ -256,11 +259,12 @@ function validateFieldName(name: string, recordName: string, oldName: string): s
 
 /**
  * Validates a record name according to DDS rules.
+ * @param model - The parsed model of the document
  * @param name - The name to validate
  * @param oldName - The current name (to allow unchanged name)
  * @returns Error message if invalid, undefined if valid
  */
-function validateRecordName(name: string, oldName: string): string | undefined {
+function validateRecordName(model: DdsDocumentModel, name: string, oldName: string): string | undefined {
     // Check if name is empty
     if (!name || name.trim().length === 0) {
         return 'Record name cannot be empty.';
@@ -295,7 +299,7 @@ function validateRecordName(name: string, oldName: string): string | undefined {
     };
 
     // Check if record name already exists
-    const nameExists = records.some(r => r.toUpperCase() === name.toUpperCase());
+    const nameExists = model.records.some(r => r.toUpperCase() === name.toUpperCase());
     if (nameExists) {
         return `Record "${name}" already exists.`;
     };
@@ -0,0 +1,108 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.render-text.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
+import { getAvailableDisplayFormats } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { ScreenComposer, ScreenOptions } from '../dspf-edit.webview/dspf-edit.screen-composer';
+import { PreviewSnapshot, buildPreviewMarkdown, toPreviewSnapshot } from '../dspf-edit.webview/dspf-edit.preview-export';
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the command that renders a record as a plain-text screen grid.
+ * @param context - The VS Code extension context
+ */
+export function renderRecordText(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.render-record-text", async (node?: DdsNode) => {
+            await handleRenderRecordTextCommand(node);
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the render record as text command: composes the record on its screen the way the
+ * preview does (every indicator off, its subfile pair and window owner included) and opens its
+ * text rendering in a new Markdown document.
+ * @param node - The record's node in the DDS tree; asked for when run from the command palette
+ */
+async function handleRenderRecordTextCommand(node?: DdsNode): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+        const model = getDocumentModel(document);
+
+        let recordName = node?.ddsElement?.kind === 'record' ? node.ddsElement.name : undefined;
+        if (!recordName) {
+            if (model.records.length === 0) {
+                vscode.window.showInformationMessage('This file has no records to render.');
+                return;
+            };
+            recordName = await vscode.window.showQuickPick(model.records, {
+                title: 'Render Record as Text',
+                placeHolder: 'Select the record to render'
+            });
+            if (!recordName) {
+                return;
+            };
+        };
+
+        // A file with two display sizes (e.g. 24x80 and 27x132) is rendered in the one chosen
+        const formats = getAvailableDisplayFormats(model);
+        const options: ScreenOptions = {};
+        if (formats.length > 1) {
+            const format = await vscode.window.showQuickPick(
+                formats.map(candidate => ({ label: candidate.name, description: `${candidate.rows}x${candidate.cols}` })),
+                { title: 'Render Record as Text', placeHolder: 'Select the display size' }
+            );
+            if (!format) {
+                return;
+            };
+            options.activeDisplayFormat = format.label;
+        };
+
+        const screen = ScreenComposer.forRecord(document.uri.toString(), model, recordName, options).compose();
+        if (!screen) {
+            vscode.window.showWarningMessage(`Record ${recordName} not found.`);
+            return;
+        };
+
+        await showPreviewText(toPreviewSnapshot(screen, document.uri.path.split('/').pop() ?? '', options));
+
+    } catch (error) {
+        console.error('Error rendering record as text:', error);
+        vscode.window.showErrorMessage('An error occurred while rendering the record as text.');
+    };
+};
+
+/**
+ * Asks whether to add rulers, and opens the text rendering of a composed screen in a new Markdown
+ * document. Also used by the preview's toolbar, with the preview's own indicators, display format
+ * and overlay.
+ * @param snapshot - The composed screen
+ */
+export async function showPreviewText(snapshot: PreviewSnapshot): Promise<void> {
+    const rulers = await vscode.window.showQuickPick(
+        [
+            { label: 'With rulers', description: 'Column ruler above the grid, row numbers on its left', withRulers: true },
+            { label: 'Without rulers', description: 'The screen only', withRulers: false }
+        ],
+        { title: `Render ${snapshot.recordName} as Text`, placeHolder: 'Add a row and column ruler?' }
+    );
+    if (!rulers) {
+        return;
+    };
+
+    const rendered = await vscode.workspace.openTextDocument({ language: 'markdown', content: buildPreviewMarkdown(snapshot, rulers.withRulers) });
+    await vscode.window.showTextDocument(rendered, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+};
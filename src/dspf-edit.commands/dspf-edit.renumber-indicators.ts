@@ -0,0 +1,372 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.renumber-indicators.ts
+*/
+
+import * as vscode from 'vscode';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { parseDisplayFormatCondition } from '../dspf-edit.parser/dspf-edit.parser';
+import { splitKeywords } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { findStatementEnd } from '../dspf-edit.formatter/dspf-edit.formatter';
+import { IndicatorNode, collectIndicatorUsages, findResponseIndicator } from '../dspf-edit.providers/dspf-edit.indicator-provider';
+
+// TYPE DEFINITIONS
+
+/**
+ * Keyword text of a statement, joined from its continuation lines, with the source position of
+ * each of its characters.
+ */
+interface JoinedKeywordText {
+    text: string;
+    positions: vscode.Position[];
+};
+
+/** Columns (0-based) of the three conditioning indicators (the N/blank before each number). */
+const INDICATOR_SLOTS = [7, 10, 13];
+
+/** Column (0-based) where the keyword area starts. */
+const KEYWORD_START = 44;
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the rename indicator and compact indicators commands.
+ * @param context - The VS Code extension context
+ */
+export function renumberIndicators(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.rename-indicator", async (node?: IndicatorNode) => {
+            await handleRenameIndicatorCommand(node);
+        }),
+        vscode.commands.registerCommand("dspf-edit.compact-indicators", async () => {
+            await handleCompactIndicatorsCommand();
+        })
+    );
+};
+
+// COMMAND HANDLERS
+
+/**
+ * Handles the rename indicator command: every use of one indicator (conditioning and response)
+ * is changed to another, after a preview.
+ * @param node - The indicator's node in the Indicators view, when run from there
+ */
+async function handleRenameIndicatorCommand(node?: IndicatorNode): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+
+        const useCounts = countIndicatorUses(document);
+        if (useCounts.size === 0) {
+            vscode.window.showInformationMessage('No indicators are used in this file.');
+            return;
+        };
+
+        const source = node?.usages[0]?.indicator ?? await pickUsedIndicator(useCounts);
+        if (source === undefined) {
+            return;
+        };
+
+        const targetInput = await vscode.window.showInputBox({
+            title: `Rename Indicator ${formatIndicator(source)}`,
+            prompt: 'New indicator number (01-99)',
+            validateInput: (value: string) => {
+                const indicator = parseIndicator(value);
+                if (indicator === undefined) {
+                    return 'Enter an indicator from 01 to 99';
+                };
+                return indicator === source ? 'The new indicator must be different' : null;
+            }
+        });
+        const target = targetInput !== undefined ? parseIndicator(targetInput) : undefined;
+        if (target === undefined) {
+            return;
+        };
+
+        // Renaming onto a used indicator merges the two: the program could no longer tell them apart
+        const targetUses = useCounts.get(target);
+        if (targetUses) {
+            const answer = await vscode.window.showWarningMessage(
+                `Indicator ${formatIndicator(target)} is already used (${targetUses} use${targetUses === 1 ? '' : 's'}). ` +
+                `Renaming ${formatIndicator(source)} to it merges the two indicators.`,
+                { modal: true },
+                'Rename Anyway'
+            );
+            if (answer !== 'Rename Anyway') {
+                return;
+            };
+        };
+
+        const workspaceEdit = buildRenumberEdit(document, new Map([[source, target]]));
+        await applyWorkspaceEdit(workspaceEdit, 'rename the indicator', true);
+
+    } catch (error) {
+        console.error('Error renaming indicator:', error);
+        vscode.window.showErrorMessage('An error occurred while renaming the indicator.');
+    };
+};
+
+/**
+ * Handles the compact indicators command: the chosen indicators are renumbered, in order, onto
+ * the free numbers of a range, after a preview.
+ */
+async function handleCompactIndicatorsCommand(): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+
+        const useCounts = countIndicatorUses(document);
+        if (useCounts.size === 0) {
+            vscode.window.showInformationMessage('No indicators are used in this file.');
+            return;
+        };
+
+        const used = [...useCounts.keys()].sort((a, b) => a - b);
+        const picked = await vscode.window.showQuickPick(
+            used.map(indicator => ({
+                label: formatIndicator(indicator),
+                description: `${useCounts.get(indicator)} use${useCounts.get(indicator) === 1 ? '' : 's'}`,
+                picked: true,
+                indicator
+            })),
+            {
+                title: 'Compact Indicators',
+                placeHolder: 'Indicators to renumber (unselect the ones the program relies on, e.g. command keys)',
+                canPickMany: true
+            }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        };
+
+        const rangeInput = await vscode.window.showInputBox({
+            title: 'Compact Indicators',
+            prompt: 'Range to renumber them into (e.g. 30-59)',
+            value: '01-99',
+            validateInput: (value: string) => parseRange(value) ? null : 'Enter a range like 30-59, within 01-99'
+        });
+        const range = rangeInput !== undefined ? parseRange(rangeInput) : undefined;
+        if (!range) {
+            return;
+        };
+
+        // The indicators left alone keep their numbers; the moved ones take the free numbers of the range, in order
+        const moved = picked.map(item => item.indicator).sort((a, b) => a - b);
+        const kept = new Set(used.filter(indicator => !moved.includes(indicator)));
+        const available: number[] = [];
+        for (let indicator = range.first; indicator <= range.last; indicator++) {
+            if (!kept.has(indicator)) {
+                available.push(indicator);
+            };
+        };
+        if (available.length < moved.length) {
+            vscode.window.showErrorMessage(
+                `The range ${formatIndicator(range.first)}-${formatIndicator(range.last)} has ${available.length} free indicator${available.length === 1 ? '' : 's'}, ` +
+                `not enough for the ${moved.length} to renumber.`
+            );
+            return;
+        };
+
+        const mapping = new Map<number, number>();
+        moved.forEach((indicator, index) => {
+            if (available[index] !== indicator) {
+                mapping.set(indicator, available[index]);
+            };
+        });
+        if (mapping.size === 0) {
+            vscode.window.showInformationMessage('The indicators are already compact in that range.');
+            return;
+        };
+
+        const workspaceEdit = buildRenumberEdit(document, mapping);
+        await applyWorkspaceEdit(workspaceEdit, 'compact the indicators', true);
+
+    } catch (error) {
+        console.error('Error compacting indicators:', error);
+        vscode.window.showErrorMessage('An error occurred while compacting the indicators.');
+    };
+};
+
+// EDIT BUILDING
+
+/**
+ * Builds the edit that renumbers indicators: in the conditioning columns 8-16 and as response
+ * indicators of keywords (CAnn(nn), CFnn(nn), ERRMSG(... nn), CHANGE(nn)...). All indicators are
+ * renumbered at once from the original text, so a mapping can swap two of them. Every change
+ * needs confirmation, so it's shown in the Refactor Preview first.
+ * @param document - The DDS document
+ * @param mapping - New number of each indicator to renumber
+ */
+export function buildRenumberEdit(document: vscode.TextDocument, mapping: Map<number, number>): vscode.WorkspaceEdit {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const lines: string[] = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+    };
+
+    // Replaces all or part (one digit, when a continuation splits the number) of an indicator
+    const replace = (range: vscode.Range, indicator: number, kind: string, digits: [number, number] = [0, 2]) => {
+        const target = formatIndicator(mapping.get(indicator)!);
+        workspaceEdit.replace(document.uri, range, target.substring(digits[0], digits[1]), {
+            needsConfirmation: true,
+            label: `${formatIndicator(indicator)} → ${target}`,
+            description: kind
+        });
+    };
+
+    let lineIndex = 0;
+    while (lineIndex < lines.length) {
+        const endLine = findStatementEnd(lines, lineIndex);
+        const line = lines[lineIndex];
+
+        if (line.length > 6 && line.charAt(6) === '*') {
+            lineIndex = endLine + 1;
+            continue;
+        };
+
+        // Conditioning indicators (columns 8-16), unless the line is conditioned by a display format
+        if (!parseDisplayFormatCondition(line.substring(7, 16))) {
+            for (const slot of INDICATOR_SLOTS) {
+                const digits = line.substring(slot + 1, slot + 3);
+                const indicator = /^\s?\d{1,2}$/.test(digits) && digits.trim() ? Number(digits) : undefined;
+                if (indicator !== undefined && mapping.has(indicator)) {
+                    replace(new vscode.Range(lineIndex, slot + 1, lineIndex, slot + 3), indicator, 'conditioning indicator');
+                };
+            };
+        };
+
+        // Response indicators of the statement's keywords
+        const joined = joinKeywordText(lines, lineIndex, endLine);
+        let searchFrom = 0;
+        for (const keyword of splitKeywords(joined.text).keywords) {
+            const keywordOffset = joined.text.indexOf(keyword, searchFrom);
+            searchFrom = keywordOffset + keyword.length;
+
+            const response = findResponseIndicator(keyword);
+            if (!response || !mapping.has(response.indicator)) {
+                continue;
+            };
+            const start = joined.positions[keywordOffset + response.offset];
+            const end = joined.positions[keywordOffset + response.offset + 1];
+            const name = keyword.match(/^[A-Za-z][A-Za-z0-9]*/)?.[0].toUpperCase();
+            // The two digits only fall on different lines when a continuation splits the number
+            if (start.line === end.line) {
+                replace(new vscode.Range(start, end.translate(0, 1)), response.indicator, `response indicator of ${name}`);
+            } else {
+                replace(new vscode.Range(start, start.translate(0, 1)), response.indicator, `response indicator of ${name}`, [0, 1]);
+                replace(new vscode.Range(end, end.translate(0, 1)), response.indicator, `response indicator of ${name}`, [1, 2]);
+            };
+        };
+
+        lineIndex = endLine + 1;
+    };
+
+    return workspaceEdit;
+};
+
+/**
+ * Joins the keyword text of a statement from its continuation lines ('-' keeps the next line's
+ * leading blanks, '+' skips them), remembering where each character comes from.
+ * @param lines - The source lines
+ * @param startLine - First line of the statement
+ * @param endLine - Last line of the statement
+ */
+function joinKeywordText(lines: string[], startLine: number, endLine: number): JoinedKeywordText {
+    let text = '';
+    const positions: vscode.Position[] = [];
+    let skipLeadingBlanks = false;
+
+    for (let lineIndex = startLine; lineIndex <= endLine; lineIndex++) {
+        const line = lines[lineIndex];
+        let start = KEYWORD_START;
+        let end = line.trimEnd().length;
+        if (skipLeadingBlanks) {
+            while (start < end && line.charAt(start) === ' ') {
+                start++;
+            };
+        };
+
+        const continuation = lineIndex < endLine ? line.charAt(end - 1) : '';
+        if (continuation === '-' || continuation === '+') {
+            end--;
+        };
+        skipLeadingBlanks = continuation === '+';
+
+        for (let column = start; column < end; column++) {
+            text += line.charAt(column);
+            positions.push(new vscode.Position(lineIndex, column));
+        };
+    };
+
+    return { text, positions };
+};
+
+// HELPERS
+
+/**
+ * Counts the uses of each indicator in a document.
+ * @param document - The DDS document
+ */
+function countIndicatorUses(document: vscode.TextDocument): Map<number, number> {
+    const counts = new Map<number, number>();
+    for (const usage of collectIndicatorUsages(getDocumentModel(document)).usages) {
+        counts.set(usage.indicator, (counts.get(usage.indicator) ?? 0) + 1);
+    };
+    return counts;
+};
+
+/**
+ * Lets the user pick one of the indicators used in the file.
+ * @param useCounts - Uses of each indicator
+ */
+async function pickUsedIndicator(useCounts: Map<number, number>): Promise<number | undefined> {
+    const selection = await vscode.window.showQuickPick(
+        [...useCounts.keys()].sort((a, b) => a - b).map(indicator => ({
+            label: formatIndicator(indicator),
+            description: `${useCounts.get(indicator)} use${useCounts.get(indicator) === 1 ? '' : 's'}`,
+            indicator
+        })),
+        { title: 'Rename Indicator', placeHolder: 'Indicator to rename' }
+    );
+    return selection?.indicator;
+};
+
+/**
+ * Parses an indicator number typed by the user ("5", "05", "*IN05").
+ * @param value - The text typed
+ * @returns The indicator, or undefined when it isn't one from 01 to 99
+ */
+function parseIndicator(value: string): number | undefined {
+    const match = value.trim().match(/^(?:\*IN)?(\d{1,2})$/i);
+    const indicator = match ? Number(match[1]) : undefined;
+    return indicator !== undefined && indicator >= 1 && indicator <= 99 ? indicator : undefined;
+};
+
+/**
+ * Parses a range of indicators typed by the user ("30-59").
+ * @param value - The text typed
+ */
+function parseRange(value: string): { first: number; last: number } | undefined {
+    const [firstText, lastText, ...rest] = value.split('-');
+    if (lastText === undefined || rest.length > 0) {
+        return undefined;
+    };
+    const first = parseIndicator(firstText);
+    const last = parseIndicator(lastText);
+    return first !== undefined && last !== undefined && first <= last ? { first, last } : undefined;
+};
+
+/**
+ * Formats an indicator number as it's coded (two digits).
+ * @param indicator - The indicator number
+ */
+function formatIndicator(indicator: number): string {
+    return String(indicator).padStart(2, '0');
+};
@@ -6,20 +6,28 @@
 
 import * as vscode from 'vscode';
 import { DdsNode, DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
-import { DdsField, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument } from '../dspf-edit.utils/dspf-edit.helper';
-import { resolveReferencedField, getPendingReferencedFields } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { DdsElement, DdsField, DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { resolveReferencedField, getPendingReferencedFields, getStoredRefDate } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+/** Ages offered by the refresh stale command, in days (0 refreshes every stored field). */
+const STALE_AGES: { label: string; days: number }[] = [
+    { label: 'Older than a day', days: 1 },
+    { label: 'Older than a week', days: 7 },
+    { label: 'Older than 30 days', days: 30 },
+    { label: 'All stored fields', days: 0 }
+];
 
 /**
- * Resolves one referenced field, looking up its record's attributes for the REF() fallback.
- * @param documentUri - The DDS document's URI (as a string), used as the cache key
+ * Resolves one referenced field, looking up its record's and file's attributes for the REF() fallback.
+ * @param model - The parsed model of the DDS document the field belongs to (its URI is the cache key)
  * @param field - The referenced field to resolve
  * @returns An error message on failure, or undefined on success
  */
-async function resolveOneField(documentUri: string, field: DdsField): Promise<string | undefined> {
-    const recordAttributes = fieldsPerRecords.find(r => r.record === field.recordname)?.attributes;
+async function resolveOneField(model: DdsDocumentModel, field: DdsField): Promise<string | undefined> {
+    const recordAttributes = model.fieldsPerRecords.find(r => r.record === field.recordname)?.attributes;
     try {
-        await resolveReferencedField(documentUri, field, recordAttributes);
+        await resolveReferencedField(model.uri, field, recordAttributes, model.attributesFileLevel);
         return undefined;
     } catch (error) {
         return error instanceof Error ? error.message : `Could not resolve field '${field.name}'.`;
@@ -61,7 +69,7 @@ async function handleResolveReferencedField(node: DdsNode, treeProvider: DdsTree
     await vscode.window.withProgress(
         { location: vscode.ProgressLocation.Window, title: `Resolving ${element.name}...` },
         async () => {
-            const error = await resolveOneField(document.uri.toString(), element);
+            const error = await resolveOneField(getDocumentModel(document), element);
             treeProvider.refresh();
             if (error) {
                 vscode.window.showErrorMessage(error);
@@ -74,7 +82,7 @@ async function handleResolveReferencedField(node: DdsNode, treeProvider: DdsTree
  * Registers the command that resolves every referenced field still pending in the current
  * document, shown on the "N referenced fields pending" status bar item.
  * @param context - The VS Code extension context
- * @param treeProvider - The tree provider, both read for pending fields and refreshed afterwards
+ * @param treeProvider - The tree provider, refreshed afterwards
  */
 export function resolveAllReferencedFieldsCommand(context: vscode.ExtensionContext, treeProvider: DdsTreeProvider): void {
     context.subscriptions.push(
@@ -87,7 +95,7 @@ export function resolveAllReferencedFieldsCommand(context: vscode.ExtensionConte
 /**
  * Resolves every pending referenced field in the current document, one at a time, then refreshes
  * the tree once. Reports a summary rather than one message per field.
- * @param treeProvider - The tree provider, both read for pending fields and refreshed afterwards
+ * @param treeProvider - The tree provider, refreshed afterwards
  */
 async function handleResolveAllReferencedFields(treeProvider: DdsTreeProvider): Promise<void> {
     const { document } = checkForEditorAndDocument();
@@ -95,8 +103,8 @@ async function handleResolveAllReferencedFields(treeProvider: DdsTreeProvider):
         return;
     };
 
-    const documentUri = document.uri.toString();
-    const pendingFields = getPendingReferencedFields(documentUri, treeProvider.getElements());
+    const model = getDocumentModel(document);
+    const pendingFields = getPendingReferencedFields(model.uri, model.elements);
     if (pendingFields.length === 0) {
         vscode.window.showInformationMessage('No pending referenced fields to resolve.');
         return;
@@ -109,7 +117,7 @@ async function handleResolveAllReferencedFields(treeProvider: DdsTreeProvider):
         async (progress) => {
             for (const field of pendingFields) {
                 progress.report({ message: field.name });
-                const error = await resolveOneField(documentUri, field);
+                const error = await resolveOneField(model, field);
                 if (error) {
                     errors.push(error);
                 };
@@ -126,3 +134,86 @@ async function handleResolveAllReferencedFields(treeProvider: DdsTreeProvider):
         vscode.window.showWarningMessage(`Resolved ${resolvedCount} of ${pendingFields.length} referenced field(s). ${errors.length} failed: ${errors.join(' ')}`);
     };
 };
+
+/**
+ * Registers the command that resolves again the referenced fields of the current document whose
+ * stored info (kept across sessions) is older than a chosen age.
+ * @param context - The VS Code extension context
+ * @param treeProvider - The tree provider, refreshed afterwards
+ */
+export function refreshStaleReferencedFieldsCommand(context: vscode.ExtensionContext, treeProvider: DdsTreeProvider): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dspf-edit.refresh-stale-referenced-fields', async () => {
+            await handleRefreshStaleReferencedFields(treeProvider);
+        })
+    );
+};
+
+/**
+ * Asks for an age, then resolves again every referenced field of the current document whose
+ * stored info was read before it. Fields never resolved are left to the resolve all command.
+ * @param treeProvider - The tree provider, refreshed afterwards
+ */
+async function handleRefreshStaleReferencedFields(treeProvider: DdsTreeProvider): Promise<void> {
+    const { document } = checkForEditorAndDocument();
+    if (!document) {
+        return;
+    };
+
+    const age = await vscode.window.showQuickPick(STALE_AGES, {
+        title: 'Refresh Stale Referenced Fields',
+        placeHolder: 'Resolve again the referenced fields stored...'
+    });
+    if (!age) {
+        return;
+    };
+
+    const model = getDocumentModel(document);
+    const cutoff = Date.now() - age.days * 24 * 60 * 60 * 1000;
+    const staleFields = collectFields(model.elements).filter(field => {
+        const resolvedAt = field.referenced ? getStoredRefDate(model.uri, field.recordname, field.name) : undefined;
+        return resolvedAt !== undefined && (age.days === 0 || resolvedAt.getTime() < cutoff);
+    });
+    if (staleFields.length === 0) {
+        vscode.window.showInformationMessage('No stale referenced fields to refresh.');
+        return;
+    };
+
+    const errors: string[] = [];
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Refreshing referenced fields...', cancellable: false },
+        async (progress) => {
+            for (const field of staleFields) {
+                progress.report({ message: field.name });
+                const error = await resolveOneField(model, field);
+                if (error) {
+                    errors.push(error);
+                };
+            };
+        }
+    );
+
+    treeProvider.refresh();
+
+    const refreshedCount = staleFields.length - errors.length;
+    if (errors.length === 0) {
+        vscode.window.showInformationMessage(`Refreshed ${refreshedCount} referenced field${refreshedCount === 1 ? '' : 's'}.`);
+    } else {
+        vscode.window.showWarningMessage(`Refreshed ${refreshedCount} of ${staleFields.length} referenced field(s). ${errors.length} failed: ${errors.join(' ')}`);
+    };
+};
+
+/** Recursively collects every field in a parsed DDS element tree. */
+function collectFields(elements: DdsElement[]): DdsField[] {
+    const fields: DdsField[] = [];
+    for (const element of elements) {
+        if (element.kind === 'field') {
+            fields.push(element);
+        };
+        if (element.children) {
+            fields.push(...collectFields(element.children));
+        };
+    };
+    return fields;
+};
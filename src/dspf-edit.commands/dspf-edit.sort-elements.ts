@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fieldsPerRecords, FieldInfo, ConstantInfo, DdsRecord } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { FieldInfo, ConstantInfo, DdsRecord } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
 
@@ -112,10 +112,11 @@ async function handleSortElementsCommand(node: DdsNode): Promise<void> {
  * @returns Array of elements with their attributes and position info
  */
 function getElementsWithAttributesForRecord(editor: vscode.TextEditor, record: DdsRecord): ElementWithAttributes[] {
+    const model = getDocumentModel(editor.document);
     const elements: ElementWithAttributes[] = [];
     
     // Find the record in fieldsPerRecords to get its elements
-    const recordEntry = fieldsPerRecords.find(r => r.record === record.name);
+    const recordEntry = model.fieldsPerRecords.find(r => r.record === record.name);
     if (!recordEntry) {
         return elements;
     };
@@ -168,8 +169,8 @@ function createElementWithAttributesFromModel(
     recordEndIndex: number
 ): ElementWithAttributes | null {
     
-    // Get range from the model
-    const elementLineIndex = element.lineIndex;
+    // Get range from the model, from the indicator-only lines conditioning the element, if any
+    const elementLineIndex = element.conditionLineIndex ?? element.lineIndex;
     const elementLastLineIndex = element.lastLineIndex ?? element.lineIndex;
     
     // Validate that the line index is within document bounds
@@ -209,7 +210,7 @@ function extractAttributeRangesFromModel(
     // Get attribute ranges from the model
     if (element.attributes && element.attributes.length > 0) {
         element.attributes.forEach(attr => {
-            const startLine = attr.lineIndex;
+            const startLine = attr.conditionLineIndex ?? attr.lineIndex;
             const endLine = attr.lastLineIndex ?? attr.lineIndex;
             
             // Validate that the attribute range is within record boundaries
@@ -0,0 +1,572 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.subfile-wizard.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import {
+    DspsizConfig, checkIfDspsizNeeded, collectDspsizConfiguration, generateDspsizLines,
+    checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel, getMaxRows, getMaxCols
+} from '../dspf-edit.utils/dspf-edit.helper';
+import {
+    WindowConfig, collectWindowConfiguration, generateWindowLine, generateWindowTitleLines, generateWindowBorderLines,
+    validateRecordName
+} from './dspf-edit.new-record';
+import { generateCommandsRecordLines } from './dspf-edit.add-commands-record';
+import {
+    TableReference, collectTableReference, readTableColumns, collectColumns, getFileLevelReference,
+    getDisplayLength, formatTable, buildInsertRecordsEdit
+} from './dspf-edit.new-record-from-table';
+import { TableColumn, getIBMiConnection, setResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { collectIndicatorUsages } from '../dspf-edit.providers/dspf-edit.indicator-provider';
+
+// INTERFACES AND TYPES
+
+/** A data field of the subfile: a column of a database file (referenced), or typed in. */
+interface SubfileColumn extends TableColumn {
+    heading: string;
+    referenced: boolean;
+};
+
+/** Everything the wizard asks for. */
+interface WorkWithConfig {
+    subfileName: string;
+    controlName: string;
+    commandsName: string;
+    title: string;
+    options: string;
+    columns: SubfileColumn[];
+    /** The database file the columns come from, when they do. */
+    table?: TableReference;
+    windowConfig?: WindowConfig;
+    dspsizConfig?: DspsizConfig;
+};
+
+/** Rows of the work-with layout, inside the screen or the window. */
+interface WorkWithRows {
+    title?: number;
+    positionTo: number;
+    instructions: number;
+    options: number;
+    headings: number;
+    firstSubfileRow: number;
+    lastSubfileRow: number;
+    commandKeys: number;
+};
+
+/** Indicators conditioning SFLDSP, SFLDSPCTL, SFLCLR and SFLEND. */
+interface SubfileIndicators {
+    sflDsp: number;
+    sflDspCtl: number;
+    sflClr: number;
+    sflEnd: number;
+};
+
+/** Command keys of the work-with screen, their response indicator and their legend. */
+const COMMAND_KEYS = [
+    { keyword: "CA03(03 'Exit')", indicator: 3, legend: 'F3=Exit' },
+    { keyword: "CF05(05 'Refresh')", indicator: 5, legend: 'F5=Refresh' },
+    { keyword: "CA12(12 'Cancel')", indicator: 12, legend: 'F12=Cancel' }
+];
+
+/** First indicator looked at for the subfile keywords. */
+const FIRST_SUBFILE_INDICATOR = 30;
+
+/** Column of the option field, and of the first data field. */
+const OPTION_COLUMN = 3;
+const FIRST_DATA_COLUMN = 7;
+
+/** Longest column heading kept. */
+const MAX_HEADING_LENGTH = 20;
+
+const WIZARD_TITLE = 'Work-With Subfile';
+
+// COMMAND REGISTRATION
+
+/**
+ * Registers the work-with subfile wizard command.
+ * @param context - The VS Code extension context
+ */
+export function subfileWizard(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand("dspf-edit.subfile-wizard", async () => {
+            await handleSubfileWizardCommand();
+        })
+    );
+};
+
+// COMMAND HANDLER
+
+/**
+ * Handles the work-with subfile wizard: collects the records' names, the window (if any), the data
+ * fields and the options, and adds a subfile record with an option field and the data fields, its
+ * control record (title, position-to field, options legend and column headings aligned to the
+ * subfile's columns) and a commands record with the function-key legend.
+ */
+async function handleSubfileWizardCommand(): Promise<void> {
+    try {
+        // Check for editor and document
+        const { editor, document } = checkForEditorAndDocument();
+        if (!document || !editor) {
+            return;
+        };
+        const model = getDocumentModel(document);
+
+        const config = await collectWorkWithConfiguration(model, await checkIfDspsizNeeded(editor));
+        if (!config) {
+            return;
+        };
+
+        const maxRows = config.windowConfig?.dimensions.numRows
+            ?? (config.dspsizConfig ? config.dspsizConfig.sizes[0].rows : getMaxRows(model));
+        const maxCols = config.windowConfig?.dimensions.numCols
+            ?? (config.dspsizConfig ? config.dspsizConfig.sizes[0].cols : getMaxCols(model));
+
+        const rows = getWorkWithRows(maxRows, !config.windowConfig);
+        if (rows.lastSubfileRow < rows.firstSubfileRow) {
+            vscode.window.showErrorMessage(`The ${config.windowConfig ? 'window' : 'screen'} is too small for a work-with subfile: it needs at least ${rows.firstSubfileRow + 3} rows.`);
+            return;
+        };
+
+        // Data fields that don't fit across the screen are left out
+        const fitting = fitColumns(config.columns, maxCols);
+        const leftOut = config.columns.filter(column => !fitting.includes(column));
+        if (fitting.length === 0) {
+            vscode.window.showErrorMessage('None of the data fields fit across the screen next to the option field.');
+            return;
+        };
+
+        const refKeyword = config.table ? getFileLevelReference(model, config.table) : undefined;
+        const indicators = findFreeIndicators(model);
+        const recordLines = generateWorkWithLines({ ...config, columns: fitting }, rows, maxCols, indicators, refKeyword);
+        const fileLevelLines = [
+            ...(config.dspsizConfig ? generateDspsizLines(config.dspsizConfig) : []),
+            ...(refKeyword ? [' '.repeat(5) + 'A' + ' '.repeat(38) + refKeyword] : [])
+        ];
+
+        if (!(await applyWorkspaceEdit(buildInsertRecordsEdit(document, model, fileLevelLines, recordLines), 'create the work-with subfile'))) {
+            return;
+        };
+
+        // The referenced fields' types are already known: no need to resolve them again
+        for (const column of fitting.filter(candidate => candidate.referenced)) {
+            const { type, length, decimals } = column;
+            setResolvedRef(document.uri.toString(), config.subfileName, column.name, { type, length, decimals });
+        };
+
+        const created = `Created subfile '${config.subfileName}', control record '${config.controlName}' and commands record '${config.commandsName}'`;
+        if (leftOut.length > 0) {
+            vscode.window.showWarningMessage(`${created}, but ${leftOut.map(column => column.name).join(', ')} didn't fit across the screen.`);
+        } else {
+            vscode.window.showInformationMessage(`${created}.`);
+        };
+
+    } catch (error) {
+        console.error('Error creating work-with subfile:', error);
+        vscode.window.showErrorMessage('An error occurred while creating the work-with subfile.');
+    };
+};
+
+// USER INPUT COLLECTION FUNCTIONS
+
+/**
+ * Collects the whole work-with configuration through the wizard's steps.
+ * @param model - The parsed model of the document the records are added to
+ * @param needsDspsiz - Whether DSPSIZ configuration is needed
+ * @returns The configuration, or null if cancelled
+ */
+async function collectWorkWithConfiguration(model: DdsDocumentModel, needsDspsiz: boolean): Promise<WorkWithConfig | null> {
+    let dspsizConfig: DspsizConfig | null = null;
+    if (needsDspsiz) {
+        dspsizConfig = await collectDspsizConfiguration();
+        if (!dspsizConfig) {
+            return null;
+        };
+    };
+
+    // Step 1: the three records' names
+    const names: string[] = [];
+    const steps = [
+        { prompt: 'Enter the subfile record name', value: 'SFL01' },
+        { prompt: 'Enter the subfile control record name', value: 'CTL01' },
+        { prompt: 'Enter the commands record name (function-key legend)', value: 'KEYS01' }
+    ];
+    for (const [index, step] of steps.entries()) {
+        const name = await vscode.window.showInputBox({
+            title: `${WIZARD_TITLE} - Step 1/5 - Records (${index + 1}/3)`,
+            prompt: step.prompt,
+            value: step.value,
+            validateInput: value => validateRecordName(model, value)
+                ?? (names.includes(value.trim().toUpperCase()) ? 'Record name already used by this wizard.' : null)
+        });
+        if (!name) {
+            return null;
+        };
+        names.push(name.trim().toUpperCase());
+    };
+
+    // Step 2: full screen or window
+    const placement = await vscode.window.showQuickPick(
+        [
+            { label: 'Full screen', description: 'The subfile takes the whole display', window: false },
+            { label: 'Window', description: 'The subfile is shown in a window, owned by the commands record', window: true }
+        ],
+        { title: `${WIZARD_TITLE} - Step 2/5 - Placement`, placeHolder: 'Where the subfile is shown', ignoreFocusOut: true }
+    );
+    if (!placement) {
+        return null;
+    };
+    let windowConfig: WindowConfig | null = null;
+    if (placement.window) {
+        windowConfig = await collectWindowConfiguration(model);
+        if (!windowConfig) {
+            return null;
+        };
+    };
+
+    // Step 3: the title (a window has it on its border)
+    const title = windowConfig ? windowConfig.title ?? '' : await vscode.window.showInputBox({
+        title: `${WIZARD_TITLE} - Step 3/5 - Title`,
+        prompt: 'Enter the screen title (leave empty for none)',
+        value: 'Work with ...'
+    });
+    if (title === undefined) {
+        return null;
+    };
+
+    // Step 4: the data fields
+    const fields = await collectDataFields();
+    if (!fields) {
+        return null;
+    };
+
+    // Step 5: the options
+    const options = await vscode.window.showInputBox({
+        title: `${WIZARD_TITLE} - Step 5/5 - Options`,
+        prompt: 'Enter the options legend',
+        value: '2=Change  4=Delete  5=Display',
+        validateInput: value => value.trim() === '' ? 'The options legend cannot be empty.' : null
+    });
+    if (!options) {
+        return null;
+    };
+
+    return {
+        subfileName: names[0],
+        controlName: names[1],
+        commandsName: names[2],
+        title: title.trim(),
+        options: options.trim(),
+        columns: fields.columns,
+        table: fields.table,
+        windowConfig: windowConfig ?? undefined,
+        dspsizConfig: dspsizConfig ?? undefined
+    };
+};
+
+/**
+ * Collects the subfile's data fields: columns of a database file (when connected to an IBM i), or
+ * typed in one by one.
+ * @returns The fields and the file they come from, or null if cancelled
+ */
+async function collectDataFields(): Promise<{ columns: SubfileColumn[]; table?: TableReference } | null> {
+    if (getIBMiConnection()) {
+        const source = await vscode.window.showQuickPick(
+            [
+                { label: 'From a database file', description: 'Referenced fields, one per column picked', fromTable: true },
+                { label: 'Enter the fields', description: 'Name, length and heading of each field', fromTable: false }
+            ],
+            { title: `${WIZARD_TITLE} - Step 4/5 - Data Fields`, placeHolder: 'Where the subfile fields come from', ignoreFocusOut: true }
+        );
+        if (!source) {
+            return null;
+        };
+        if (source.fromTable) {
+            const table = await collectTableReference(`${WIZARD_TITLE} - Step 4/5`);
+            if (!table) {
+                return null;
+            };
+            const tableColumns = await readTableColumns(table);
+            if (!tableColumns) {
+                return null;
+            };
+            const picked = await collectColumns(table, tableColumns, `${WIZARD_TITLE} - Step 4/5`);
+            if (!picked) {
+                return null;
+            };
+            return {
+                table,
+                columns: picked.map(column => ({
+                    ...column,
+                    heading: (column.heading ?? column.text ?? column.name).substring(0, MAX_HEADING_LENGTH).trim(),
+                    referenced: true
+                }))
+            };
+        };
+    };
+
+    const columns: SubfileColumn[] = [];
+    while (true) {
+        const value = await vscode.window.showInputBox({
+            title: `${WIZARD_TITLE} - Step 4/5 - Data Field ${columns.length + 1}`,
+            prompt: 'Enter NAME LENGTH[,DECIMALS] [Heading] (e.g. CUSNAM 30 Customer name), or leave empty to finish',
+            placeHolder: 'CUSNAM 30 Customer name',
+            validateInput: value => validateDataField(value, columns)
+        });
+        if (value === undefined) {
+            return null;
+        };
+        if (value.trim() === '') {
+            break;
+        };
+        const column = parseDataField(value);
+        if (!column) {
+            continue;
+        };
+        columns.push(column);
+    };
+    return columns.length > 0 ? { columns } : null;
+};
+
+/**
+ * Validates a typed data field.
+ * @param value - The text typed
+ * @param columns - The fields already entered
+ * @returns Error message or null if valid
+ */
+function validateDataField(value: string, columns: SubfileColumn[]): string | null {
+    if (value.trim() === '') {
+        return columns.length === 0 ? 'Enter at least one data field.' : null;
+    };
+    const column = parseDataField(value);
+    if (!column) {
+        return 'Use NAME LENGTH[,DECIMALS] [Heading], e.g. CUSNAM 30 Customer name or AMOUNT 9,2 Amount.';
+    };
+    if (column.length < 1 || column.length > 9999 || column.decimals > Math.min(column.length, 63) || (column.decimals > 0 && column.length > 63)) {
+        return 'Invalid length or decimals.';
+    };
+    if (column.name === 'OPT' || columns.some(existing => existing.name === column.name)) {
+        return `Field name ${column.name} is already used in the subfile.`;
+    };
+    return null;
+};
+
+/**
+ * Parses a typed data field: NAME LENGTH[,DECIMALS] [Heading]. A field with decimals is numeric.
+ * @param value - The text typed
+ * @returns The field, or undefined when the text isn't one
+ */
+function parseDataField(value: string): SubfileColumn | undefined {
+    const match = value.trim().match(/^([A-Za-z@#$][A-Za-z0-9@#$_]{0,9})\s+(\d{1,4})(?:,(\d{1,2}))?(?:\s+(.+))?$/);
+    if (!match) {
+        return undefined;
+    };
+    const name = match[1].toUpperCase();
+    return {
+        name,
+        type: match[3] !== undefined ? 'S' : 'A',
+        length: Number(match[2]),
+        decimals: match[3] !== undefined ? Number(match[3]) : 0,
+        heading: (match[4] ?? name).substring(0, MAX_HEADING_LENGTH).trim(),
+        referenced: false
+    };
+};
+
+// LAYOUT
+
+/**
+ * Gets the rows of the work-with layout. A full screen starts with a title; a window has it on
+ * its border. The last row is left for messages, the one above for the command keys, and the one
+ * above that for SFLEND's More... (so it doesn't land on the command keys' row).
+ * @param maxRows - Rows of the screen or window
+ * @param withTitle - Whether a title row is needed
+ */
+function getWorkWithRows(maxRows: number, withTitle: boolean): WorkWithRows {
+    const first = withTitle ? 3 : 1;
+    return {
+        title: withTitle ? 1 : undefined,
+        positionTo: first,
+        instructions: first + 2,
+        options: first + 3,
+        headings: first + 5,
+        firstSubfileRow: first + 6,
+        lastSubfileRow: maxRows - 3,
+        commandKeys: maxRows - 1
+    };
+};
+
+/**
+ * Keeps the data fields that fit across the screen, in order, each in a column as wide as its
+ * field or its heading.
+ * @param columns - The data fields
+ * @param maxCols - Columns of the screen or window
+ */
+function fitColumns(columns: SubfileColumn[], maxCols: number): SubfileColumn[] {
+    const fitting: SubfileColumn[] = [];
+    let column = FIRST_DATA_COLUMN;
+    for (const candidate of columns) {
+        const width = getColumnWidth(candidate);
+        if (column + width - 1 > maxCols) {
+            break;
+        };
+        fitting.push(candidate);
+        column += width + 2;
+    };
+    return fitting;
+};
+
+/**
+ * Gets the width of a subfile column: its field's or its heading's, whichever is wider.
+ * @param column - The data field
+ */
+function getColumnWidth(column: SubfileColumn): number {
+    return Math.max(getDisplayLength(column), column.heading.length);
+};
+
+/**
+ * Picks four unused indicators for SFLDSP, SFLDSPCTL, SFLCLR and SFLEND, from 30 up (then from 1,
+ * when 30-99 are taken), leaving out the command keys' response indicators. With fewer than four
+ * free, the last ones are shared.
+ * @param model - The parsed model of the document
+ */
+function findFreeIndicators(model: DdsDocumentModel): SubfileIndicators {
+    const used = new Set([
+        ...collectIndicatorUsages(model).usages.map(usage => usage.indicator),
+        ...COMMAND_KEYS.map(key => key.indicator)
+    ]);
+    const candidates = [...Array(99).keys()].map(index => (FIRST_SUBFILE_INDICATOR - 1 + index) % 99 + 1);
+    const free = candidates.filter(indicator => !used.has(indicator)).slice(0, 4);
+    while (free.length < 4) {
+        free.push(free[free.length - 1] ?? FIRST_SUBFILE_INDICATOR);
+    };
+    return { sflDsp: free[0], sflDspCtl: free[1], sflClr: free[2], sflEnd: free[3] };
+};
+
+// DDS GENERATION
+
+/**
+ * Generates the three records of the work-with pattern: the commands record first (it owns the
+ * window, if any), then the subfile and its control record.
+ * @param config - The wizard's configuration, with the data fields that fit
+ * @param rows - Rows of the layout
+ * @param maxCols - Columns of the screen or window
+ * @param indicators - Indicators for the subfile keywords
+ * @param refKeyword - The file-level REF to the data fields' file: a keyword to add or already
+ * there (undefined), or null when the file references another one (the fields then need REFFLD)
+ */
+function generateWorkWithLines(config: WorkWithConfig, rows: WorkWithRows, maxCols: number, indicators: SubfileIndicators, refKeyword: string | undefined | null): string[] {
+    // An indicator is always two digits (05, not 5) in columns 9-10
+    const keywordLine = (keyword: string, indicator?: number) =>
+        (' '.repeat(5) + 'A' + (indicator !== undefined ? String(indicator).padStart(2, '0') : '').padStart(4, ' ')).padEnd(44, ' ') + keyword;
+    const constantLine = (row: number, column: number, text: string) =>
+        positionLine(' '.repeat(5) + 'A', row, column) + `'${text.replace(/'/g, "''")}'`;
+    const refFile = config.table ? formatTable(config.table) : '';
+    const refField = (name: string) => refKeyword === null ? `REFFLD(${name} ${refFile})` : `REFFLD(${name})`;
+
+    // Subfile columns: the option field, then each data field after the widest of it and its heading
+    const placed: { column: SubfileColumn; position: number }[] = [];
+    let position = FIRST_DATA_COLUMN;
+    for (const column of config.columns) {
+        placed.push({ column, position });
+        position += getColumnWidth(column) + 2;
+    };
+
+    // Commands record: the window (when there's one) and the function-key legend
+    const windowLines = config.windowConfig ? [
+        generateWindowLine(config.windowConfig.dimensions),
+        ...(config.windowConfig.title ? generateWindowTitleLines(config.windowConfig.title) : []),
+        ...generateWindowBorderLines()
+    ] : [];
+    const commandsLines = [
+        ...generateCommandsRecordLines(config.commandsName, windowLines),
+        constantLine(rows.commandKeys, 2, COMMAND_KEYS.map(key => key.legend).join('   ').substring(0, maxCols - 2))
+    ];
+
+    const subfileLines = [
+        ' '.repeat(5) + 'A' + ' '.repeat(10) + 'R ' + config.subfileName.padEnd(10, ' ') + ' '.repeat(16) + 'SFL',
+        fieldLine('OPT', 1, 'A', 0, 'B', rows.firstSubfileRow, OPTION_COLUMN),
+        ...placed.map(({ column, position: fieldColumn }) => column.referenced
+            ? referencedFieldLine(column.name, 'O', rows.firstSubfileRow, fieldColumn, refKeyword === null ? refField(column.name) : undefined)
+            : fieldLine(column.name, column.length, column.type, column.decimals, 'O', rows.firstSubfileRow, fieldColumn))
+    ];
+
+    // The position-to field is defined like the first data field
+    const first = config.columns[0];
+    const positionToLabel = 'Position to . . . .';
+    const positionToColumn = 2 + positionToLabel.length + 2;
+    const positionToLength = Math.min(getDisplayLength(first), maxCols - positionToColumn + 1);
+    const page = rows.lastSubfileRow - rows.firstSubfileRow + 1;
+
+    const controlLines = [
+        ' '.repeat(5) + 'A' + ' '.repeat(10) + 'R ' + config.controlName.padEnd(10, ' ') + ' '.repeat(16) + `SFLCTL(${config.subfileName})`,
+        keywordLine(`SFLSIZ(${String(page + 1).padStart(4, '0')})`),
+        keywordLine(`SFLPAG(${String(page).padStart(4, '0')})`),
+        ...COMMAND_KEYS.map(key => keywordLine(key.keyword)),
+        keywordLine('OVERLAY'),
+        ...(config.windowConfig ? [keywordLine(`WINDOW(${config.commandsName})`)] : []),
+        keywordLine('SFLDSP', indicators.sflDsp),
+        keywordLine('SFLDSPCTL', indicators.sflDspCtl),
+        keywordLine('SFLCLR', indicators.sflClr),
+        keywordLine('SFLEND(*MORE)', indicators.sflEnd),
+        fieldLine('RRN', 4, 'S', 0, 'H', undefined, undefined) + ' '.repeat(44 - 38) + 'SFLRCDNBR(CURSOR)',
+        ...(rows.title && config.title
+            ? [constantLine(rows.title, Math.max(2, Math.floor((maxCols - config.title.length) / 2) + 1), config.title.substring(0, maxCols - 2))]
+            : []),
+        constantLine(rows.positionTo, 2, positionToLabel),
+        first.referenced && positionToLength === getDisplayLength(first)
+            ? referencedFieldLine('POSTO', 'B', rows.positionTo, positionToColumn, refField(first.name))
+            : fieldLine('POSTO', first.type === 'A' ? positionToLength : first.length, first.type === 'A' ? 'A' : 'S', first.decimals, 'B', rows.positionTo, positionToColumn),
+        constantLine(rows.instructions, 2, 'Type options, press Enter.'),
+        constantLine(rows.options, 3, config.options.substring(0, maxCols - 3)),
+        constantLine(rows.headings, 2, 'Opt'),
+        ...placed.map(({ column, position: headingColumn }) => constantLine(rows.headings, headingColumn, column.heading))
+    ];
+
+    return [...commandsLines, ...subfileLines, ...controlLines].map(line => line.trimEnd());
+};
+
+/**
+ * Generates a field line with its own length, type and decimals.
+ * @param name - Field name
+ * @param length - Length
+ * @param type - Data type
+ * @param decimals - Decimal positions (numeric fields)
+ * @param usage - Usage
+ * @param row - Row, unless hidden
+ * @param column - Column, unless hidden
+ */
+function fieldLine(name: string, length: number, type: string, decimals: number, usage: string, row: number | undefined, column: number | undefined): string {
+    const line = ' '.repeat(5) + 'A' + ' '.repeat(12)
+        + name.padEnd(10, ' ')
+        + ' '
+        + String(length).padStart(5, ' ')
+        + type
+        + (type === 'A' ? '  ' : String(decimals).padStart(2, ' '))
+        + (usage === 'O' ? ' ' : usage);
+    return row !== undefined && column !== undefined ? positionLine(line, row, column) : line;
+};
+
+/**
+ * Generates a referenced field line (R in column 29), taking its definition from the REF file.
+ * @param name - Field name
+ * @param usage - Usage
+ * @param row - Row
+ * @param column - Column
+ * @param refSpec - The REFFLD keyword, when needed
+ */
+function referencedFieldLine(name: string, usage: string, row: number, column: number, refSpec: string | undefined): string {
+    const line = (' '.repeat(5) + 'A' + ' '.repeat(12) + name.padEnd(10, ' ') + 'R').padEnd(37, ' ') + (usage === 'O' ? ' ' : usage);
+    return positionLine(line, row, column) + (refSpec ?? '');
+};
+
+/**
+ * Completes a line with its row and column (columns 39-44).
+ * @param line - The line up to the usage (column 38)
+ * @param row - Row
+ * @param column - Column
+ */
+function positionLine(line: string, row: number, column: number): string {
+    return line.padEnd(38, ' ') + String(row).padStart(3, ' ') + String(column).padStart(3, ' ');
+};
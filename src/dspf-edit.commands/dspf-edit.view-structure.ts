@@ -6,8 +6,7 @@
 
 import * as vscode from 'vscode';
 import { DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
-import { checkForEditorAndDocument, isDdsFile } from '../dspf-edit.utils/dspf-edit.helper';
-import { parseDocument } from '../dspf-edit.parser/dspf-edit.parser';
+import { checkForEditorAndDocument, isDdsFile, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 export function viewStructure(context: vscode.ExtensionContext, treeProvider: DdsTreeProvider) {
 
@@ -20,8 +19,7 @@ export function viewStructure(context: vscode.ExtensionContext, treeProvider: Dd
 			};		
 
 			if (editor && document && isDdsFile(document)) {
-				const text = editor.document.getText();
-				treeProvider.setElements(parseDocument(text));
+				treeProvider.setElements(getDocumentModel(editor.document).elements);
 				treeProvider.refresh();
 			} else {
 				treeProvider.setElements([]);
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { fileSizeAttributes, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 
 // INTERFACES AND TYPES
 
@@ -87,6 +87,7 @@ async function handleWindowResizeCommand(node: DdsNode): Promise<void> {
         if (!document || !editor) {
             return;
         };
+        const model = getDocumentModel(document);
         
         const element = node.ddsElement;
 
@@ -108,7 +109,7 @@ async function handleWindowResizeCommand(node: DdsNode): Promise<void> {
         const windowLine = currentWindow.windowLine;
 
         // Collect resize configuration from user
-        const resizeConfig = await collectWindowResizeConfiguration(currentInfo, element);
+        const resizeConfig = await collectWindowResizeConfiguration(model, currentInfo, element);
         if (!resizeConfig) {
             // User cancelled the operation
             return;
@@ -144,18 +145,19 @@ async function handleWindowResizeCommand(node: DdsNode): Promise<void> {
 
 /**
  * Collects window resize configuration from user through interactive dialogs.
+ * @param model - The parsed model of the document
  * @param currentInfo - Current window information string
  * @param element - The record element for context
  * @returns Window resize configuration or null if user cancelled
  */
-async function collectWindowResizeConfiguration(currentInfo: string, element: any): Promise<WindowResizeConfig | null> {
+async function collectWindowResizeConfiguration(model: DdsDocumentModel, currentInfo: string, element: any): Promise<WindowResizeConfig | null> {
     // Step 1: Choose resize operation
     const operation = await collectResizeOperation(currentInfo);
     if (!operation) return null;
 
     if (operation === 'CHANGE_SIZE') {
         // Step 2a: Collect new size and position
-        const newSize = await collectNewWindowSize();
+        const newSize = await collectNewWindowSize(model);
         if (!newSize) return null;
 
         const position = await collectWindowPosition();
@@ -214,11 +216,12 @@ async function collectResizeOperation(currentInfo: string): Promise<ResizeOperat
 
 /**
  * Collects new window size when changing size manually.
+ * @param model - The parsed model of the document
  * @returns New window size or null if cancelled
  */
-async function collectNewWindowSize(): Promise<{ numRows: number; numCols: number } | null> {
-    const maxRows = fileSizeAttributes.maxRow1 || 24;
-    const maxCols = fileSizeAttributes.maxCol1 || 80;
+async function collectNewWindowSize(model: DdsDocumentModel): Promise<{ numRows: number; numCols: number } | null> {
+    const maxRows = model.fileSizeAttributes.maxRow1 || 24;
+    const maxCols = model.fileSizeAttributes.maxCol1 || 80;
 
     const numRows = await vscode.window.showInputBox({
         title: 'Window Resize - New Size',
@@ -279,7 +282,8 @@ async function collectWindowPosition(): Promise<WindowPosition | null> {
  * @returns Current window dimensions or null if not found
  */
 function findCurrentWindowDimensions(editor: vscode.TextEditor, element: any): CurrentWindowDimensions | null {
-    const currentRecord = fieldsPerRecords.find(record => 
+    const model = getDocumentModel(editor.document);
+    const currentRecord = model.fieldsPerRecords.find(record => 
         element.lineIndex >= record.startIndex && element.lineIndex <= record.endIndex
     );
     
@@ -325,15 +329,16 @@ function isNextRecord(lineText: string): boolean {
  * @returns Optimal dimensions based on content
  */
 function analyzeRecordContent(editor: vscode.TextEditor, element: any): { numRows: number; numCols: number } {
+    const model = getDocumentModel(editor.document);
     const positions: FieldPosition[] = [];
     
     // Get field and constant positions from the model
-    const recordInfo = fieldsPerRecords.find(r => r.record === element.name);
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === element.name);
     if (!recordInfo) {
         // If no record info found, return minimum dimensions
         return {
-            numRows: Math.min(5, (fileSizeAttributes.maxRow1 || 24) - 2),
-            numCols: Math.min(20, (fileSizeAttributes.maxCol1 || 80) - 2)
+            numRows: Math.min(5, (model.fileSizeAttributes.maxRow1 || 24) - 2),
+            numCols: Math.min(20, (model.fileSizeAttributes.maxCol1 || 80) - 2)
         };
     };
 
@@ -366,8 +371,8 @@ function analyzeRecordContent(editor: vscode.TextEditor, element: any): { numRow
     // If no positions found, return minimum dimensions
     if (positions.length === 0) {
         return {
-            numRows: Math.min(5, (fileSizeAttributes.maxRow1 || 24) - 2),
-            numCols: Math.min(20, (fileSizeAttributes.maxCol1 || 80) - 2)
+            numRows: Math.min(5, (model.fileSizeAttributes.maxRow1 || 24) - 2),
+            numCols: Math.min(20, (model.fileSizeAttributes.maxCol1 || 80) - 2)
         };
     };
 
@@ -385,8 +390,8 @@ function analyzeRecordContent(editor: vscode.TextEditor, element: any): { numRow
     const numCols = Math.max(20, maxCol + 4);       // Minimum 20 columns, +4 for padding
 
     // Ensure we don't exceed screen limits
-    const maxRows = fileSizeAttributes.maxRow1 || 24;
-    const maxCols = fileSizeAttributes.maxCol1 || 80;
+    const maxRows = model.fileSizeAttributes.maxRow1 || 24;
+    const maxCols = model.fileSizeAttributes.maxCol1 || 80;
 
     return {
         numRows: Math.min(numRows, maxRows - 2), // Leave space for positioning
@@ -410,6 +415,7 @@ async function calculateNewDimensions(
     editor: vscode.TextEditor,
     element: any
 ): Promise<CurrentWindowDimensions | null> {
+    const model = getDocumentModel(editor.document);
     let targetSize: { numRows: number; numCols: number };
 
     if (config.operation === 'CHANGE_SIZE' && config.newDimensions) {
@@ -428,21 +434,23 @@ async function calculateNewDimensions(
         ? config.newDimensions!.position 
         : config.autoAdjustConfig!.position;
 
-    return calculateWindowPosition(targetSize, position);
+    return calculateWindowPosition(model, targetSize, position);
 };
 
 /**
  * Calculates window position based on size and position preference.
+ * @param model - The parsed model of the document
  * @param size - Target window size
  * @param position - Position preference
  * @returns Calculated window dimensions or null if invalid
  */
 function calculateWindowPosition(
+    model: DdsDocumentModel,
     size: { numRows: number; numCols: number }, 
     position: WindowPosition
 ): CurrentWindowDimensions | null {
-    const maxRows = fileSizeAttributes.maxRow1 || 24;
-    const maxCols = fileSizeAttributes.maxCol1 || 80;
+    const maxRows = model.fileSizeAttributes.maxRow1 || 24;
+    const maxCols = model.fileSizeAttributes.maxCol1 || 80;
 
     // Validate that window fits on screen
     if (size.numRows > maxRows || size.numCols > maxCols) {
@@ -6,8 +6,8 @@
 
 import * as vscode from 'vscode';
 import { DdsNode } from '../dspf-edit.providers/dspf-edit.providers';
-import { FieldsPerRecord, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { FieldsPerRecord } from '../dspf-edit.model/dspf-edit.model';
+import { checkForEditorAndDocument, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 import { generateWindowTitleLines } from './dspf-edit.new-record';
 
 type TitleAlign = 'LEFT' | 'CENTER' | 'RIGHT';
@@ -51,23 +51,24 @@ async function handleWindowTitleCommand(node: DdsNode): Promise<void> {
         return;
     };
 
-    await editWindowTitleForRecord(element.name);
+    const { editor } = checkForEditorAndDocument();
+    if (!editor) {
+        return;
+    };
+
+    await editWindowTitleForRecord(editor, element.name);
 };
 
 /**
  * Collects the new title text/alignment/position from the user and writes (or removes) the
  * WDWTITLE() keyword for the given window record. Shared by the tree context-menu command and by
  * clicking the title directly in the record preview.
+ * @param editor - The editor showing the document that holds the window record
  * @param recordName - Name of the window record to edit the title for
  */
-export async function editWindowTitleForRecord(recordName: string): Promise<void> {
+export async function editWindowTitleForRecord(editor: vscode.TextEditor, recordName: string): Promise<void> {
     try {
-        const { editor } = checkForEditorAndDocument();
-        if (!editor) {
-            return;
-        };
-
-        const record = fieldsPerRecords.find(r => r.record === recordName);
+        const record = getDocumentModel(editor.document).fieldsPerRecords.find(r => r.record === recordName);
         const windowAttr = record?.attributes?.find(a => a.value.toUpperCase().startsWith('WINDOW('));
         if (!record || !windowAttr) {
             vscode.window.showWarningMessage(`Record '${recordName}' does not have a WINDOW keyword.`);
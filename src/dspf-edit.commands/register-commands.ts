@@ -37,7 +37,16 @@ import { renameField, renameRecord } from './dspf-edit.rename';
 import { moveConstantLeft1, moveConstantLeft5, moveConstantRight1, moveConstantRight5 } from './dspf-edit.move-constants';
 import { moveFieldLeft1, moveFieldLeft5, moveFieldRight1, moveFieldRight5 } from './dspf-edit.move-fields';
 import { previewRecord } from './dspf-edit.preview-record';
-import { resolveReferencedFieldCommand, resolveAllReferencedFieldsCommand } from './dspf-edit.resolve-referenced-field';
+import { resolveReferencedFieldCommand, resolveAllReferencedFieldsCommand, refreshStaleReferencedFieldsCommand } from './dspf-edit.resolve-referenced-field';
+import { reflow } from './dspf-edit.reflow';
+import { renumberIndicators } from './dspf-edit.renumber-indicators';
+import { generateRpgleDataStructure } from './dspf-edit.generate-rpgle-ds';
+import { generateRpgleProgram } from './dspf-edit.generate-rpgle-program';
+import { newRecordFromTable } from './dspf-edit.new-record-from-table';
+import { subfileWizard } from './dspf-edit.subfile-wizard';
+import { renderRecordText } from './dspf-edit.render-text';
+import { compileDspf } from './dspf-edit.compile';
+import { importDisplayFile } from './dspf-edit.import-display-file';
 
 export const commands = [
     { name: 'viewStructure', handler: viewStructure, needsTreeProvider: true },
@@ -79,7 +88,17 @@ export const commands = [
     { name: 'moveFieldRight1', handler: moveFieldRight1, needsTreeProvider: false },
     { name: 'moveFieldRight5', handler: moveFieldRight5, needsTreeProvider: false },
     { name: 'resolveReferencedField', handler: resolveReferencedFieldCommand, needsTreeProvider: true },
-    { name: 'resolveAllReferencedFields', handler: resolveAllReferencedFieldsCommand, needsTreeProvider: true }
+    { name: 'resolveAllReferencedFields', handler: resolveAllReferencedFieldsCommand, needsTreeProvider: true },
+    { name: 'refreshStaleReferencedFields', handler: refreshStaleReferencedFieldsCommand, needsTreeProvider: true },
+    { name: 'reflow', handler: reflow, needsTreeProvider: false },
+    { name: 'renumberIndicators', handler: renumberIndicators, needsTreeProvider: false },
+    { name: 'generateRpgleDataStructure', handler: generateRpgleDataStructure, needsTreeProvider: false },
+    { name: 'generateRpgleProgram', handler: generateRpgleProgram, needsTreeProvider: false },
+    { name: 'newRecordFromTable', handler: newRecordFromTable, needsTreeProvider: false },
+    { name: 'subfileWizard', handler: subfileWizard, needsTreeProvider: false },
+    { name: 'renderRecordText', handler: renderRecordText, needsTreeProvider: false },
+    { name: 'compileDspf', handler: compileDspf, needsTreeProvider: false },
+    { name: 'importDisplayFile', handler: importDisplayFile, needsTreeProvider: false }
 
 ];
 
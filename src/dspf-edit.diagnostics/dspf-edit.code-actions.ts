@@ -0,0 +1,339 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.code-actions.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsDocumentModel, FieldsPerRecord } from '../dspf-edit.model/dspf-edit.model';
+import { getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { createUpdatedLineWithPosition } from '../dspf-edit.commands/dspf-edit.change-position';
+import {
+    DDS_DIAGNOSTIC_SOURCE,
+    PlacedElement,
+    getPlacedElements,
+    areMutuallyExclusive,
+    getElementAreaSize,
+    getScreenWidth,
+    findRecordKeyword
+} from './dspf-edit.diagnostics';
+
+/** Columns of the keyword area that a constant's text can use on one line (45-80). */
+const KEYWORD_AREA_WIDTH = 36;
+
+/** Column (0-based) where the keyword area, and so a constant's text, starts. */
+const KEYWORD_START = 44;
+
+// REGISTRATION
+
+/**
+ * Registers the quick fixes offered for DDS diagnostics.
+ * @param context - The extension context
+ */
+export function registerCodeActions(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { language: 'dds.dspf' },
+            new DdsCodeActionProvider(),
+            { providedCodeActionKinds: DdsCodeActionProvider.providedCodeActionKinds }
+        )
+    );
+};
+
+// PROVIDER
+
+/**
+ * Offers automatic fixes for the problems reported by the DDS diagnostics: moving an overlapping
+ * constant to the next free column, moving an element back inside its record's screen or window,
+ * adding a missing SFLSIZ, and wrapping an over-long constant onto continuation lines.
+ */
+export class DdsCodeActionProvider implements vscode.CodeActionProvider {
+
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const ddsDiagnostics = context.diagnostics.filter(d => d.source === DDS_DIAGNOSTIC_SOURCE);
+        if (ddsDiagnostics.length === 0) {
+            return [];
+        };
+
+        const model = getDocumentModel(document);
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of ddsDiagnostics) {
+            switch (diagnostic.code) {
+                case 'overlap':
+                    actions.push(...createOverlapFixes(document, model, diagnostic));
+                    break;
+                case 'outside-size':
+                    pushIfDefined(actions, createMoveInsideFix(document, model, diagnostic));
+                    break;
+                case 'missing-sflsiz':
+                    pushIfDefined(actions, createAddSflsizFix(document, model, diagnostic));
+                    break;
+                case 'past-column-80':
+                    pushIfDefined(actions, createWrapConstantFix(document, model, diagnostic));
+                    break;
+            };
+        };
+
+        return actions;
+    };
+};
+
+// FIXES
+
+/**
+ * Creates "move to the next free column" fixes for the constants involved in an overlap: the one
+ * the diagnostic is reported on and the one it overlaps.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ * @param diagnostic - The overlap diagnostic
+ */
+function createOverlapFixes(document: vscode.TextDocument, model: DdsDocumentModel, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+    const lines = [
+        diagnostic.range.start.line,
+        ...(diagnostic.relatedInformation ?? []).map(info => info.location.range.start.line)
+    ];
+    const actions: vscode.CodeAction[] = [];
+
+    for (const lineIndex of new Set(lines)) {
+        const found = findPlacedElementAtLine(model, lineIndex);
+        if (!found || found.placed.kind !== 'constant') {
+            continue;
+        };
+        const newCol = findNextFreeColumn(model, found.recordInfo, found.placed);
+        if (newCol === undefined) {
+            continue;
+        };
+
+        actions.push(createPositionFix(
+            document,
+            diagnostic,
+            lineIndex,
+            found.placed.row,
+            newCol,
+            `Move constant '${found.placed.element.name}' to column ${newCol}`
+        ));
+    };
+
+    return actions;
+};
+
+/**
+ * Creates the fix that moves a field/constant back inside its record's screen or window, keeping it
+ * as close to where it was as possible.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ * @param diagnostic - The outside-size diagnostic
+ */
+function createMoveInsideFix(document: vscode.TextDocument, model: DdsDocumentModel, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+    const lineIndex = diagnostic.range.start.line;
+    const found = findPlacedElementAtLine(model, lineIndex);
+    if (!found) {
+        return undefined;
+    };
+
+    const { placed, recordInfo } = found;
+    const size = getElementAreaSize(model, recordInfo, placed.element);
+    const width = getScreenWidth(placed);
+    if (width > size.cols) {
+        // Too wide to fit at any column
+        return undefined;
+    };
+
+    const newRow = Math.min(placed.row, size.rows);
+    const newCol = Math.min(placed.col, size.cols - width + 1);
+    const kindLabel = placed.kind === 'field' ? 'field' : 'constant';
+
+    const action = createPositionFix(
+        document,
+        diagnostic,
+        lineIndex,
+        newRow,
+        newCol,
+        `Move ${kindLabel} '${placed.element.name}' inside record '${recordInfo.record}' (row ${newRow}, column ${newCol})`
+    );
+    action.isPreferred = true;
+    return action;
+};
+
+/**
+ * Creates the fix that adds SFLSIZ right after a record's SFLPAG, one more than SFLPAG — the same
+ * convention the preview keeps when changing the page size.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ * @param diagnostic - The missing-sflsiz diagnostic
+ */
+function createAddSflsizFix(document: vscode.TextDocument, model: DdsDocumentModel, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+    const lineIndex = diagnostic.range.start.line;
+    const recordInfo = model.fieldsPerRecords.find(r => findRecordKeyword(r, 'SFLPAG')?.lineIndex === lineIndex);
+    const pagAttr = recordInfo ? findRecordKeyword(recordInfo, 'SFLPAG') : undefined;
+    const pagMatch = pagAttr?.value.match(/SFLPAG\(\s*(\d+)\s*\)/i);
+    if (!recordInfo || !pagAttr || !pagMatch) {
+        return undefined;
+    };
+
+    const sflsiz = Math.min(parseInt(pagMatch[1], 10) + 1, 9999);
+    const sflsizLine = ' '.repeat(5) + 'A' + ' '.repeat(38) + 'SFLSIZ(' + String(sflsiz).padStart(4, '0') + ')';
+
+    // Insert after the SFLPAG line (and its continuation lines, if any)
+    const lastLineIndex = pagAttr.lastLineIndex ?? pagAttr.lineIndex;
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    if (lastLineIndex + 1 >= document.lineCount) {
+        workspaceEdit.insert(document.uri, document.lineAt(lastLineIndex).range.end, '\n' + sflsizLine);
+    } else {
+        workspaceEdit.insert(document.uri, new vscode.Position(lastLineIndex + 1, 0), sflsizLine + '\n');
+    };
+
+    const action = new vscode.CodeAction(`Add SFLSIZ(${String(sflsiz).padStart(4, '0')}) to record '${recordInfo.record}'`, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.edit = workspaceEdit;
+    action.isPreferred = true;
+    return action;
+};
+
+/**
+ * Creates the fix that wraps a constant running past column 80 onto continuation lines: each line
+ * but the last ends with a '-' in column 80 and the text carries on in column 45 of the next,
+ * which is how the parser's extractMultiLineConstant (and the compiler) read it back.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ * @param diagnostic - The past-column-80 diagnostic
+ */
+function createWrapConstantFix(document: vscode.TextDocument, model: DdsDocumentModel, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+    const lineIndex = diagnostic.range.start.line;
+    const constant = model.fieldsPerRecords
+        .flatMap(r => r.constants)
+        .find(c => c.lineIndex === lineIndex && c.lastLineIndex === lineIndex);
+    if (!constant) {
+        return undefined;
+    };
+
+    const line = document.lineAt(lineIndex);
+    const text = line.text.substring(KEYWORD_START).trimEnd();
+    if (!text.startsWith("'")) {
+        return undefined;
+    };
+
+    // Every line but the last gives up its last column to the continuation '-'
+    const chunks: string[] = [];
+    let remaining = text;
+    while (remaining.length > KEYWORD_AREA_WIDTH) {
+        chunks.push(remaining.substring(0, KEYWORD_AREA_WIDTH - 1));
+        remaining = remaining.substring(KEYWORD_AREA_WIDTH - 1);
+    };
+    chunks.push(remaining);
+
+    const wrappedLines = chunks.map((chunk, index) => {
+        const prefix = index === 0 ? line.text.substring(0, KEYWORD_START) : ' '.repeat(5) + 'A' + ' '.repeat(38);
+        return prefix + chunk + (index < chunks.length - 1 ? '-' : '');
+    });
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(document.uri, line.range, wrappedLines.join('\n'));
+
+    const action = new vscode.CodeAction(`Wrap constant onto ${chunks.length} lines`, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.edit = workspaceEdit;
+    action.isPreferred = true;
+    return action;
+};
+
+// HELPERS
+
+/**
+ * Creates a fix that rewrites an element's row/column position.
+ * @param document - The DDS document
+ * @param diagnostic - The diagnostic the fix is for
+ * @param lineIndex - Line of the field/constant
+ * @param row - New screen row
+ * @param col - New screen column
+ * @param title - Title shown in the quick fix menu
+ */
+function createPositionFix(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    lineIndex: number,
+    row: number,
+    col: number,
+    title: string
+): vscode.CodeAction {
+    // The source's row/column spec columns always hold the physical screen row/column, even for
+    // a subfile record (the parser's swap only affects the model), so the screen values go as-is.
+    const line = document.lineAt(lineIndex);
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(document.uri, line.range, createUpdatedLineWithPosition(line.text, { row, column: col }));
+
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.edit = workspaceEdit;
+    return action;
+};
+
+/**
+ * Finds the displayed field/constant defined on a line, and the record it belongs to.
+ * @param model - The parsed model of the document
+ * @param lineIndex - Line of the field/constant
+ */
+function findPlacedElementAtLine(model: DdsDocumentModel, lineIndex: number): { placed: PlacedElement; recordInfo: FieldsPerRecord } | undefined {
+    for (const recordInfo of model.fieldsPerRecords) {
+        if (lineIndex < recordInfo.startIndex || (recordInfo.endIndex && lineIndex > recordInfo.endIndex)) {
+            continue;
+        };
+        const placed = getPlacedElements(recordInfo).find(p => p.element.lineIndex === lineIndex);
+        if (placed) {
+            return { placed, recordInfo };
+        };
+    };
+    return undefined;
+};
+
+/**
+ * Finds the first column, at or after an element's own, where it fits on its row without touching
+ * any other element shown along with it — leaving one blank column before and after each one, for
+ * the screen attribute byte that precedes every field and constant.
+ * @param model - The parsed model of the document
+ * @param recordInfo - The element's record
+ * @param placed - The element to move
+ * @returns The new column, or undefined if there's no room left on the row
+ */
+function findNextFreeColumn(model: DdsDocumentModel, recordInfo: FieldsPerRecord, placed: PlacedElement): number | undefined {
+    const size = getElementAreaSize(model, recordInfo, placed.element);
+    const width = getScreenWidth(placed);
+    const others = getPlacedElements(recordInfo).filter(other =>
+        other.element !== placed.element
+        && other.row === placed.row
+        && !areMutuallyExclusive(other.element, placed.element)
+    );
+
+    let col = placed.col;
+    let moved = true;
+    while (moved) {
+        moved = false;
+        for (const other of others) {
+            const otherEnd = other.col + getScreenWidth(other) - 1;
+            if (col <= otherEnd + 1 && other.col <= col + width) {
+                col = otherEnd + 2;
+                moved = true;
+            };
+        };
+    };
+
+    return col + width - 1 <= size.cols ? col : undefined;
+};
+
+/**
+ * Adds a code action to the list when there is one.
+ * @param actions - The list to add to
+ * @param action - The action, if any
+ */
+function pushIfDefined(actions: vscode.CodeAction[], action: vscode.CodeAction | undefined): void {
+    if (action) {
+        actions.push(action);
+    };
+};
@@ -0,0 +1,610 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.diagnostics.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsDocumentModel, DdsAttribute, DdsField, DdsSize, DdsIndicator, FieldsPerRecord, FieldInfo, ConstantInfo, getDefaultSize, getIndicatorOrGroups, SYSTEM_FIELD_PLACEHOLDER } from '../dspf-edit.model/dspf-edit.model';
+import { resolveRecordSizeForFormat } from '../dspf-edit.parser/dspf-edit.parser';
+import { findOverlapsInRecord } from '../dspf-edit.utils/dspf-edit.helper';
+import { KeywordLevel, getKeyword } from '../dspf-edit.keywords/dspf-edit.keywords';
+
+// DIAGNOSTIC CODES
+
+/** Source shown next to every diagnostic in the Problems panel. */
+export const DDS_DIAGNOSTIC_SOURCE = 'dspf-edit';
+
+/**
+ * Identifies what a DDS diagnostic is about. Set as the diagnostic's `code`, so code actions can
+ * tell which problem they're being asked to fix without parsing the message text.
+ */
+export type DdsDiagnosticCode =
+    | 'overlap'
+    | 'outside-size'
+    | 'duplicate-field'
+    | 'name-too-long'
+    | 'past-column-80'
+    | 'malformed-keyword'
+    | 'keyword-level'
+    | 'missing-sflsiz';
+
+/** Readable name of each keyword level, for messages. */
+const LEVEL_LABELS: Record<KeywordLevel, string> = {
+    file: 'file level',
+    record: 'record level',
+    field: 'field level'
+};
+
+/** Longest name DDS allows for a record format or a field. */
+const MAX_NAME_LENGTH = 10;
+
+/** Last column of a DDS source line; anything past it is ignored by the compiler. */
+const MAX_SOURCE_COLUMN = 80;
+
+/** Columns (0-based, on the raw line) of the name, row/column position and keyword areas. */
+const NAME_START = 18;
+const NAME_END = 28;
+const POSITION_START = 38;
+const POSITION_END = 44;
+const KEYWORD_START = 44;
+
+// COLLECTION
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Creates the DDS diagnostic collection and registers it for disposal.
+ * @param context - The extension context
+ */
+export function initializeDiagnostics(context: vscode.ExtensionContext): void {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection(DDS_DIAGNOSTIC_SOURCE);
+    context.subscriptions.push(diagnosticCollection);
+};
+
+/**
+ * Recomputes and publishes the diagnostics of a DDS document from its freshly parsed model.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ */
+export function updateDiagnostics(document: vscode.TextDocument, model: DdsDocumentModel): void {
+    diagnosticCollection?.set(document.uri, computeDiagnostics(document, model));
+};
+
+/**
+ * Removes the published diagnostics of a document (e.g. once it's closed).
+ * @param uri - The document URI
+ */
+export function clearDiagnostics(uri: vscode.Uri): void {
+    diagnosticCollection?.delete(uri);
+};
+
+/**
+ * Runs every DDS check against a document.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ * @returns The diagnostics found, in no particular order
+ */
+export function computeDiagnostics(document: vscode.TextDocument, model: DdsDocumentModel): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const recordInfo of model.fieldsPerRecords) {
+        diagnostics.push(...checkOverlaps(document, recordInfo));
+        diagnostics.push(...checkRecordBounds(document, model, recordInfo));
+        diagnostics.push(...checkSubfileSize(document, recordInfo));
+    };
+    diagnostics.push(...checkDuplicateFields(document, model));
+    diagnostics.push(...checkNameLengths(document, model));
+    diagnostics.push(...checkSourceColumns(document));
+    diagnostics.push(...checkKeywords(document, model));
+
+    return diagnostics;
+};
+
+// POSITION CHECKS
+
+/** A field or constant, with the screen row/column it really occupies. */
+export interface PlacedElement {
+    kind: 'field' | 'constant';
+    element: FieldInfo | ConstantInfo;
+    row: number;
+    col: number;
+    length: number;
+};
+
+/**
+ * Lists a record's displayed fields and constants at their real screen position: hidden and
+ * program-to-system fields have none, and the parser stores a subfile record's row and column
+ * swapped, so that's undone here. A bare system keyword (DATE, USER...) takes its rendered width.
+ * @param recordInfo - The record's fields/constants
+ */
+export function getPlacedElements(recordInfo: FieldsPerRecord): PlacedElement[] {
+    const isSfl = recordInfo.attributes?.some(attr => attr.value.toUpperCase() === 'SFL') ?? false;
+    const placed: PlacedElement[] = [];
+
+    const place = (kind: 'field' | 'constant', element: FieldInfo | ConstantInfo) => {
+        const row = isSfl ? element.col : element.row;
+        const col = isSfl ? element.row : element.col;
+        if (row <= 0 || col <= 0) {
+            return;
+        };
+        const systemWidth = SYSTEM_FIELD_PLACEHOLDER[element.name.trim().toUpperCase()]?.length;
+        placed.push({ kind, element, row, col, length: systemWidth ?? element.length });
+    };
+
+    recordInfo.fields
+        .filter(field => (field.usage ?? '').toUpperCase() !== 'H' && (field.usage ?? '').toUpperCase() !== 'P')
+        .forEach(field => place('field', field));
+    recordInfo.constants.forEach(constant => place('constant', constant));
+
+    return placed;
+};
+
+/**
+ * Tells whether two elements can never be on screen together: they're conditioned on different
+ * display formats, or every OR group of one's condition needs an indicator off that the other's
+ * needs on (e.g. 01 and N01). Different indicators (e.g. 01 and 02) can be on at once, so they
+ * don't keep elements apart, and an unconditioned element is always shown.
+ * @param a - First element
+ * @param b - Second element
+ */
+export function areMutuallyExclusive(a: FieldInfo | ConstantInfo, b: FieldInfo | ConstantInfo): boolean {
+    if (a.displayFormat && b.displayFormat && a.displayFormat !== b.displayFormat) {
+        return true;
+    };
+    const groupsA = getIndicatorOrGroups(a.indicators);
+    const groupsB = getIndicatorOrGroups(b.indicators);
+    if (groupsA.length === 0 || groupsB.length === 0) {
+        return false;
+    };
+    return groupsA.every(groupA => groupsB.every(groupB => areContradictory(groupA, groupB)));
+};
+
+/**
+ * Tells whether two ANDed lists of indicators can't both be satisfied: one needs an indicator on
+ * that the other needs off.
+ * @param groupA - First list
+ * @param groupB - Second list
+ */
+function areContradictory(groupA: DdsIndicator[], groupB: DdsIndicator[]): boolean {
+    return groupA.some(indicatorA => groupB.some(indicatorB =>
+        indicatorA.number === indicatorB.number && indicatorA.active !== indicatorB.active
+    ));
+};
+
+/**
+ * Reports fields/constants sharing screen positions within a record.
+ * @param document - The DDS document
+ * @param recordInfo - The record to check
+ */
+function checkOverlaps(document: vscode.TextDocument, recordInfo: FieldsPerRecord): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const placed = getPlacedElements(recordInfo);
+
+    // findOverlapsInRecord compares row/col as stored, so hand it the real screen positions.
+    const screenRecord: FieldsPerRecord = {
+        ...recordInfo,
+        fields: placed.filter(p => p.kind === 'field').map(p => ({ ...(p.element as FieldInfo), row: p.row, col: p.col, length: p.length })),
+        constants: placed.filter(p => p.kind === 'constant').map(p => ({ ...(p.element as ConstantInfo), row: p.row, col: p.col, length: p.length }))
+    };
+
+    for (const { a, b } of findOverlapsInRecord(screenRecord)) {
+        if (areMutuallyExclusive(a, b)) {
+            continue;
+        };
+        // Report on the later of the two, pointing back at the one it overlaps.
+        const [first, second] = a.lineIndex <= b.lineIndex ? [a, b] : [b, a];
+        const diagnostic = createDiagnostic(
+            positionRange(document, second.lineIndex),
+            `${describeElement(second)} overlaps ${describeElement(first)} at row ${second.row} in record '${recordInfo.record}'.`,
+            vscode.DiagnosticSeverity.Warning,
+            'overlap'
+        );
+        diagnostic.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(document.uri, positionRange(document, first.lineIndex)),
+                `${describeElement(first)} is defined here.`
+            )
+        ];
+        diagnostics.push(diagnostic);
+    };
+
+    return diagnostics;
+};
+
+/**
+ * Reports fields/constants that don't fit in their record's screen or window.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ * @param recordInfo - The record to check
+ */
+function checkRecordBounds(document: vscode.TextDocument, model: DdsDocumentModel, recordInfo: FieldsPerRecord): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const placed of getPlacedElements(recordInfo)) {
+        const size = getElementAreaSize(model, recordInfo, placed.element);
+        const lastCol = placed.col + getScreenWidth(placed) - 1;
+
+        if (placed.row > size.rows || lastCol > size.cols) {
+            const area = size.source === 'window' ? 'the window of record' : 'record';
+            diagnostics.push(createDiagnostic(
+                positionRange(document, placed.element.lineIndex),
+                `${describeElement(placed.element)} at row ${placed.row}, columns ${placed.col}-${lastCol} lies outside ${area} '${recordInfo.record}' (${size.rows}x${size.cols}).`,
+                vscode.DiagnosticSeverity.Error,
+                'outside-size'
+            ));
+        };
+    };
+
+    return diagnostics;
+};
+
+/**
+ * Gets the screen or window size a field/constant has to fit in: its record's, or, for an element
+ * conditioned by a display format, the record's size in that format.
+ * @param model - The parsed model of the document
+ * @param recordInfo - The element's record
+ * @param element - The field or constant
+ */
+export function getElementAreaSize(model: DdsDocumentModel, recordInfo: FieldsPerRecord, element: FieldInfo | ConstantInfo): DdsSize {
+    return element.displayFormat
+        ? resolveRecordSizeForFormat(model, recordInfo.record, element.displayFormat)
+        : recordInfo.size ?? getDefaultSize(model);
+};
+
+/**
+ * Gets how many columns an element takes on its first screen row. CNTFLD(n) wraps a long field
+ * across rows n characters wide, so only that much of it has to fit.
+ * @param placed - The placed field or constant
+ */
+export function getScreenWidth(placed: PlacedElement): number {
+    const continuedWidth = getContinuedWidth(placed.element);
+    const width = continuedWidth ? Math.min(continuedWidth, placed.length) : placed.length;
+    return Math.max(width, 1);
+};
+
+/**
+ * Gets the per-row width of a field continued with CNTFLD(n), if any.
+ * @param element - The field or constant
+ */
+function getContinuedWidth(element: FieldInfo | ConstantInfo): number | undefined {
+    for (const attr of element.attributes) {
+        const match = attr.value.match(/CNTFLD\(\s*(\d+)\s*\)/i);
+        if (match) {
+            return Number(match[1]);
+        };
+    };
+    return undefined;
+};
+
+/**
+ * Reports a subfile control record with SFLPAG but no SFLSIZ, which DDS requires alongside it.
+ * @param document - The DDS document
+ * @param recordInfo - The record to check
+ */
+function checkSubfileSize(document: vscode.TextDocument, recordInfo: FieldsPerRecord): vscode.Diagnostic[] {
+    const pagAttr = findRecordKeyword(recordInfo, 'SFLPAG');
+    if (!pagAttr || findRecordKeyword(recordInfo, 'SFLSIZ')) {
+        return [];
+    };
+
+    return [createDiagnostic(
+        keywordRange(document, pagAttr.lineIndex, pagAttr.lastLineIndex ?? pagAttr.lineIndex, 'SFLPAG'),
+        `Record '${recordInfo.record}' has SFLPAG but no SFLSIZ.`,
+        vscode.DiagnosticSeverity.Error,
+        'missing-sflsiz'
+    )];
+};
+
+/**
+ * Finds the first of a record's keyword lines coding the given keyword.
+ * @param recordInfo - The record
+ * @param keywordName - Keyword to look for (e.g. "SFLPAG")
+ */
+export function findRecordKeyword(recordInfo: FieldsPerRecord, keywordName: string): DdsAttribute | undefined {
+    return recordInfo.attributes?.find(attr =>
+        splitKeywords(attr.value).keywords.some(keyword => keyword.toUpperCase().match(/^[A-Z][A-Z0-9]*/)?.[0] === keywordName)
+    );
+};
+
+// NAME CHECKS
+
+/**
+ * Reports fields defined more than once in the same record. The parser only keeps the first of
+ * them in the record's field list, so the source elements are scanned instead.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ */
+function checkDuplicateFields(document: vscode.TextDocument, model: DdsDocumentModel): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const firstDefinitions = new Map<string, DdsField>();
+
+    const fields = model.elements.filter(el => el.kind === 'field') as DdsField[];
+    for (const field of fields) {
+        const key = `${field.recordname}/${field.name.toUpperCase()}`;
+        const first = firstDefinitions.get(key);
+        if (!first) {
+            firstDefinitions.set(key, field);
+            continue;
+        };
+
+        const diagnostic = createDiagnostic(
+            nameRange(document, field.lineIndex),
+            `Field '${field.name}' is already defined in record '${field.recordname}'.`,
+            vscode.DiagnosticSeverity.Error,
+            'duplicate-field'
+        );
+        diagnostic.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(document.uri, nameRange(document, first.lineIndex)),
+                `First definition of '${first.name}'.`
+            )
+        ];
+        diagnostics.push(diagnostic);
+    };
+
+    return diagnostics;
+};
+
+/**
+ * Reports record and field names longer than 10 characters. The parser reads names from their
+ * fixed 10-column area, so a longer one shows up as text running on into the columns after it.
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ */
+function checkNameLengths(document: vscode.TextDocument, model: DdsDocumentModel): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const element of model.elements) {
+        if (element.kind !== 'record' && element.kind !== 'field') {
+            continue;
+        };
+        if (element.lineIndex >= document.lineCount) {
+            continue;
+        };
+
+        const line = document.lineAt(element.lineIndex).text;
+        const fullName = line.substring(NAME_START).match(/^\S+/)?.[0] ?? '';
+        if (fullName.length <= MAX_NAME_LENGTH) {
+            continue;
+        };
+        // A 10-character field name followed by the reference flag (position 29 'R') is fine.
+        const isReferenceFlag = element.kind === 'field'
+            && fullName.length === MAX_NAME_LENGTH + 1
+            && fullName.toUpperCase().endsWith('R');
+        if (isReferenceFlag) {
+            continue;
+        };
+
+        const kindLabel = element.kind === 'record' ? 'Record' : 'Field';
+        diagnostics.push(createDiagnostic(
+            new vscode.Range(element.lineIndex, NAME_START, element.lineIndex, NAME_START + fullName.length),
+            `${kindLabel} name '${fullName}' is longer than ${MAX_NAME_LENGTH} characters.`,
+            vscode.DiagnosticSeverity.Error,
+            'name-too-long'
+        ));
+    };
+
+    return diagnostics;
+};
+
+// SOURCE LINE CHECKS
+
+/**
+ * Reports source text past column 80, which the compiler never reads.
+ * @param document - The DDS document
+ */
+function checkSourceColumns(document: vscode.TextDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (let lineIndex = 0; lineIndex < document.lineCount; lineIndex++) {
+        const text = document.lineAt(lineIndex).text.trimEnd();
+        if (text.length <= MAX_SOURCE_COLUMN) {
+            continue;
+        };
+        diagnostics.push(createDiagnostic(
+            new vscode.Range(lineIndex, MAX_SOURCE_COLUMN, lineIndex, text.length),
+            `Text past column ${MAX_SOURCE_COLUMN} is ignored by the compiler.`,
+            vscode.DiagnosticSeverity.Error,
+            'past-column-80'
+        ));
+    };
+
+    return diagnostics;
+};
+
+// KEYWORD CHECKS
+
+/** A keyword as coded in the source, with the level it's coded on. */
+interface CodedKeyword {
+    value: string;
+    level: KeywordLevel;
+    lineIndex: number;
+    lastLineIndex: number;
+};
+
+/**
+ * Reports keywords with unbalanced parentheses or quotes, and keywords coded on a level they
+ * aren't valid on (e.g. DSPSIZ on a record, or SFLPAG on a field).
+ * @param document - The DDS document
+ * @param model - The parsed model of the document
+ */
+function checkKeywords(document: vscode.TextDocument, model: DdsDocumentModel): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const coded of collectCodedKeywords(model)) {
+        const { keywords, error } = splitKeywords(coded.value);
+        if (error) {
+            diagnostics.push(createDiagnostic(
+                keywordRange(document, coded.lineIndex, coded.lastLineIndex),
+                `Malformed keyword '${coded.value}': ${error}.`,
+                vscode.DiagnosticSeverity.Error,
+                'malformed-keyword'
+            ));
+            continue;
+        };
+
+        for (const keyword of keywords) {
+            const name = keyword.match(/^[A-Z][A-Z0-9]*/i)?.[0]?.toUpperCase();
+            const validLevels = name ? getKeyword(name)?.levels : undefined;
+            if (!name || !validLevels || validLevels.includes(coded.level)) {
+                continue;
+            };
+            diagnostics.push(createDiagnostic(
+                keywordRange(document, coded.lineIndex, coded.lastLineIndex, name),
+                `Keyword ${name} is not valid at ${LEVEL_LABELS[coded.level]} (valid at ${validLevels.map(level => LEVEL_LABELS[level]).join(', ')}).`,
+                vscode.DiagnosticSeverity.Error,
+                'keyword-level'
+            ));
+        };
+    };
+
+    return diagnostics;
+};
+
+/**
+ * Lists every keyword line of the document along with the level it's coded on.
+ * @param model - The parsed model of the document
+ */
+function collectCodedKeywords(model: DdsDocumentModel): CodedKeyword[] {
+    const coded: CodedKeyword[] = [];
+    const add = (value: string, level: KeywordLevel, lineIndex: number, lastLineIndex?: number) => {
+        if (value.trim()) {
+            coded.push({ value, level, lineIndex, lastLineIndex: lastLineIndex ?? lineIndex });
+        };
+    };
+
+    model.attributesFileLevel.forEach(attr => add(attr.value, 'file', attr.lineIndex, attr.lastLineIndex));
+    for (const recordInfo of model.fieldsPerRecords) {
+        recordInfo.attributes?.forEach(attr => add(attr.value, 'record', attr.lineIndex, attr.lastLineIndex));
+    };
+    // Fields are read from the source elements, so a duplicated field's keywords are checked too.
+    for (const element of model.elements) {
+        if (element.kind === 'field' || element.kind === 'constant') {
+            element.attributes?.forEach(attr => add(attr.value, 'field', attr.lineIndex, attr.lastLineIndex));
+        };
+    };
+
+    return coded;
+};
+
+/**
+ * Splits a keyword line's text into its keywords (several can share a line, separated by blanks),
+ * checking that parentheses and quotes are balanced along the way.
+ * @param value - The keyword text, continuation lines already joined
+ * @returns The keywords found, or what's wrong with the text
+ */
+export function splitKeywords(value: string): { keywords: string[]; error?: string } {
+    const keywords: string[] = [];
+    let current = '';
+    let depth = 0;
+    let inQuotes = false;
+
+    for (const char of value) {
+        if (char === "'") {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && char === '(') {
+            depth++;
+        } else if (!inQuotes && char === ')') {
+            depth--;
+            if (depth < 0) {
+                return { keywords, error: "')' without a matching '('" };
+            };
+        } else if (!inQuotes && depth === 0 && /\s/.test(char)) {
+            if (current) {
+                keywords.push(current);
+            };
+            current = '';
+            continue;
+        };
+        current += char;
+    };
+
+    if (inQuotes) {
+        return { keywords, error: 'unterminated quoted text' };
+    };
+    if (depth > 0) {
+        return { keywords, error: "missing ')'" };
+    };
+    if (current) {
+        keywords.push(current);
+    };
+
+    return { keywords };
+};
+
+// RANGE AND MESSAGE HELPERS
+
+/**
+ * Range of a line's row/column position area (columns 39-44).
+ * @param document - The DDS document
+ * @param lineIndex - Line of the field/constant
+ */
+function positionRange(document: vscode.TextDocument, lineIndex: number): vscode.Range {
+    return areaRange(document, lineIndex, POSITION_START, POSITION_END);
+};
+
+/**
+ * Range of a line's name area (columns 19-28).
+ * @param document - The DDS document
+ * @param lineIndex - Line of the record/field
+ */
+function nameRange(document: vscode.TextDocument, lineIndex: number): vscode.Range {
+    return areaRange(document, lineIndex, NAME_START, NAME_END);
+};
+
+/**
+ * Range of a fixed-column area of a line, clipped to the line's actual text.
+ * @param document - The DDS document
+ * @param lineIndex - The line
+ * @param start - First column (0-based)
+ * @param end - Column after the last one (0-based)
+ */
+function areaRange(document: vscode.TextDocument, lineIndex: number, start: number, end: number): vscode.Range {
+    const lineLength = lineIndex < document.lineCount ? document.lineAt(lineIndex).text.length : 0;
+    const clippedStart = Math.min(start, lineLength);
+    return new vscode.Range(lineIndex, clippedStart, lineIndex, Math.max(clippedStart, Math.min(end, lineLength)));
+};
+
+/**
+ * Range of a keyword: just its name when it can be found on the first line, otherwise the whole
+ * keyword area across its continuation lines.
+ * @param document - The DDS document
+ * @param lineIndex - First line of the keyword text
+ * @param lastLineIndex - Last (continuation) line of the keyword text
+ * @param keywordName - Name of the keyword to point at, if a single one
+ */
+function keywordRange(document: vscode.TextDocument, lineIndex: number, lastLineIndex: number, keywordName?: string): vscode.Range {
+    if (keywordName && lineIndex < document.lineCount) {
+        const line = document.lineAt(lineIndex).text.toUpperCase();
+        const start = line.indexOf(keywordName, KEYWORD_START);
+        if (start >= 0) {
+            return new vscode.Range(lineIndex, start, lineIndex, start + keywordName.length);
+        };
+    };
+    const lastLine = Math.min(lastLineIndex, document.lineCount - 1);
+    const endColumn = lastLine >= 0 ? Math.min(document.lineAt(lastLine).text.length, MAX_SOURCE_COLUMN) : 0;
+    return new vscode.Range(lineIndex, Math.min(KEYWORD_START, endColumn), Math.max(lastLine, lineIndex), endColumn);
+};
+
+/**
+ * Describes a field or constant for a message (e.g. "Field 'CUSNAM'" or "Constant 'Name:'").
+ * @param element - The field or constant
+ */
+function describeElement(element: FieldInfo | ConstantInfo): string {
+    return 'usage' in element ? `Field '${element.name}'` : `Constant '${element.name}'`;
+};
+
+/**
+ * Creates a diagnostic tagged with the DDS source and the given code.
+ * @param range - Where the problem is
+ * @param message - What's wrong
+ * @param severity - How serious it is
+ * @param code - Which check found it
+ */
+function createDiagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity, code: DdsDiagnosticCode): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = DDS_DIAGNOSTIC_SOURCE;
+    diagnostic.code = code;
+    return diagnostic;
+};
@@ -0,0 +1,325 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.formatter.ts
+*/
+
+import * as vscode from 'vscode';
+import { parseDisplayFormatCondition } from '../dspf-edit.parser/dspf-edit.parser';
+
+// INTERFACES AND TYPES
+
+/** One DDS statement (a line plus its continuation lines) and how it reads once formatted. */
+export interface FormattedStatement {
+    startLine: number;
+    endLine: number;
+    lines: string[];
+};
+
+/** Columns (0-based, on the raw line) of the fixed-format areas. */
+const FORM_TYPE_COLUMN = 5;
+const CONDITION_START = 6;
+const NAME_TYPE_COLUMN = 16;
+const NAME_START = 18;
+const KEYWORD_START = 44;
+const KEYWORD_WIDTH = 36;
+
+/** Prefix of a continuation line: blank up to the keyword area. */
+const CONTINUATION_PREFIX = ' '.repeat(5) + 'A' + ' '.repeat(38);
+
+// REGISTRATION
+
+/**
+ * Registers the document and selection formatters for DDS sources.
+ * @param context - The extension context
+ */
+export function registerFormatter(context: vscode.ExtensionContext): void {
+    const provider = new DdsFormattingProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider({ language: 'dds.dspf' }, provider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider({ language: 'dds.dspf' }, provider)
+    );
+};
+
+// PROVIDER
+
+/**
+ * Lines every statement up in the fixed columns DDS expects, re-wrapping keywords onto
+ * continuation lines as needed.
+ */
+export class DdsFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+
+    provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+        return getFormattingEdits(document);
+    };
+
+    provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+        return getFormattingEdits(document, range.start.line, range.end.line);
+    };
+};
+
+/**
+ * Builds the edits that format a document, or only the statements touching a range of its lines.
+ * @param document - The DDS document
+ * @param fromLine - First line to format
+ * @param toLine - Last line to format
+ * @returns One edit per statement whose text changes
+ */
+export function getFormattingEdits(document: vscode.TextDocument, fromLine: number = 0, toLine: number = document.lineCount - 1): vscode.TextEdit[] {
+    const lines: string[] = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+    };
+
+    return formatDdsLines(lines)
+        .filter(statement => statement.endLine >= fromLine && statement.startLine <= toLine)
+        .map(statement => vscode.TextEdit.replace(
+            new vscode.Range(statement.startLine, 0, statement.endLine, lines[statement.endLine].length),
+            statement.lines.join('\n')
+        ));
+};
+
+// FORMATTING
+
+/**
+ * Formats the lines of a DDS source, statement by statement: each area of the fixed columns is
+ * aligned the way DDS expects it (indicators in 8-16, name in 19-28, length, type, decimals, usage,
+ * row and column right-aligned), and the keywords from column 45 are re-joined from their
+ * continuation lines and re-wrapped so none runs past column 80. A statement that can't be read
+ * reliably (tabs, text straddling two areas, unbalanced quotes) is left as it is.
+ * @param lines - The source lines
+ * @returns The statements that change, with their formatted lines
+ */
+export function formatDdsLines(lines: string[]): FormattedStatement[] {
+    const changed: FormattedStatement[] = [];
+
+    let index = 0;
+    while (index < lines.length) {
+        const endLine = findStatementEnd(lines, index);
+        const original = lines.slice(index, endLine + 1);
+        const formatted = formatStatement(original);
+
+        if (formatted && formatted.join('\n') !== original.join('\n')) {
+            changed.push({ startLine: index, endLine, lines: formatted });
+        };
+        index = endLine + 1;
+    };
+
+    return changed;
+};
+
+/**
+ * Formats one statement.
+ * @param statementLines - The statement's line and its continuation lines
+ * @returns The formatted lines, or undefined to leave the statement as it is
+ */
+function formatStatement(statementLines: string[]): string[] | undefined {
+    const first = statementLines[0];
+
+    if (first.includes('\t')) {
+        return undefined;
+    };
+    // Blank lines, comments and lines not reaching the conditioning columns only lose trailing blanks
+    if (first.trim() === '' || first.length <= CONDITION_START || isComment(first)) {
+        return [first.trimEnd()];
+    };
+
+    // A continuation mark with nothing to continue onto is left for the diagnostics to point out
+    if (/[-+]$/.test(statementLines[statementLines.length - 1].substring(KEYWORD_START).trimEnd())) {
+        return undefined;
+    };
+
+    const fixedColumns = normalizeFixedColumns(first);
+    const keywordText = joinKeywordText(statementLines);
+    if (fixedColumns === undefined || keywordText === undefined) {
+        return undefined;
+    };
+
+    const [firstChunk, ...continuations] = wrapKeywordText(keywordText);
+    return [
+        (fixedColumns + firstChunk).trimEnd(),
+        ...continuations.map(chunk => (CONTINUATION_PREFIX + chunk).trimEnd())
+    ];
+};
+
+/**
+ * Aligns the fixed-format areas (columns 1-44) of a statement's first line.
+ * @param line - The line
+ * @returns Columns 1-44 formatted, or undefined when an area holds something that doesn't belong there
+ */
+function normalizeFixedColumns(line: string): string | undefined {
+    const columns = line.padEnd(KEYWORD_START, ' ');
+
+    const formType = columns.charAt(FORM_TYPE_COLUMN).toUpperCase();
+    if (formType !== 'A' && formType !== ' ') {
+        return undefined;
+    };
+
+    const condition = normalizeCondition(columns.substring(CONDITION_START, NAME_TYPE_COLUMN));
+    const nameType = columns.substring(NAME_TYPE_COLUMN, NAME_START).toUpperCase();
+    const name = columns.substring(NAME_START, 28).trim();
+    const reference = columns.charAt(28).toUpperCase();
+    const length = columns.substring(29, 34).trim();
+    const dataType = columns.charAt(34).toUpperCase();
+    const decimals = columns.substring(35, 37).trim();
+    const usage = columns.charAt(37).toUpperCase();
+    const row = columns.substring(38, 41).trim();
+    const col = columns.substring(41, 44).trim();
+
+    const isValid = condition !== undefined
+        && !/\s/.test(name)
+        && (reference === ' ' || reference === 'R')
+        && /^[+-]?\d*$/.test(length)
+        && /^[+-]?\d*$/.test(decimals)
+        && /^\+?\d*$/.test(row)
+        && /^\+?\d*$/.test(col);
+    if (!isValid) {
+        return undefined;
+    };
+
+    return columns.substring(0, FORM_TYPE_COLUMN)
+        + 'A'
+        + condition
+        + nameType
+        + name.padEnd(10, ' ')
+        + reference
+        + length.padStart(5, ' ')
+        + dataType
+        + decimals.padStart(2, ' ')
+        + usage
+        + row.padStart(3, ' ')
+        + col.padStart(3, ' ');
+};
+
+/**
+ * Aligns the conditioning columns 7-16: the AND/OR in column 7, then up to three indicators
+ * (optionally preceded by N) in 8-10, 11-13 and 14-16.
+ * @param condition - Columns 7-16
+ * @returns The aligned columns, or undefined when they hold something else than indicators
+ */
+function normalizeCondition(condition: string): string | undefined {
+    const andOr = condition.charAt(0).toUpperCase();
+    if (andOr !== ' ' && andOr !== 'A' && andOr !== 'O') {
+        return undefined;
+    };
+
+    // A display format condition (*DS3, *DS4) is left as written
+    const indicatorArea = condition.substring(1);
+    if (parseDisplayFormatCondition(indicatorArea)) {
+        return andOr + indicatorArea;
+    };
+
+    const indicators = indicatorArea.trim().split(/\s+/).filter(Boolean);
+    if (indicators.length > 3 || indicators.some(indicator => !/^N?\d{1,2}$/i.test(indicator))) {
+        return undefined;
+    };
+
+    const slots = indicators.map(indicator => {
+        const not = /^N/i.test(indicator) ? 'N' : ' ';
+        return not + indicator.replace(/^N/i, '').padStart(2, '0');
+    });
+    return andOr + slots.join('').padEnd(9, ' ');
+};
+
+/**
+ * Joins the keyword text of a statement from its continuation lines. A '-' continues the text
+ * from column 45 of the next line, a '+' from its first non-blank character. Outside quotes,
+ * runs of blanks are only separators, so they're reduced to one.
+ * @param statementLines - The statement's line and its continuation lines
+ * @returns The joined text, or undefined if its quotes aren't balanced
+ */
+function joinKeywordText(statementLines: string[]): string | undefined {
+    let text = '';
+    let skipLeadingBlanks = false;
+
+    for (const line of statementLines) {
+        let area = line.substring(KEYWORD_START).trimEnd();
+        if (skipLeadingBlanks) {
+            area = area.trimStart();
+        };
+
+        const continuation = area.charAt(area.length - 1);
+        if (continuation === '-' || continuation === '+') {
+            area = area.substring(0, area.length - 1);
+        };
+        skipLeadingBlanks = continuation === '+';
+        text += area;
+    };
+
+    let joined = '';
+    let inQuotes = false;
+    for (const char of text) {
+        if (char === "'") {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && char === ' ' && (joined === '' || joined.endsWith(' '))) {
+            continue;
+        };
+        joined += char;
+    };
+
+    return inQuotes ? undefined : joined.trimEnd();
+};
+
+/**
+ * Wraps keyword text into the keyword area (columns 45-80). A line is broken after a blank
+ * outside quotes when there's one; otherwise (inside a long quoted text) it's cut right at column
+ * 79, since a '-' continuation keeps every character up to it. Each continued line ends in a '-'
+ * in column 80.
+ * @param text - The keyword text
+ * @returns The text of each line's keyword area
+ */
+function wrapKeywordText(text: string): string[] {
+    const chunks: string[] = [];
+    let remaining = text;
+
+    while (remaining.length > KEYWORD_WIDTH) {
+        let cut = KEYWORD_WIDTH - 1;
+        let inQuotes = false;
+        for (let i = 0; i < KEYWORD_WIDTH - 1; i++) {
+            const char = remaining.charAt(i);
+            if (char === "'") {
+                inQuotes = !inQuotes;
+            } else if (!inQuotes && char === ' ') {
+                cut = i + 1;
+            };
+        };
+
+        chunks.push(remaining.substring(0, cut).padEnd(KEYWORD_WIDTH - 1, ' ') + '-');
+        remaining = remaining.substring(cut);
+    };
+
+    chunks.push(remaining);
+    return chunks;
+};
+
+// HELPERS
+
+/**
+ * Finds the last line of the statement starting at a line: the lines its keyword text continues
+ * onto, as long as they're blank up to the keyword area.
+ * @param lines - The source lines
+ * @param startLine - First line of the statement
+ */
+export function findStatementEnd(lines: string[], startLine: number): number {
+    if (isComment(lines[startLine])) {
+        return startLine;
+    };
+
+    let endLine = startLine;
+    while (endLine + 1 < lines.length && /[-+]$/.test(lines[endLine].substring(KEYWORD_START).trimEnd())) {
+        const next = lines[endLine + 1];
+        if (isComment(next) || next.substring(CONDITION_START, KEYWORD_START).trim() !== '' || next.substring(KEYWORD_START).trim() === '') {
+            break;
+        };
+        endLine++;
+    };
+    return endLine;
+};
+
+/**
+ * Checks whether a line is a comment (column 7 = '*').
+ * @param line - The line
+ */
+function isComment(line: string): boolean {
+    return line.length > CONDITION_START && line.charAt(CONDITION_START) === '*';
+};
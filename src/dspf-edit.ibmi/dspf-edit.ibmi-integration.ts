@@ -5,7 +5,9 @@
 */
 
 import * as vscode from 'vscode';
-import { DdsAttribute, DdsElement, DdsField, attributesFileLevel } from '../dspf-edit.model/dspf-edit.model';
+import { DdsAttribute, DdsDocumentModel, DdsElement, DdsField } from '../dspf-edit.model/dspf-edit.model';
+import { getStoredRef, refStoreKey, storeRef } from './dspf-edit.ref-store';
+import { ensureLocalDefinitions, getLocalFieldDefinition, hasLocalDefinitions } from './dspf-edit.local-definitions';
 
 /**
  * Isolated from the rest of the extension on purpose: this is the only file that knows about the
@@ -19,8 +21,11 @@ import { DdsAttribute, DdsElement, DdsField, attributesFileLevel } from '../dspf
 
 const CODE_FOR_IBMI_EXTENSION_ID = 'halcyontechltd.code-for-ibmi';
 
-/** The slice of Code for i's `IBMi` connection this module actually calls. */
-interface MinimalIBMiConnection {
+/**
+ * The slice of Code for i's `IBMi` connection this module actually calls. Exported so a stub can
+ * stand in for a real connection.
+ */
+export interface MinimalIBMiConnection {
     runSQL(statements: string | string[], options?: { bindings?: (string | number | null)[] }): Promise<Record<string, string | number | null>[]>;
 };
 
@@ -38,6 +43,26 @@ export interface ResolvedRefInfo {
     decimals: number;
 };
 
+/** The database field a referenced field refers to. */
+interface ReferenceTarget {
+    file: string;
+    library?: string;
+    fieldName: string;
+};
+
+/** A column of a database file, as described by QSYS2.SYSCOLUMNS. */
+export interface TableColumn {
+    /** System (DDS) name of the column. */
+    name: string;
+    type: string;
+    length: number;
+    decimals: number;
+    /** COLUMN_TEXT, when the column has one. */
+    text?: string;
+    /** COLUMN_HEADING, its three 20-character lines joined by blanks, when the column has one. */
+    heading?: string;
+};
+
 /**
  * Gets the active IBM i connection from the Code for i extension, if installed and connected.
  * Returns undefined rather than throwing: callers decide how to surface "no connection" to the user.
@@ -69,6 +94,22 @@ function findRefKeyword(attributes: DdsAttribute[] | undefined): { file: string;
     return { file, library };
 };
 
+/**
+ * Determines the database field a referenced field refers to: the file named by its REFFLD(), or
+ * else by its record's or the file's REF().
+ * @param field - The referenced field
+ * @param recordAttributes - The field's own record's attributes
+ * @param fileAttributes - The document's file-level attributes
+ * @returns The file, its library when named, and the field's name in it, or undefined when no file is named
+ */
+function findReferenceTarget(field: DdsField, recordAttributes: DdsAttribute[] | undefined, fileAttributes: DdsAttribute[] | undefined): ReferenceTarget | undefined {
+    const target = field.refTarget ?? { fieldName: field.name };
+    const fileRef = target.file
+        ? { file: target.file, library: target.library }
+        : findRefKeyword(recordAttributes) ?? findRefKeyword(fileAttributes);
+    return fileRef?.file ? { file: fileRef.file, library: fileRef.library, fieldName: target.fieldName } : undefined;
+};
+
 /**
  * Best-effort mapping from a QSYS2.SYSCOLUMNS DATA_TYPE to a DDS single-letter field type. Covers
  * the common DDS-creatable types; refine against real IBM i data as edge cases turn up.
@@ -115,12 +156,70 @@ function fieldCacheKey(recordName: string, fieldName: string): string {
     return `${recordName}.${fieldName}`;
 };
 
-/** Gets a previously-resolved referenced field's info, if any, for the given document. */
+/**
+ * Per-document target of each referenced field: uri -> "record.field" -> the database field it
+ * refers to, registered whenever the document is parsed.
+ */
+const referenceTargetsByDocument: Map<string, Map<string, ReferenceTarget>> = new Map();
+
+/**
+ * Gets a previously-resolved referenced field's info, if any, for the given document: resolved in
+ * this session, or else defined by the local reference definitions, or else stored by an earlier
+ * session (the last two are what make it available offline).
+ */
 export function getResolvedRef(documentUri: string, recordName: string, fieldName: string): ResolvedRefInfo | undefined {
-    return resolvedRefCache.get(documentUri)?.get(fieldCacheKey(recordName, fieldName));
+    const resolved = resolvedRefCache.get(documentUri)?.get(fieldCacheKey(recordName, fieldName));
+    if (resolved) {
+        return resolved;
+    };
+    const target = referenceTargetsByDocument.get(documentUri)?.get(fieldCacheKey(recordName, fieldName));
+    if (!target) {
+        return undefined;
+    };
+    const local = getLocalFieldDefinition(target.file, target.fieldName);
+    if (local) {
+        return local;
+    };
+    const stored = getStoredRef(refStoreKey(target.file, target.fieldName, target.library));
+    return stored ? { type: stored.type, length: stored.length, decimals: stored.decimals } : undefined;
 };
 
-function setResolvedRef(documentUri: string, recordName: string, fieldName: string, info: ResolvedRefInfo): void {
+/**
+ * Gets when a referenced field's stored info was read from the IBM i, if it's stored.
+ * @param documentUri - The DDS document's URI (as a string)
+ * @param recordName - The field's record
+ * @param fieldName - The field
+ */
+export function getStoredRefDate(documentUri: string, recordName: string, fieldName: string): Date | undefined {
+    const target = referenceTargetsByDocument.get(documentUri)?.get(fieldCacheKey(recordName, fieldName));
+    const stored = target ? getStoredRef(refStoreKey(target.file, target.fieldName, target.library)) : undefined;
+    return stored ? new Date(stored.resolvedAt) : undefined;
+};
+
+/**
+ * Registers which database field each referenced field of a freshly parsed document refers to,
+ * so their local or stored info can be found without resolving them again. Fields whose file can't be
+ * determined are left out.
+ * @param documentUri - The DDS document's URI (as a string)
+ * @param model - The document's parsed model
+ */
+export function registerReferenceTargets(documentUri: string, model: DdsDocumentModel): void {
+    const targets: Map<string, ReferenceTarget> = new Map();
+    for (const field of collectReferencedFields(model.elements)) {
+        const recordAttributes = model.fieldsPerRecords.find(record => record.record === field.recordname)?.attributes;
+        const target = findReferenceTarget(field, recordAttributes, model.attributesFileLevel);
+        if (target) {
+            targets.set(fieldCacheKey(field.recordname, field.name), target);
+        };
+    };
+    referenceTargetsByDocument.set(documentUri, targets);
+};
+
+/**
+ * Remembers a referenced field's real type/length/decimals for a document, when it's already known
+ * (e.g. a field just generated from a database file's columns).
+ */
+export function setResolvedRef(documentUri: string, recordName: string, fieldName: string, info: ResolvedRefInfo): void {
     if (!resolvedRefCache.has(documentUri)) {
         resolvedRefCache.set(documentUri, new Map());
     };
@@ -130,6 +229,7 @@ function setResolvedRef(documentUri: string, recordName: string, fieldName: stri
 /** Clears every resolved referenced field cached for a document (e.g. when it's closed). */
 export function clearResolvedRef(documentUri: string): void {
     resolvedRefCache.delete(documentUri);
+    referenceTargetsByDocument.delete(documentUri);
 };
 
 /** Recursively collects every referenced field in a parsed DDS element tree. */
@@ -152,33 +252,41 @@ export function getPendingReferencedFields(documentUri: string, elements: DdsEle
 };
 
 /**
- * Resolves a referenced field's real type/length/decimals against the connected IBM i, caching
- * the result for the document. Throws a descriptive error (no connection, no file could be
- * determined, field not found) rather than returning a sentinel — callers show it to the user.
+ * Resolves a referenced field's real type/length/decimals from the local reference definitions, or
+ * else against the connected IBM i, caching the result for the document. Throws a descriptive
+ * error (no connection, no file could be determined, field not found) rather than returning a
+ * sentinel — callers show it to the user.
  * @param documentUri - The DDS document's URI (as a string), used as the cache key
  * @param field - The referenced field to resolve
  * @param recordAttributes - The field's own record's attributes, for a record-level REF() fallback
+ * @param fileAttributes - The document's file-level attributes, for a file-level REF() fallback
  */
-export async function resolveReferencedField(documentUri: string, field: DdsField, recordAttributes: DdsAttribute[] | undefined): Promise<ResolvedRefInfo> {
-    const connection = getIBMiConnection();
-    if (!connection) {
-        throw new Error('No active IBM i connection. Connect via the Code for i extension first.');
+export async function resolveReferencedField(documentUri: string, field: DdsField, recordAttributes: DdsAttribute[] | undefined, fileAttributes: DdsAttribute[] | undefined): Promise<ResolvedRefInfo> {
+    const fileRef = findReferenceTarget(field, recordAttributes, fileAttributes);
+    if (!fileRef) {
+        throw new Error(`Could not determine the referenced database file for field '${field.name}' (no file named in REFFLD() and no REF() keyword found).`);
     };
 
-    const target = field.refTarget ?? { fieldName: field.name };
-    const fileRef = target.file
-        ? { file: target.file, library: target.library }
-        : findRefKeyword(recordAttributes) ?? findRefKeyword(attributesFileLevel);
+    // The local reference definitions, when configured, come before the IBM i
+    await ensureLocalDefinitions();
+    const local = getLocalFieldDefinition(fileRef.file, fileRef.fieldName);
+    if (local) {
+        setResolvedRef(documentUri, field.recordname, field.name, local);
+        return local;
+    };
 
-    if (!fileRef?.file) {
-        throw new Error(`Could not determine the referenced database file for field '${field.name}' (no file named in REFFLD() and no REF() keyword found).`);
+    const connection = getIBMiConnection();
+    if (!connection) {
+        throw new Error(hasLocalDefinitions()
+            ? `Field '${fileRef.fieldName}' of ${fileRef.file} is not in the local reference definitions, and there is no active IBM i connection.`
+            : 'No active IBM i connection. Connect via the Code for i extension first.');
     };
 
     // REFFLD()/REF() names are always DDS-style short "system" names (max 10 chars) — for a native
     // physical/logical file these match the SQL long name, but for an SQL-created table they can
     // differ (e.g. long name CUSTOMER_MASTER, system name CUSTMAST). Filtering on QSYS2.SYSCOLUMNS'
     // own SYSTEM_* columns instead of its long-name ones handles both.
-    const bindings = [fileRef.file.toUpperCase(), target.fieldName.toUpperCase()];
+    const bindings = [fileRef.file.toUpperCase(), fileRef.fieldName.toUpperCase()];
     let sql = `SELECT DATA_TYPE, LENGTH, NUMERIC_SCALE FROM QSYS2.SYSCOLUMNS WHERE SYSTEM_TABLE_NAME = ? AND SYSTEM_COLUMN_NAME = ?`;
     if (fileRef.library) {
         sql += ' AND SYSTEM_TABLE_SCHEMA = ?';
@@ -189,10 +297,600 @@ export async function resolveReferencedField(documentUri: string, field: DdsFiel
     const row = rows[0];
     if (!row) {
         const qualifiedFile = fileRef.library ? `${fileRef.library}/${fileRef.file}` : fileRef.file;
-        throw new Error(`Field '${target.fieldName}' not found in ${qualifiedFile}.`);
+        throw new Error(`Field '${fileRef.fieldName}' not found in ${qualifiedFile}.`);
     };
 
     const resolved = mapSqlTypeToDds(String(row.DATA_TYPE), Number(row.LENGTH), Number(row.NUMERIC_SCALE ?? 0));
     setResolvedRef(documentUri, field.recordname, field.name, resolved);
+    storeRef(refStoreKey(fileRef.file, fileRef.fieldName, fileRef.library), resolved);
     return resolved;
 };
+
+
+/**
+ * Reads the columns of a database file from the connected IBM i, in their order in the file.
+ * Without a library, the file is looked for in the job's library list, like *LIBL. Throws a
+ * descriptive error (no connection, file not found) rather than returning a sentinel.
+ * @param file - The file's system name
+ * @param library - The file's library, if given
+ */
+export async function getTableColumns(file: string, library?: string): Promise<TableColumn[]> {
+    const connection = getIBMiConnection();
+    if (!connection) {
+        throw new Error('No active IBM i connection. Connect via the Code for i extension first.');
+    };
+    return queryTableColumns(connection, file, library);
+};
+
+/**
+ * Reads the columns of a database file through a given connection, as getTableColumns does.
+ * @param connection - The IBM i connection
+ * @param file - The file's system name
+ * @param library - The file's library, if given
+ */
+async function queryTableColumns(connection: MinimalIBMiConnection, file: string, library?: string): Promise<TableColumn[]> {
+    const columns = 'C.SYSTEM_TABLE_SCHEMA, C.SYSTEM_COLUMN_NAME, C.DATA_TYPE, C.LENGTH, C.NUMERIC_PRECISION, C.NUMERIC_SCALE, C.COLUMN_TEXT, C.COLUMN_HEADING';
+    const rows = library
+        ? await connection.runSQL(
+            `SELECT ${columns} FROM QSYS2.SYSCOLUMNS C WHERE C.SYSTEM_TABLE_NAME = ? AND C.SYSTEM_TABLE_SCHEMA = ? ORDER BY C.ORDINAL_POSITION`,
+            { bindings: [file.toUpperCase(), library.toUpperCase()] }
+        )
+        : await connection.runSQL(
+            `SELECT ${columns} FROM QSYS2.SYSCOLUMNS C JOIN QSYS2.LIBRARY_LIST_INFO L ON L.SYSTEM_SCHEMA_NAME = C.SYSTEM_TABLE_SCHEMA ` +
+            `WHERE C.SYSTEM_TABLE_NAME = ? ORDER BY L.ORDINAL_POSITION, C.ORDINAL_POSITION`,
+            { bindings: [file.toUpperCase()] }
+        );
+
+    if (rows.length === 0) {
+        throw new Error(`File '${library ? `${library}/${file}` : file}' not found${library ? '' : ' in the library list'}.`);
+    };
+
+    // Without a library, only the first library of the list holding the file counts
+    const schema = rows[0].SYSTEM_TABLE_SCHEMA;
+    return rows
+        .filter(row => row.SYSTEM_TABLE_SCHEMA === schema)
+        .map(row => {
+            // LENGTH is in bytes for binary and float types: their digits are in NUMERIC_PRECISION
+            const isNumeric = row.NUMERIC_PRECISION !== null && row.NUMERIC_PRECISION !== undefined;
+            const resolved = mapSqlTypeToDds(String(row.DATA_TYPE), Number(isNumeric ? row.NUMERIC_PRECISION : row.LENGTH), Number(row.NUMERIC_SCALE ?? 0));
+            const heading = String(row.COLUMN_HEADING ?? '').match(/.{1,20}/g)?.map(part => part.trim()).filter(Boolean).join(' ');
+            return {
+                name: String(row.SYSTEM_COLUMN_NAME).trim(),
+                ...resolved,
+                text: String(row.COLUMN_TEXT ?? '').trim() || undefined,
+                heading: heading || undefined
+            };
+        });
+};
+
+// MESSAGE FILES
+
+/** A message of a message file, as MSGCON, ERRMSGID and SFLMSGID name it. */
+export interface MessageReference {
+    messageId: string;
+    file: string;
+    /** The message file's library; undefined for *LIBL */
+    library?: string;
+};
+
+/** A MSGCON, ERRMSGID or SFLMSGID keyword: the message it names, and MSGCON's declared length. */
+export interface MessageKeyword {
+    keyword: 'MSGCON' | 'ERRMSGID' | 'SFLMSGID';
+    reference: MessageReference;
+    length?: number;
+};
+
+/**
+ * Reads the message named by a MSGCON(length msgid [library/]file), ERRMSGID(msgid
+ * [library/]file ...) or SFLMSGID(msgid [library/]file ...) keyword.
+ * @param value - The keyword as coded (a MSGCON constant's text, or an attribute's value)
+ * @returns The keyword, or undefined when the value is none of them (or is incomplete)
+ */
+export function parseMessageKeyword(value: string): MessageKeyword | undefined {
+    const match = value.trim().match(/^(MSGCON|ERRMSGID|SFLMSGID)\s*\(([^)]*)\)$/i);
+    if (!match) {
+        return undefined;
+    };
+
+    const keyword = match[1].toUpperCase() as MessageKeyword['keyword'];
+    const parameters = match[2].trim().split(/\s+/);
+    const length = keyword === 'MSGCON' ? Number(parameters.shift()) : undefined;
+    const [messageId, qualifiedFile] = parameters;
+    if (!messageId || !qualifiedFile || (length !== undefined && !(Number.isInteger(length) && length > 0))) {
+        return undefined;
+    };
+
+    const [library, file] = qualifiedFile.includes('/') ? qualifiedFile.toUpperCase().split('/') : [undefined, qualifiedFile.toUpperCase()];
+    return {
+        keyword,
+        reference: { messageId: messageId.toUpperCase(), file, library: library === '*LIBL' ? undefined : library },
+        ...(length !== undefined ? { length } : {})
+    };
+};
+
+/** Describes a message for a placeholder or a hover, e.g. `MSG0001 in MYLIB/MYMSGF`. */
+export function describeMessageReference(reference: MessageReference): string {
+    return `${reference.messageId} in ${reference.library ? `${reference.library}/` : ''}${reference.file}`;
+};
+
+/** Per-document cache of message texts: uri -> "LIBRARY/FILE.MSGID" -> text (null when it couldn't be read). */
+const resolvedMessageCache: Map<string, Map<string, string | null>> = new Map();
+
+/** Builds the cache key for a message. */
+function messageCacheKey(reference: MessageReference): string {
+    return `${reference.library ?? '*LIBL'}/${reference.file}.${reference.messageId}`;
+};
+
+/**
+ * Gets a message's text, if it was already looked up for the given document: the text, null
+ * when it couldn't be read (not found, or no answer from the IBM i), undefined when not looked up.
+ */
+export function getResolvedMessage(documentUri: string, reference: MessageReference): string | null | undefined {
+    return resolvedMessageCache.get(documentUri)?.get(messageCacheKey(reference));
+};
+
+/** Remembers a message's text (or that it couldn't be read) for a document. */
+function setResolvedMessage(documentUri: string, reference: MessageReference, text: string | null): void {
+    if (!resolvedMessageCache.has(documentUri)) {
+        resolvedMessageCache.set(documentUri, new Map());
+    };
+    resolvedMessageCache.get(documentUri)!.set(messageCacheKey(reference), text);
+};
+
+/** Clears every message text cached for a document (e.g. when it's closed). */
+export function clearResolvedMessages(documentUri: string): void {
+    resolvedMessageCache.delete(documentUri);
+};
+
+/**
+ * Every message the document's MSGCON constants and ERRMSGID/SFLMSGID keywords name that hasn't
+ * been looked up yet, each once.
+ */
+export function getPendingMessageReferences(documentUri: string, model: DdsDocumentModel): MessageReference[] {
+    const values = model.fieldsPerRecords.flatMap(recordInfo => [
+        ...(recordInfo.attributes ?? []).map(attribute => attribute.value),
+        ...recordInfo.fields.flatMap(field => field.attributes.map(attribute => attribute.value)),
+        ...recordInfo.constants.flatMap(constant => [constant.name, ...constant.attributes.map(attribute => attribute.value)])
+    ]);
+
+    const pending = new Map<string, MessageReference>();
+    for (const value of values) {
+        const message = parseMessageKeyword(value);
+        if (message && getResolvedMessage(documentUri, message.reference) === undefined) {
+            pending.set(messageCacheKey(message.reference), message.reference);
+        };
+    };
+    return [...pending.values()];
+};
+
+/**
+ * Reads a message's text from its message file on the connected IBM i (QSYS2.MESSAGE_FILE_DATA),
+ * caching it for the document. Without a library, the message file is looked for in the job's
+ * library list, like *LIBL. Throws a descriptive error when there's no connection.
+ * @param documentUri - The DDS document's URI (as a string), used as the cache key
+ * @param reference - The message
+ * @returns The message's first-level text, or null when the message wasn't found
+ */
+export async function resolveMessageText(documentUri: string, reference: MessageReference): Promise<string | null> {
+    const connection = getIBMiConnection();
+    if (!connection) {
+        throw new Error('No active IBM i connection. Connect via the Code for i extension first.');
+    };
+
+    const rows = reference.library
+        ? await connection.runSQL(
+            'SELECT M.MESSAGE_TEXT FROM QSYS2.MESSAGE_FILE_DATA M WHERE M.MESSAGE_FILE_LIBRARY = ? AND M.MESSAGE_FILE = ? AND M.MESSAGE_ID = ?',
+            { bindings: [reference.library, reference.file, reference.messageId] }
+        )
+        : await connection.runSQL(
+            'SELECT M.MESSAGE_TEXT FROM QSYS2.MESSAGE_FILE_DATA M JOIN QSYS2.LIBRARY_LIST_INFO L ON L.SYSTEM_SCHEMA_NAME = M.MESSAGE_FILE_LIBRARY ' +
+            'WHERE M.MESSAGE_FILE = ? AND M.MESSAGE_ID = ? ORDER BY L.ORDINAL_POSITION FETCH FIRST 1 ROW ONLY',
+            { bindings: [reference.file, reference.messageId] }
+        );
+
+    const text = rows[0] ? String(rows[0].MESSAGE_TEXT ?? '').trimEnd() : null;
+    setResolvedMessage(documentUri, reference, text);
+    return text;
+};
+
+/**
+ * Reads several messages' texts, one at a time. A message that can't be read is remembered as
+ * such, so it isn't asked for again until the document is reopened.
+ * @param documentUri - The DDS document's URI (as a string), used as the cache key
+ * @param references - The messages
+ */
+export async function resolveMessageTexts(documentUri: string, references: MessageReference[]): Promise<void> {
+    for (const reference of references) {
+        try {
+            await resolveMessageText(documentUri, reference);
+        } catch (error) {
+            console.error(`Error reading message ${describeMessageReference(reference)}:`, error);
+            setResolvedMessage(documentUri, reference, null);
+        };
+    };
+};
+
+// COMPILING
+
+/** A source member on the IBM i, as a Code for i member editor names it. */
+export interface SourceMember {
+    library: string;
+    file: string;
+    member: string;
+};
+
+/** A message from compiling a display file, from its listing or the job log. */
+export interface CompileMessage {
+    /** Message ID (CPD7xxx for the source's problems, CPFxxxx for the command's) */
+    id: string;
+    severity: number;
+    text: string;
+    /** Zero-based source line the message is about; undefined when it's about the whole file */
+    lineIndex?: number;
+};
+
+/** The outcome of a compile. */
+export interface CompileResult {
+    /** The display file, qualified (LIBRARY/NAME) */
+    object: string;
+    created: boolean;
+    messages: CompileMessage[];
+};
+
+/** Source physical file in QTEMP a local source is copied into to be compiled. */
+const TEMP_SOURCE_FILE = 'DSPFEDTSRC';
+
+/** Source lines inserted per statement when copying a local source into QTEMP. */
+const UPLOAD_BATCH_SIZE = 100;
+
+/** Last column of a source record's data (SRCDTA). */
+const SOURCE_DATA_LENGTH = 80;
+
+/** A message line of a DDS compile listing: `* CPD7812  30   200  Message . . . . :  text`. */
+const LISTING_MESSAGE = /^\s*\*?\s*(CP[DF][0-9A-Z]{4})\s+(\d{1,2})\s+(?:(\d+(?:\.\d+)?)\s+)?Message[\s.]*:\s*(.*)$/;
+
+/** A source record of a DDS compile listing: its sequence number, then the source itself. */
+const LISTING_SOURCE = /^\s*(\d+(?:\.\d+)?) /;
+
+/**
+ * Reads the member a Code for i member editor shows from its URI
+ * (`member:/LIBRARY/FILE/MEMBER.DSPF`, with an ASP in front when there's one).
+ * @param uri - The document's URI
+ * @returns The member, or undefined when the document isn't a member
+ */
+export function parseMemberUri(uri: vscode.Uri): SourceMember | undefined {
+    if (uri.scheme !== 'member') {
+        return undefined;
+    };
+    const parts = uri.path.split('/').filter(Boolean);
+    if (parts.length < 3) {
+        return undefined;
+    };
+    const [library, file, member] = parts.slice(-3);
+    const dot = member.lastIndexOf('.');
+    return {
+        library: library.toUpperCase(),
+        file: file.toUpperCase(),
+        member: (dot > 0 ? member.substring(0, dot) : member).toUpperCase()
+    };
+};
+
+/**
+ * Compiles a display file with CRTDSPF on the connected IBM i, and collects its messages: the
+ * listing's (each tied to its source line) and the command's own from the job log (e.g. CPF7302,
+ * file not created). Everything runs through the connection's SQL job, so a local source copied
+ * into QTEMP, the listing spooled by the compile and the job log all belong to the same job.
+ * Throws only when the IBM i can't be reached or the source can't be copied; a failed compile is
+ * a result with `created` false.
+ * @param connection - The IBM i connection
+ * @param objectLibrary - Library to create the display file in (or *CURLIB)
+ * @param objectName - Name of the display file
+ * @param source - The member to compile, or a local source's lines to copy to QTEMP first
+ */
+export async function compileDisplayFile(connection: MinimalIBMiConnection, objectLibrary: string, objectName: string, source: SourceMember | string[]): Promise<CompileResult> {
+    const library = objectLibrary.toUpperCase();
+    const name = objectName.toUpperCase();
+    const member = Array.isArray(source)
+        ? await uploadTemporarySource(connection, name, source)
+        : source;
+
+    const started = (await connection.runSQL('SELECT CURRENT TIMESTAMP AS STARTED FROM SYSIBM.SYSDUMMY1'))[0]?.STARTED ?? null;
+
+    // A compile that fails ends in an escape message, which QCMDEXC turns into an SQL error: why
+    // it failed is in the listing and the job log, read below either way.
+    let created = true;
+    try {
+        await runCommand(connection, `CRTDSPF FILE(${library}/${name}) SRCFILE(${member.library}/${member.file}) SRCMBR(${member.member}) REPLACE(*YES)`);
+    } catch {
+        created = false;
+    };
+
+    const messages = parseCompileListing(await readListing(connection, name, started));
+    if (started !== null) {
+        const rows = await connection.runSQL(
+            `SELECT MESSAGE_ID, SEVERITY, MESSAGE_TEXT FROM TABLE(QSYS2.JOBLOG_INFO('*')) ` +
+            `WHERE MESSAGE_TIMESTAMP >= ? AND MESSAGE_ID LIKE 'CPF%' ORDER BY ORDINAL_POSITION`,
+            { bindings: [started] }
+        );
+        messages.push(...rows.map(row => ({
+            id: String(row.MESSAGE_ID).trim(),
+            severity: Number(row.SEVERITY ?? 0),
+            text: String(row.MESSAGE_TEXT ?? '').trim()
+        })));
+    };
+
+    return { object: `${library}/${name}`, created, messages };
+};
+
+/**
+ * Copies a local source into a member of a source file in QTEMP, replacing the file, so CRTDSPF
+ * can compile it. Lines past column 80 are cut, as they would be in a member.
+ * @param connection - The IBM i connection
+ * @param memberName - The member to create
+ * @param lines - The source's lines
+ */
+async function uploadTemporarySource(connection: MinimalIBMiConnection, memberName: string, lines: string[]): Promise<SourceMember> {
+    try {
+        await runCommand(connection, `DLTF FILE(QTEMP/${TEMP_SOURCE_FILE})`);
+    } catch {
+        // Not there yet
+    };
+    await runCommand(connection, `CRTSRCPF FILE(QTEMP/${TEMP_SOURCE_FILE}) RCDLEN(${SOURCE_DATA_LENGTH + 12}) MBR(${memberName})`);
+
+    for (let start = 0; start < lines.length; start += UPLOAD_BATCH_SIZE) {
+        const batch = lines.slice(start, start + UPLOAD_BATCH_SIZE);
+        const bindings: (string | number)[] = [];
+        batch.forEach((line, index) => bindings.push(start + index + 1, line.substring(0, SOURCE_DATA_LENGTH)));
+        await connection.runSQL(
+            `INSERT INTO QTEMP.${TEMP_SOURCE_FILE} (SRCSEQ, SRCDAT, SRCDTA) VALUES ${batch.map(() => '(?, 0, ?)').join(', ')}`,
+            { bindings }
+        );
+    };
+
+    return { library: 'QTEMP', file: TEMP_SOURCE_FILE, member: memberName };
+};
+
+/**
+ * Runs a CL command in the connection's SQL job.
+ * @param connection - The IBM i connection
+ * @param command - The command; throws when it ends in an escape message
+ */
+async function runCommand(connection: MinimalIBMiConnection, command: string): Promise<void> {
+    await connection.runSQL('CALL QSYS2.QCMDEXC(?)', { bindings: [command] });
+};
+
+/**
+ * Reads the compile listing of a display file (spooled under the file's name) created by this
+ * compile. Only a spooled file created since the compile started is read: an earlier compile's
+ * listing in the same job would map its messages onto the wrong source.
+ * @param connection - The IBM i connection
+ * @param objectName - The display file's name
+ * @param started - When the compile started (the IBM i's timestamp)
+ * @returns The listing's lines, or none when there's no listing (e.g. the source wasn't found)
+ */
+async function readListing(connection: MinimalIBMiConnection, objectName: string, started: string | number | null): Promise<string[]> {
+    if (started === null) {
+        return [];
+    };
+    try {
+        const spooledFiles = await connection.runSQL(
+            `SELECT FILE_NUMBER FROM QSYS2.OUTPUT_QUEUE_ENTRIES_BASIC ` +
+            `WHERE JOB_NAME = QSYS2.JOB_NAME AND SPOOLED_FILE_NAME = ? AND CREATE_TIMESTAMP >= ? ` +
+            `ORDER BY CREATE_TIMESTAMP DESC, FILE_NUMBER DESC FETCH FIRST 1 ROW ONLY`,
+            { bindings: [objectName, started] }
+        );
+        const fileNumber = spooledFiles[0]?.FILE_NUMBER;
+        if (fileNumber === undefined || fileNumber === null) {
+            return [];
+        };
+
+        const rows = await connection.runSQL(
+            `SELECT SPOOLED_DATA FROM TABLE(SYSTOOLS.SPOOLED_FILE_DATA(JOB_NAME => QSYS2.JOB_NAME, SPOOLED_FILE_NAME => ?, SPOOLED_FILE_NUMBER => ?)) ORDER BY ORDINAL_POSITION`,
+            { bindings: [objectName, String(fileNumber)] }
+        );
+        return rows.map(row => String(row.SPOOLED_DATA ?? ''));
+    } catch {
+        return [];
+    };
+};
+
+/**
+ * Reads the messages of a DDS compile listing. Each one names the source statement it's about by
+ * its sequence number, which is mapped back to a source line through the listing's own copy of
+ * the source: the n-th source record listed is the source's n-th line. A message's text can go on
+ * over the indented lines after it.
+ * @param listing - The listing's lines
+ */
+export function parseCompileListing(listing: string[]): CompileMessage[] {
+    const sequenceNumbers: number[] = [];
+    const messages: (CompileMessage & { statement?: number })[] = [];
+    let inSource = false;
+    let sourceDone = false;
+    let current: CompileMessage | undefined;
+
+    for (const line of listing) {
+        const message = line.match(LISTING_MESSAGE);
+        if (message) {
+            current = {
+                id: message[1],
+                severity: Number(message[2]),
+                text: message[4].trim(),
+                ...(message[3] ? { statement: Number(message[3]) } : {})
+            };
+            messages.push(current);
+            continue;
+        };
+        if (/E\s?N\s?D\s+O\s?F\s+S\s?O\s?U\s?R\s?C\s?E|E x p a n d e d|M e s s a g e/.test(line)) {
+            sourceDone = inSource || sourceDone;
+            inSource = false;
+            current = undefined;
+            continue;
+        };
+        if (!sourceDone && /SEQNBR/.test(line)) {
+            inSource = true;
+            continue;
+        };
+
+        const source = inSource ? line.match(LISTING_SOURCE) : null;
+        if (source) {
+            sequenceNumbers.push(Number(source[1]));
+        } else if (current && /^\s{20,}\S/.test(line) && !/\* \* \*/.test(line)) {
+            current.text += ' ' + line.trim();
+        } else {
+            current = undefined;
+        };
+    };
+
+    return messages.map(({ statement, ...message }) => {
+        if (statement === undefined) {
+            return message;
+        };
+        // The listing shows 0001.00 as 100; a message may use either form
+        const index = [statement, statement * 100, statement / 100]
+            .map(candidate => sequenceNumbers.indexOf(candidate))
+            .find(candidate => candidate >= 0);
+        return index !== undefined
+            ? { ...message, lineIndex: index }
+            : { ...message, text: `${message.text} (statement ${statement})` };
+    });
+};
+
+// IMPORTING
+
+/** A field of a compiled display file, as DSPFFD describes it. */
+export interface DisplayFileField {
+    name: string;
+    /** The DDS data type or keyboard shift (A, S, Y, N, L, ...) */
+    type: string;
+    /** Characters for a character field, digits for a numeric one */
+    length: number;
+    numeric: boolean;
+    decimals: number;
+    /** B, I, O, H (hidden), M (message) or P (program-to-system) */
+    usage: string;
+    text?: string;
+    editCode?: string;
+    editWord?: string;
+    /** The database field it was defined from (REFFLD), when that one is still on the system. */
+    reference?: DisplayFileReference;
+};
+
+/** The database field a display file field refers to, as DSPFFD and QSYS2.SYSCOLUMNS describe it. */
+export interface DisplayFileReference {
+    library: string;
+    file: string;
+    field: string;
+    /** Whether the field keeps the referenced field's length and decimals, so they can be left out. */
+    sameLength: boolean;
+};
+
+/** A record format of a compiled display file, its fields in buffer order. */
+export interface DisplayFileRecord {
+    name: string;
+    text?: string;
+    fields: DisplayFileField[];
+};
+
+/** Outfile in QTEMP the DSPFFD output of an imported display file goes to. */
+const TEMP_FIELD_DESCRIPTION_FILE = 'DSPFEDTFFD';
+
+/**
+ * Reads the record formats and fields of a compiled display file from the connected IBM i, through
+ * DSPFFD's outfile. Screen positions, constants and most keywords aren't in it. The database fields
+ * the fields refer to are looked up in QSYS2.SYSCOLUMNS, and kept only when still there. Throws a
+ * descriptive error (not a display file, not found) rather than returning a sentinel.
+ * @param connection - The IBM i connection
+ * @param library - The display file's library (or *LIBL)
+ * @param name - The display file's name
+ */
+export async function describeDisplayFile(connection: MinimalIBMiConnection, library: string, name: string): Promise<DisplayFileRecord[]> {
+    const objects = await connection.runSQL(
+        'SELECT OBJATTRIBUTE FROM TABLE(QSYS2.OBJECT_STATISTICS(?, \'*FILE\', ?))',
+        { bindings: [library, name] }
+    );
+    if (objects.length === 0) {
+        throw new Error(`File ${library}/${name} not found.`);
+    };
+    if (String(objects[0].OBJATTRIBUTE).trim() !== 'DSPF') {
+        throw new Error(`${library}/${name} is not a display file (it's a ${String(objects[0].OBJATTRIBUTE).trim()} file).`);
+    };
+
+    await runCommand(connection, `DSPFFD FILE(${library}/${name}) OUTPUT(*OUTFILE) OUTFILE(QTEMP/${TEMP_FIELD_DESCRIPTION_FILE})`);
+    const rows = await connection.runSQL(
+        'SELECT WHNAME, WHTEXT, WHFLDE, WHFLDT, WHSHFT, WHFLDB, WHFLDD, WHFLDP, WHFIOB, WHFTXT, WHECDE, WHEWRD, WHRLIB, WHRFIL, WHRFLD ' +
+        `FROM QTEMP.${TEMP_FIELD_DESCRIPTION_FILE} F ORDER BY RRN(F)`
+    );
+
+    const records: DisplayFileRecord[] = [];
+    const referencedFiles: Map<string, TableColumn[]> = new Map();
+    for (const row of rows) {
+        const recordName = String(row.WHNAME ?? '').trim();
+        let record = records.find(candidate => candidate.name === recordName);
+        if (!record) {
+            record = { name: recordName, text: String(row.WHTEXT ?? '').trim() || undefined, fields: [] };
+            records.push(record);
+        };
+
+        // A record without fields has one row with no field; option indicators have a field of their own
+        const fieldName = String(row.WHFLDE ?? '').trim();
+        if (!fieldName || fieldName.startsWith('*IN')) {
+            continue;
+        };
+        const dataType = String(row.WHFLDT ?? '').trim();
+        const isNumeric = Number(row.WHFLDD ?? 0) > 0;
+        const length = Number(isNumeric ? row.WHFLDD : row.WHFLDB);
+        const decimals = isNumeric ? Number(row.WHFLDP ?? 0) : 0;
+        const reference = await findReferencedColumn(connection, referencedFiles, row, length, decimals);
+        record.fields.push({
+            name: fieldName,
+            type: String(row.WHSHFT ?? '').trim() || dataType || 'A',
+            length,
+            numeric: isNumeric,
+            decimals,
+            usage: String(row.WHFIOB ?? '').trim(),
+            text: String(row.WHFTXT ?? '').trim() || undefined,
+            editCode: String(row.WHECDE ?? '').trim() || undefined,
+            editWord: String(row.WHEWRD ?? '').trim().replace(/^'(.*)'$/, '$1') || undefined,
+            ...(reference ? { reference } : {})
+        });
+    };
+    return records;
+};
+
+/**
+ * Finds the database field a DSPFFD row's field refers to (WHRLIB/WHRFIL/WHRFLD) among the columns
+ * QSYS2.SYSCOLUMNS has for its file. A file that's gone, or isn't a database file (a REFFLD to the
+ * display file itself), gives no reference: the field is then imported with its own length.
+ * @param connection - The IBM i connection
+ * @param referencedFiles - Columns of the files already looked up, by LIBRARY/FILE
+ * @param row - The DSPFFD row
+ * @param length - The field's length
+ * @param decimals - The field's decimals
+ */
+async function findReferencedColumn(
+    connection: MinimalIBMiConnection,
+    referencedFiles: Map<string, TableColumn[]>,
+    row: Record<string, string | number | null>,
+    length: number,
+    decimals: number
+): Promise<DisplayFileReference | undefined> {
+    const library = String(row.WHRLIB ?? '').trim();
+    const file = String(row.WHRFIL ?? '').trim();
+    const field = String(row.WHRFLD ?? '').trim();
+    if (!library || !file || !field) {
+        return undefined;
+    };
+
+    const key = `${library}/${file}`;
+    let columns = referencedFiles.get(key);
+    if (!columns) {
+        columns = await queryTableColumns(connection, file, library).catch(() => []);
+        referencedFiles.set(key, columns);
+    };
+
+    const column = columns.find(candidate => candidate.name === field);
+    if (!column) {
+        return undefined;
+    };
+    return { library, file, field, sameLength: column.length === length && column.decimals === decimals };
+};
@@ -0,0 +1,477 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.local-definitions.ts
+*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Database file definitions read from local sources instead of the IBM i: the folders named by the
+ * `dspf-edit.referenceDefinitions` setting, holding PF/LF DDS sources (`.pf`, `.lf`, `.dds`, named
+ * after the file) and SQL scripts (`.sql`, `.table`) with `CREATE TABLE` statements. Referenced
+ * fields are looked up here first, so they resolve without a connection. Files are matched by name
+ * only: a library named in REFFLD()/REF() is ignored.
+ */
+
+/** A field as a local source defines it; what it leaves out comes from the field it refers to. */
+interface LocalFieldDefinition {
+    type?: string;
+    length?: number;
+    /** A referenced field's "+n"/"-n" length, relative to the field it refers to */
+    lengthAdjustment?: number;
+    decimals?: number;
+    /** The field it takes its definition from: an R field's REFFLD(), or a logical file's PFILE() field */
+    reference?: { fieldName: string; file?: string };
+};
+
+/** A database file as a local source defines it. */
+export interface LocalFileDefinition {
+    /** The file's system name */
+    name: string;
+    fields: Map<string, LocalFieldDefinition>;
+    /** The file named by its REF() keyword, if any */
+    ref?: string;
+};
+
+const SETTING = 'dspf-edit.referenceDefinitions';
+const DDS_EXTENSIONS = ['.pf', '.lf', '.dds'];
+const SQL_EXTENSIONS = ['.sql', '.table'];
+
+/** How deep a chain of referenced fields is followed, so a loop in the sources can't hang. */
+const MAX_REFERENCE_DEPTH = 10;
+
+/** Delay before reading the folders again after a change, so a batch of changes reads them once. */
+const RELOAD_DELAY_MS = 500;
+
+/** DDS data types with a fixed length. */
+const FIXED_LENGTH_BY_TYPE: Record<string, number> = { L: 10, T: 8, Z: 26 };
+
+/** SQL data types to the DDS type and, when fixed, the length in digits. */
+const SQL_TYPE_TO_DDS: Record<string, { type: string; length?: number }> = {
+    CHAR: { type: 'A' },
+    CHARACTER: { type: 'A' },
+    VARCHAR: { type: 'A' },
+    GRAPHIC: { type: 'A' },
+    VARGRAPHIC: { type: 'A' },
+    BINARY: { type: 'A' },
+    VARBINARY: { type: 'A' },
+    DECIMAL: { type: 'P' },
+    DEC: { type: 'P' },
+    NUMERIC: { type: 'S' },
+    SMALLINT: { type: 'B', length: 4 },
+    INTEGER: { type: 'B', length: 9 },
+    INT: { type: 'B', length: 9 },
+    BIGINT: { type: 'B', length: 18 },
+    REAL: { type: 'F', length: 9 },
+    FLOAT: { type: 'F', length: 17 },
+    DOUBLE: { type: 'F', length: 17 },
+    DATE: { type: 'L', length: 10 },
+    TIME: { type: 'T', length: 8 },
+    TIMESTAMP: { type: 'Z', length: 26 }
+};
+
+let localFiles: Map<string, LocalFileDefinition> = new Map();
+let loading: Promise<void> | undefined;
+let reloadTimeout: NodeJS.Timeout | undefined;
+let watchers: vscode.Disposable[] = [];
+
+// INITIALIZATION
+
+/**
+ * Reads the configured folders, and reads them again whenever the setting or their files change.
+ * @param context - The extension context
+ * @param onDidChange - Called once the definitions were (re)read, e.g. to refresh the tree
+ */
+export function initializeLocalDefinitions(context: vscode.ExtensionContext, onDidChange: () => void): void {
+    const scheduleReload = () => {
+        if (reloadTimeout) {
+            clearTimeout(reloadTimeout);
+        };
+        reloadTimeout = setTimeout(() => void reloadLocalDefinitions().then(onDidChange), RELOAD_DELAY_MS);
+    };
+
+    const watchFolders = () => {
+        watchers.forEach(watcher => watcher.dispose());
+        watchers = getDefinitionFolders().map(folder => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*'));
+            watcher.onDidCreate(scheduleReload);
+            watcher.onDidChange(scheduleReload);
+            watcher.onDidDelete(scheduleReload);
+            return watcher;
+        });
+    };
+
+    watchFolders();
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(SETTING)) {
+                watchFolders();
+                scheduleReload();
+            };
+        }),
+        { dispose: () => watchers.forEach(watcher => watcher.dispose()) }
+    );
+
+    if (getDefinitionFolders().length > 0) {
+        void reloadLocalDefinitions().then(onDidChange);
+    };
+};
+
+/** Whether any local definition folder is configured. */
+export function hasLocalDefinitions(): boolean {
+    return getDefinitionFolders().length > 0;
+};
+
+/** Waits until the configured folders were read (reading them if that never started). */
+export async function ensureLocalDefinitions(): Promise<void> {
+    await (loading ?? reloadLocalDefinitions());
+};
+
+// LOOKUP
+
+/**
+ * Gets a field's type/length/decimals from the local definitions, following the fields it refers
+ * to. Only what was already read is searched (see `ensureLocalDefinitions`).
+ * @param file - The database file's name
+ * @param fieldName - The field's name in it
+ * @returns Its definition, or undefined when the file or field isn't defined locally
+ */
+export function getLocalFieldDefinition(file: string, fieldName: string): { type: string; length: number; decimals: number } | undefined {
+    return resolveLocalField(localFiles, file, fieldName);
+};
+
+/**
+ * Resolves a locally defined field, completing what it leaves out from the field it refers to.
+ * @param files - The local definitions, by file name
+ * @param file - The database file's name
+ * @param fieldName - The field's name in it
+ * @param depth - How many references were followed to get here
+ */
+export function resolveLocalField(files: Map<string, LocalFileDefinition>, file: string, fieldName: string, depth: number = 0): { type: string; length: number; decimals: number } | undefined {
+    const definition = files.get(file.toUpperCase());
+    const field = definition?.fields.get(fieldName.toUpperCase());
+    if (!definition || !field) {
+        return undefined;
+    };
+
+    let base: { type: string; length: number; decimals: number } | undefined;
+    if (field.reference) {
+        if (depth >= MAX_REFERENCE_DEPTH) {
+            return undefined;
+        };
+        // Without a file, REFFLD() looks in the REF() file, or else earlier in the same source;
+        // *SRC always looks in the same source
+        const referencedFile = !field.reference.file
+            ? definition.ref ?? definition.name
+            : field.reference.file.toUpperCase() === '*SRC' ? definition.name : field.reference.file;
+        base = resolveLocalField(files, referencedFile, field.reference.fieldName, depth + 1);
+    };
+
+    const type = field.type ?? base?.type ?? (field.decimals !== undefined ? 'P' : 'A');
+    const length = FIXED_LENGTH_BY_TYPE[type]
+        ?? field.length
+        ?? (base && field.lengthAdjustment !== undefined ? base.length + field.lengthAdjustment : base?.length);
+    if (length === undefined) {
+        return undefined;
+    };
+    return { type, length, decimals: field.decimals ?? base?.decimals ?? 0 };
+};
+
+// PARSING
+
+/**
+ * Parses a physical or logical file's DDS source. Field lines name their length (or a "+n"/"-n"
+ * relative one), type and decimals in the usual columns; an R in column 29 makes a field take what
+ * it leaves out from its REFFLD() or the REF() file's field of the same name, and a logical file's
+ * field without a length comes from its record's PFILE() file (or RENAME() field).
+ * @param name - The file's name
+ * @param text - The source
+ */
+export function parseDdsFileDefinition(name: string, text: string): LocalFileDefinition {
+    const definition: LocalFileDefinition = { name: name.toUpperCase(), fields: new Map() };
+    let basedOnFile: string | undefined;
+    let current: { name: string; field: LocalFieldDefinition; referenced: boolean; keywords: string } | undefined;
+    let recordKeywords: string | undefined;
+    let fileKeywords = '';
+
+    const finishField = () => {
+        if (current) {
+            completeFieldReference(current.field, current.name, current.referenced, current.keywords, basedOnFile);
+            definition.fields.set(current.name, current.field);
+            current = undefined;
+        };
+    };
+
+    for (const line of text.split(/\r?\n/)) {
+        if (line.length < 7 || line[6] === '*' || !/^[A ]$/i.test(line[5])) {
+            continue;
+        };
+        const nameType = line.substring(16, 17).toUpperCase();
+        const fieldName = line.substring(18, 28).trim().toUpperCase();
+        const keywords = line.substring(44, 80).trim();
+
+        if (nameType === 'R') {
+            finishField();
+            recordKeywords = keywords;
+            basedOnFile = findBasedOnFile(recordKeywords);
+            continue;
+        };
+        if (nameType === 'K' || nameType === 'S' || nameType === 'O') {
+            finishField();
+            recordKeywords = undefined;
+            continue;
+        };
+        if (nameType === ' ' && fieldName) {
+            finishField();
+            recordKeywords = undefined;
+            current = { name: fieldName, field: parseFieldColumns(line), referenced: line.substring(28, 29).toUpperCase() === 'R', keywords };
+            continue;
+        };
+
+        // A line of keywords only: for the field, record or file it follows
+        if (current) {
+            current.keywords += ' ' + keywords;
+        } else if (recordKeywords !== undefined) {
+            recordKeywords += ' ' + keywords;
+            basedOnFile = findBasedOnFile(recordKeywords);
+        } else if (definition.fields.size === 0) {
+            fileKeywords += ' ' + keywords;
+        };
+    };
+    finishField();
+
+    const ref = fileKeywords.match(/\bREF\(\s*(?:[^\s/)]+\/)?([^\s/)]+)/i);
+    if (ref) {
+        definition.ref = ref[1].toUpperCase();
+    };
+    return definition;
+};
+
+/**
+ * Finds the file a logical file's record is based on, from its PFILE() keyword (the first one,
+ * when it names several).
+ * @param keywords - The record's keywords
+ */
+function findBasedOnFile(keywords: string): string | undefined {
+    const pfile = keywords.match(/\bPFILE\(\s*(?:[^\s/)]+\/)?([^\s/)]+)/i);
+    return pfile ? pfile[1].toUpperCase() : undefined;
+};
+
+/**
+ * Reads a DDS field line's length, type and decimals columns.
+ * @param line - The field's line
+ */
+function parseFieldColumns(line: string): LocalFieldDefinition {
+    const field: LocalFieldDefinition = {};
+    const lengthText = line.substring(29, 34).trim();
+    const type = line.substring(34, 35).trim().toUpperCase();
+    const decimalsText = line.substring(35, 37).trim();
+
+    if (/^[+-]\d+$/.test(lengthText)) {
+        field.lengthAdjustment = Number(lengthText);
+    } else if (/^\d+$/.test(lengthText)) {
+        field.length = Number(lengthText);
+    };
+    if (type) {
+        field.type = type;
+    };
+    if (/^\d+$/.test(decimalsText)) {
+        field.decimals = Number(decimalsText);
+    };
+    return field;
+};
+
+/**
+ * Sets which field a field refers to: its REFFLD() (or the REF() file's field of the same name)
+ * for an R field, or the PFILE() file's field (renamed by RENAME()) for a logical file's field
+ * without a length.
+ * @param field - The field, as read from its line
+ * @param name - The field's name
+ * @param referenced - Whether it has an R in column 29
+ * @param keywords - Its keywords, continuation lines included
+ * @param basedOnFile - The PFILE() file of its record, in a logical file
+ */
+function completeFieldReference(field: LocalFieldDefinition, name: string, referenced: boolean, keywords: string, basedOnFile: string | undefined): void {
+    if (referenced) {
+        const reffld = keywords.match(/\bREFFLD\(\s*(?:[^\s/)]+\/)?([^\s/)]+)(?:\s+(?:[^\s/)]+\/)?([^\s/)]+))?\s*\)/i);
+        field.reference = reffld
+            ? { fieldName: reffld[1].toUpperCase(), file: reffld[2]?.toUpperCase() }
+            : { fieldName: name };
+        return;
+    };
+    if (basedOnFile && field.length === undefined && field.lengthAdjustment === undefined) {
+        const rename = keywords.match(/\bRENAME\(\s*([^\s)]+)\s*\)/i);
+        field.reference = { fieldName: rename ? rename[1].toUpperCase() : name, file: basedOnFile };
+    };
+};
+
+/**
+ * Parses the `CREATE [OR REPLACE] TABLE` statements of an SQL script. A table and its columns are
+ * known by their system names (`FOR SYSTEM NAME`, `FOR COLUMN`) when given, else by their SQL
+ * names; other statements, and a table's constraints, are skipped.
+ * @param text - The script
+ */
+export function parseSqlTableDefinitions(text: string): LocalFileDefinition[] {
+    const definitions: LocalFileDefinition[] = [];
+    const source = text.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/--[^\n]*/g, ' ');
+    const createTable = /\bCREATE\s+(?:OR\s+REPLACE\s+)?TABLE\s+([\w$#@."]+)(?:\s+FOR\s+SYSTEM\s+NAME\s+([\w$#@"]+))?\s*\(/gi;
+
+    let match: RegExpExecArray | null;
+    while ((match = createTable.exec(source)) !== null) {
+        const body = extractParenthesized(source, createTable.lastIndex - 1);
+        const tableName = sqlName(match[2] ?? match[1].split('.').pop()!);
+        const definition: LocalFileDefinition = { name: tableName, fields: new Map() };
+        for (const element of splitTopLevel(body)) {
+            const column = parseSqlColumn(element);
+            if (column) {
+                definition.fields.set(column.name, column.field);
+            };
+        };
+        definitions.push(definition);
+    };
+    return definitions;
+};
+
+/**
+ * Parses a column definition of a CREATE TABLE statement.
+ * @param element - One comma-separated element of the statement's parenthesized list
+ * @returns The column, or undefined for a constraint or anything not understood
+ */
+function parseSqlColumn(element: string): { name: string; field: LocalFieldDefinition } | undefined {
+    const match = element.trim().match(/^([\w$#@]+|"[^"]+")(?:\s+FOR\s+(?:COLUMN\s+)?([\w$#@]+|"[^"]+"))?\s+([A-Z]+(?:\s+(?:VARYING|PRECISION))?)\s*(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?/i);
+    if (!match || /^(CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|CHECK|PERIOD)$/i.test(match[1])) {
+        return undefined;
+    };
+
+    const dataType = match[3].toUpperCase().replace(/\s+VARYING$/, '').replace(/\s+PRECISION$/, '');
+    const mapped = SQL_TYPE_TO_DDS[dataType];
+    if (!mapped) {
+        return undefined;
+    };
+
+    const precision = match[4] !== undefined ? Number(match[4]) : undefined;
+    const isDecimal = mapped.type === 'P' || mapped.type === 'S';
+    const length = mapped.length ?? precision ?? (isDecimal ? 5 : 1);
+    const decimals = isDecimal ? Number(match[5] ?? 0) : mapped.type === 'B' ? 0 : undefined;
+    return { name: sqlName(match[2] ?? match[1]), field: { type: mapped.type, length, decimals } };
+};
+
+/** Normalizes an SQL identifier: unquoted, upper case. */
+function sqlName(identifier: string): string {
+    return identifier.replace(/"/g, '').toUpperCase();
+};
+
+/**
+ * Extracts the text between a parenthesis and the one closing it.
+ * @param text - The text
+ * @param openIndex - The opening parenthesis' index
+ */
+function extractParenthesized(text: string, openIndex: number): string {
+    let depth = 0;
+    for (let index = openIndex; index < text.length; index++) {
+        if (text[index] === '(') {
+            depth++;
+        } else if (text[index] === ')' && --depth === 0) {
+            return text.substring(openIndex + 1, index);
+        };
+    };
+    return text.substring(openIndex + 1);
+};
+
+/** Splits a list at its commas outside parentheses and quotes. */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            };
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            parts.push(text.substring(start, index));
+            start = index + 1;
+        };
+    };
+    parts.push(text.substring(start));
+    return parts;
+};
+
+// HELPERS
+
+/** The configured folders, relative ones taken from the first workspace folder. */
+function getDefinitionFolders(): vscode.Uri[] {
+    const folders = vscode.workspace.getConfiguration().get<string[]>(SETTING, []);
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return folders
+        .filter(folder => folder.trim() !== '')
+        .map(folder => /^([a-zA-Z]:)?[\\/]/.test(folder) || !workspaceFolder
+            ? vscode.Uri.file(folder)
+            : vscode.Uri.joinPath(workspaceFolder.uri, folder));
+};
+
+/** Reads every configured folder again, replacing the definitions once done. */
+function reloadLocalDefinitions(): Promise<void> {
+    loading = readDefinitionFolders(getDefinitionFolders()).then(files => {
+        localFiles = files;
+    });
+    return loading;
+};
+
+/**
+ * Reads the definitions of the sources in some folders and their subfolders. When several sources
+ * define the same file, the first folder's wins.
+ * @param folders - The folders
+ */
+async function readDefinitionFolders(folders: vscode.Uri[]): Promise<Map<string, LocalFileDefinition>> {
+    const files: Map<string, LocalFileDefinition> = new Map();
+    for (const folder of folders) {
+        try {
+            for (const definition of await readDefinitionFolder(folder)) {
+                if (!files.has(definition.name)) {
+                    files.set(definition.name, definition);
+                };
+            };
+        } catch (error) {
+            console.error(`Error reading the reference definitions in ${folder.fsPath}:`, error);
+        };
+    };
+    return files;
+};
+
+/**
+ * Reads the definitions of the sources in a folder and its subfolders.
+ * @param folder - The folder
+ */
+async function readDefinitionFolder(folder: vscode.Uri): Promise<LocalFileDefinition[]> {
+    const definitions: LocalFileDefinition[] = [];
+    for (const [entryName, fileType] of await vscode.workspace.fs.readDirectory(folder)) {
+        const entry = vscode.Uri.joinPath(folder, entryName);
+        if (fileType === vscode.FileType.Directory) {
+            definitions.push(...await readDefinitionFolder(entry));
+            continue;
+        };
+
+        const dot = entryName.lastIndexOf('.');
+        const extension = dot > 0 ? entryName.substring(dot).toLowerCase() : '';
+        if (!DDS_EXTENSIONS.includes(extension) && !SQL_EXTENSIONS.includes(extension)) {
+            continue;
+        };
+        const text = Buffer.from(await vscode.workspace.fs.readFile(entry)).toString('utf8');
+        if (DDS_EXTENSIONS.includes(extension)) {
+            definitions.push(parseDdsFileDefinition(entryName.substring(0, dot), text));
+        } else {
+            definitions.push(...parseSqlTableDefinitions(text));
+        };
+    };
+    return definitions;
+};
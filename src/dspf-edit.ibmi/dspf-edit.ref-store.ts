@@ -0,0 +1,130 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.ref-store.ts
+*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Referenced fields resolved against the IBM i, kept across sessions in the extension's storage
+ * for the workspace, or, when the `dspf-edit.shareReferenceCache` setting is on, in
+ * `.dspf-edit/refcache.json` at the root of the workspace (so it can be committed and shared).
+ * Keyed by the database field itself (library/file/field), not by the DDS source referring to it,
+ * so every source referring to the same field shares its entry.
+ */
+
+/** A referenced field's definition as stored, with when it was read from the IBM i. */
+export interface StoredRef {
+    type: string;
+    length: number;
+    decimals: number;
+    /** ISO timestamp of the lookup */
+    resolvedAt: string;
+};
+
+/** The store file's contents. */
+interface RefStoreFile {
+    version: number;
+    /** By key, see `refStoreKey` */
+    fields: Record<string, StoredRef>;
+};
+
+const STORE_FOLDER = '.dspf-edit';
+const STORE_FILE = 'refcache.json';
+const STORE_VERSION = 1;
+
+/** Delay before writing the store after a change, so resolving many fields writes it once. */
+const SAVE_DELAY_MS = 500;
+
+const storedRefs: Map<string, StoredRef> = new Map();
+let storeUri: vscode.Uri | undefined;
+let saveTimeout: NodeJS.Timeout | undefined;
+
+/**
+ * Locates and loads the store. A missing or unreadable file just means nothing is stored yet.
+ * @param context - The extension context (its workspace storage is the default location, its
+ * global storage the one when no folder is open)
+ */
+export async function initializeRefStore(context: vscode.ExtensionContext): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const shared = vscode.workspace.getConfiguration('dspf-edit').get<boolean>('shareReferenceCache', false);
+    storeUri = folder && shared
+        ? vscode.Uri.joinPath(folder.uri, STORE_FOLDER, STORE_FILE)
+        : vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, STORE_FILE);
+
+    try {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(storeUri)).toString('utf8');
+        const parsed = JSON.parse(text) as Partial<RefStoreFile>;
+        for (const [key, entry] of Object.entries(parsed.fields ?? {})) {
+            if (entry && typeof entry.type === 'string' && typeof entry.length === 'number' && typeof entry.resolvedAt === 'string') {
+                storedRefs.set(key, { type: entry.type, length: entry.length, decimals: Number(entry.decimals ?? 0), resolvedAt: entry.resolvedAt });
+            };
+        };
+    } catch {
+        // Nothing stored yet
+    };
+};
+
+/**
+ * Builds the store key of a database field: `LIBRARY/FILE.FIELD`, with *LIBL when the
+ * reference names no library.
+ * @param file - The database file
+ * @param fieldName - The field
+ * @param library - The file's library, if the reference names one
+ */
+export function refStoreKey(file: string, fieldName: string, library?: string): string {
+    return `${(library ?? '*LIBL').toUpperCase()}/${file.toUpperCase()}.${fieldName.toUpperCase()}`;
+};
+
+/** Gets a stored field's definition, if it was ever resolved. */
+export function getStoredRef(key: string): StoredRef | undefined {
+    return storedRefs.get(key);
+};
+
+/**
+ * Stores a field's definition as just read from the IBM i, and schedules the store's write.
+ * @param key - The field's key (see `refStoreKey`)
+ * @param info - Its type, length and decimals
+ */
+export function storeRef(key: string, info: { type: string; length: number; decimals: number }): void {
+    storedRefs.set(key, { type: info.type, length: info.length, decimals: info.decimals, resolvedAt: new Date().toISOString() });
+    if (saveTimeout) {
+        clearTimeout(saveTimeout);
+    };
+    saveTimeout = setTimeout(() => void saveRefStore(), SAVE_DELAY_MS);
+};
+
+/**
+ * Writes a pending change to the store right away (e.g. when the extension shuts down).
+ * @returns Resolves once the store is written
+ */
+export async function flushRefStore(): Promise<void> {
+    if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        await saveRefStore();
+    };
+};
+
+/**
+ * Writes the store, its keys sorted so the committed file changes as little as possible.
+ */
+async function saveRefStore(): Promise<void> {
+    saveTimeout = undefined;
+    if (!storeUri) {
+        return;
+    };
+
+    const fields: Record<string, StoredRef> = {};
+    for (const key of [...storedRefs.keys()].sort()) {
+        fields[key] = storedRefs.get(key)!;
+    };
+    const content: RefStoreFile = { version: STORE_VERSION, fields };
+
+    try {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(storeUri, '..'));
+        await vscode.workspace.fs.writeFile(storeUri, Buffer.from(JSON.stringify(content, null, 2) + '\n', 'utf8'));
+    } catch (error) {
+        console.error('Error saving the referenced fields cache:', error);
+    };
+};
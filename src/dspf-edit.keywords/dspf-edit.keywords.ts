@@ -0,0 +1,383 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.keywords.ts
+*/
+
+// INTERFACES AND TYPES
+
+/** Level a keyword is coded on: before the first record, on a record, or on a field/constant. */
+export type KeywordLevel = 'file' | 'record' | 'field';
+
+/** One of the predefined values a keyword parameter accepts (e.g. DSPATR's HI, COLOR's RED). */
+export interface KeywordValue {
+    value: string;
+    description: string;
+};
+
+/** A DSPF keyword: what it does, how it's coded, and where it's valid. */
+export interface DdsKeyword {
+    name: string;
+    description: string;
+    /** How the keyword is coded, e.g. "SFLPAG(number-of-records)". Absent for parameterless keywords. */
+    syntax?: string;
+    levels: KeywordLevel[];
+    /** Predefined parameter values, when the keyword takes one from a fixed list. */
+    values?: KeywordValue[];
+};
+
+/** An EDTCDE edit code, with the modifiers it can be combined with. */
+export interface EditCode {
+    code: string;
+    description: string;
+    category: 'Standard' | 'Credit' | 'Minus' | 'Special' | 'User-Defined';
+    supportsAsterisk: boolean;
+    supportsCurrency: boolean;
+};
+
+// PARAMETER VALUES
+
+/** EDTCDE edit codes. */
+export const EDIT_CODES: EditCode[] = [
+    // Standard codes (1-4)
+    { code: '1', description: 'Commas, decimals, no sign, zero as .00/0', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
+    { code: '2', description: 'Commas, decimals, no sign, zero as blanks', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
+    { code: '3', description: 'Commas, no decimals, no sign, zero as .00/0', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
+    { code: '4', description: 'Commas, no decimals, no sign, zero as blanks', category: 'Standard', supportsAsterisk: true, supportsCurrency: true },
+
+    // Credit codes (A-D) - show CR for negative
+    { code: 'A', description: 'Commas, decimals, CR for negative, zero as .00/0', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'B', description: 'Commas, decimals, CR for negative, zero as blanks', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'C', description: 'Commas, no decimals, CR for negative, zero as .00/0', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'D', description: 'Commas, no decimals, CR for negative, zero as blanks', category: 'Credit', supportsAsterisk: true, supportsCurrency: true },
+
+    // Minus codes (J-Q) - show - for negative
+    { code: 'J', description: 'Commas, decimals, minus for negative, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'K', description: 'Commas, decimals, minus for negative, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'L', description: 'Commas, no decimals, minus for negative, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'M', description: 'Commas, no decimals, minus for negative, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'N', description: 'Commas, decimals, leading minus, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'O', description: 'Commas, decimals, leading minus, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'P', description: 'Commas, no decimals, leading minus, zero as .00/0', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+    { code: 'Q', description: 'Commas, no decimals, leading minus, zero as blanks', category: 'Minus', supportsAsterisk: true, supportsCurrency: true },
+
+    // Special codes
+    { code: 'W', description: 'Date format with slashes, suppresses leftmost zeros', category: 'Special', supportsAsterisk: false, supportsCurrency: false },
+    { code: 'Y', description: 'Date format with slashes, different zero suppression', category: 'Special', supportsAsterisk: false, supportsCurrency: false },
+    { code: 'Z', description: 'Remove sign, suppress leading zeros', category: 'Special', supportsAsterisk: false, supportsCurrency: false },
+
+    // User-defined codes
+    { code: '5', description: 'User-defined edit code QEDIT5', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
+    { code: '6', description: 'User-defined edit code QEDIT6', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
+    { code: '7', description: 'User-defined edit code QEDIT7', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
+    { code: '8', description: 'User-defined edit code QEDIT8', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false },
+    { code: '9', description: 'User-defined edit code QEDIT9', category: 'User-Defined', supportsAsterisk: false, supportsCurrency: false }
+];
+
+/** COLOR values. */
+export const DISPLAY_COLORS: KeywordValue[] = [
+    { value: 'BLU', description: 'Blue' },
+    { value: 'GRN', description: 'Green' },
+    { value: 'PNK', description: 'Pink' },
+    { value: 'RED', description: 'Red' },
+    { value: 'TRQ', description: 'Turquoise' },
+    { value: 'WHT', description: 'White' },
+    { value: 'YLW', description: 'Yellow' }
+];
+
+/** DSPATR values. The first eight are the ones the "Add Attribute" command offers. */
+export const DISPLAY_ATTRIBUTES: KeywordValue[] = [
+    { value: 'HI', description: 'High intensity' },
+    { value: 'RI', description: 'Reverse image' },
+    { value: 'CS', description: 'Column separators' },
+    { value: 'BL', description: 'Blink' },
+    { value: 'ND', description: 'Nondisplay' },
+    { value: 'UL', description: 'Underline' },
+    { value: 'PC', description: 'Position cursor on this field' },
+    { value: 'PR', description: 'Protect: the field can\'t be typed into' },
+    { value: 'MDT', description: 'Set the modified data tag, so the field is always returned' },
+    { value: 'OID', description: 'Operator identification (magnetic stripe reader)' },
+    { value: 'SP', description: 'Select by light pen' }
+];
+
+/** CHECK validity checking and keyboard control codes. */
+const CHECK_CODES: KeywordValue[] = [
+    { value: 'AB', description: 'Allow blanks, even when other validity checks are coded' },
+    { value: 'ME', description: 'Mandatory enter: at least one character must be typed' },
+    { value: 'MF', description: 'Mandatory fill: every position must be filled if anything is typed' },
+    { value: 'FE', description: 'Field exit: the field must be left with a field exit key' },
+    { value: 'LC', description: 'Lowercase: keep lowercase letters as typed' },
+    { value: 'VN', description: 'Validate name: must be a valid IBM i name' },
+    { value: 'VNE', description: 'Validate name, extended: allows extended (quoted) names' },
+    { value: 'ER', description: 'End of record: typing the last position acts like Enter' },
+    { value: 'RB', description: 'Right-adjust, fill with blanks' },
+    { value: 'RZ', description: 'Right-adjust, fill with zeros' },
+    { value: 'RL', description: 'Cursor moves right to left' },
+    { value: 'RLTB', description: 'Tab moves right to left, top to bottom' },
+    { value: 'M10', description: 'Modulus 10 self-check' },
+    { value: 'M10F', description: 'Modulus 10 self-check (IBM 5250 variant)' },
+    { value: 'M11', description: 'Modulus 11 self-check' },
+    { value: 'M11F', description: 'Modulus 11 self-check (IBM 5250 variant)' }
+];
+
+/** DATFMT values. */
+const DATE_FORMATS: KeywordValue[] = [
+    { value: '*JOB', description: 'Format of the job' },
+    { value: '*MDY', description: 'mm/dd/yy' },
+    { value: '*DMY', description: 'dd/mm/yy' },
+    { value: '*YMD', description: 'yy/mm/dd' },
+    { value: '*JUL', description: 'yy/ddd' },
+    { value: '*ISO', description: 'yyyy-mm-dd' },
+    { value: '*USA', description: 'mm/dd/yyyy' },
+    { value: '*EUR', description: 'dd.mm.yyyy' },
+    { value: '*JIS', description: 'yyyy-mm-dd' }
+];
+
+/** TIMFMT values. */
+const TIME_FORMATS: KeywordValue[] = [
+    { value: '*HMS', description: 'hh:mm:ss' },
+    { value: '*ISO', description: 'hh.mm.ss' },
+    { value: '*USA', description: 'hh:mm AM or hh:mm PM' },
+    { value: '*EUR', description: 'hh.mm.ss' },
+    { value: '*JIS', description: 'hh:mm:ss' }
+];
+
+/** DSPSIZ display sizes. */
+const DISPLAY_SIZES: KeywordValue[] = [
+    { value: '*DS3', description: '24 x 80' },
+    { value: '*DS4', description: '27 x 132' }
+];
+
+// KEYWORD CATALOG
+
+/** Level lists shared by many keywords. */
+const FILE_RECORD: KeywordLevel[] = ['file', 'record'];
+const ALL_LEVELS: KeywordLevel[] = ['file', 'record', 'field'];
+
+/**
+ * DSPF keywords, in alphabetical order (command attention/function keys CAnn/CFnn are added below).
+ * Shared by the hover, the diagnostics' level check and the commands' pick lists.
+ */
+const KEYWORD_LIST: DdsKeyword[] = [
+    { name: 'ALARM', description: 'Sounds the audible alarm when the record is displayed.', levels: ['record'] },
+    { name: 'ALIAS', description: 'Alternative (long) name for the field, used by high-level language programs.', syntax: 'ALIAS(alternative-name)', levels: ['field'] },
+    { name: 'ALTHELP', description: 'Makes another command key act as the Help key.', syntax: 'ALTHELP[(CAnn)]', levels: FILE_RECORD },
+    { name: 'ALTNAME', description: 'Alternative record format name.', syntax: 'ALTNAME(alternative-record-name)', levels: ['record'] },
+    { name: 'ALTPAGEDWN', description: 'Makes a command key act as the Page Down key.', syntax: 'ALTPAGEDWN[(CFnn)]', levels: ['file'] },
+    { name: 'ALTPAGEUP', description: 'Makes a command key act as the Page Up key.', syntax: 'ALTPAGEUP[(CFnn)]', levels: ['file'] },
+    { name: 'ASSUME', description: 'Assumes the record is already on the display when the file is opened.', levels: ['record'] },
+    { name: 'AUTO', description: 'Automatic record advance or field adjustment (obsolete; use CHECK).', syntax: 'AUTO(RA | RAB | RAZ)', levels: ALL_LEVELS },
+    { name: 'BLANKS', description: 'Sets a response indicator on when the field is returned all blank.', syntax: 'BLANKS(response-indicator [\'text\'])', levels: ['field'] },
+    { name: 'BLINK', description: 'Makes the cursor blink while the record is displayed.', levels: ['record'] },
+    { name: 'BLKFOLD', description: 'Folds a multi-line named field at blanks instead of at the end of the line.', levels: ['field'] },
+    { name: 'CHANGE', description: 'Sets a response indicator on when data in the record or field is changed.', syntax: 'CHANGE(response-indicator [\'text\'])', levels: ['record', 'field'] },
+    { name: 'CHCACCEL', description: 'Accelerator key text for a choice of a selection field.', syntax: 'CHCACCEL(choice-number \'accelerator-text\')', levels: ['field'] },
+    { name: 'CHCAVAIL', description: 'Color/display attributes of available choices of a selection field.', syntax: 'CHCAVAIL([(COLOR color)] [(DSPATR attributes)])', levels: ALL_LEVELS },
+    { name: 'CHCCTL', description: 'Controls the availability of a choice of a selection field through a hidden field.', syntax: 'CHCCTL(choice-number control-field [msgid])', levels: ['field'] },
+    { name: 'CHCSLT', description: 'Color/display attributes of selected choices of a selection field.', syntax: 'CHCSLT([(COLOR color)] [(DSPATR attributes)])', levels: ALL_LEVELS },
+    { name: 'CHCUNAVAIL', description: 'Color/display attributes of unavailable choices of a selection field.', syntax: 'CHCUNAVAIL([(COLOR color)] [(DSPATR attributes)])', levels: ALL_LEVELS },
+    { name: 'CHECK', description: 'Validity checking and keyboard control for input-capable fields.', syntax: 'CHECK(code [code...])', levels: ALL_LEVELS, values: CHECK_CODES },
+    { name: 'CHGINPDFT', description: 'Changes the default underline/highlight attributes of input fields.', syntax: 'CHGINPDFT[(HI | CS | BL | UL | RI | FE | LC | ME | MF)]', levels: ALL_LEVELS },
+    { name: 'CHKMSGID', description: 'Message to show when a validity check on the field fails.', syntax: 'CHKMSGID(message-id [library/]message-file [message-data-field])', levels: ['field'] },
+    { name: 'CHOICE', description: 'A choice of a selection field (menu bar, push button, single/multiple choice).', syntax: 'CHOICE(choice-number choice-text [*SPACEB])', levels: ['field'] },
+    { name: 'CHRID', description: 'Translates input to the character set of the job, based on the CCSID.', levels: ALL_LEVELS },
+    { name: 'CLEAR', description: 'Enables the Clear key, optionally setting a response indicator.', syntax: 'CLEAR[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'CLRL', description: 'Clears lines before the record is displayed.', syntax: 'CLRL(nn | *END | *NO)', levels: ['record'] },
+    { name: 'CMP', description: 'Compares input to a value (obsolete; use COMP).', syntax: 'CMP(relational-operator value)', levels: ['field'] },
+    { name: 'CNTFLD', description: 'Continued-entry field: a long field wrapped across lines, n characters each.', syntax: 'CNTFLD(width-of-each-line)', levels: ['field'] },
+    { name: 'COLOR', description: 'Color of the field on a color display.', syntax: 'COLOR(color)', levels: ['field'], values: DISPLAY_COLORS },
+    { name: 'COMP', description: 'Compares input to a value: EQ, NE, LT, NL, GT, NG, LE or GE.', syntax: 'COMP(relational-operator value)', levels: ['field'] },
+    { name: 'CSRINPONLY', description: 'Restricts cursor movement to input-capable fields.', levels: FILE_RECORD },
+    { name: 'CSRLOC', description: 'Positions the cursor at the row/column held in two hidden fields.', syntax: 'CSRLOC(line-field position-field)', levels: ['record'] },
+    { name: 'DATE', description: 'Displays the current date (the job date, or the system date with *SYS).', syntax: 'DATE[(*JOB | *SYS)] [(*Y | *YY)]', levels: ['field'] },
+    { name: 'DATFMT', description: 'Format of a date (L) field.', syntax: 'DATFMT(date-format)', levels: ['field'], values: DATE_FORMATS },
+    { name: 'DATSEP', description: 'Separator of a date (L) field.', syntax: 'DATSEP(*JOB | \'separator\')', levels: ['field'] },
+    { name: 'DFT', description: 'Default value of the field, or the text of a constant.', syntax: 'DFT(\'value\')', levels: ['field'] },
+    { name: 'DFTVAL', description: 'Default value of a named field, shown when the program doesn\'t set it.', syntax: 'DFTVAL(\'value\')', levels: ['field'] },
+    { name: 'DLTCHK', description: 'Ignores the validity checks of the referenced field.', levels: ['field'] },
+    { name: 'DLTEDT', description: 'Ignores the editing (EDTCDE/EDTWRD) of the referenced field.', levels: ['field'] },
+    { name: 'DSPATR', description: 'Display attributes of the field.', syntax: 'DSPATR(attribute [attribute...])', levels: ['field'], values: DISPLAY_ATTRIBUTES },
+    { name: 'DSPMOD', description: 'Switches the display to another DSPSIZ display size when the record is written.', syntax: 'DSPMOD(display-size-name)', levels: ['record'] },
+    { name: 'DSPRL', description: 'Displays the file right to left (bidirectional languages).', levels: ['file'] },
+    { name: 'DSPSIZ', description: 'Display sizes the file can be used with: *DS3 (24 x 80) and/or *DS4 (27 x 132).', syntax: 'DSPSIZ(rows cols [name] ... | *DS3 *DS4)', levels: ['file'], values: DISPLAY_SIZES },
+    { name: 'DUP', description: 'Enables the Dup key for the field, optionally setting a response indicator.', syntax: 'DUP[(response-indicator [\'text\'])]', levels: ['field'] },
+    { name: 'EDTCDE', description: 'Edits a numeric output field with a predefined edit code.', syntax: 'EDTCDE(edit-code [* | floating-currency-symbol])', levels: ['field'], values: EDIT_CODES.map(ec => ({ value: ec.code, description: ec.description })) },
+    { name: 'EDTMSK', description: 'Edit mask: the positions of an edit word the user can\'t type into.', syntax: 'EDTMSK(\'edit-mask\')', levels: ['field'] },
+    { name: 'EDTWRD', description: 'Edits a numeric output field with an edit word.', syntax: 'EDTWRD(\'edit-word\')', levels: ['field'] },
+    { name: 'ENTFLDATR', description: 'Changes the attributes of the field the cursor is in.', syntax: 'ENTFLDATR[([color] [display-attribute] [*NOCURSOR])]', levels: ALL_LEVELS },
+    { name: 'ERASE', description: 'Erases the named records from the display when this record is written.', syntax: 'ERASE(record-name [record-name...])', levels: ['record'] },
+    { name: 'ERASEINP', description: 'Erases input fields already on the display when this record is written.', syntax: 'ERASEINP[(*MDTON | *ALL)]', levels: ['record'] },
+    { name: 'ERRMSG', description: 'Shows a message when the field is written with the option indicator on.', syntax: 'ERRMSG(\'message-text\' [response-indicator])', levels: ['field'] },
+    { name: 'ERRMSGID', description: 'Shows a message from a message file when the option indicator is on.', syntax: 'ERRMSGID(msgid [library/]msgf [response-indicator] [&msg-data])', levels: ['field'] },
+    { name: 'ERRSFL', description: 'Shows error messages in a message subfile instead of one at a time.', levels: ['file'] },
+    { name: 'FLDCSRPRG', description: 'Field the cursor moves to when leaving this field.', syntax: 'FLDCSRPRG(field-name)', levels: ['field'] },
+    { name: 'FLTFIXDEC', description: 'Displays a floating-point field in fixed-decimal notation.', levels: ['field'] },
+    { name: 'FLTPCN', description: 'Precision of a floating-point field.', syntax: 'FLTPCN(*SINGLE | *DOUBLE)', levels: ['field'] },
+    { name: 'FRCDTA', description: 'Forces the record to the display immediately.', levels: ['record'] },
+    { name: 'GETRETAIN', description: 'Keeps input data on the display after a get operation.', levels: ['record'] },
+    { name: 'HELP', description: 'Enables the Help key, optionally setting a response indicator.', syntax: 'HELP[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'HLPARA', description: 'Area of the display a help specification applies to.', syntax: 'HLPARA(from-line from-pos to-line to-pos | *FLD field | *RCD | *CNST n)', levels: ['record', 'field'] },
+    { name: 'HLPCLR', description: 'Clears the display before showing the help record.', levels: ['record'] },
+    { name: 'HLPCMDKEY', description: 'Enables command keys while help is displayed.', syntax: 'HLPCMDKEY[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'HLPDOC', description: 'Help text held in an online document.', syntax: 'HLPDOC(label document folder)', levels: ['record'] },
+    { name: 'HLPEXCLD', description: 'Excludes the area from the extended help.', levels: ['record'] },
+    { name: 'HLPFULL', description: 'Shows UIM help full-screen instead of in a window.', levels: FILE_RECORD },
+    { name: 'HLPID', description: 'Help identifier, tying help records to their areas.', syntax: 'HLPID(help-identifier)', levels: ['record'] },
+    { name: 'HLPPNLGRP', description: 'Help text held in a UIM panel group.', syntax: 'HLPPNLGRP(help-module [library/]panel-group)', levels: ['record'] },
+    { name: 'HLPRCD', description: 'Record format holding the help text.', syntax: 'HLPRCD(record-name [[library/]file])', levels: ['record'] },
+    { name: 'HLPRTN', description: 'Returns control to the program when Help is pressed.', levels: FILE_RECORD },
+    { name: 'HLPSCHIDX', description: 'Search index used for help.', syntax: 'HLPSCHIDX([library/]search-index)', levels: ['file'] },
+    { name: 'HLPSEQ', description: 'Groups help records into a sequence.', syntax: 'HLPSEQ(group-name sequence-number)', levels: ['record'] },
+    { name: 'HLPSHELF', description: 'Bookshelf used for help.', syntax: 'HLPSHELF(bookshelf-name)', levels: ['file'] },
+    { name: 'HLPTITLE', description: 'Title shown on the help display.', syntax: 'HLPTITLE(\'title-text\')', levels: FILE_RECORD },
+    { name: 'HOME', description: 'Enables the Home key, optionally setting a response indicator.', syntax: 'HOME[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'INDARA', description: 'Keeps option and response indicators in a separate indicator area instead of the record buffer.', levels: ['file'] },
+    { name: 'INDTXT', description: 'Documents the meaning of an indicator.', syntax: 'INDTXT(indicator \'text\')', levels: ALL_LEVELS },
+    { name: 'INVITE', description: 'Invites input from the display, for multiple-device programs.', levels: FILE_RECORD },
+    { name: 'INZINP', description: 'Initializes input fields when the record is written.', levels: ['record'] },
+    { name: 'INZRCD', description: 'Lets the program read the record without writing it first.', levels: ['record'] },
+    { name: 'KEEP', description: 'Keeps the record on the display when the file is closed.', levels: ['record'] },
+    { name: 'LOCK', description: 'Locks the keyboard after the record is written.', levels: ['record'] },
+    { name: 'LOGINP', description: 'Logs input operations to the job log.', levels: FILE_RECORD },
+    { name: 'LOGOUT', description: 'Logs output operations to the job log.', levels: FILE_RECORD },
+    { name: 'LOWER', description: 'Keeps lowercase letters as typed (obsolete; use CHECK(LC)).', levels: ['field'] },
+    { name: 'MAPVAL', description: 'Maps date/time values between the program and the display.', syntax: 'MAPVAL((program-value system-value) ...)', levels: ['field'] },
+    { name: 'MDTOFF', description: 'Turns off the modified data tags of the input fields on the display.', syntax: 'MDTOFF[(*UNPR | *ALL)]', levels: ['record'] },
+    { name: 'MLTCHCFLD', description: 'Multiple-choice selection field.', syntax: 'MLTCHCFLD[(*NOAUTOSLT | *AUTOSLT) ...]', levels: ['field'] },
+    { name: 'MNUBAR', description: 'Menu bar record.', syntax: 'MNUBAR[(*SEPARATOR | *NOSEPARATOR)]', levels: ['record'] },
+    { name: 'MNUBARCHC', description: 'A choice of a menu bar, naming its pull-down record.', syntax: 'MNUBARCHC(choice-number pull-down-record \'choice-text\' [&return-field])', levels: ['field'] },
+    { name: 'MNUBARDSP', description: 'Displays a menu bar along with this record.', syntax: 'MNUBARDSP[(menu-bar-record &choice-field [&pull-down-input])]', levels: ['record'] },
+    { name: 'MNUBARSEP', description: 'Color/display attributes of the menu bar separator line.', syntax: 'MNUBARSEP([(COLOR color)] [(DSPATR attributes)] [(CHRID char)])', levels: ['field'] },
+    { name: 'MNUBARSW', description: 'Command key that switches between the menu bar and the display.', syntax: 'MNUBARSW[(CAnn | CFnn)]', levels: FILE_RECORD },
+    { name: 'MNUCNL', description: 'Command key that cancels a pull-down menu.', syntax: 'MNUCNL(CAnn | CFnn [response-indicator])', levels: FILE_RECORD },
+    { name: 'MOUBTN', description: 'Assigns a command key or event to a mouse button action.', syntax: 'MOUBTN(mouse-action event-id [*PEND | *NOPEND])', levels: FILE_RECORD },
+    { name: 'MSGALARM', description: 'Sounds the alarm when a message is displayed.', levels: ['file'] },
+    { name: 'MSGCON', description: 'Constant whose text is taken from a message description.', syntax: 'MSGCON(length message-id [library/]message-file)', levels: ['field'] },
+    { name: 'MSGID', description: 'Output field whose text is taken from a message description.', syntax: 'MSGID(message-id [library/]message-file)', levels: ['field'] },
+    { name: 'MSGLOC', description: 'Line the message line is shown on.', syntax: 'MSGLOC(line-number)', levels: ['file'] },
+    { name: 'NOCCSID', description: 'Keeps the field from being converted between CCSIDs.', levels: ['field'] },
+    { name: 'OPENPRT', description: 'Opens the printer file when the display file is opened, for the Print key.', levels: ['file'] },
+    { name: 'OVERLAY', description: 'Writes the record without erasing the rest of the display.', levels: ['record'] },
+    { name: 'OVRATR', description: 'Sends only changed attributes of the field (with PUTOVR).', levels: ['field'] },
+    { name: 'OVRDTA', description: 'Sends only changed data of the field (with PUTOVR).', levels: ['field'] },
+    { name: 'PAGEDOWN', description: 'Enables the Page Down key, optionally setting a response indicator.', syntax: 'PAGEDOWN[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'PAGEUP', description: 'Enables the Page Up key, optionally setting a response indicator.', syntax: 'PAGEUP[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'PASSRCD', description: 'Record format used to receive passed-through data.', syntax: 'PASSRCD(record-name)', levels: ['file'] },
+    { name: 'PRINT', description: 'Enables the Print key, optionally naming the printer file or a response indicator.', syntax: 'PRINT[(response-indicator [\'text\'] | *PGM | [library/]printer-file)]', levels: FILE_RECORD },
+    { name: 'PROTECT', description: 'Protects the input fields already on the display when this record is written.', levels: ['record'] },
+    { name: 'PSHBTNCHC', description: 'A choice of a push-button field.', syntax: 'PSHBTNCHC(choice-number choice-text [command-key])', levels: ['field'] },
+    { name: 'PSHBTNFLD', description: 'Push-button selection field.', syntax: 'PSHBTNFLD[(*NORSTCSR | *RSTCSR) (*NUMCOL n | *NUMROW n) (*GUTTER n)]', levels: ['field'] },
+    { name: 'PULLDOWN', description: 'Pull-down menu record.', syntax: 'PULLDOWN[(*SLTIND | *NOSLTIND) (*NORSTCSR | *RSTCSR)]', levels: ['record'] },
+    { name: 'PUTOVR', description: 'Overrides only the fields with OVRDTA/OVRATR instead of rewriting the record.', levels: ['record'] },
+    { name: 'PUTRETAIN', description: 'Keeps data or attributes on the display when the record or field is written again.', levels: ['record', 'field'] },
+    { name: 'RANGE', description: 'Checks that input is within a range of values.', syntax: 'RANGE(low-value high-value)', levels: ['field'] },
+    { name: 'REF', description: 'Default file fields are referenced from (R in position 29).', syntax: 'REF([library/]file [record-format])', levels: ['file'] },
+    { name: 'REFFLD', description: 'Field this field is referenced from.', syntax: 'REFFLD([record-format/]field [[library/]file | *SRC])', levels: ['field'] },
+    { name: 'RETCMDKEY', description: 'Keeps the command keys of this record active when another record is written.', levels: ['record'] },
+    { name: 'RETKEY', description: 'Keeps the Roll/Help/Home/Print keys of this record active when another record is written.', levels: ['record'] },
+    { name: 'RETLCKSTS', description: 'Keeps the lock status of the keyboard when the record is written.', levels: ['record'] },
+    { name: 'RMVWDW', description: 'Removes all windows from the display before this window is shown.', levels: ['record'] },
+    { name: 'ROLLDOWN', description: 'Enables the Roll Down key, optionally setting a response indicator.', syntax: 'ROLLDOWN[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'ROLLUP', description: 'Enables the Roll Up key, optionally setting a response indicator.', syntax: 'ROLLUP[(response-indicator [\'text\'])]', levels: FILE_RECORD },
+    { name: 'RTNCSRLOC', description: 'Returns the cursor location (record, field, position) to hidden fields.', syntax: 'RTNCSRLOC(&record &field [&position] | *RECNAME ... | *MOUSE ...)', levels: ['record'] },
+    { name: 'RTNDTA', description: 'Lets the program read the record again without the user pressing a key.', levels: ['record'] },
+    { name: 'SETOF', description: 'Sets an indicator off when the record is read.', syntax: 'SETOF(indicator [\'text\'])', levels: ['record'] },
+    { name: 'SETOFF', description: 'Sets an indicator off when the record is read.', syntax: 'SETOFF(indicator [\'text\'])', levels: ['record'] },
+    { name: 'SFL', description: 'Subfile record: the rows of a list, loaded one by one by the program.', levels: ['record'] },
+    { name: 'SFLCHCCTL', description: 'Controls the availability of a choice of a subfile selection field.', syntax: 'SFLCHCCTL(choice-number control-field)', levels: ['field'] },
+    { name: 'SFLCLR', description: 'Clears the subfile when the control record is written with the option indicator on.', levels: ['record'] },
+    { name: 'SFLCSRPRG', description: 'Moves the cursor to the same field in the next subfile row.', levels: ['field'] },
+    { name: 'SFLCSRRRN', description: 'Returns the relative record number of the subfile row the cursor is on.', syntax: 'SFLCSRRRN(&hidden-field)', levels: ['record'] },
+    { name: 'SFLCTL', description: 'Subfile control record: the heading and control of the subfile it names.', syntax: 'SFLCTL(subfile-record-name)', levels: ['record'] },
+    { name: 'SFLDLT', description: 'Deletes the subfile when the control record is written with the option indicator on.', levels: ['record'] },
+    { name: 'SFLDROP', description: 'Command key that truncates/folds subfile rows that take more than one line.', syntax: 'SFLDROP(CAnn | CFnn)', levels: ['record'] },
+    { name: 'SFLDSP', description: 'Displays the subfile rows when the control record is written.', levels: ['record'] },
+    { name: 'SFLDSPCTL', description: 'Displays the control record itself when it is written.', levels: ['record'] },
+    { name: 'SFLEND', description: 'Shows that the subfile has no more rows: a "More..."/"Bottom" text or a plus sign.', syntax: 'SFLEND[(*PLUS | *MORE | *SCRBAR [*SCRBAR | *MORE])]', levels: ['record'] },
+    { name: 'SFLENTER', description: 'Makes Enter act as Roll Up for the subfile.', syntax: 'SFLENTER(CAnn | CFnn)', levels: ['record'] },
+    { name: 'SFLFOLD', description: 'Command key that folds/truncates subfile rows that take more than one line.', syntax: 'SFLFOLD(CAnn | CFnn)', levels: ['record'] },
+    { name: 'SFLINZ', description: 'Initializes the subfile rows to their default values.', levels: ['record'] },
+    { name: 'SFLLIN', description: 'Shows the subfile rows side by side, with this many blanks between columns.', syntax: 'SFLLIN(spaces-between-columns)', levels: ['record'] },
+    { name: 'SFLMLTCHC', description: 'Multiple-choice selection list subfile.', syntax: 'SFLMLTCHC[(&relative-record-field)]', levels: ['record'] },
+    { name: 'SFLMODE', description: 'Returns whether folded or truncated rows are being shown.', syntax: 'SFLMODE(&hidden-field)', levels: ['record'] },
+    { name: 'SFLMSG', description: 'Shows a message when the control record is written with the option indicator on.', syntax: 'SFLMSG(\'message-text\' [response-indicator])', levels: ['record'] },
+    { name: 'SFLMSGID', description: 'Shows a message from a message file when the option indicator is on.', syntax: 'SFLMSGID(msgid [library/]msgf [response-indicator])', levels: ['record'] },
+    { name: 'SFLMSGKEY', description: 'Message key field of a message subfile.', levels: ['field'] },
+    { name: 'SFLMSGRCD', description: 'Message subfile: the line its messages start on.', syntax: 'SFLMSGRCD(line-number)', levels: ['record'] },
+    { name: 'SFLNXTCHG', description: 'Marks the subfile row as changed, so the next read-changed returns it.', levels: ['record'] },
+    { name: 'SFLPAG', description: 'Number of subfile rows shown at once (the page size).', syntax: 'SFLPAG(number-of-records)', levels: ['record'] },
+    { name: 'SFLPGMQ', description: 'Program message queue field of a message subfile.', syntax: 'SFLPGMQ[(10 | 276)]', levels: ['field'] },
+    { name: 'SFLRCDNBR', description: 'Page of the subfile to display: the one holding this relative record number.', syntax: 'SFLRCDNBR[(CURSOR [*TOP])]', levels: ['field'] },
+    { name: 'SFLRNA', description: 'Keeps subfile rows inactive until written.', levels: ['record'] },
+    { name: 'SFLROLVAL', description: 'Field holding how many rows Page Up/Down moves.', levels: ['field'] },
+    { name: 'SFLRTNSEL', description: 'Returns the selected choices of a selection list subfile.', levels: ['record'] },
+    { name: 'SFLSCROLL', description: 'Returns the relative record number of the top subfile row shown.', levels: ['field'] },
+    { name: 'SFLSIZ', description: 'Initial number of rows in the subfile (usually SFLPAG + 1, so it can extend).', syntax: 'SFLSIZ(number-of-records)', levels: ['record'] },
+    { name: 'SFLSNGCHC', description: 'Single-choice selection list subfile.', syntax: 'SFLSNGCHC[(*NORSTCSR | *RSTCSR) (*NOAUTOSLT | *AUTOSLT)]', levels: ['record'] },
+    { name: 'SLNO', description: 'Starting line number: the record\'s lines are shifted by a variable start line.', syntax: 'SLNO(*VAR)', levels: ['record'] },
+    { name: 'SNGCHCFLD', description: 'Single-choice selection field.', syntax: 'SNGCHCFLD[(*NORSTCSR | *RSTCSR) (*NOAUTOSLT | *AUTOSLT) ...]', levels: ['field'] },
+    { name: 'SYSNAME', description: 'Displays the name of the system.', levels: ['field'] },
+    { name: 'TEXT', description: 'Documents the record or field.', syntax: 'TEXT(\'description\')', levels: ['record', 'field'] },
+    { name: 'TIME', description: 'Displays the current system time.', levels: ['field'] },
+    { name: 'TIMFMT', description: 'Format of a time (T) field.', syntax: 'TIMFMT(time-format)', levels: ['field'], values: TIME_FORMATS },
+    { name: 'TIMSEP', description: 'Separator of a time (T) field.', syntax: 'TIMSEP(*JOB | \'separator\')', levels: ['field'] },
+    { name: 'UNLOCK', description: 'Unlocks the keyboard after the record is read.', syntax: 'UNLOCK[(*ERASE | *MDTOFF)]', levels: ['record'] },
+    { name: 'USER', description: 'Displays the name of the user profile running the job.', levels: ['field'] },
+    { name: 'USRDFN', description: 'User-defined data stream for the record.', levels: ['record'] },
+    { name: 'USRDSPMGT', description: 'The program manages the display itself (e.g. with DSM APIs).', levels: ['file'] },
+    { name: 'USRRSTDSP', description: 'The program restores what windows cover, instead of the system.', levels: ['record'] },
+    { name: 'VALNUM', description: 'Checks that the character field contains a number.', levels: ['field'] },
+    { name: 'VALUES', description: 'Checks that input is one of a list of values.', syntax: 'VALUES(value [value...])', levels: ['field'] },
+    { name: 'VLDCMDKEY', description: 'Sets an indicator on when any valid command key is pressed.', syntax: 'VLDCMDKEY(response-indicator [\'text\'])', levels: FILE_RECORD },
+    { name: 'WDWBORDER', description: 'Color, display attributes and characters of window borders.', syntax: 'WDWBORDER([(*COLOR color)] [(*DSPATR attributes)] [(*CHAR \'8-border-chars\')])', levels: FILE_RECORD },
+    { name: 'WDWTITLE', description: 'Title shown in a window\'s top or bottom border.', syntax: 'WDWTITLE([(*TEXT \'text\')] [(*COLOR color)] [(*DSPATR attributes)] [*CENTER | *LEFT | *RIGHT] [*TOP | *BOTTOM])', levels: ['record'] },
+    { name: 'WINDOW', description: 'Shows the record in a window: at a position with a size, or in another record\'s window.', syntax: 'WINDOW(start-line start-pos lines cols [*MSGLIN | *NOMSGLIN] [*RSTCSR | *NORSTCSR] | window-record)', levels: ['record'] },
+    { name: 'WRDWRAP', description: 'Word wrap for a continued-entry (CNTFLD) field.', levels: ['field'] }
+];
+
+/** The catalog, by keyword name. */
+const KEYWORDS = new Map<string, DdsKeyword>(KEYWORD_LIST.map(keyword => [keyword.name, keyword]));
+
+// Command attention keys (CAnn: no data returned) and command function keys (CFnn: data returned)
+for (let key = 1; key <= 24; key++) {
+    const suffix = String(key).padStart(2, '0');
+    KEYWORDS.set(`CA${suffix}`, {
+        name: `CA${suffix}`,
+        description: `Enables F${key} as a command attention key: the program gets control, input data is not returned.`,
+        syntax: `CA${suffix}[(response-indicator ['text'])]`,
+        levels: FILE_RECORD
+    });
+    KEYWORDS.set(`CF${suffix}`, {
+        name: `CF${suffix}`,
+        description: `Enables F${key} as a command function key: the program gets control along with the input data.`,
+        syntax: `CF${suffix}[(response-indicator ['text'])]`,
+        levels: FILE_RECORD
+    });
+};
+
+// LOOKUP FUNCTIONS
+
+/**
+ * Gets a keyword from the catalog.
+ * @param name - Keyword name, in any case (e.g. "sflpag")
+ * @returns The keyword, or undefined if it isn't a known DSPF keyword
+ */
+export function getKeyword(name: string): DdsKeyword | undefined {
+    return KEYWORDS.get(name.toUpperCase());
+};
+
+/**
+ * Gets the description of one of a keyword's predefined values (e.g. DSPATR's PR).
+ * @param keywordName - Keyword name
+ * @param value - Parameter value
+ */
+export function getKeywordValue(keywordName: string, value: string): KeywordValue | undefined {
+    return getKeyword(keywordName)?.values?.find(v => v.value === value.toUpperCase());
+};
+
+/**
+ * Lists every keyword in the catalog, in alphabetical order.
+ */
+export function getAllKeywords(): DdsKeyword[] {
+    return [...KEYWORDS.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -9,7 +9,11 @@ import { DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
 import { generateStructure } from '../dspf-edit.commands/dspf-edit.generate-structure';
 import { ExtensionState } from '../dspf-edit.states/state';
 import { debounceUpdate, generateIfDds, clearReadOnlyCache } from '../dspf-edit.utils/dspf-edit.helper';
-import { clearResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { clearResolvedMessages, clearResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { clearDocumentModel } from '../dspf-edit.model/dspf-edit.model';
+import { RecordPreviewPanel } from '../dspf-edit.webview/dspf-edit.record-preview-panel';
+import { clearDiagnostics } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { clearCompileDiagnostics } from '../dspf-edit.commands/dspf-edit.compile';
 
 export function initializeDocumentListeners(
     context: vscode.ExtensionContext,
@@ -40,6 +44,13 @@ export function initializeDocumentListeners(
     );
     context.subscriptions.push(
         vscode.workspace.onDidCloseTextDocument(document => {
+            // Every DDS document keeps its own parsed model (and possibly its own preview), not
+            // just the one the tree is showing. Its problems go away with it too.
+            clearDocumentModel(document.uri.toString());
+            clearDiagnostics(document.uri);
+            clearCompileDiagnostics(document.uri);
+            clearResolvedMessages(document.uri.toString());
+            RecordPreviewPanel.disposeFor(document.uri.toString());
             if (ExtensionState.lastDdsDocument && document === ExtensionState.lastDdsDocument) {
                 ExtensionState.clearTimeout();
                 treeProvider.cleanupDocumentFilter(document.uri.toString());
@@ -49,6 +60,7 @@ export function initializeDocumentListeners(
                 ExtensionState.lastDdsEditor = undefined;
                 treeProvider.setElements([]);
                 treeProvider.refresh();
+                ExtensionState.indicatorProvider?.setDocument(undefined);
             };
         })
     );
@@ -25,6 +25,8 @@ export interface DdsAttribute {
   kind: 'attribute';
   lineIndex: number;
   lastLineIndex?: number;
+  /** First of the indicator-only lines stacked above this one to condition it, when there are any. */
+  conditionLineIndex?: number;
   value: string;
   attribute?: string;
   indicators?: DdsIndicator[];
@@ -36,10 +38,16 @@ export interface DdsAttribute {
 
 /**
  * Represents an indicator (e.g., *IN01).
+ * A line's full condition is a `DdsIndicator[]`: indicators sharing the same `orGroup` are ANDed
+ * together, and the groups themselves are ORed — matching how DDS reads indicator-only lines
+ * (columns 7-16 filled, nothing else) stacked above the line they condition, with an 'O' in
+ * column 7 starting each new OR group.
  */
 export interface DdsIndicator {
   active: boolean;
   number: number;
+  /** 0-based OR group this indicator belongs to. Absent means the first (and usually only) group. */
+  orGroup?: number;
 };
 
 /**
@@ -93,6 +101,8 @@ export interface DdsField {
   type?: string;
   length?: number;
   decimals?: number;
+  /** Whether decimal positions are coded (even 0), which makes the field numeric whatever its type. */
+  decimalsCoded?: boolean;
   usage: string;
   row?: number;
   column?: number;
@@ -104,6 +114,8 @@ export interface DdsField {
    * disambiguating a field name that exists in more than one format of the referenced file. */
   refTarget?: { fieldName: string; file?: string; library?: string; recordFormat?: string };
   lineIndex: number;
+  /** First of the indicator-only lines stacked above this one to condition it, when there are any. */
+  conditionLineIndex?: number;
   recordname: string;
   attribute?: string;
   children?: DdsElement[];
@@ -132,6 +144,10 @@ export interface DdsConstant {
   row: number;
   column: number;
   lineIndex: number;
+  /** Last line of the constant's text, when it continues onto following lines. */
+  lastLineIndex?: number;
+  /** First of the indicator-only lines stacked above this one to condition it, when there are any. */
+  conditionLineIndex?: number;
   recordname: string;
   attribute?: string;
   attributes?: DdsAttribute[];
@@ -187,7 +203,7 @@ export interface DdsGroup {
 /**
  * Raw size attributes extracted from DDS source.
  */
-interface DdsSizeAttributes {
+export interface DdsSizeAttributes {
   numDsply: number;
   maxRow1: number;
   maxCol1: number;
@@ -197,17 +213,6 @@ interface DdsSizeAttributes {
   nameDsply2: string;
 };
 
-/** Global storage for file size attributes */
-export let fileSizeAttributes: DdsSizeAttributes = {
-  numDsply: 0,
-  maxRow1: 0,
-  maxCol1: 0,
-  nameDsply1: '',
-  maxRow2: 0,
-  maxCol2: 0,
-  nameDsply2: ''
-};
-
 // FIELD & CONSTANT INFO STRUCTURES
 
 /** Simplified field info (used for reporting/grouping) */
@@ -225,6 +230,8 @@ export interface FieldInfo {
   indicators?: DdsIndicator[];
   lineIndex: number;
   lastLineIndex: number;
+  /** First of the indicator-only lines stacked above this one to condition it, when there are any. */
+  conditionLineIndex?: number;
   /** Set when this field's line is conditioned by a display format name (e.g. "*DS3"). */
   displayFormat?: string;
 };
@@ -240,6 +247,8 @@ export interface ConstantInfo {
   indicators?: DdsIndicator[];
   lineIndex: number;
   lastLineIndex: number;
+  /** First of the indicator-only lines stacked above this one to condition it, when there are any. */
+  conditionLineIndex?: number;
   /** Set when this constant's line is conditioned by a display format name (e.g. "*DS3"). */
   displayFormat?: string;
 };
@@ -250,6 +259,8 @@ export interface AttributeWithIndicators {
   indicators?: DdsIndicator[];
   lineIndex: number;
   lastLineIndex: number;
+  /** First of the indicator-only lines stacked above this one to condition it, when there are any. */
+  conditionLineIndex?: number;
   /** Set when this attribute's line is conditioned by a display format name (e.g. "*DS3"). */
   displayFormat?: string;
 };
@@ -265,11 +276,77 @@ export interface FieldsPerRecord {
   endIndex: number;
 };
 
-// GLOBAL DATA ARRAYS
+// DOCUMENT MODEL
+
+/**
+ * Everything parsed out of a single DDS source document. Built by `parseDocument` and cached per
+ * document URI, so two open sources (or a preview of a file that isn't the active editor) never
+ * share or overwrite each other's records, fields or screen sizes.
+ */
+export interface DdsDocumentModel {
+  /** URI (as a string) of the document this model was parsed from; empty for ad-hoc parses of loose text. */
+  uri: string;
+  /** Document version this model was parsed at, when known — tells whether a cached model is stale. */
+  version?: number;
+  /** Parsed elements (file, records, fields, constants, groups), as shown in the tree. */
+  elements: DdsElement[];
+  records: string[];
+  fieldsPerRecords: FieldsPerRecord[];
+  attributesFileLevel: DdsAttribute[];
+  fileSizeAttributes: DdsSizeAttributes;
+};
+
+/**
+ * Creates an empty model, sized to the DDS default display (24x80, *DS3) until a DSPSIZ says otherwise.
+ * @param uri - URI of the document the model belongs to, if any
+ */
+export function createEmptyDocumentModel(uri: string = ''): DdsDocumentModel {
+  return {
+    uri,
+    elements: [],
+    records: [],
+    fieldsPerRecords: [],
+    attributesFileLevel: [],
+    fileSizeAttributes: {
+      numDsply: 1,
+      maxRow1: 24,
+      maxCol1: 80,
+      nameDsply1: '*DS3',
+      maxRow2: 0,
+      maxCol2: 0,
+      nameDsply2: ''
+    }
+  };
+};
+
+/** Parsed models, by document URI. */
+const documentModels = new Map<string, DdsDocumentModel>();
+
+/**
+ * Gets the last model parsed for a document, if any. May be stale (see `DdsDocumentModel.version`).
+ * @param uri - Document URI, as a string
+ */
+export function getCachedDocumentModel(uri: string): DdsDocumentModel | undefined {
+  return documentModels.get(uri);
+};
+
+/**
+ * Stores a freshly parsed model as the current one for its document.
+ * @param model - The model to cache (ignored when it isn't tied to a document URI)
+ */
+export function cacheDocumentModel(model: DdsDocumentModel): void {
+  if (model.uri) {
+    documentModels.set(model.uri, model);
+  };
+};
 
-export let records: string[] = [];
-export let fieldsPerRecords: FieldsPerRecord[] = [];
-export let attributesFileLevel: DdsAttribute[] = [];
+/**
+ * Forgets the cached model for a document (e.g. once it's closed).
+ * @param uri - Document URI, as a string
+ */
+export function clearDocumentModel(uri: string): void {
+  documentModels.delete(uri);
+};
 
 /**
  * DDS system keywords whose on-screen text is fixed regardless of whatever else is parsed for the
@@ -289,13 +366,50 @@ export const SYSTEM_FIELD_PLACEHOLDER: Record<string, string> = {
 // UTILITY FUNCTIONS
 
 /**
- * Get the default display size from the global file size attributes.
+ * Splits a condition into its OR groups, each one the list of indicators ANDed within it, in
+ * group order. An unconditioned line (no indicators) yields no groups at all.
+ * @param indicators - The condition to split
+ */
+export function getIndicatorOrGroups(indicators?: DdsIndicator[]): DdsIndicator[][] {
+  const groups = new Map<number, DdsIndicator[]>();
+  for (const indicator of indicators ?? []) {
+    const groupIndex = indicator.orGroup ?? 0;
+    const group = groups.get(groupIndex);
+    if (group) {
+      group.push(indicator);
+    } else {
+      groups.set(groupIndex, [indicator]);
+    };
+  };
+
+  return [...groups.keys()].sort((a, b) => a - b).map(key => groups.get(key)!);
+};
+
+/**
+ * Evaluates a condition against a given indicator state: satisfied when every indicator of at
+ * least one OR group matches (ON for a plain indicator, OFF for an "N" one). No indicators at all
+ * means "unconditioned", which is always satisfied.
+ * @param indicators - The condition to evaluate
+ * @param isOn - Tells whether a given indicator number is currently ON
+ */
+export function isIndicatorConditionMet(indicators: DdsIndicator[] | undefined, isOn: (indicator: number) => boolean): boolean {
+  const groups = getIndicatorOrGroups(indicators);
+  if (groups.length === 0) {
+    return true;
+  };
+
+  return groups.some(group => group.every(ind => isOn(ind.number) === ind.active));
+};
+
+/**
+ * Get the default display size from a document's file size attributes.
+ * @param model - The document's parsed model
  */
-export function getDefaultSize(): DdsSize {
+export function getDefaultSize(model: DdsDocumentModel): DdsSize {
   return {
-    rows: fileSizeAttributes.maxRow1,
-    cols: fileSizeAttributes.maxCol1,
-    name: fileSizeAttributes.nameDsply1,
+    rows: model.fileSizeAttributes.maxRow1,
+    cols: model.fileSizeAttributes.maxCol1,
+    name: model.fileSizeAttributes.nameDsply1,
     source: 'default',
     originCol : 1,
     originRow : 1
@@ -304,18 +418,20 @@ export function getDefaultSize(): DdsSize {
 
 /**
  * Get the size information for a specific record by name.
+ * @param model - The document's parsed model
  * @param recordName - Name of the record to find.
  */
-export function getRecordSize(recordName: string): DdsSize | undefined {
-  const recordEntry = fieldsPerRecords.find(r => r.record === recordName);
+export function getRecordSize(model: DdsDocumentModel, recordName: string): DdsSize | undefined {
+  const recordEntry = model.fieldsPerRecords.find(r => r.record === recordName);
   return recordEntry?.size;
 };
 
 /**
  * Get all records that have size information.
+ * @param model - The document's parsed model
  */
-export function getAllRecordSizes(): Array<{ record: string; size: DdsSize }> {
-  return fieldsPerRecords
+export function getAllRecordSizes(model: DdsDocumentModel): Array<{ record: string; size: DdsSize }> {
+  return model.fieldsPerRecords
     .filter(r => r.size)
     .map(r => ({ record: r.record, size: r.size! }));
 };
@@ -323,9 +439,11 @@ export function getAllRecordSizes(): Array<{ record: string; size: DdsSize }> {
 /**
  * Lists the display formats declared in DSPSIZ (e.g. *DS3/*DS4), if the file declares more than
  * one. Used to offer a format switcher in the preview; empty when the file has a single size.
+ * @param model - The document's parsed model
  */
-export function getAvailableDisplayFormats(): Array<{ name: string; rows: number; cols: number }> {
+export function getAvailableDisplayFormats(model: DdsDocumentModel): Array<{ name: string; rows: number; cols: number }> {
   const formats: Array<{ name: string; rows: number; cols: number }> = [];
+  const fileSizeAttributes = model.fileSizeAttributes;
 
   if (fileSizeAttributes.nameDsply1) {
     formats.push({ name: fileSizeAttributes.nameDsply1, rows: fileSizeAttributes.maxRow1, cols: fileSizeAttributes.maxCol1 });
@@ -340,10 +458,11 @@ export function getAvailableDisplayFormats(): Array<{ name: string; rows: number
 /**
  * Gets the default (non-window) screen size for a specific named display format (e.g. "*DS3"),
  * as declared in DSPSIZ. Undefined if the name doesn't match either declared format.
+ * @param model - The document's parsed model
  * @param formatName - The display format name to look up
  */
-export function getSizeForFormat(formatName: string): DdsSize | undefined {
-  const format = getAvailableDisplayFormats().find(f => f.name === formatName);
+export function getSizeForFormat(model: DdsDocumentModel, formatName: string): DdsSize | undefined {
+  const format = getAvailableDisplayFormats(model).find(f => f.name === formatName);
   if (!format) {
     return undefined;
   };
@@ -11,18 +11,21 @@ import {
     DdsFile,
     DdsAttribute,
     DdsSize,
-    fileSizeAttributes,
-    records,
-    fieldsPerRecords,
+    DdsDocumentModel,
+    createEmptyDocumentModel,
+    cacheDocumentModel,
     getDefaultSize,
     getSizeForFormat,
-    attributesFileLevel,
     SYSTEM_FIELD_PLACEHOLDER
 } from '../dspf-edit.model/dspf-edit.model';
 
 
-// Global state to store current parsed DDS elements
-export let currentDdsElements: DdsElement[] = [];
+/**
+ * The model being filled in by the parse currently running. Parsing is synchronous, so this only
+ * ever holds the document being parsed right now; `parseDocument` starts each parse on a fresh one
+ * and hands it back, so nothing here outlives a single parse or leaks between documents.
+ */
+let parsingModel: DdsDocumentModel = createEmptyDocumentModel();
 
 /**
  * Tracks the last resolved (row, col, length) of a positioned field/constant within the current
@@ -34,16 +37,34 @@ export let currentDdsElements: DdsElement[] = [];
 let lastPositionInRecord: { row: number; col: number; length: number } | undefined;
 
 /**
- * Main parser function that processes DDS document text and returns structured elements
+ * Condition accumulated from indicator-only lines (columns 7-16 filled, nothing else) seen since
+ * the last element/keyword line. DDS lets a condition span several such lines stacked above the
+ * line it applies to — ANDed together, or starting a new OR group when column 7 holds an 'O' — so
+ * they're held here until the next field, constant or keyword line picks them up.
+ */
+let pendingCondition: DdsIndicator[] = [];
+
+/**
+ * First line of the indicator-only lines held in pendingCondition, so the element they condition
+ * knows where its source starts (see `conditionLineIndex`).
+ */
+let pendingConditionLineIndex: number | undefined;
+
+/**
+ * Main parser function that processes DDS document text and returns its structured model.
+ * When the text belongs to a document (documentUri given), the model is also cached for it, so
+ * commands, the tree and the preview can read back the model of whichever document they act on.
  * @param text - Raw DDS document text to parse
- * @returns Array of parsed DDS elements
+ * @param documentUri - URI (as a string) of the document the text comes from, if any
+ * @param version - Version of that document the text was read at, if known
+ * @returns The parsed document model
  */
-export function parseDocument(text: string): DdsElement[] {
+export function parseDocument(text: string, documentUri: string = '', version?: number): DdsDocumentModel {
     const lines = text.split(/\r?\n/);
     const ddsElements: DdsElement[] = [];
 
-    // Clear global state
-    clearGlobalState();
+    // Start from a fresh model and per-parse state
+    resetParseState(documentUri, version);
 
     // Initialize with root file element
     const rootFile = createRootFileElement();
@@ -69,24 +90,24 @@ export function parseDocument(text: string): DdsElement[] {
     // Sync record attributes into fieldsPerRecords
     syncRecordAttributes(ddsElements);
 
-    // Store globally and return filtered elements
-    currentDdsElements = ddsElements;
-    return ddsElements.filter(el => el.kind !== 'attribute');
+    // Keep the filtered elements (attributes are already linked to their parents) and cache the model
+    const model = parsingModel;
+    model.elements = ddsElements.filter(el => el.kind !== 'attribute');
+    cacheDocumentModel(model);
+    return model;
 };
 
 /**
- * Clears global state arrays used during parsing
+ * Resets the per-parse state, starting a new, empty model for the document about to be parsed.
+ * @param documentUri - URI (as a string) of the document being parsed, if any
+ * @param version - Version of that document, if known
  */
-function clearGlobalState(): void {
-    records.length = 0;
-    fieldsPerRecords.length = 0;
-    attributesFileLevel.length = 0;
+function resetParseState(documentUri: string, version?: number): void {
+    parsingModel = createEmptyDocumentModel(documentUri);
+    parsingModel.version = version;
     lastPositionInRecord = undefined;
-
-    // Reset both display-size slots so switching to a document with fewer (or no) DSPSIZ formats
-    // doesn't leak a stale second size (e.g. *DS4) left over from a previously parsed document —
-    // processDspsizAttribute below only overwrites the slots it actually finds in this document.
-    setDefaultScreenSize();
+    pendingCondition = [];
+    pendingConditionLineIndex = undefined;
 };
 
 /**
@@ -146,8 +167,19 @@ function parseSingleDdsLine(
         return { element: undefined, nextIndex: lineIndex, lastRecord };
     };
 
-    // Extract common line components
-    const lineComponents = extractLineComponents(trimmedLine);
+    // An indicator-only line yields no element of its own: it just adds to the condition of the
+    // next line that does (see pendingCondition).
+    if (isConditionOnlyLine(trimmedLine)) {
+        pendingCondition = appendConditionLine(pendingCondition, trimmedLine);
+        pendingConditionLineIndex ??= lineIndex;
+        return { element: undefined, nextIndex: lineIndex, lastRecord };
+    };
+
+    // Extract common line components, completing the condition started on any preceding
+    // indicator-only lines
+    const lineComponents = extractLineComponents(trimmedLine, pendingCondition, pendingConditionLineIndex);
+    pendingCondition = [];
+    pendingConditionLineIndex = undefined;
 
     // Determine element type and parse accordingly
     if (isRecordLine(trimmedLine)) {
@@ -166,17 +198,49 @@ function parseSingleDdsLine(
     return parseAttributeElement(lines, lineIndex, trimmedLine, lineComponents, lastRecord);
 };
 
+/**
+ * Checks if the line only carries conditioning indicators (columns 8-16), with nothing from the
+ * record marker onward — part of a multi-line condition for the line that follows it.
+ * @param trimmedLine - Line with sequence number area removed
+ * @returns True if the line is an indicator-only condition line
+ */
+function isConditionOnlyLine(trimmedLine: string): boolean {
+    const conditionZone = trimmedLine.substring(2, 11);
+    return conditionZone.trim() !== ''
+        && !parseDisplayFormatCondition(conditionZone)
+        && trimmedLine.substring(11).trim() === '';
+};
+
+/**
+ * Adds one line's indicators (columns 8-16) to a condition built from preceding lines. They are
+ * ANDed into the condition's last OR group, unless column 7 holds an 'O', which starts a new one.
+ * An 'O' on the very first line of a condition has nothing to OR with, so it's treated as AND.
+ * @param condition - Condition accumulated so far (possibly empty)
+ * @param trimmedLine - Line with sequence number area removed
+ * @returns The extended condition, ordered by OR group and then by indicator number
+ */
+function appendConditionLine(condition: DdsIndicator[], trimmedLine: string): DdsIndicator[] {
+    const lastGroup = condition.reduce((max, ind) => Math.max(max, ind.orGroup ?? 0), 0);
+    const startsOrGroup = condition.length > 0 && trimmedLine.charAt(1).toUpperCase() === 'O';
+    const orGroup = startsOrGroup ? lastGroup + 1 : lastGroup;
+
+    return [...condition, ...parseDdsIndicators(trimmedLine.substring(2, 11), orGroup)]
+        .sort((a, b) => (a.orGroup ?? 0) - (b.orGroup ?? 0) || a.number - b.number);
+};
+
 /**
  * Extracts common components from a DDS line
  * @param trimmedLine - Line with sequence number area removed
+ * @param precedingCondition - Condition accumulated from indicator-only lines right above this one
+ * @param conditionLineIndex - First of those indicator-only lines, if any
  * @returns Object containing parsed line components
  */
-function extractLineComponents(trimmedLine: string) {
+function extractLineComponents(trimmedLine: string, precedingCondition: DdsIndicator[] = [], conditionLineIndex?: number) {
     const conditionZone = trimmedLine.substring(2, 11);
     // The same zone that normally holds up to 3 indicators can instead hold a display format
     // name (e.g. "*DS3"), conditioning the line to only apply under that DSPSIZ format.
     const displayFormat = parseDisplayFormatCondition(conditionZone);
-    const indicators = displayFormat ? [] : parseDdsIndicators(conditionZone);
+    const indicators = displayFormat ? [...precedingCondition] : appendConditionLine(precedingCondition, trimmedLine);
     const fieldName = trimmedLine.substring(13, 23).trim();
     const rowText = trimmedLine.substring(33, 36).trim();
     const colText = trimmedLine.substring(36, 39).trim();
@@ -188,7 +252,7 @@ function extractLineComponents(trimmedLine: string) {
     const colRelative = colText.startsWith('+');
     const col = colText ? Number(colText) : undefined;
 
-    return { indicators, fieldName, row, col, colRelative, displayFormat };
+    return { indicators, fieldName, row, col, colRelative, displayFormat, conditionLineIndex };
 };
 
 /**
@@ -274,9 +338,9 @@ function parseRecordElement(
     // notation is only relative to a preceding field/constant within the same record.
     lastPositionInRecord = undefined;
 
-    // Update global state
-    records.push(name);
-    fieldsPerRecords.push({
+    // Update the document model
+    parsingModel.records.push(name);
+    parsingModel.fieldsPerRecords.push({
         record: name,
         attributes: attributes,
         fields: [],
@@ -378,7 +442,7 @@ function parseFieldElement(
     const refTarget = isReferenced ? parseReffldTarget(attributes, components.fieldName) : undefined;
 
     // Check if the current record (lastRecord) is a subfile by looking at its attributes
-    const currentRecordEntry = fieldsPerRecords.find(r => r.record === lastRecord);
+    const currentRecordEntry = parsingModel.fieldsPerRecords.find(r => r.record === lastRecord);
     const isSubfile = currentRecordEntry ? isSubfileRecord(currentRecordEntry.attributes) : false;
 
     // Resolve DDS relative record format ("+n" position, blank line) against the preceding
@@ -410,6 +474,7 @@ function parseFieldElement(
         type: type,
         length: length,
         decimals: decimals,
+        decimalsCoded: trimmedLine.substring(30, 32).trim() !== '',
         usage: usage,
         row: isHidden ? undefined : finalRow,
         column: isHidden ? undefined : finalCol,
@@ -417,6 +482,7 @@ function parseFieldElement(
         referenced: isReferenced,
         refTarget: refTarget,
         lineIndex: lineIndex,
+        conditionLineIndex: components.conditionLineIndex,
         recordname: lastRecord,
         attributes: attributes || [],
         indicators: components.indicators || undefined,
@@ -447,7 +513,7 @@ function parseConstantElement(
     const { attributes, nextIndex } = extractAttributes('C', lines, lastLineIndex, true, components.indicators, components.displayFormat);
 
     // Check if the current record (lastRecord) is a subfile by looking at its attributes
-    const currentRecordEntry = fieldsPerRecords.find(r => r.record === lastRecord);
+    const currentRecordEntry = parsingModel.fieldsPerRecords.find(r => r.record === lastRecord);
     const isSubfile = currentRecordEntry ? isSubfileRecord(currentRecordEntry.attributes) : false;
 
     // Resolve DDS relative record format ("+n" position, blank line) against the preceding
@@ -481,6 +547,7 @@ function parseConstantElement(
         column: finalCol ?? 0,
         lineIndex: lineIndex,
         lastLineIndex: lastLineIndex,
+        conditionLineIndex: components.conditionLineIndex,
         recordname: lastRecord,
         attributes: attributes || [],
         indicators: components.indicators,
@@ -546,7 +613,7 @@ function parseAttributeElement(
     components: any,
     lastRecord: string
 ) {
-    const { attributes, nextIndex } = extractAttributes('A', lines, lineIndex, true, components.indicators, components.displayFormat);
+    const { attributes, nextIndex } = extractAttributes('A', lines, lineIndex, true, components.indicators, components.displayFormat, components.conditionLineIndex);
 
     if (attributes.length > 0) {
         const maxLastLineIndex = attributes.reduce(
@@ -557,6 +624,7 @@ function parseAttributeElement(
             kind: 'attribute' as const,
             lineIndex: lineIndex,
             lastLineIndex: maxLastLineIndex,
+            conditionLineIndex: components.conditionLineIndex,
             value: '',
             indicators: components.indicators,
             displayFormat: components.displayFormat,
@@ -571,9 +639,10 @@ function parseAttributeElement(
 /**
  * Parses indicator specifications from a DDS line segment
  * @param input - 9-character string containing indicator specifications
+ * @param orGroup - OR group the parsed indicators belong to, when part of a multi-line condition
  * @returns Array of parsed indicator objects
  */
-export function parseDdsIndicators(input: string): DdsIndicator[] {
+export function parseDdsIndicators(input: string, orGroup: number = 0): DdsIndicator[] {
     const indicators: DdsIndicator[] = [];
 
     // Process 3 indicator positions (3 characters each)
@@ -586,7 +655,8 @@ export function parseDdsIndicators(input: string): DdsIndicator[] {
 
         indicators.push({
             active: activeChar !== 'N',
-            number: parseInt(numberStr, 10)
+            number: parseInt(numberStr, 10),
+            ...(orGroup > 0 ? { orGroup } : {})
         });
     };
 
@@ -616,6 +686,8 @@ export function parseDisplayFormatCondition(input: string): string | undefined {
  * @param startIndex - Starting line index
  * @param includeIndicators - Whether to include indicator information
  * @param indicators - Indicator objects to associate with attributes
+ * @param displayFormat - Display format conditioning the attributes, if any
+ * @param conditionLineIndex - First indicator-only line conditioning a keyword-only line, if any
  * @returns Extracted attributes and next line index
  */
 function extractAttributes(
@@ -624,7 +696,8 @@ function extractAttributes(
     startIndex: number,
     includeIndicators: boolean,
     indicators?: DdsIndicator[],
-    displayFormat?: string
+    displayFormat?: string,
+    conditionLineIndex?: number
 ): { attributes: DdsAttribute[]; nextIndex: number } {
 
     let rawAttributeText = '';
@@ -661,6 +734,7 @@ function extractAttributes(
         kind: 'attribute',
         lineIndex: startIndex,
         lastLineIndex: currentIndex,
+        ...(conditionLineIndex !== undefined ? { conditionLineIndex } : {}),
         value: lineType === 'C' ? '' : rawAttributeText,
         indicators: includeIndicators && indicators ? indicators : [],
         displayFormat: includeIndicators ? displayFormat : undefined
@@ -719,7 +793,7 @@ function linkAttributesToParents(ddsElements: DdsElement[]): void {
 };
 
 /**
- * Links field and constant elements to their parent records in the global structure
+ * Links field and constant elements to their parent records in the document model
  * @param ddsElements - Array of all parsed DDS elements
  */
 function linkFieldsAndConstantsToRecords(ddsElements: DdsElement[]): void {
@@ -741,7 +815,7 @@ function linkFieldsAndConstantsToRecords(ddsElements: DdsElement[]): void {
         };
 
         if ((element.kind === 'field' || element.kind === 'constant') && currentRecord) {
-            const recordEntry = fieldsPerRecords.find(r => r.record === currentRecord!.name);
+            const recordEntry = parsingModel.fieldsPerRecords.find(r => r.record === currentRecord!.name);
 
             if (recordEntry) {
                 if (element.kind === 'field') {
@@ -782,6 +856,7 @@ function addFieldToRecord(field: any, recordEntry: any, seenFieldNames: Set<stri
             indicators: attr.indicators || [],
             lineIndex: attr.lineIndex,
             lastLineIndex: attr.lastLineIndex ?? attr.lineIndex,
+            conditionLineIndex: attr.conditionLineIndex,
             displayFormat: attr.displayFormat
         })).filter((attr: any) => attr.value) || [];
 
@@ -798,6 +873,7 @@ function addFieldToRecord(field: any, recordEntry: any, seenFieldNames: Set<stri
             indicators: field.indicators || [],
             lineIndex: field.lineIndex,
             lastLineIndex: field.lastLineIndex || field.lineIndex,
+            conditionLineIndex: field.conditionLineIndex,
             displayFormat: field.displayFormat
         });
     }
@@ -831,6 +907,7 @@ function addConstantToRecord(constant: any, recordEntry: any, seenLineIndexes: S
         indicators: attr.indicators || [],
         lineIndex: attr.lineIndex,
         lastLineIndex: attr.lastLineIndex ?? attr.lineIndex,
+        conditionLineIndex: attr.conditionLineIndex,
         displayFormat: attr.displayFormat
     })).filter((attr: any) => attr.value) || [];
 
@@ -850,6 +927,7 @@ function addConstantToRecord(constant: any, recordEntry: any, seenLineIndexes: S
             indicators: constant.indicators || [],
             lineIndex: constant.lineIndex,
             lastLineIndex: constant.lastLineIndex,
+            conditionLineIndex: constant.conditionLineIndex,
             displayFormat: constant.displayFormat
         });
     };
@@ -872,7 +950,7 @@ function processFileAttributes(file: DdsFile, ddsElements: DdsElement[]): void {
         children: []
     });
     // Add file-level attributes to structure
-    attributesFileLevel.push(...file.attributes);
+    parsingModel.attributesFileLevel.push(...file.attributes);
 
     // Process DSPSIZ attribute for screen size information
 processDspsizAttribute(file.attributes);
@@ -960,15 +1038,16 @@ function processDspsizAttribute(attributes: DdsAttribute[]): void {
         return;
     };
 
-    // Update global file size attributes
+    // Update the model's file size attributes
     updateFileSizeAttributes(screenSizes);
 };
 
 /**
- * Updates global file size attributes based on parsed screen sizes
+ * Updates the model's file size attributes based on parsed screen sizes
  * @param sizes - Array of parsed screen size objects
  */
 function updateFileSizeAttributes(sizes: Array<{ row: number; col: number; name: string }>): void {
+    const fileSizeAttributes = parsingModel.fileSizeAttributes;
     fileSizeAttributes.numDsply = sizes.length;
 
     if (sizes[0]) {
@@ -994,6 +1073,7 @@ function updateFileSizeAttributes(sizes: Array<{ row: number; col: number; name:
  * Sets default screen size to 24x80 when DSPSIZ is not found or malformed
  */
 function setDefaultScreenSize(): void {
+    const fileSizeAttributes = parsingModel.fileSizeAttributes;
     fileSizeAttributes.numDsply = 1;
     fileSizeAttributes.maxRow1 = 24;
     fileSizeAttributes.maxCol1 = 80;
@@ -1020,10 +1100,10 @@ function processRecordSizes(ddsElements: DdsElement[]): void {
     const sizeByRecord = computeSizeByRecord(recordElements);
 
     for (const record of recordElements) {
-        record.size = sizeByRecord.get(record.name) ?? getDefaultSize();
+        record.size = sizeByRecord.get(record.name) ?? getDefaultSize(parsingModel);
 
         // Also update the fieldsPerRecords structure for easy access
-        const recordEntry = fieldsPerRecords.find(r => r.record === record.name);
+        const recordEntry = parsingModel.fieldsPerRecords.find(r => r.record === record.name);
         if (recordEntry) {
             recordEntry.size = record.size;
         };
@@ -1079,13 +1159,14 @@ function computeSizeByRecord(recordElements: DdsRecord[], activeFormat?: string)
  * the user switches display format (*DS3/*DS4), without needing a re-parse — some records
  * (typically a subfile's SFLCTL, or a window that reuses another record's WINDOW) declare a
  * different WINDOW() for each format, one line per format, conditioned on that format's name.
+ * @param model - The parsed model of the document the record belongs to
  * @param recordName - Name of the record to resolve
  * @param activeFormat - Selected display format name (e.g. "*DS3")
  */
-export function resolveRecordSizeForFormat(recordName: string, activeFormat: string): DdsSize {
-    const recordElements = currentDdsElements.filter(el => el.kind === 'record') as DdsRecord[];
+export function resolveRecordSizeForFormat(model: DdsDocumentModel, recordName: string, activeFormat: string): DdsSize {
+    const recordElements = model.elements.filter(el => el.kind === 'record') as DdsRecord[];
     const sizeByRecord = computeSizeByRecord(recordElements, activeFormat);
-    return sizeByRecord.get(recordName) ?? getSizeForFormat(activeFormat) ?? getDefaultSize();
+    return sizeByRecord.get(recordName) ?? getSizeForFormat(model, activeFormat) ?? getDefaultSize(model);
 };
 
 /**
@@ -1200,7 +1281,7 @@ function extractWindowSize(attributes?: DdsAttribute[], activeFormat?: string):
  * @returns Array of all parsed DDS elements
  */
 export function getAllDdsElements(text: string): DdsElement[] {
-    return parseDocument(text);
+    return parseDocument(text).elements;
 };
 
 /**
@@ -1220,7 +1301,7 @@ function assignRecordEndIndices(ddsElements: DdsElement[], totalLines: number):
 
         rec.endIndex = endIdx;
 
-        const entry = fieldsPerRecords.find(r => r.record === rec.name);
+        const entry = parsingModel.fieldsPerRecords.find(r => r.record === rec.name);
         if (entry) entry.endIndex = endIdx;
     };
 };
@@ -1233,7 +1314,7 @@ function syncRecordAttributes(ddsElements: DdsElement[]): void {
     const recs = ddsElements.filter(el => el.kind === 'record') as DdsRecord[];
 
     for (const rec of recs) {
-        const entry = fieldsPerRecords.find(r => r.record === rec.name);
+        const entry = parsingModel.fieldsPerRecords.find(r => r.record === rec.name);
         if (entry) {
             entry.attributes = rec.attributes;
         };
@@ -0,0 +1,419 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.completion-provider.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsDocumentModel, FieldsPerRecord, FieldInfo, ConstantInfo } from '../dspf-edit.model/dspf-edit.model';
+import { findEnclosingKeywordName, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsKeyword, KeywordLevel, getAllKeywords, getKeyword } from '../dspf-edit.keywords/dspf-edit.keywords';
+import { findRecordKeyword, getElementAreaSize, getPlacedElements, getScreenWidth } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { FIELD_TYPES, FIELD_USAGE_TYPES } from '../dspf-edit.commands/dspf-edit.edit-field';
+import { IndicatorUsage, collectIndicatorUsages } from './dspf-edit.indicator-provider';
+
+/** Columns (0-based, on the raw line) of the fixed-format areas. */
+const INDICATOR_START = 6;
+const INDICATOR_END = 16;
+const NAME_START = 18;
+const NAME_END = 28;
+const TYPE_COLUMN = 34;
+const USAGE_COLUMN = 37;
+const POSITION_START = 38;
+const POSITION_END = 44;
+const KEYWORD_START = 44;
+
+/** Field types whose values are numeric, so they can be edited with EDTCDE/EDTWRD/EDTMSK. */
+const NUMERIC_TYPES = ['Y', 'S', 'N', 'F', 'P', 'B', 'I'];
+
+/** Keywords that only make sense on a named field: a constant can't be validated, edited or referenced. */
+const NAMED_FIELD_ONLY = new Set([
+    'BLANKS', 'CHANGE', 'CHECK', 'CHKMSGID', 'CMP', 'COMP', 'CNTFLD', 'DATFMT', 'DATSEP', 'DUP',
+    'EDTCDE', 'EDTMSK', 'EDTWRD', 'ERRMSG', 'ERRMSGID', 'MAPVAL', 'RANGE', 'REFFLD', 'TIMFMT',
+    'TIMSEP', 'VALNUM', 'VALUES'
+]);
+
+/** Where a completion was requested: which line-level element owns the line. */
+interface LineContext {
+    level: KeywordLevel;
+    recordInfo?: FieldsPerRecord;
+    field?: FieldInfo;
+    constant?: ConstantInfo;
+};
+
+// REGISTRATION
+
+/**
+ * Registers the completion for the DDS source editor.
+ * @param context - The extension context
+ */
+export function registerCompletionProvider(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider({ language: 'dds.dspf' }, new DdsCompletionProvider(), '(')
+    );
+};
+
+// PROVIDER
+
+/**
+ * Suggests what fits the column the cursor is in: indicators already used in the file, field
+ * types and usages, the next free screen position, keywords valid for the element the line
+ * belongs to (as snippets with their parameter templates), and the predefined values of the
+ * keyword whose parentheses the cursor is in.
+ */
+export class DdsCompletionProvider implements vscode.CompletionItemProvider {
+
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+        const line = document.lineAt(position.line).text;
+
+        // Comment lines (column 7 = '*') take free text
+        if (line.length > 6 && line.charAt(6) === '*') {
+            return undefined;
+        };
+
+        const column = position.character;
+        if (column >= INDICATOR_START && column <= INDICATOR_END) {
+            return this.completeIndicatorArea(document, position, line);
+        };
+        // Names are new identifiers: nothing to suggest
+        if (column >= NAME_START && column < NAME_END) {
+            return undefined;
+        };
+        // Ctrl+Space on the column itself, or right after typing a letter into it
+        if (column === TYPE_COLUMN || (column === TYPE_COLUMN + 1 && /[A-Za-z]/.test(line.charAt(TYPE_COLUMN)))) {
+            return this.completeFieldType(position, line);
+        };
+        if (column === USAGE_COLUMN || (column === USAGE_COLUMN + 1 && /[A-Za-z]/.test(line.charAt(USAGE_COLUMN)))) {
+            return this.completeFieldUsage(position, line);
+        };
+        if (column >= POSITION_START && column < POSITION_END) {
+            return this.completePosition(document, position, line);
+        };
+        if (column >= KEYWORD_START) {
+            return this.completeKeywordArea(document, position, line);
+        };
+        return undefined;
+    };
+
+    /**
+     * Suggests the indicators already used in the file, for the indicator slot the cursor is in.
+     * @param document - The DDS document
+     * @param position - The cursor position (inside columns 7-16)
+     * @param line - Text of the line
+     */
+    private completeIndicatorArea(document: vscode.TextDocument, position: vscode.Position, line: string): vscode.CompletionItem[] {
+        // Three slots of N + 2 digits, in columns 8-10, 11-13 and 14-16
+        const slotStart = position.character <= 9 ? 7 : position.character <= 12 ? 10 : 13;
+        const range = fixedColumnRange(position.line, slotStart + 1, slotStart + 3, line);
+        return buildIndicatorItems(document, range, line);
+    };
+
+    /**
+     * Suggests the field data types (position 35).
+     * @param position - The cursor position
+     * @param line - Text of the line
+     */
+    private completeFieldType(position: vscode.Position, line: string): vscode.CompletionItem[] {
+        const range = fixedColumnRange(position.line, TYPE_COLUMN, TYPE_COLUMN + 1, line);
+        return Object.entries(FIELD_TYPES).map(([code, config], index) =>
+            buildFixedColumnItem(code, config.label, config.description, range, line, index, vscode.CompletionItemKind.TypeParameter)
+        );
+    };
+
+    /**
+     * Suggests the field usages (position 38).
+     * @param position - The cursor position
+     * @param line - Text of the line
+     */
+    private completeFieldUsage(position: vscode.Position, line: string): vscode.CompletionItem[] {
+        const range = fixedColumnRange(position.line, USAGE_COLUMN, USAGE_COLUMN + 1, line);
+        return Object.entries(FIELD_USAGE_TYPES).map(([code, config], index) =>
+            buildFixedColumnItem(code, `${code} - ${config.label}`, config.description, range, line, index, vscode.CompletionItemKind.EnumMember)
+        );
+    };
+
+    /**
+     * Suggests a screen position (columns 39-44) following the element defined before this line
+     * in the same record: right after it on the same row, or aligned with it on the row below.
+     * @param document - The DDS document
+     * @param position - The cursor position
+     * @param line - Text of the line
+     */
+    private completePosition(document: vscode.TextDocument, position: vscode.Position, line: string): vscode.CompletionItem[] | undefined {
+        const model = getDocumentModel(document);
+        const context = getLineContext(model, position.line);
+        if (!context.recordInfo) {
+            return undefined;
+        };
+
+        const previous = getPlacedElements(context.recordInfo)
+            .filter(placed => placed.element.lineIndex < position.line)
+            .sort((a, b) => b.element.lineIndex - a.element.lineIndex)[0];
+        if (!previous) {
+            return undefined;
+        };
+
+        const size = getElementAreaSize(model, context.recordInfo, previous.element);
+        const range = fixedColumnRange(position.line, POSITION_START, POSITION_END, line);
+        const items: vscode.CompletionItem[] = [];
+
+        // One blank column is left for the attribute byte between two elements
+        const nextCol = previous.col + getScreenWidth(previous) + 1;
+        if (nextCol <= size.cols) {
+            items.push(buildFixedColumnItem(formatPosition(previous.row, nextCol), `${previous.row} ${nextCol}`,
+                `After ${previous.element.name} on the same row`, range, line, 0, vscode.CompletionItemKind.Value));
+        };
+        if (previous.row < size.rows) {
+            items.push(buildFixedColumnItem(formatPosition(previous.row + 1, previous.col), `${previous.row + 1} ${previous.col}`,
+                `Below ${previous.element.name}`, range, line, 1, vscode.CompletionItemKind.Value));
+        };
+        return items;
+    };
+
+    /**
+     * Suggests keywords valid for the element the line belongs to or, inside a keyword's
+     * parentheses, that keyword's predefined values (or indicators, for a response indicator).
+     * @param document - The DDS document
+     * @param position - The cursor position (inside the keyword area)
+     * @param line - Text of the line
+     */
+    private completeKeywordArea(document: vscode.TextDocument, position: vscode.Position, line: string): vscode.CompletionItem[] | undefined {
+        // Inside a quoted literal (a constant's text, or a quoted parameter)
+        const quotesBefore = line.substring(KEYWORD_START, position.character).split("'").length - 1;
+        if (quotesBefore % 2 === 1) {
+            return undefined;
+        };
+
+        const matchedRange = document.getWordRangeAtPosition(position, /\*?[A-Za-z0-9]+/);
+        const range = matchedRange && matchedRange.start.character >= KEYWORD_START
+            ? matchedRange
+            : new vscode.Range(position.line, Math.max(matchedRange?.start.character ?? position.character, KEYWORD_START), position.line, matchedRange?.end.character ?? position.character);
+
+        const enclosingName = findEnclosingKeywordName(line, range.start.character);
+        if (enclosingName) {
+            const enclosing = getKeyword(enclosingName);
+            if (enclosing?.values) {
+                return enclosing.values.map((value, index) => {
+                    const item = new vscode.CompletionItem(value.value, vscode.CompletionItemKind.EnumMember);
+                    item.detail = value.description;
+                    item.range = range;
+                    item.sortText = String(index).padStart(3, '0');
+                    return item;
+                });
+            };
+            if (enclosing?.syntax?.includes('(response-indicator')) {
+                return buildIndicatorItems(document, range, line);
+            };
+            return undefined;
+        };
+
+        const context = getLineContext(getDocumentModel(document), position.line);
+        return getAllKeywords()
+            .filter(keyword => isKeywordOffered(keyword, context))
+            .map(keyword => buildKeywordItem(keyword, range));
+    };
+};
+
+// CONTEXT
+
+/**
+ * Finds what a line belongs to: the file (before the first record), a record (its own lines up
+ * to its first field or constant), or the field/constant defined on or above it.
+ * @param model - The parsed model of the document
+ * @param lineIndex - The line
+ */
+function getLineContext(model: DdsDocumentModel, lineIndex: number): LineContext {
+    const recordInfo = model.fieldsPerRecords.find(record => lineIndex >= record.startIndex && lineIndex <= record.endIndex);
+    if (!recordInfo) {
+        return { level: 'file' };
+    };
+
+    const owner = [
+        ...recordInfo.fields.map(field => ({ field, lineIndex: field.lineIndex })),
+        ...recordInfo.constants.map(constant => ({ constant, lineIndex: constant.lineIndex }))
+    ]
+        .filter(element => element.lineIndex <= lineIndex)
+        .sort((a, b) => b.lineIndex - a.lineIndex)[0];
+
+    if (!owner) {
+        return { level: 'record', recordInfo };
+    };
+    return { level: 'field', recordInfo, ...('field' in owner ? { field: owner.field } : { constant: owner.constant }) };
+};
+
+/**
+ * Checks whether a keyword can be coded where the completion was requested.
+ * @param keyword - The keyword
+ * @param context - The element the line belongs to
+ */
+function isKeywordOffered(keyword: DdsKeyword, context: LineContext): boolean {
+    if (!keyword.levels.includes(context.level)) {
+        return false;
+    };
+
+    const name = keyword.name;
+    const isSfl = context.recordInfo ? findRecordKeyword(context.recordInfo, 'SFL') !== undefined : false;
+    const isSflCtl = context.recordInfo ? findRecordKeyword(context.recordInfo, 'SFLCTL') !== undefined : false;
+
+    // A record is either the subfile or its control record; the other SFL* keywords belong to those
+    if (name === 'SFL') {
+        return !isSflCtl;
+    };
+    if (name === 'SFLCTL') {
+        return !isSfl;
+    };
+    if (name.startsWith('SFL') && !isSfl && !isSflCtl) {
+        return false;
+    };
+
+    if (context.constant) {
+        return !NAMED_FIELD_ONLY.has(name);
+    };
+    if (context.field) {
+        const type = (context.field.type ?? '').trim().toUpperCase();
+        if (name === 'EDTCDE' || name === 'EDTWRD' || name === 'EDTMSK') {
+            return isNumericField(context.field);
+        };
+        if (name === 'DATFMT' || name === 'DATSEP') {
+            return type === 'L' || (type === '' && context.field.referenced === true);
+        };
+        if (name === 'TIMFMT' || name === 'TIMSEP') {
+            return type === 'T' || (type === '' && context.field.referenced === true);
+        };
+    };
+    return true;
+};
+
+/**
+ * Checks if a field holds a number. A referenced field without an overriding type takes its type
+ * from the database, so it's given the benefit of the doubt.
+ * @param field - The field
+ */
+function isNumericField(field: FieldInfo): boolean {
+    const type = (field.type ?? '').trim().toUpperCase();
+    if (NUMERIC_TYPES.includes(type)) {
+        return true;
+    };
+    return type === '' && (field.referenced === true || (field.decimals ?? 0) > 0);
+};
+
+// ITEM BUILDERS
+
+/**
+ * Builds the completion of a keyword, as a snippet filling in its parameters: a choice of its
+ * predefined values, or placeholders for the required parameters of its syntax.
+ * @param keyword - The keyword
+ * @param range - Range the keyword replaces
+ */
+function buildKeywordItem(keyword: DdsKeyword, range: vscode.Range): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(keyword.name, vscode.CompletionItemKind.Keyword);
+    item.detail = keyword.syntax ?? keyword.name;
+    item.documentation = new vscode.MarkdownString(`${keyword.description}\n\n*Valid at:* ${keyword.levels.join(', ')} level`);
+    item.range = range;
+
+    // Optional parameters (NAME[(...)]) are left out; the keyword is complete without them
+    const parameters = keyword.syntax?.startsWith(`${keyword.name}(`)
+        ? keyword.syntax.substring(keyword.name.length + 1, keyword.syntax.lastIndexOf(')'))
+        : undefined;
+    // The required parameters are the ones before the first optional ([...]), alternative (|) or repeated (...) part
+    const parts = parameters?.split(/\s+/).filter(Boolean) ?? [];
+    const optionalIndex = parts.findIndex(part => part.startsWith('[') || part === '|' || part.startsWith('...'));
+    const required = optionalIndex === -1 ? parts : parts.slice(0, optionalIndex);
+    if (required.length === 0) {
+        return item;
+    };
+
+    const snippet = new vscode.SnippetString(`${keyword.name}(`);
+    if (keyword.values) {
+        snippet.appendChoice(keyword.values.map(value => value.value));
+    } else {
+        required.forEach((part, index) => {
+            const [, before, placeholder, after] = part.match(/^([^A-Za-z0-9*]*)(.*?)([^A-Za-z0-9*.]*)$/) ?? ['', '', part, ''];
+            snippet.appendText(`${index > 0 ? ' ' : ''}${before}`);
+            snippet.appendPlaceholder(placeholder);
+            snippet.appendText(after);
+        });
+    };
+    snippet.appendText(')');
+    item.insertText = snippet;
+    return item;
+};
+
+/**
+ * Builds the completions of the indicators used anywhere in the file, conditioning lines or
+ * set as response indicators (e.g. CF03(03)).
+ * @param document - The DDS document
+ * @param range - Range the indicator replaces
+ * @param line - Text of the line being completed
+ */
+function buildIndicatorItems(document: vscode.TextDocument, range: vscode.Range, line: string): vscode.CompletionItem[] {
+    const usages = new Map<number, IndicatorUsage[]>();
+    for (const usage of collectIndicatorUsages(getDocumentModel(document)).usages) {
+        usages.set(usage.indicator, [...(usages.get(usage.indicator) ?? []), usage]);
+    };
+
+    return [...usages.keys()].sort((a, b) => a - b).map(indicator => {
+        const text = String(indicator).padStart(2, '0');
+        const uses = usages.get(indicator)!;
+        const item = new vscode.CompletionItem(text, vscode.CompletionItemKind.Constant);
+        item.detail = `Indicator ${text}`;
+        item.documentation = uses.slice(0, 10).map(use => `Line ${use.lineIndex + 1}: ${use.description}`).join('\n')
+            + (uses.length > 10 ? '\n...' : '');
+        item.range = range;
+        item.filterText = line.substring(range.start.character, range.end.character) + text;
+        item.sortText = text;
+        return item;
+    });
+};
+
+/**
+ * Builds a completion that overwrites a fixed-format column, so the columns after it don't shift.
+ * @param text - Text written into the columns
+ * @param label - Label of the completion
+ * @param detail - Description of the completion
+ * @param range - The columns written to
+ * @param line - Text of the line
+ * @param order - Position of the completion in the list
+ * @param kind - Kind of completion
+ */
+function buildFixedColumnItem(
+    text: string,
+    label: string,
+    detail: string,
+    range: vscode.Range,
+    line: string,
+    order: number,
+    kind: vscode.CompletionItemKind
+): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(label, kind);
+    item.detail = detail;
+    // A line ending before the column is padded up to it
+    item.insertText = ' '.repeat(Math.max(range.start.character - line.length, 0)) + text;
+    item.range = new vscode.Range(range.start.line, Math.min(range.start.character, line.length), range.end.line, range.end.character);
+    // The columns replaced usually hold blanks or the old value, which would filter everything out
+    item.filterText = line.substring(range.start.character, range.end.character) + label;
+    item.sortText = String(order).padStart(3, '0');
+    return item;
+};
+
+// HELPERS
+
+/**
+ * Builds the range of a fixed-format area, clipped to the end of the line.
+ * @param lineIndex - The line
+ * @param start - First column (0-based) of the area
+ * @param end - Column (0-based) right after the area
+ * @param line - Text of the line
+ */
+function fixedColumnRange(lineIndex: number, start: number, end: number, line: string): vscode.Range {
+    return new vscode.Range(lineIndex, start, lineIndex, Math.max(Math.min(end, line.length), start));
+};
+
+/**
+ * Formats a screen position for columns 39-44 (row and column, right-aligned in 3 positions each).
+ * @param row - Row
+ * @param col - Column
+ */
+function formatPosition(row: number, col: number): string {
+    return String(row).padStart(3, ' ') + String(col).padStart(3, ' ');
+};
@@ -0,0 +1,244 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.hover-provider.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsField } from '../dspf-edit.model/dspf-edit.model';
+import { describeDdsField, findEnclosingKeywordName, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsKeyword, getKeyword, getKeywordValue } from '../dspf-edit.keywords/dspf-edit.keywords';
+import { MessageKeyword, describeMessageReference, getIBMiConnection, getResolvedMessage, parseMessageKeyword, resolveMessageText } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+/** Columns (0-based, on the raw line) of the name and keyword areas. */
+const NAME_START = 18;
+const NAME_END = 28;
+const KEYWORD_START = 44;
+const KEYWORD_END = 80;
+
+/** A keyword name or parameter value, e.g. SFLPAG, PR, *DS3. */
+const WORD_PATTERN = /\*?[A-Za-z0-9]+/;
+
+/** A keyword naming a message of a message file, with its parameters. */
+const MESSAGE_KEYWORD_PATTERN = /(MSGCON|ERRMSGID|SFLMSGID)\s*\([^)]*\)/gi;
+
+/** Readable field usages (position 38); a blank one is an output field, same as O. */
+const FIELD_USAGES: Record<string, string> = {
+    '': 'Output only',
+    B: 'Input/output',
+    I: 'Input only',
+    O: 'Output only',
+    H: 'Hidden',
+    M: 'Message',
+    P: 'Program-to-system'
+};
+
+// REGISTRATION
+
+/**
+ * Registers the hover for DDS keywords and field names.
+ * @param context - The extension context
+ */
+export function registerHoverProvider(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider({ language: 'dds.dspf' }, new DdsHoverProvider())
+    );
+};
+
+// PROVIDER
+
+/**
+ * Shows the keyword catalog's documentation when hovering a keyword (or one of its parameter
+ * values), and the parsed field definition when hovering a field name. A MSGCON, ERRMSGID or
+ * SFLMSGID keyword also shows its message's text, read from the message file when connected.
+ */
+export class DdsHoverProvider implements vscode.HoverProvider {
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const line = document.lineAt(position.line).text;
+
+        // Comment lines (column 7 = '*') have nothing to describe
+        if (line.length > 6 && line.charAt(6) === '*') {
+            return undefined;
+        };
+
+        if (position.character >= NAME_START && position.character < NAME_END) {
+            return this.hoverFieldDefinition(document, position);
+        };
+        if (position.character >= KEYWORD_START && position.character < KEYWORD_END) {
+            const hover = this.hoverKeywordArea(document, position, line);
+            const message = hover ? findMessageKeywordAt(line, position.character) : undefined;
+            return hover && message
+                ? new vscode.Hover([...hover.contents, await buildMessageMarkdown(document.uri.toString(), message)], hover.range)
+                : hover;
+        };
+        return undefined;
+    };
+
+    /**
+     * Describes the field defined on the hovered line.
+     * @param document - The DDS document
+     * @param position - The hovered position (inside the name area)
+     */
+    private hoverFieldDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const field = getDocumentModel(document).elements.find(el => el.kind === 'field' && el.lineIndex === position.line) as DdsField | undefined;
+        if (!field) {
+            return undefined;
+        };
+
+        const range = new vscode.Range(position.line, NAME_START, position.line, NAME_START + field.name.length);
+        return new vscode.Hover(buildFieldMarkdown(field), range);
+    };
+
+    /**
+     * Describes the keyword, keyword parameter value, or field name hovered in the keyword area.
+     * @param document - The DDS document
+     * @param position - The hovered position (inside the keyword area)
+     * @param line - Text of the hovered line
+     */
+    private hoverKeywordArea(document: vscode.TextDocument, position: vscode.Position, line: string): vscode.Hover | undefined {
+        const matchedRange = document.getWordRangeAtPosition(position, WORD_PATTERN);
+        if (!matchedRange) {
+            return undefined;
+        };
+        // A keyword in column 45 directly follows the position digits, which the pattern runs into
+        const wordRange = matchedRange.start.character < KEYWORD_START
+            ? new vscode.Range(position.line, KEYWORD_START, position.line, matchedRange.end.character)
+            : matchedRange;
+
+        // Inside a quoted literal (a constant's text, or a quoted parameter)
+        const quotesBefore = line.substring(KEYWORD_START, wordRange.start.character).split("'").length - 1;
+        if (quotesBefore % 2 === 1) {
+            return undefined;
+        };
+
+        const word = document.getText(wordRange).toUpperCase();
+        const enclosingName = findEnclosingKeywordName(line, wordRange.start.character);
+
+        // A parameter of a keyword: describe the keyword, pointing out the hovered value
+        if (enclosingName) {
+            const enclosing = getKeyword(enclosingName);
+            if (enclosing) {
+                return new vscode.Hover(buildKeywordMarkdown(enclosing, [word]), wordRange);
+            };
+            const field = findFieldByName(document, word);
+            return field ? new vscode.Hover(buildFieldMarkdown(field), wordRange) : undefined;
+        };
+
+        const keyword = getKeyword(word);
+        if (!keyword) {
+            return undefined;
+        };
+        return new vscode.Hover(buildKeywordMarkdown(keyword, getCodedParameters(line, wordRange.end.character)), wordRange);
+    };
+};
+
+// MARKDOWN BUILDERS
+
+/**
+ * Builds the hover text of a keyword: syntax, description, valid levels, and the descriptions of
+ * whichever of its predefined values are coded.
+ * @param keyword - The keyword
+ * @param codedValues - Parameter values coded with it (or the one hovered)
+ */
+function buildKeywordMarkdown(keyword: DdsKeyword, codedValues: string[]): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendCodeblock(keyword.syntax ?? keyword.name, 'dds.dspf');
+    markdown.appendMarkdown(`${keyword.description}\n\n`);
+    markdown.appendMarkdown(`*Valid at:* ${keyword.levels.join(', ')} level\n\n`);
+
+    const valueLines = codedValues
+        .map(value => getKeywordValue(keyword.name, value))
+        .filter(value => value !== undefined)
+        .map(value => `- \`${value!.value}\`: ${value!.description}`);
+    if (valueLines.length > 0) {
+        markdown.appendMarkdown(valueLines.join('\n'));
+    };
+
+    return markdown;
+};
+
+/**
+ * Builds the hover text of a field from its parsed definition.
+ * @param field - The field
+ */
+function buildFieldMarkdown(field: DdsField): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${field.name}** — field of record \`${field.recordname}\`\n\n`);
+    markdown.appendMarkdown(`\`${describeDdsField(field)}\``);
+    const usage = FIELD_USAGES[(field.usage || ' ').trim().toUpperCase()];
+    if (usage) {
+        markdown.appendMarkdown(` · ${usage}`);
+    };
+    return markdown;
+};
+
+/**
+ * Builds the hover text of a message named by a keyword: its text, read from the message file
+ * (and cached for the document) when there's a connection, or why it isn't shown.
+ * @param documentUri - The DDS document's URI (as a string), the message cache's key
+ * @param message - The keyword naming the message
+ */
+async function buildMessageMarkdown(documentUri: string, message: MessageKeyword): Promise<vscode.MarkdownString> {
+    let text = getResolvedMessage(documentUri, message.reference);
+    let problem: string | undefined;
+    if (text === undefined && getIBMiConnection()) {
+        try {
+            text = await resolveMessageText(documentUri, message.reference);
+        } catch (error) {
+            problem = error instanceof Error ? error.message : String(error);
+        };
+    };
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**Message** \`${describeMessageReference(message.reference)}\`\n\n`);
+    if (text) {
+        markdown.appendMarkdown('> ');
+        markdown.appendText(text);
+    } else if (problem) {
+        markdown.appendMarkdown(`*Could not read it:* `);
+        markdown.appendText(problem);
+    } else if (text === null) {
+        markdown.appendMarkdown('*Not found in the message file.*');
+    } else {
+        markdown.appendMarkdown('*Connect to an IBM i through Code for i to see its text; until then the preview shows a placeholder.*');
+    };
+    return markdown;
+};
+
+// LINE HELPERS
+
+/**
+ * Finds the MSGCON, ERRMSGID or SFLMSGID keyword coded at a column of a line.
+ * @param line - The line text
+ * @param character - The column (0-based)
+ */
+function findMessageKeywordAt(line: string, character: number): MessageKeyword | undefined {
+    for (const match of line.matchAll(MESSAGE_KEYWORD_PATTERN)) {
+        const start = match.index ?? 0;
+        if (character >= start && character < start + match[0].length) {
+            return parseMessageKeyword(match[0]);
+        };
+    };
+    return undefined;
+};
+
+/**
+ * Lists the parameter values coded right after a keyword on the same line (e.g. HI and PR in
+ * DSPATR(HI PR)).
+ * @param line - The line text
+ * @param keywordEnd - Column right after the keyword name
+ */
+function getCodedParameters(line: string, keywordEnd: number): string[] {
+    const parameters = line.substring(keywordEnd).match(/^\s*\(([^)]*)\)/);
+    return parameters ? parameters[1].trim().toUpperCase().split(/[\s()]+/).filter(Boolean) : [];
+};
+
+/**
+ * Finds a field of the document by name.
+ * @param document - The DDS document
+ * @param name - Field name
+ */
+function findFieldByName(document: vscode.TextDocument, name: string): DdsField | undefined {
+    return getDocumentModel(document).elements.find(el => el.kind === 'field' && el.name.toUpperCase() === name) as DdsField | undefined;
+};
@@ -0,0 +1,308 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.indicator-provider.ts
+*/
+
+import * as vscode from 'vscode';
+import { DdsDocumentModel, DdsElement, DdsIndicator } from '../dspf-edit.model/dspf-edit.model';
+import { getDocumentModel, isDdsFile } from '../dspf-edit.utils/dspf-edit.helper';
+import { splitKeywords } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { getKeyword } from '../dspf-edit.keywords/dspf-edit.keywords';
+
+// INTERFACES AND TYPES
+
+/** One place an indicator is used: conditioning a line, or set as a response indicator. */
+export interface IndicatorUsage {
+    indicator: number;
+    lineIndex: number;
+    role: 'condition' | 'response';
+    description: string;
+};
+
+/** Everything the indicator view shows about a document. */
+export interface IndicatorCrossReference {
+    usages: IndicatorUsage[];
+    /** Line of the file-level INDARA keyword, when the file keeps its indicators in a separate area. */
+    indaraLineIndex?: number;
+};
+
+/** Indicator numbers a display file can use. */
+const FIRST_INDICATOR = 1;
+const LAST_INDICATOR = 99;
+
+// REGISTRATION
+
+/**
+ * Creates the Indicators view, listing the indicators a DSPF source uses and the free ranges.
+ * @param context - The extension context
+ * @returns The view's provider, to be refreshed along with the DDS tree
+ */
+export function registerIndicatorView(context: vscode.ExtensionContext): DdsIndicatorTreeProvider {
+    const provider = new DdsIndicatorTreeProvider();
+    const treeView = vscode.window.createTreeView('dspf-edit.indicators-view', { treeDataProvider: provider });
+    provider.setTreeView(treeView);
+
+    context.subscriptions.push(
+        treeView,
+        vscode.commands.registerCommand('dspf-edit.copy-indicator', async (indicator: number) => {
+            const text = String(indicator).padStart(2, '0');
+            await vscode.env.clipboard.writeText(text);
+            vscode.window.showInformationMessage(`Indicator ${text} copied to the clipboard.`);
+        })
+    );
+    return provider;
+};
+
+// PROVIDER
+
+/**
+ * Lists every indicator (01-99) used in the current DSPF source, each with the places it's used,
+ * and between them the ranges no line uses — highlighted, so a free one is easy to pick.
+ */
+export class DdsIndicatorTreeProvider implements vscode.TreeDataProvider<IndicatorNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<IndicatorNode | undefined | void> = new vscode.EventEmitter<IndicatorNode | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<IndicatorNode | undefined | void> = this._onDidChangeTreeData.event;
+
+    private crossReference: IndicatorCrossReference | undefined;
+    private treeView?: vscode.TreeView<IndicatorNode>;
+
+    /**
+     * Sets the view's TreeView, to show a message when there's no DSPF source.
+     * @param treeView - The TreeView showing this provider
+     */
+    setTreeView(treeView: vscode.TreeView<IndicatorNode>): void {
+        this.treeView = treeView;
+    };
+
+    /**
+     * Shows the indicators of a document, or empties the view.
+     * @param document - The DDS document shown in the DDS tree, if any
+     */
+    setDocument(document: vscode.TextDocument | undefined): void {
+        this.crossReference = document && isDdsFile(document)
+            ? collectIndicatorUsages(getDocumentModel(document))
+            : undefined;
+        if (this.treeView) {
+            this.treeView.message = this.crossReference ? undefined : 'Open a DSPF source to see its indicators.';
+        };
+        this._onDidChangeTreeData.fire();
+    };
+
+    getTreeItem(element: IndicatorNode): vscode.TreeItem {
+        return element;
+    };
+
+    getChildren(element?: IndicatorNode): IndicatorNode[] {
+        if (!this.crossReference) {
+            return [];
+        };
+        if (element) {
+            return element.usages.map(usage => IndicatorNode.forUsage(usage));
+        };
+
+        const nodes: IndicatorNode[] = [];
+        if (this.crossReference.indaraLineIndex !== undefined) {
+            nodes.push(IndicatorNode.forIndara(this.crossReference.indaraLineIndex));
+        };
+
+        const byIndicator = new Map<number, IndicatorUsage[]>();
+        for (const usage of this.crossReference.usages) {
+            byIndicator.set(usage.indicator, [...(byIndicator.get(usage.indicator) ?? []), usage]);
+        };
+
+        let freeStart: number | undefined;
+        for (let indicator = FIRST_INDICATOR; indicator <= LAST_INDICATOR + 1; indicator++) {
+            const usages = byIndicator.get(indicator);
+            if (!usages && indicator <= LAST_INDICATOR) {
+                freeStart ??= indicator;
+                continue;
+            };
+            if (freeStart !== undefined) {
+                nodes.push(IndicatorNode.forFreeRange(freeStart, indicator - 1));
+                freeStart = undefined;
+            };
+            if (usages) {
+                nodes.push(IndicatorNode.forIndicator(indicator, usages));
+            };
+        };
+        return nodes;
+    };
+};
+
+/**
+ * A node of the Indicators view: a used indicator, one of its usages, a free range, or the INDARA note.
+ */
+export class IndicatorNode extends vscode.TreeItem {
+
+    private constructor(label: string, collapsibleState: vscode.TreeItemCollapsibleState, public readonly usages: IndicatorUsage[] = []) {
+        super(label, collapsibleState);
+    };
+
+    /**
+     * Builds the node of a used indicator.
+     * @param indicator - The indicator number
+     * @param usages - Where it's used
+     */
+    static forIndicator(indicator: number, usages: IndicatorUsage[]): IndicatorNode {
+        const node = new IndicatorNode(formatIndicator(indicator), vscode.TreeItemCollapsibleState.Collapsed, usages);
+        const responses = usages.filter(usage => usage.role === 'response').length;
+        node.description = `${usages.length} use${usages.length === 1 ? '' : 's'}${responses > 0 ? ` · ${responses} as response` : ''}`;
+        node.iconPath = new vscode.ThemeIcon('symbol-boolean');
+        node.contextValue = 'indicator';
+        return node;
+    };
+
+    /**
+     * Builds the node of one usage, jumping to its line.
+     * @param usage - The usage
+     */
+    static forUsage(usage: IndicatorUsage): IndicatorNode {
+        const node = new IndicatorNode(usage.description, vscode.TreeItemCollapsibleState.None);
+        node.description = `line ${usage.lineIndex + 1}`;
+        node.iconPath = new vscode.ThemeIcon(usage.role === 'response' ? 'reply' : 'filter');
+        node.command = { command: 'ddsEdit.goToLine', title: 'Go to line', arguments: [usage.lineIndex + 1] };
+        node.contextValue = 'indicatorUsage';
+        return node;
+    };
+
+    /**
+     * Builds the node of a range of indicators no line uses; clicking it copies the first one.
+     * @param first - First free indicator
+     * @param last - Last free indicator
+     */
+    static forFreeRange(first: number, last: number): IndicatorNode {
+        const label = first === last ? formatIndicator(first) : `${formatIndicator(first)}–${formatIndicator(last)}`;
+        const node = new IndicatorNode(label, vscode.TreeItemCollapsibleState.None);
+        node.description = 'free';
+        node.tooltip = `Not used in this file. Click to copy ${formatIndicator(first)}.`;
+        node.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green'));
+        node.command = { command: 'dspf-edit.copy-indicator', title: 'Copy indicator', arguments: [first] };
+        node.contextValue = 'indicatorFree';
+        return node;
+    };
+
+    /**
+     * Builds the node noting that the file uses INDARA.
+     * @param lineIndex - Line of the INDARA keyword
+     */
+    static forIndara(lineIndex: number): IndicatorNode {
+        const node = new IndicatorNode('INDARA', vscode.TreeItemCollapsibleState.None);
+        node.description = 'indicators in a separate indicator area';
+        node.tooltip = 'The file passes its indicators in a separate indicator area, not in the record buffers.';
+        node.iconPath = new vscode.ThemeIcon('info');
+        node.command = { command: 'ddsEdit.goToLine', title: 'Go to line', arguments: [lineIndex + 1] };
+        node.contextValue = 'indara';
+        return node;
+    };
+};
+
+// CROSS-REFERENCE
+
+/**
+ * Collects where each indicator is used in a document: conditioning records, fields, constants
+ * and keywords (SFLDSP, SFLCLR, SFLEND, DSPATR...), and as the response indicator of keywords
+ * like CA/CF keys or ERRMSG.
+ * @param model - The parsed model of the document
+ * @returns The usages, in source order
+ */
+export function collectIndicatorUsages(model: DdsDocumentModel): IndicatorCrossReference {
+    const usages: IndicatorUsage[] = [];
+    let indaraLineIndex: number | undefined;
+
+    const addConditions = (indicators: DdsIndicator[] | undefined, lineIndex: number, what: string) => {
+        for (const indicator of indicators ?? []) {
+            usages.push({
+                indicator: indicator.number,
+                lineIndex,
+                role: 'condition',
+                description: `Conditions ${what}${indicator.active ? '' : ' (when off)'}`
+            });
+        };
+    };
+
+    for (const element of model.elements) {
+        if (element.kind !== 'file' && element.kind !== 'record' && element.kind !== 'field' && element.kind !== 'constant') {
+            continue;
+        };
+        const owner = describeOwner(element);
+        if (element.kind !== 'file') {
+            addConditions(element.indicators, element.lineIndex, owner);
+        };
+
+        for (const attribute of element.attributes ?? []) {
+            const keywords = splitKeywords(attribute.value).keywords;
+            const names = keywords.map(keyword => keyword.match(/^[A-Za-z][A-Za-z0-9]*/)?.[0]?.toUpperCase() ?? keyword);
+
+            // Keywords on the element's own line share its condition, already listed
+            if (attribute.lineIndex !== element.lineIndex) {
+                addConditions(attribute.indicators, attribute.lineIndex, `${names.join(' ')} on ${owner}`);
+            };
+
+            keywords.forEach((keyword, index) => {
+                if (names[index] === 'INDARA') {
+                    indaraLineIndex = attribute.lineIndex;
+                };
+                const response = findResponseIndicator(keyword);
+                if (response !== undefined) {
+                    usages.push({
+                        indicator: response.indicator,
+                        lineIndex: attribute.lineIndex,
+                        role: 'response',
+                        description: `Response indicator of ${names[index]} on ${owner}`
+                    });
+                };
+            });
+        };
+    };
+
+    usages.sort((a, b) => a.lineIndex - b.lineIndex);
+    return { usages, indaraLineIndex };
+};
+
+/**
+ * Finds the response indicator a keyword sets, if it takes one: its first parameter that is a
+ * two-digit number outside quotes (CF03(03 'Exit'), ERRMSG('Invalid' 40)).
+ * @param keyword - The keyword as coded
+ * @returns The indicator and its offset in the keyword text, or undefined
+ */
+export function findResponseIndicator(keyword: string): { indicator: number; offset: number } | undefined {
+    const name = keyword.match(/^[A-Za-z][A-Za-z0-9]*/)?.[0] ?? '';
+    if (!getKeyword(name.toUpperCase())?.syntax?.includes('response-indicator')) {
+        return undefined;
+    };
+    // Blank out quoted text, keeping the offsets
+    const parameters = keyword.substring(name.length).replace(/'[^']*'/g, quoted => ' '.repeat(quoted.length));
+    const match = parameters.match(/[\s(](\d{2})(?=[\s)])/);
+    if (!match || match.index === undefined) {
+        return undefined;
+    };
+    const indicator = Number(match[1]);
+    return indicator >= FIRST_INDICATOR && indicator <= LAST_INDICATOR
+        ? { indicator, offset: name.length + match.index + 1 }
+        : undefined;
+};
+
+// HELPERS
+
+/**
+ * Describes the element a usage belongs to, e.g. "field CUSNAM" or "record CTL01".
+ * @param element - The file, record, field or constant
+ */
+function describeOwner(element: DdsElement): string {
+    switch (element.kind) {
+        case 'file': return 'file level';
+        case 'record': return `record ${element.name}`;
+        case 'field': return `field ${element.name}`;
+        case 'constant': return `constant ${element.name.length > 20 ? element.name.substring(0, 20) + '…' : element.name}`;
+        default: return element.kind;
+    };
+};
+
+/**
+ * Formats an indicator number as it's coded (two digits).
+ * @param indicator - The indicator number
+ */
+function formatIndicator(indicator: number): string {
+    return String(indicator).padStart(2, '0');
+};
@@ -6,7 +6,7 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { DdsElement, DdsGroup } from '../dspf-edit.model/dspf-edit.model';
+import { DdsElement, DdsGroup, getIndicatorOrGroups } from '../dspf-edit.model/dspf-edit.model';
 import { describeDdsField, describeDdsConstant, describeDdsRecord, describeDdsFile, formatDdsIndicators } from '../dspf-edit.utils/dspf-edit.helper';
 import { ExtensionState } from '../dspf-edit.states/state';
 import { getResolvedRef, getPendingReferencedFields } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
@@ -673,10 +673,17 @@ export class DdsTreeProvider implements vscode.TreeDataProvider<DdsNode> {
 		return Promise.resolve(attrs.map(attr => new DdsNode(`⚙️ ${'value' in attr ? attr.value : 'Attribute'} `, vscode.TreeItemCollapsibleState.None, { ...attr, kind: 'fieldAttribute', lineIndex: attr.lineIndex ?? group.lineIndex, lastLineIndex: attr.lastLineIndex ?? group.lineIndex })));
 	}
 
+	/**
+	 * Return one node per indicator of the condition. The first indicator of every OR group after
+	 * the first one is prefixed with "OR", so groups read top to bottom as in the source.
+	 */
 	private getIndicatorsGroupChildren(element: DdsNode): Thenable<DdsNode[]> {
 		const group = element.ddsElement as DdsGroup;
-		const indis = group.indicators ?? [];
-		return Promise.resolve(indis.map(indi => new DdsNode(`${indi.number.toString().padStart(2, '0')}: ${indi.active ? 'ON' : 'OFF'}`, vscode.TreeItemCollapsibleState.None, { kind: 'indicatornode', indicator: indi, attributes: [], indicators: [], lineIndex: 0 })));
+		const orGroups = getIndicatorOrGroups(group.indicators);
+		return Promise.resolve(orGroups.flatMap((indis, groupIndex) => indis.map((indi, index) => {
+			const prefix = groupIndex > 0 && index === 0 ? 'OR ' : '';
+			return new DdsNode(`${prefix}${indi.number.toString().padStart(2, '0')}: ${indi.active ? 'ON' : 'OFF'}`, vscode.TreeItemCollapsibleState.None, { kind: 'indicatornode', indicator: indi, attributes: [], indicators: [], lineIndex: 0 });
+		})));
 	}
 
 	private getDefaultGroupChildren(element: DdsNode): Thenable<DdsNode[]> {
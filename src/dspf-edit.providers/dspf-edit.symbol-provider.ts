@@ -0,0 +1,237 @@
+/*
+    Christian Larsen, 2025
+    "RPG structure"
+    dspf-edit.symbol-provider.ts
+*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DdsElement, DdsRecord, DdsField, DdsConstant } from '../dspf-edit.model/dspf-edit.model';
+import { getAllDdsElements } from '../dspf-edit.parser/dspf-edit.parser';
+import { describeDdsField, describeDdsConstant, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
+
+/** DSPF sources in the workspace that aren't open in an editor. */
+const WORKSPACE_DSPF_GLOB = '**/*.{dspf,DSPF}';
+
+/** Column (0-based) where record and field names start. */
+const NAME_START = 18;
+
+/** Column (0-based) where a constant's text starts. */
+const KEYWORD_START = 44;
+
+/** Symbols of sources read from disk, reused until the file changes. */
+const workspaceSymbolCache: Map<string, { mtime: number; symbols: vscode.DocumentSymbol[] }> = new Map();
+
+// REGISTRATION
+
+/**
+ * Registers the document symbols (Outline, breadcrumbs, Go to Symbol) and the workspace symbols
+ * (Go to Symbol in Workspace) of DSPF sources.
+ * @param context - The extension context
+ */
+export function registerSymbolProviders(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider({ language: 'dds.dspf' }, new DdsDocumentSymbolProvider(), { label: 'DSPF' }),
+        vscode.languages.registerWorkspaceSymbolProvider(new DdsWorkspaceSymbolProvider())
+    );
+};
+
+// PROVIDERS
+
+/**
+ * Provides a DSPF source's structure: the file, its records, and their fields and constants.
+ */
+export class DdsDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const lines = document.getText().split(/\r?\n/);
+        return buildDocumentSymbols(getDocumentModel(document).elements, lines, path.basename(document.uri.path));
+    };
+};
+
+/**
+ * Provides the records and fields of every DSPF source in the workspace, plus those open in an
+ * editor (e.g. members opened from an IBM i connection, which aren't workspace files).
+ */
+export class DdsWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+
+    async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        const results: vscode.SymbolInformation[] = [];
+        const seen = new Set<string>();
+
+        const addSymbols = (uri: vscode.Uri, symbols: vscode.DocumentSymbol[], containerName: string) => {
+            for (const symbol of symbols) {
+                if (symbol.kind !== vscode.SymbolKind.Constant && matchesQuery(symbol.name, query)) {
+                    results.push(new vscode.SymbolInformation(symbol.name, symbol.kind, containerName, new vscode.Location(uri, symbol.selectionRange)));
+                };
+                addSymbols(uri, symbol.children, symbol.kind === vscode.SymbolKind.File ? path.basename(uri.path) : symbol.name);
+            };
+        };
+
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.languageId === 'dds.dspf') {
+                seen.add(document.uri.toString());
+                addSymbols(document.uri, new DdsDocumentSymbolProvider().provideDocumentSymbols(document), '');
+            };
+        };
+
+        const uris = await vscode.workspace.findFiles(WORKSPACE_DSPF_GLOB, '**/node_modules/**', undefined, token);
+        for (const uri of uris) {
+            if (token.isCancellationRequested) {
+                break;
+            };
+            if (seen.has(uri.toString())) {
+                continue;
+            };
+            seen.add(uri.toString());
+            addSymbols(uri, await getWorkspaceFileSymbols(uri), '');
+        };
+
+        return results;
+    };
+};
+
+// SYMBOL BUILDERS
+
+/**
+ * Builds the symbol tree of a DSPF source: the file, with its records, each with its fields and
+ * constants. Ranges cover an element's continuation and keyword lines, so the Outline and the
+ * breadcrumbs follow the cursor through them.
+ * @param elements - The parsed elements of the source
+ * @param lines - The source lines
+ * @param fileName - Name shown for the file symbol
+ */
+export function buildDocumentSymbols(elements: DdsElement[], lines: string[], fileName: string): vscode.DocumentSymbol[] {
+    if (lines.length === 0) {
+        return [];
+    };
+
+    const lastLine = lines.length - 1;
+    const lineRange = (start: number, end: number) =>
+        new vscode.Range(start, 0, Math.min(end, lastLine), lines[Math.min(end, lastLine)].length);
+
+    const fileRange = lineRange(0, lastLine);
+    const fileSymbol = new vscode.DocumentSymbol(fileName || 'DSPF', 'File', vscode.SymbolKind.File, fileRange, new vscode.Range(0, 0, 0, 0));
+
+    let recordSymbol: vscode.DocumentSymbol | undefined;
+    for (const element of elements) {
+        switch (element.kind) {
+            case 'record': {
+                const range = lineRange(element.lineIndex, element.endIndex ?? element.lineIndex);
+                recordSymbol = new vscode.DocumentSymbol(element.name, describeRecordKind(element), vscode.SymbolKind.Struct,
+                    range, nameRange(element.lineIndex, element.name, lines));
+                fileSymbol.children.push(recordSymbol);
+                break;
+            };
+
+            case 'field': {
+                if (!recordSymbol) {
+                    break;
+                };
+                const range = lineRange(element.conditionLineIndex ?? element.lineIndex, getLastLineIndex(element));
+                recordSymbol.children.push(new vscode.DocumentSymbol(element.name, describeDdsField(element), vscode.SymbolKind.Field,
+                    range, nameRange(element.lineIndex, element.name, lines)));
+                break;
+            };
+
+            case 'constant': {
+                if (!recordSymbol) {
+                    break;
+                };
+                const range = lineRange(element.conditionLineIndex ?? element.lineIndex, getLastLineIndex(element));
+                const textStart = Math.min(KEYWORD_START, lines[element.lineIndex].length);
+                const selectionRange = new vscode.Range(element.lineIndex, textStart, element.lineIndex, lines[element.lineIndex].length);
+                recordSymbol.children.push(new vscode.DocumentSymbol(element.name || '(constant)', describeDdsConstant(element), vscode.SymbolKind.Constant,
+                    range, selectionRange));
+                break;
+            };
+        };
+    };
+
+    return [fileSymbol];
+};
+
+/**
+ * Reads and parses a workspace DSPF source that isn't open, reusing its symbols while the file
+ * is unchanged.
+ * @param uri - The source's URI
+ */
+async function getWorkspaceFileSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[]> {
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        const cached = workspaceSymbolCache.get(uri.toString());
+        if (cached && cached.mtime === stat.mtime) {
+            return cached.symbols;
+        };
+
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        const symbols = buildDocumentSymbols(getAllDdsElements(text), text.split(/\r?\n/), path.basename(uri.path));
+        workspaceSymbolCache.set(uri.toString(), { mtime: stat.mtime, symbols });
+        return symbols;
+    } catch (error) {
+        console.error(`Error reading DSPF symbols from ${uri.toString()}:`, error);
+        return [];
+    };
+};
+
+// HELPERS
+
+/**
+ * Finds the last line of a field or constant: its last keyword or continuation line.
+ * @param element - The field or constant
+ */
+function getLastLineIndex(element: DdsField | DdsConstant): number {
+    const ownLast = element.kind === 'constant' ? element.lastLineIndex ?? element.lineIndex : element.lineIndex;
+    return (element.attributes ?? []).reduce(
+        (last, attribute) => Math.max(last, attribute.lastLineIndex ?? attribute.lineIndex),
+        ownLast
+    );
+};
+
+/**
+ * Builds the range of a record or field name (columns 19-28) on its line.
+ * @param lineIndex - The line
+ * @param name - The name
+ * @param lines - The source lines
+ */
+function nameRange(lineIndex: number, name: string, lines: string[]): vscode.Range {
+    const start = Math.min(NAME_START, lines[lineIndex].length);
+    return new vscode.Range(lineIndex, start, lineIndex, Math.min(start + name.length, lines[lineIndex].length));
+};
+
+/**
+ * Describes what kind of record a record is, from its keywords.
+ * @param record - The record
+ */
+function describeRecordKind(record: DdsRecord): string {
+    const keywords = (record.attributes ?? []).map(attribute => attribute.value.toUpperCase());
+    if (keywords.some(keyword => /(^|\s)SFL(\s|$)/.test(keyword))) {
+        return 'Subfile';
+    };
+    if (keywords.some(keyword => /(^|\s)SFLCTL\(/.test(keyword))) {
+        return 'Subfile control';
+    };
+    if (keywords.some(keyword => /(^|\s)WINDOW\(/.test(keyword))) {
+        return 'Window';
+    };
+    return 'Record';
+};
+
+/**
+ * Checks whether a symbol name matches a Go to Symbol query: the query's characters appear in it,
+ * in order. The editor does the actual ranking.
+ * @param name - Symbol name
+ * @param query - What was typed
+ */
+function matchesQuery(name: string, query: string): boolean {
+    const upperName = name.toUpperCase();
+    let position = 0;
+    for (const char of query.toUpperCase()) {
+        position = upperName.indexOf(char, position);
+        if (position === -1) {
+            return false;
+        };
+        position++;
+    };
+    return true;
+};
@@ -5,6 +5,7 @@
 */
 
 import * as vscode from 'vscode';
+import { DdsIndicatorTreeProvider } from '../dspf-edit.providers/dspf-edit.indicator-provider';
 
 export class ExtensionState {
 
@@ -12,6 +13,7 @@ export class ExtensionState {
     static lastDdsEditor: vscode.TextEditor | undefined;
     static updateTimeout: NodeJS.Timeout | undefined;
     static treeProvider: any;
+    static indicatorProvider: DdsIndicatorTreeProvider | undefined;
 
     static clearTimeout() {
         if (this.updateTimeout) {
@@ -7,11 +7,12 @@
 
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { DdsElement, DdsIndicator, DdsAttribute, records, FieldsPerRecord, ConstantInfo, FieldInfo, fieldsPerRecords } from '../dspf-edit.model/dspf-edit.model';
+import { DdsElement, DdsIndicator, DdsAttribute, FieldsPerRecord, ConstantInfo, FieldInfo, DdsDocumentModel, getIndicatorOrGroups, getCachedDocumentModel } from '../dspf-edit.model/dspf-edit.model';
 import { DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
 import { parseDocument } from '../dspf-edit.parser/dspf-edit.parser';
 import { ExtensionState } from '../dspf-edit.states/state';
-import { getResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { getResolvedRef, registerReferenceTargets } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { updateDiagnostics } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
 
 
 // FIELD DESCRIPTION FUNCTIONS
@@ -85,17 +86,18 @@ export function describeDdsFile(field: DdsElement): string {
 
 /**
  * Formats DDS indicators into a readable string representation.
+ * Each OR group is shown as its own bracketed list of ANDed indicators (e.g. "[ 01N02] OR [ 03]").
  * @param indicators - Array of DDS indicators to format
  * @returns A formatted string showing indicators with their active/inactive status
  */
 export function formatDdsIndicators(indicators?: DdsIndicator[]): string {
     if (!indicators || indicators.length === 0) return '';
 
-    const indicatorStr = `[${indicators.map(ind => {
+    const indicatorStr = getIndicatorOrGroups(indicators).map(group => `[${group.map(ind => {
         const status = ind.active ? ' ' : 'N';
         const number = ind.number.toString().padStart(2, '0');
         return `${status}${number}`;
-    }).join('')}]`;
+    }).join('')}]`).join(' OR ');
 
     return indicatorStr;
 };
@@ -156,6 +158,23 @@ export function isDdsFile(document: vscode.TextDocument): boolean {
 
 // UTILITY FUNCTIONS
 
+/**
+ * Gets the rows of the document's primary display size (the first DSPSIZ size, 24 without DSPSIZ).
+ * Screens must fit it: the secondary size is only used on displays that support it.
+ * @param model - The parsed model of the document
+ */
+export function getMaxRows(model: DdsDocumentModel): number {
+    return model.fileSizeAttributes.maxRow1 || 24;
+};
+
+/**
+ * Gets the columns of the document's primary display size (the first DSPSIZ size, 80 without DSPSIZ).
+ * @param model - The parsed model of the document
+ */
+export function getMaxCols(model: DdsDocumentModel): number {
+    return model.fileSizeAttributes.maxCol1 || 80;
+};
+
 /**
  * Parses a size string into length and decimal components.
  * @param newSize - Size string in format "length" or "length,decimals"
@@ -171,12 +190,41 @@ export function parseSize(newSize: string): { length: number, decimals: number }
 };
 
 /**
- * Checks if a record with the given name exists in the records array.
+ * Checks if a record with the given name exists in a document's records.
+ * @param model - The parsed model of the document to check
  * @param recordName - The name of the record to check
  * @returns True if the record exists (case-insensitive comparison)
  */
-export function recordExists(recordName: string): boolean {
-    return records.includes(recordName.toUpperCase());
+export function recordExists(model: DdsDocumentModel, recordName: string): boolean {
+    return model.records.includes(recordName.toUpperCase());
+};
+
+/**
+ * Finds the name of the keyword whose parentheses enclose a column of a DDS line, if any.
+ * @param line - The line text
+ * @param column - Column (0-based) to look from
+ * @returns The keyword name in uppercase, or undefined outside any keyword's parameters
+ */
+export function findEnclosingKeywordName(line: string, column: number): string | undefined {
+    const keywordStart = 44;
+    let depth = 0;
+    for (let i = column - 1; i >= keywordStart; i--) {
+        const char = line.charAt(i);
+        if (char === ')') {
+            depth++;
+        } else if (char === '(') {
+            if (depth > 0) {
+                depth--;
+                continue;
+            };
+            // A bare '(' opens a nested parameter group (e.g. WDWTITLE((*TEXT 'x'))): keep looking outward
+            const name = line.substring(keywordStart, i).match(/([A-Za-z][A-Za-z0-9]*)\s*$/);
+            if (name) {
+                return name[1].toUpperCase();
+            };
+        };
+    };
+    return undefined;
 };
 
 // OVERLAP DETECTION FUNCTIONS
@@ -221,19 +269,40 @@ export function findOverlapsInRecord(record: FieldsPerRecord) {
 // VS CODE INTEGRATION FUNCTIONS
 
 /**
- * Updates the DDS tree provider with parsed elements from the current document.
- * Handles errors gracefully by showing error messages and clearing the tree.
+ * Gets the parsed model of a DDS document: the cached one when it was parsed at the document's
+ * current version, otherwise a fresh parse (which replaces the cached one). Every command, the tree
+ * and the preview read the model of the document they act on through here.
+ * @param document - The DDS document
+ * @returns The document's up-to-date model
+ */
+export function getDocumentModel(document: vscode.TextDocument): DdsDocumentModel {
+    const uri = document.uri.toString();
+    const cached = getCachedDocumentModel(uri);
+    if (cached && cached.version === document.version) {
+        return cached;
+    };
+
+    const model = parseDocument(document.getText(), uri, document.version);
+    registerReferenceTargets(uri, model);
+    return model;
+};
+
+/**
+ * Updates the DDS tree provider with parsed elements from the current document, and republishes
+ * the document's diagnostics from the same parse. Handles errors gracefully by showing error messages and clearing the tree.
  * @param treeProvider - The DDS tree provider to update
  * @param document - Optional VS Code document to parse (uses active editor if not provided)
  */
 export function updateTreeProvider(treeProvider: DdsTreeProvider, document?: vscode.TextDocument) {
     try {
         if (document && isDdsFile(document)) {
-            const text = document.getText();
-            const elements = parseDocument(text);
-            treeProvider.setElements(elements);
+            const model = getDocumentModel(document);
+            treeProvider.setElements(model.elements);
+            updateDiagnostics(document, model);
+            ExtensionState.indicatorProvider?.setDocument(document);
         } else {
             treeProvider.setElements([]);
+            ExtensionState.indicatorProvider?.setDocument(undefined);
         };
         treeProvider.refresh();
     } catch (error) {
@@ -389,12 +458,13 @@ export function getElementRecordName(element: any): string {
 /**
  * Finds all elements in a record that have an attribute code.
  * This could be useful for reporting or bulk operations.
+ * @param model - The parsed model of the document the record belongs to
  * @param recordName - The name of the record
  * @param attributeCode - Attribute code
  * @returns Array of element names that have attributes
  */
-export function findElementsWithAttribute(recordName: string, attributeCode: string): string[] {
-    const recordInfo = fieldsPerRecords.find(r => r.record === recordName);
+export function findElementsWithAttribute(model: DdsDocumentModel, recordName: string, attributeCode: string): string[] {
+    const recordInfo = model.fieldsPerRecords.find(r => r.record === recordName);
     if (!recordInfo) return [];
 
     const elementsWithAttributes: string[] = [];
@@ -764,16 +834,18 @@ async function isReadOnlyFile(uri: vscode.Uri): Promise<boolean> {
  * forceReparse, etc.) when it's `false`.
  * @param workspaceEdit - The edit to apply
  * @param context - Short description of what was being done, used in the failure message (e.g. "add the field")
+ * @param previewed - Whether the edit's entries need confirmation in the Refactor Preview first; a
+ *    preview the user discards also comes back as `false`, which isn't a failure to report
  */
-export async function applyWorkspaceEdit(workspaceEdit: vscode.WorkspaceEdit, context: string): Promise<boolean> {
+export async function applyWorkspaceEdit(workspaceEdit: vscode.WorkspaceEdit, context: string, previewed: boolean = false): Promise<boolean> {
     const [uri] = workspaceEdit.entries()[0] ?? [];
     if (uri && (await isReadOnlyFile(uri))) {
         vscode.window.showErrorMessage(`Could not ${context} — the document is read-only.`);
         return false;
     };
 
-    const success = await vscode.workspace.applyEdit(workspaceEdit);
-    if (!success) {
+    const success = await vscode.workspace.applyEdit(workspaceEdit, previewed ? { isRefactoring: true } : undefined);
+    if (!success && !previewed) {
         vscode.window.showErrorMessage(`Could not ${context} — the document may be read-only.`);
     };
     return success;
@@ -0,0 +1,350 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.preview-export.ts
+*/
+
+import { ComposedScreen, ScreenOptions, PreviewItem, WindowFrame } from './dspf-edit.screen-composer';
+
+/**
+ * What the preview last rendered: the composed screen exactly as sent to the webview (so already
+ * filtered by the simulated indicators, the display format and the overlay), plus the settings
+ * it was rendered with, for the export's caption.
+ */
+export interface PreviewSnapshot extends ComposedScreen {
+    fileName: string;
+    overlayRecordName: string | null;
+    /** The indicators set on, when indicator simulation is enabled. */
+    activeIndicators: number[] | null;
+    /** The sample data file whose values the fields show, if any. */
+    sampleDataName: string | null;
+};
+
+/** Box-drawing characters of a window's border in the text rendering. */
+const BOX = { topLeft: '┌', topRight: '┐', bottomLeft: '└', bottomRight: '┘', horizontal: '─', vertical: '│' };
+
+/**
+ * Builds the snapshot of a composed screen.
+ * @param screen - The composed screen
+ * @param fileName - Name of the DDS source file
+ * @param options - What the screen was composed with
+ */
+export function toPreviewSnapshot(screen: ComposedScreen, fileName: string, options: ScreenOptions): PreviewSnapshot {
+    return {
+        ...screen,
+        fileName,
+        overlayRecordName: options.overlayRecordName ?? null,
+        activeIndicators: options.indicatorsEnabled ? [...(options.activeIndicators ?? [])] : null,
+        sampleDataName: options.sampleData?.source ?? null
+    };
+};
+
+// Cell size and colors mirror the webview's canvas (CHAR_W/CHAR_H and draw()), so an exported
+// image matches what the preview shows.
+const CHAR_W = 9;
+const CHAR_H = 18;
+const FONT_SIZE = CHAR_H - 4;
+const FONT_FAMILY = "Consolas, 'Courier New', monospace";
+const BACKGROUND_OPACITY = 0.45;
+const FRAME_COLOR = '#666666';
+
+/**
+ * Builds an SVG image of the preview, drawn cell by cell the way the webview's canvas draws it:
+ * the records behind a window dimmed and covered by its frame, the window's own records dimmed on
+ * top of it, then the previewed record, the error message line and the window title. Blinking
+ * items are drawn on; non-display ones aren't drawn.
+ * @param snapshot - What the preview last rendered
+ * @param withTooltips - Whether each field/constant carries a tooltip (its name and position), and
+ * an invisible box that highlights on hover
+ */
+export function buildPreviewSvg(snapshot: PreviewSnapshot, withTooltips: boolean = false): string {
+    const width = snapshot.size.cols * CHAR_W;
+    const height = snapshot.size.rows * CHAR_H;
+    const behindItems = snapshot.backgroundItems.filter(item => !item.sameWindow);
+    const sameWindowItems = snapshot.backgroundItems.filter(item => item.sameWindow);
+
+    const parts: string[] = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+        `font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" xml:space="preserve">`,
+        `<rect x="0" y="0" width="${width}" height="${height}" fill="#000000"/>`
+    ];
+
+    if (behindItems.length > 0) {
+        parts.push(`<g opacity="${BACKGROUND_OPACITY}">`, ...behindItems.map(item => svgItem(item, withTooltips)), '</g>');
+    };
+
+    const frame = snapshot.outerFrame;
+    if (frame) {
+        const { x, y, w, h } = frameRect(frame);
+        parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="#000000"/>`);
+        parts.push(`<rect x="${x + 0.5}" y="${y + 0.5}" width="${w - 1}" height="${h - 1}" fill="none" stroke="${FRAME_COLOR}"/>`);
+    };
+
+    if (sameWindowItems.length > 0) {
+        parts.push(`<g opacity="${BACKGROUND_OPACITY}">`, ...sameWindowItems.map(item => svgItem(item, withTooltips)), '</g>');
+    };
+
+    parts.push(...snapshot.items.map(item => svgItem(item, withTooltips)));
+
+    // An active ERRMSG() overwrites the display's bottom row, in white
+    if (snapshot.errorMessage) {
+        const y = (snapshot.size.rows - 1) * CHAR_H;
+        parts.push(`<rect x="0" y="${y}" width="${width}" height="${CHAR_H}" fill="#000000"/>`);
+        parts.push(svgText(snapshot.errorMessage.text.substring(0, snapshot.size.cols), 0, y, '#ffffff', false));
+    };
+
+    if (frame && snapshot.windowTitle) {
+        const { x, y, w, h } = frameRect(frame);
+        const title = snapshot.windowTitle;
+        const maxChars = Math.floor((w - 4) / CHAR_W);
+        const text = (' ' + title.text + ' ').substring(0, maxChars);
+        const textWidth = text.length * CHAR_W;
+        const titleX = title.align === 'LEFT' ? x + 2 : title.align === 'RIGHT' ? x + w - textWidth - 2 : x + (w - textWidth) / 2;
+        const titleY = title.position === 'BOTTOM' ? y + h - CHAR_H : y;
+        parts.push(`<rect x="${titleX}" y="${titleY}" width="${textWidth}" height="${CHAR_H}" fill="#000000"/>`);
+        parts.push(svgText(text, titleX, titleY, '#ffffff', false));
+    };
+
+    parts.push('</svg>');
+    return parts.filter(Boolean).join('\n');
+};
+
+/**
+ * Builds a standalone HTML page of the preview: a caption with the record, file and the settings
+ * it was rendered with, and the SVG image, where hovering a field or constant shows its name.
+ * @param snapshot - What the preview last rendered
+ */
+export function buildPreviewHtml(snapshot: PreviewSnapshot): string {
+    const caption = describeSnapshot(snapshot);
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="UTF-8">',
+        `<title>${escapeXml(`${snapshot.recordName} (${snapshot.fileName})`)}</title>`,
+        '<style>',
+        '    body { margin: 0; padding: 16px; background: #1e1e1e; color: #cccccc; font-family: sans-serif; font-size: 13px; }',
+        '    p { margin: 0 0 8px 0; }',
+        `    svg { border: 1px solid #333333; }`,
+        '    .item { cursor: default; }',
+        '    .item:hover .hit { stroke: #ffffff; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        `<p>${escapeXml(caption)}</p>`,
+        buildPreviewSvg(snapshot, true),
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+};
+
+/**
+ * Describes what an export shows: the record and file, the display format, the overlay and the
+ * simulated indicators, when any of them applies.
+ * @param snapshot - What the preview last rendered
+ */
+export function describeSnapshot(snapshot: PreviewSnapshot): string {
+    const parts = [`Record ${snapshot.recordName} of ${snapshot.fileName}`];
+    if (snapshot.activeDisplayFormat) {
+        parts.push(`${snapshot.activeDisplayFormat} (${snapshot.size.rows}x${snapshot.size.cols})`);
+    };
+    if (snapshot.overlayRecordName) {
+        parts.push(`over ${snapshot.overlayRecordName}`);
+    };
+    if (snapshot.activeIndicators) {
+        parts.push(snapshot.activeIndicators.length > 0
+            ? `indicators on: ${[...snapshot.activeIndicators].sort((a, b) => a - b).map(number => String(number).padStart(2, '0')).join(', ')}`
+            : 'all indicators off');
+    };
+    if (snapshot.sampleDataName) {
+        parts.push(`sample data from ${snapshot.sampleDataName}`);
+    };
+    return parts.join(' · ');
+};
+
+/**
+ * Renders the preview as a text grid the size of the display (24x80, 27x132...), layered the
+ * way the canvas is: the records behind a window, the window (its border drawn with box
+ * characters, its title on it), the window's own records, then the previewed record and the
+ * error message line. Constants show as their text, fields as their sample values or placeholder runs (O/B/I for
+ * alphanumeric output/both/input fields, 6/9/3 for numeric ones); non-display fields are left out.
+ * @param snapshot - What the preview last rendered
+ * @param withRulers - Whether to add a column ruler above the grid and row numbers on its left
+ */
+export function buildPreviewText(snapshot: PreviewSnapshot, withRulers: boolean): string {
+    const { rows, cols } = snapshot.size;
+    const grid: string[][] = Array.from({ length: rows }, () => Array<string>(cols).fill(' '));
+    const put = (row: number, col: number, text: string) => {
+        [...text].forEach((char, index) => {
+            if (row >= 1 && row <= rows && col + index >= 1 && col + index <= cols) {
+                grid[row - 1][col + index - 1] = char;
+            };
+        });
+    };
+    const putItem = (item: PreviewItem) => {
+        if (!item.nonDisplay) {
+            put(item.row, item.col, item.text.length > item.length ? item.text.substring(0, item.length) : item.text);
+        };
+    };
+
+    snapshot.backgroundItems.filter(item => !item.sameWindow).forEach(putItem);
+
+    const frame = snapshot.outerFrame;
+    if (frame) {
+        const lastRow = frame.row + frame.rows - 1;
+        const lastCol = frame.col + frame.cols - 1;
+        for (let row = frame.row; row <= lastRow; row++) {
+            const isEdge = row === frame.row || row === lastRow;
+            const inner = (isEdge ? BOX.horizontal : ' ').repeat(Math.max(frame.cols - 2, 0));
+            const [left, right] = row === frame.row ? [BOX.topLeft, BOX.topRight]
+                : row === lastRow ? [BOX.bottomLeft, BOX.bottomRight]
+                : [BOX.vertical, BOX.vertical];
+            put(row, frame.col, left + inner + right);
+        };
+        if (snapshot.windowTitle) {
+            const title = snapshot.windowTitle;
+            const text = (' ' + title.text + ' ').substring(0, Math.max(frame.cols - 2, 0));
+            const col = title.align === 'LEFT' ? frame.col + 1
+                : title.align === 'RIGHT' ? lastCol - text.length
+                : frame.col + Math.floor((frame.cols - text.length) / 2);
+            put(title.position === 'BOTTOM' ? lastRow : frame.row, col, text);
+        };
+    };
+
+    snapshot.backgroundItems.filter(item => item.sameWindow).forEach(putItem);
+    snapshot.items.forEach(putItem);
+
+    if (snapshot.errorMessage) {
+        put(rows, 1, snapshot.errorMessage.text.padEnd(cols, ' '));
+    };
+
+    const lines = grid.map(cells => cells.join('').trimEnd());
+    if (!withRulers) {
+        return lines.join('\n');
+    };
+
+    // An SEU-style ruler: a digit every 10 columns, a '+' halfway
+    const ruler = Array.from({ length: cols }, (_, index) => {
+        const col = index + 1;
+        return col % 10 === 0 ? String((col / 10) % 10) : col % 5 === 0 ? '+' : '.';
+    }).join('');
+    return [
+        '   ' + ruler,
+        ...lines.map((line, index) => `${String(index + 1).padStart(2, ' ')} ${line}`.trimEnd())
+    ].join('\n');
+};
+
+/**
+ * Builds a Markdown document of the preview's text rendering: a heading with the record and file,
+ * what it was rendered with, the grid in a fenced block, and what its placeholders stand for.
+ * @param snapshot - What the preview last rendered
+ * @param withRulers - Whether to add the row and column rulers
+ */
+export function buildPreviewMarkdown(snapshot: PreviewSnapshot, withRulers: boolean): string {
+    const text = buildPreviewText(snapshot, withRulers);
+    // The fence has to be longer than any run of backticks in a constant
+    const longestBackticks = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestBackticks + 1));
+    return [
+        `# ${snapshot.recordName} (${snapshot.fileName})`,
+        '',
+        snapshot.activeDisplayFormat ? describeSnapshot(snapshot) : `${describeSnapshot(snapshot)} · ${snapshot.size.rows}x${snapshot.size.cols}`,
+        '',
+        fence + 'text',
+        text,
+        fence,
+        '',
+        'Fields: `O`/`B`/`I` alphanumeric output/both/input, `6`/`9`/`3` numeric output/both/input.',
+        ''
+    ].join('\n');
+};
+
+// HELPERS
+
+/**
+ * Draws one field/constant, the way the webview's drawItem() does.
+ * @param item - The item
+ * @param withTooltip - Whether to add its tooltip and hover box
+ */
+function svgItem(item: PreviewItem, withTooltip: boolean): string {
+    if (item.nonDisplay) {
+        return '';
+    };
+
+    const x = (item.col - 1) * CHAR_W;
+    const y = (item.row - 1) * CHAR_H;
+    const w = Math.max(item.length, item.text.length, 1) * CHAR_W;
+    const text = item.text.length > item.length ? item.text.substring(0, item.length) : item.text;
+    const parts: string[] = [];
+
+    if (item.reverseImage) {
+        parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${CHAR_H}" fill="${item.color}"/>`);
+    };
+    parts.push(svgText(text, x, y, item.reverseImage ? '#000000' : item.color, item.highIntensity));
+
+    if (item.underline || item.isInputCapable) {
+        const lineY = y + CHAR_H - 2.5;
+        parts.push(`<line x1="${x}" y1="${lineY}" x2="${x + w}" y2="${lineY}" stroke="${item.reverseImage ? '#000000' : item.color}"/>`);
+    };
+    if (item.isReferenced) {
+        parts.push(`<rect x="${x + 0.5}" y="${y + 0.5}" width="${w - 1}" height="${CHAR_H - 1}" fill="none" stroke="${item.color}" stroke-dasharray="2 2"/>`);
+    };
+    if (item.columnSeparator) {
+        parts.push(`<line x1="${x + 0.5}" y1="${y}" x2="${x + 0.5}" y2="${y + CHAR_H}" stroke="${item.color}"/>`);
+        parts.push(`<line x1="${x + w - 0.5}" y1="${y}" x2="${x + w - 0.5}" y2="${y + CHAR_H}" stroke="${item.color}"/>`);
+    };
+
+    if (!withTooltip) {
+        return parts.join('');
+    };
+    const tooltip = item.kind === 'field'
+        ? `${item.name} (field, row ${item.row}, column ${item.col}, length ${item.length})`
+        : `'${item.name}' (constant, row ${item.row}, column ${item.col})`;
+    return `<g class="item"><title>${escapeXml(tooltip)}</title>${parts.join('')}` +
+        `<rect class="hit" x="${x - 1.5}" y="${y - 1.5}" width="${w + 2}" height="${CHAR_H + 2}" fill="transparent"/></g>`;
+};
+
+/**
+ * Draws text one character per cell, each centered in its cell (as the webview does, so a
+ * proportional fallback font can't drift off the grid).
+ * @param text - The text
+ * @param x - Left of its first cell
+ * @param y - Top of its row
+ * @param color - Fill color
+ * @param bold - Whether it's high intensity
+ */
+function svgText(text: string, x: number, y: number, color: string, bold: boolean): string {
+    if (text.length === 0) {
+        return '';
+    };
+    const positions = [...text].map((_, index) => x + index * CHAR_W + CHAR_W / 2).join(' ');
+    return `<text x="${positions}" y="${y + CHAR_H / 2}" fill="${color}" text-anchor="middle" dominant-baseline="central"` +
+        `${bold ? ' font-weight="bold"' : ''}>${escapeXml(text)}</text>`;
+};
+
+/**
+ * Gets a window border's rectangle in pixels.
+ * @param frame - The border, in rows and columns
+ */
+function frameRect(frame: WindowFrame): { x: number; y: number; w: number; h: number } {
+    return {
+        x: (frame.col - 1) * CHAR_W,
+        y: (frame.row - 1) * CHAR_H,
+        w: frame.cols * CHAR_W,
+        h: frame.rows * CHAR_H
+    };
+};
+
+/**
+ * Escapes text for XML/HTML content and attribute values.
+ * @param text - The text
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+};
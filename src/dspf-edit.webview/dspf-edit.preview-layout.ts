@@ -0,0 +1,108 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.preview-layout.ts
+*/
+
+/** A selected field or constant, as the preview renders it (screen coordinates). */
+export interface LayoutElement {
+    lineIndex: number;
+    row: number;
+    col: number;
+    /** Its rendered width (an edited field's edit characters included) */
+    width: number;
+    /** What was added to its record-local row/col to place it on the screen (a window's origin) */
+    rowOffset: number;
+    colOffset: number;
+};
+
+/** An element's new screen position, in the shape the preview's `move` message carries. */
+export interface LayoutMove {
+    lineIndex: number;
+    newRow: number;
+    newCol: number;
+    rowOffset: number;
+    colOffset: number;
+};
+
+/** The layout tools offered for a multi-selection. */
+export type LayoutAction = 'alignLeft' | 'alignRight' | 'alignColumn' | 'distributeRow' | 'stackVertically';
+
+/**
+ * Computes where a layout tool moves the selected elements. Only the elements that actually
+ * move are returned.
+ * @param action - The layout tool
+ * @param elements - The selected elements
+ * @param parameter - The record-local column to align to (alignColumn), or the rows from one
+ * element to the next (stackVertically)
+ */
+export function computeLayout(action: LayoutAction, elements: LayoutElement[], parameter: number = 1): LayoutMove[] {
+    if (elements.length === 0) {
+        return [];
+    };
+
+    let placed: { element: LayoutElement; row: number; col: number }[];
+    switch (action) {
+        case 'alignLeft': {
+            const left = Math.min(...elements.map(element => element.col));
+            placed = elements.map(element => ({ element, row: element.row, col: left }));
+            break;
+        };
+        case 'alignRight': {
+            // Right edges line up on the rightmost one: an element's last rendered character
+            const right = Math.max(...elements.map(element => element.col + element.width - 1));
+            placed = elements.map(element => ({ element, row: element.row, col: right - element.width + 1 }));
+            break;
+        };
+        case 'alignColumn':
+            placed = elements.map(element => ({ element, row: element.row, col: parameter + element.colOffset }));
+            break;
+        case 'distributeRow':
+            placed = distributeOnRow(elements);
+            break;
+        case 'stackVertically': {
+            // Stacked in reading order under the first, left edges lined up on it
+            const ordered = [...elements].sort((a, b) => a.row - b.row || a.col - b.col);
+            placed = ordered.map((element, index) => ({ element, row: ordered[0].row + index * parameter, col: ordered[0].col }));
+            break;
+        };
+    };
+
+    return placed
+        .filter(({ element, row, col }) => row !== element.row || col !== element.col)
+        .map(({ element, row, col }) => ({
+            lineIndex: element.lineIndex,
+            newRow: row,
+            newCol: col,
+            rowOffset: element.rowOffset,
+            colOffset: element.colOffset
+        }));
+};
+
+// HELPERS
+
+/**
+ * Spreads the elements evenly along the row of the leftmost one, in their left-to-right order:
+ * the first and last keep their place, and the blanks between neighbours are made equal (any
+ * remainder going to the first gaps). At least one blank stays between neighbours, for the
+ * attribute byte the display puts in front of each field, so elements wider than the span push
+ * the last ones further right.
+ * @param elements - The selected elements
+ */
+function distributeOnRow(elements: LayoutElement[]): { element: LayoutElement; row: number; col: number }[] {
+    const ordered = [...elements].sort((a, b) => a.col - b.col || a.row - b.row);
+    const start = ordered[0].col;
+    const end = Math.max(...ordered.map(element => element.col + element.width - 1));
+    const gaps = ordered.length - 1;
+    const free = (end - start + 1) - ordered.reduce((total, element) => total + element.width, 0);
+    const gap = gaps > 0 ? Math.max(Math.floor(free / gaps), 1) : 0;
+    let remainder = gaps > 0 && free > gap * gaps ? free - gap * gaps : 0;
+
+    let col = start;
+    return ordered.map(element => {
+        const position = { element, row: ordered[0].row, col };
+        col += element.width + gap + (remainder > 0 ? 1 : 0);
+        remainder--;
+        return position;
+    });
+};
@@ -5,527 +5,39 @@
 */
 
 import * as vscode from 'vscode';
-import { FieldsPerRecord, DdsSize, DdsAttribute, AttributeWithIndicators, DdsIndicator, fieldsPerRecords, records, getDefaultSize, getAvailableDisplayFormats, getSizeForFormat, SYSTEM_FIELD_PLACEHOLDER } from '../dspf-edit.model/dspf-edit.model';
-import { checkForEditorAndDocument, updateTreeProvider, applyWorkspaceEdit } from '../dspf-edit.utils/dspf-edit.helper';
+import { DdsDocumentModel, FieldsPerRecord, DdsSize, getDefaultSize, getAvailableDisplayFormats, getSizeForFormat } from '../dspf-edit.model/dspf-edit.model';
+import { updateTreeProvider, applyWorkspaceEdit, getDocumentModel } from '../dspf-edit.utils/dspf-edit.helper';
 import { DdsTreeProvider } from '../dspf-edit.providers/dspf-edit.providers';
 import { ExtensionState } from '../dspf-edit.states/state';
-import { getResolvedRef } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
-import { resolveRecordSizeForFormat } from '../dspf-edit.parser/dspf-edit.parser';
 import { editWindowTitleForRecord } from '../dspf-edit.commands/dspf-edit.window-title';
 import { getConstantTextFromUser, insertNewConstant } from '../dspf-edit.commands/dspf-edit.edit-constant';
 import { addFieldAtPosition } from '../dspf-edit.commands/dspf-edit.edit-field';
-
-/**
- * Item sent to the webview for rendering (a single field or constant on the screen grid).
- */
-interface PreviewItem {
-    kind: 'field' | 'constant';
-    name: string;
-    text: string;
-    row: number;
-    col: number;
-    length: number;
-    lineIndex: number;
-    color: string;
-    highIntensity: boolean;
-    reverseImage: boolean;
-    blink: boolean;
-    underline: boolean;
-    columnSeparator: boolean;
-    nonDisplay: boolean;
-    /** Row/col offset that was added to place this item, so a drag-to-move can be converted back to record-local coordinates. */
-    rowOffset: number;
-    colOffset: number;
-    /** True when this item belongs to the record overlaid *behind* a window, not the record being previewed. */
-    isBackground: boolean;
-    /** False for subfile page-repeat ghosts and background items: only the "real" instance can be clicked/dragged. */
-    isInteractive: boolean;
-    /** True for input-capable fields (usage I or B), shown underlined instead of boxed. Always false for constants and output-only fields. */
-    isInputCapable: boolean;
-    /**
-     * True when this background item shares the *same* window as the record being previewed
-     * (an auto-paired SFL/SFLCTL half, or the window's owner record) rather than belonging to a
-     * genuinely different record positioned behind it. The window's own opaque frame is drawn over
-     * "behind" background items (they're physically covered by the window), but same-window items
-     * must be drawn on top of that frame fill, since they're part of the window's own content.
-     */
-    sameWindow?: boolean;
-    /**
-     * True for a referenced field (REFFLD/position-29 `R`): its real type/length live in the
-     * external database field, which dspf-edit has no way to read, so it can't be previewed at its
-     * real width. Rendered as a single placeholder character in a distinct color with a dashed box,
-     * instead of pretending to know its size.
-     */
-    isReferenced?: boolean;
-};
-
-/** A rectangle in the coordinates of the canvas being drawn (the full display size). */
-interface WindowFrame {
-    row: number;
-    col: number;
-    rows: number;
-    cols: number;
-};
-
-// A WINDOW(row col numRows numCols) keyword gives the *border's* corner and the *content* area's
-// size. The content sits inset from the border: 1 row above/below, 1 column to the left, and
-// 2 columns to the right (confirmed against a real window: WINDOW(17 25 6 29) borders rows 17-24
-// and columns 25-56, with content usable across its full width up to the last column).
-const WINDOW_BORDER_TOP = 1;
-const WINDOW_BORDER_BOTTOM = 1;
-const WINDOW_BORDER_LEFT = 1;
-const WINDOW_BORDER_RIGHT = 2;
-
-/** Placeholder character shown across a field's width, keyed by [isNumeric][usage]. */
-const FIELD_USAGE_PLACEHOLDER: Record<'alpha' | 'numeric', Record<string, string>> = {
-    alpha: { O: 'O', B: 'B', I: 'I' },
-    numeric: { O: '6', B: '9', I: '3' }
-};
-
-/**
- * Builds the placeholder text shown across a field's width, based on its data type and usage
- * (O=output, B=both, I=input), matching the classic screen-design-aid convention.
- * Falls back to the field name if the usage code isn't one of O/B/I.
- * @param name - Field name (used as a fallback label, and to detect a system keyword field)
- * @param type - DDS data type code; blank (DDS's own default when no decimals are given) or 'A'
- * is alphanumeric, anything else (Y, S, L, T, Z, ...) is treated as numeric
- * @param usage - DDS usage code (O, B, I, H, ...)
- * @param length - Field length, i.e. how many placeholder characters to repeat
- * @param editWordMask - The field's EDTWRD() mask text, if any (e.g. '   .  ') — when present, its
- * blanks are filled with the placeholder character instead of just repeating it for `length`, so
- * an edited numeric field previews with its decimal point (or other insert characters) in place.
- */
-function getFieldPlaceholderText(name: string, type: string | undefined, usage: string | undefined, length: number, editWordMask?: string | null): string {
-    const systemPlaceholder = SYSTEM_FIELD_PLACEHOLDER[name.trim().toUpperCase()];
-    if (systemPlaceholder) {
-        return systemPlaceholder;
-    };
-
-    const trimmedType = (type || '').trim();
-    const isNumeric = trimmedType !== '' && trimmedType !== 'A';
-    // A blank usage column means Output — DDS's own default (see generateNewFieldLine, which
-    // leaves it blank for that same reason) — not "no usage code".
-    const usageCode = (usage || '').trim().toUpperCase() || 'O';
-    const placeholderChar = FIELD_USAGE_PLACEHOLDER[isNumeric ? 'numeric' : 'alpha'][usageCode];
-
-    if (!placeholderChar) {
-        return name;
-    };
-
-    if (editWordMask) {
-        return editWordMask.split('').map(ch => ch === ' ' ? placeholderChar : ch).join('');
-    };
-
-    return placeholderChar.repeat(Math.max(length, 1));
-};
-
-/**
- * Extracts a field's EDTWRD() mask (the text between its quotes), if it carries one.
- * @param attributes - The element's DDS attributes
- */
-function getEditWordMask(attributes: AttributeWithIndicators[] | undefined): string | null {
-    const attr = attributes?.find(a => /^EDTWRD\(/i.test(a.value));
-    if (!attr) {
-        return null;
-    };
-
-    return attr.value.match(/^EDTWRD\(\s*'([^']*)'\s*\)$/i)?.[1] ?? null;
-};
-
-/**
- * The standard DDS numeric edit codes: whether each inserts thousands commas, and what (if any)
- * sign indicator it reserves trailing room for. Every edit code always inserts a decimal point
- * when the field has decimals and suppresses leading zeros — irrelevant to a generic placeholder
- * preview (there's no real value to format), which only needs the extra display width/characters.
- */
-const EDIT_CODE_INFO: Record<string, { comma: boolean; sign: '' | '-' | 'CR' }> = {
-    '1': { comma: true, sign: '' },
-    '2': { comma: false, sign: '' },
-    '3': { comma: true, sign: '' },
-    '4': { comma: false, sign: '' },
-    A: { comma: true, sign: 'CR' },
-    B: { comma: false, sign: 'CR' },
-    C: { comma: true, sign: 'CR' },
-    D: { comma: false, sign: 'CR' },
-    J: { comma: true, sign: '-' },
-    K: { comma: false, sign: '-' },
-    L: { comma: true, sign: '-' },
-    M: { comma: false, sign: '-' }
-};
-
-/**
- * Extracts a field's EDTCDE() code, if it carries one (its optional modifier — asterisk fill or a
- * currency symbol — doesn't affect the preview mask, so it's not extracted here).
- * @param attributes - The element's DDS attributes
- */
-function getEditCode(attributes: AttributeWithIndicators[] | undefined): string | null {
-    const attr = attributes?.find(a => /^EDTCDE\(/i.test(a.value));
-    if (!attr) {
-        return null;
-    };
-
-    return attr.value.match(/^EDTCDE\(\s*([1-4A-DJ-M])/i)?.[1]?.toUpperCase() ?? null;
-};
-
-/**
- * Builds an EDTWRD-mask-shaped string (blanks mark digit positions, everything else is literal)
- * for a field carrying EDTCDE(code), from the standard DDS edit-code table above — the same extra
- * width (commas, decimal point, sign) SDA/RDi reserve when previewing an edited numeric field.
- * @param length - The field's digit length
- * @param decimals - The field's decimal positions
- * @param code - The EDTCDE code (1-4, A-D, J-M)
- */
-function getEditCodeMask(length: number, decimals: number, code: string): string | null {
-    const info = EDIT_CODE_INFO[code];
-    if (!info) {
-        return null;
-    };
-
-    const intDigits = Math.max(length - decimals, 1);
-    let mask = '';
-    for (let i = 0; i < intDigits; i++) {
-        const remaining = intDigits - i;
-        if (info.comma && i > 0 && remaining % 3 === 0) {
-            mask += ',';
-        };
-        mask += ' ';
-    };
-    if (decimals > 0) {
-        mask += '.' + ' '.repeat(decimals);
-    };
-    mask += info.sign;
-
-    return mask;
-};
-
-/**
- * Resolves the EDTWRD/EDTCDE mask that determines an edited numeric field's placeholder text and
- * extra display width — EDTWRD (an explicit mask) takes precedence since DDS doesn't allow both on
- * the same field.
- * @param attributes - The element's DDS attributes
- * @param length - The field's digit length (post REFFLD resolution, if applicable)
- * @param decimals - The field's decimal positions (post REFFLD resolution, if applicable)
- */
-function getEditingMask(attributes: AttributeWithIndicators[] | undefined, length: number, decimals: number): string | null {
-    const wordMask = getEditWordMask(attributes);
-    if (wordMask) {
-        return wordMask;
-    };
-
-    const code = getEditCode(attributes);
-    return code ? getEditCodeMask(length, decimals, code) : null;
-};
-
-/**
- * Extracts a field's CNTFLD() continuation width, if it carries one — the number of characters
- * shown per line before wrapping to the next row (same column) for a field too long to fit on one line.
- * @param attributes - The element's DDS attributes
- */
-function getContinuedFieldWidth(attributes: AttributeWithIndicators[] | undefined): number | null {
-    const attr = attributes?.find(a => /^CNTFLD\(/i.test(a.value));
-    if (!attr) {
-        return null;
-    };
-
-    const width = attr.value.match(/^CNTFLD\(\s*(\d+)\s*\)$/i)?.[1];
-    return width ? Number(width) : null;
-};
-
-/** Default 5250-style green, used when a field/constant has no COLOR() keyword. */
-const DEFAULT_COLOR = '#00ff00';
-
-/** What DSPATR(HI) alone (no explicit COLOR()) renders as — matching a real 5250 display. */
-const HIGH_INTENSITY_COLOR = '#ffffff';
-
-/** Marker color for a referenced field (REFFLD), distinct from every DDS_COLOR_MAP value. */
-const REFERENCED_FIELD_COLOR = '#ff8800';
-
-/** Maps DDS COLOR() keyword codes to their on-screen color. */
-const DDS_COLOR_MAP: Record<string, string> = {
-    BLU: '#6a8ef0',
-    GRN: '#00ff00',
-    WHT: '#ffffff',
-    RED: '#ff4136',
-    TRQ: '#00e5ff',
-    YLW: '#ffe600',
-    PNK: '#ff66ff'
-};
-
-/**
- * Determines the display color for a field/constant based on its COLOR() DDS keyword, if any —
- * falling back to white (not the default green) when DSPATR(HI) is set without an explicit color,
- * matching a real 5250 display.
- * @param attributes - The element's DDS attributes
- * @param highIntensity - Whether the element also carries DSPATR(HI)
- * @returns A CSS color string
- */
-function getDisplayColor(attributes: AttributeWithIndicators[] | undefined, highIntensity: boolean): string {
-    const colorAttr = attributes?.find(attr => /^COLOR\([A-Z]{3}\)$/.test(attr.value));
-    if (!colorAttr) {
-        return highIntensity ? HIGH_INTENSITY_COLOR : DEFAULT_COLOR;
-    };
-
-    const code = colorAttr.value.match(/^COLOR\(([A-Z]{3})\)$/)?.[1];
-    return (code && DDS_COLOR_MAP[code]) || (highIntensity ? HIGH_INTENSITY_COLOR : DEFAULT_COLOR);
-};
-
-/**
- * Checks whether a field/constant carries a given DSPATR() keyword (e.g. DSPATR(UL)).
- * @param attributes - The element's DDS attributes
- * @param code - The two-letter DSPATR code to look for (HI, RI, BL, UL, ND, CS)
- */
-function hasDisplayAttribute(attributes: AttributeWithIndicators[] | undefined, code: string): boolean {
-    return Boolean(attributes?.some(attr => attr.value === `DSPATR(${code})`));
-};
-
-/**
- * Groups an attribute's DDS keyword for the "no indicator simulation" fallback: all COLOR() lines
- * are alternatives for the same thing (only one color can apply), while each distinct DSPATR()
- * code is its own independent flag.
- * @param value - The attribute's raw keyword text (e.g. "COLOR(BLU)", "DSPATR(HI)")
- */
-function attributeGroupKey(value: string): string {
-    const upper = value.toUpperCase();
-    return upper.startsWith('COLOR(') ? 'COLOR' : upper;
-};
-
-/**
- * Finds the record's WINDOW() keyword, if any. When the record is conditioned by more than one
- * display format (one WINDOW() line per format), picks the one matching activeFormat.
- * @param recordName - Name of the record to inspect
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function findWindowAttribute(recordName: string, activeFormat?: string): { startRow: number; startCol: number; numRows: number; numCols: number; lineIndex: number } | undefined {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
-    const candidates = record?.attributes?.filter(a => a.value.toUpperCase().startsWith('WINDOW(')) ?? [];
-    const attr = pickForActiveFormat(candidates, activeFormat);
-    if (!attr) {
-        return undefined;
-    };
-
-    const match = attr.value.match(/WINDOW\s*\(\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+[^)]*)?\s*\)/i);
-    if (!match) {
-        return undefined;
-    };
-
-    return {
-        startRow: parseInt(match[1], 10),
-        startCol: parseInt(match[2], 10),
-        numRows: parseInt(match[3], 10),
-        numCols: parseInt(match[4], 10),
-        lineIndex: attr.lineIndex
-    };
-};
-
-/** A window's title, extracted from its WDWTITLE() keyword. */
-interface WindowTitle {
-    text: string;
-    position: 'TOP' | 'BOTTOM';
-    align: 'LEFT' | 'CENTER' | 'RIGHT';
-};
-
-/**
- * Finds and parses the record's WDWTITLE() keyword, if any. When the record shares its window
- * with another record (WINDOW(other-record-name), or an SFL/SFLCTL pair where only one side
- * declares the window), the title is commonly only present on that owner record — falls back
- * to it if the record itself has none. When conditioned by more than one display format (one
- * WDWTITLE() per format), picks the one matching activeFormat.
- * Handles the common form WDWTITLE((*TEXT 'title text') [*TOP|*BOTTOM] [*LEFT|*CENTER|*RIGHT]).
- * @param recordName - Name of the record to inspect
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function findWindowTitle(recordName: string, activeFormat?: string): WindowTitle | undefined {
-    const ownerName = getEffectiveSize(recordName, activeFormat)?.sharedFromRecord;
-
-    for (const name of ownerName ? [recordName, ownerName] : [recordName]) {
-        const rec = fieldsPerRecords.find(r => r.record === name);
-        const candidates = rec?.attributes?.filter(a => a.value.toUpperCase().startsWith('WDWTITLE(')) ?? [];
-        const attr = pickForActiveFormat(candidates, activeFormat);
-        if (!attr) {
-            continue;
-        };
-
-        const textMatch = attr.value.match(/WDWTITLE\(\(\*\w+\s+'([^']*)'\)/i);
-        if (!textMatch) {
-            continue;
-        };
-
-        const upperValue = attr.value.toUpperCase();
-
-        return {
-            text: textMatch[1],
-            position: upperValue.includes('*BOTTOM') ? 'BOTTOM' : 'TOP',
-            align: upperValue.includes('*RIGHT') ? 'RIGHT' : upperValue.includes('*LEFT') ? 'LEFT' : 'CENTER'
-        };
-    };
-
-    return undefined;
-};
-
-/** Whether a record's attributes include the SFL keyword (i.e. it's a subfile detail record). */
-function isSflRecordInfo(recordInfo: FieldsPerRecord): boolean {
-    return recordInfo.attributes?.some(attr => attr.value === 'SFL') ?? false;
-};
-
-/** Whether a record's attributes include an SFLCTL() keyword (i.e. it's a subfile control record). */
-function isSflCtlRecordInfo(recordInfo: FieldsPerRecord): boolean {
-    return recordInfo.attributes?.some(attr => attr.value.toUpperCase().startsWith('SFLCTL(')) ?? false;
-};
-
-/**
- * Finds the control record for a subfile (SFL) record, i.e. the one carrying SFLCTL(sflRecordName).
- * @param sflRecordName - Name of the subfile (SFL) record
- */
-function findSflControlRecord(sflRecordName: string): FieldsPerRecord | undefined {
-    return fieldsPerRecords.find(r =>
-        r.attributes?.some(attr => {
-            const match = attr.value.match(/^SFLCTL\(\s*([A-Za-z0-9@#$]+)\s*\)$/i);
-            return Boolean(match && match[1].toUpperCase() === sflRecordName.toUpperCase());
-        })
-    );
-};
-
-/**
- * Finds an SFLCTL record's own SFLPAG() attribute (the candidate matching activeFormat, when
- * conditioned by more than one display format).
- * @param recordInfo - The SFLCTL record
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function findOwnSflPagAttribute(recordInfo: FieldsPerRecord, activeFormat?: string): DdsAttribute | undefined {
-    const candidates = recordInfo.attributes?.filter(a => a.value.toUpperCase().startsWith('SFLPAG(')) ?? [];
-    return pickForActiveFormat(candidates, activeFormat);
-};
-
-/**
- * Finds the SFLPAG (page size, i.e. number of subfile rows shown at once) for a subfile record,
- * by locating its control record (the one with SFLCTL(sflRecordName)) and reading SFLPAG() from it.
- * When conditioned by more than one display format (one SFLPAG() per format), picks the one
- * matching activeFormat.
- * @param sflRecordName - Name of the subfile (SFL) record
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function findSubfilePageSize(sflRecordName: string, activeFormat?: string): number | undefined {
-    const controlRecord = findSflControlRecord(sflRecordName);
-    if (!controlRecord) {
-        return undefined;
-    };
-
-    const pagAttr = findOwnSflPagAttribute(controlRecord, activeFormat);
-    const match = pagAttr?.value.match(/SFLPAG\(\s*(\d+)\s*\)/i);
-    return match ? parseInt(match[1], 10) : undefined;
-};
-
-/**
- * Finds the "other half" of a subfile pair: given the SFL detail record, its control record
- * (SFLCTL); given the control record, the SFL detail record it controls. Used to automatically
- * show the header (SFLCTL) alongside the detail rows (SFL), or vice versa, since neither preview
- * is complete on its own.
- * @param recordName - Name of an SFL or SFLCTL record
- */
-function findSubfilePairRecordName(recordName: string): string | undefined {
-    const record = fieldsPerRecords.find(r => r.record === recordName);
-    if (!record) {
-        return undefined;
-    };
-
-    if (isSflRecordInfo(record)) {
-        return findSflControlRecord(recordName)?.record;
-    };
-
-    const sflctlAttr = record.attributes?.find(attr => attr.value.toUpperCase().startsWith('SFLCTL('));
-    const match = sflctlAttr?.value.match(/^SFLCTL\(\s*([A-Za-z0-9@#$]+)\s*\)$/i);
-    return match?.[1];
-};
-
-/**
- * Finds the record that actually owns a shared window, i.e. the one named by
- * WINDOW(other-record-name) (or, transitively, the SFL/SFLCTL pair that inherited it). Used to
- * automatically show that owner as background too, since it commonly carries the WDWTITLE and
- * other static text (e.g. function-key footers) that belong to the window as a whole.
- * @param recordName - Name of the record to inspect
- */
-function findWindowOwnerRecordName(recordName: string, activeFormat?: string): string | undefined {
-    const owner = getEffectiveSize(recordName, activeFormat)?.sharedFromRecord;
-    return owner && owner.toUpperCase() !== recordName.toUpperCase() ? owner : undefined;
-};
-
-/**
- * Identifies which window a record's own content belongs to, for comparing whether two records
- * share the exact same window (as opposed to one merely being positioned behind the other): the
- * record's own name if it defines a window directly, or the name of the record it borrows one
- * from (WINDOW(other-record-name), or an inherited SFL/SFLCTL pair). Undefined for non-window records.
- * @param recordName - Name of the record to inspect
- */
-function windowOwnerOf(recordName: string, activeFormat?: string): string | undefined {
-    const size = getEffectiveSize(recordName, activeFormat);
-    if (size?.source !== 'window') {
-        return undefined;
-    };
-    return size.sharedFromRecord ?? recordName;
-};
-
-/**
- * Resolves a record's effective size: the live, display-format-aware resolution
- * (resolveRecordSizeForFormat) when a display format is actively selected in the preview, else the
- * cached parse-time size — unchanged behavior for files that don't declare multiple DSPSIZ formats.
- * @param recordName - Name of the record to resolve
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function getEffectiveSize(recordName: string, activeFormat?: string): DdsSize | undefined {
-    if (activeFormat) {
-        return resolveRecordSizeForFormat(recordName, activeFormat);
-    };
-    return fieldsPerRecords.find(r => r.record === recordName)?.size;
-};
-
-/**
- * Filters out attributes/fields/constants conditioned by a display format other than the active
- * one; unconditioned ones (and everything, when no format is active) always pass through.
- * @param items - Items carrying an optional displayFormat condition
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function filterForActiveFormat<T extends { displayFormat?: string }>(items: T[], activeFormat: string | undefined): T[] {
-    if (!activeFormat) {
-        return items;
-    };
-    return items.filter(item => !item.displayFormat || item.displayFormat === activeFormat);
-};
-
-/**
- * Picks which of several same-keyword candidates applies, when a record/field/constant is
- * conditioned by more than one display format (one line per format, e.g. WDWTITLE or SFLPAG
- * declared once for *DS3 and once for *DS4). Prefers the one matching activeFormat, falling back
- * to an unconditioned one, then to the first candidate — so behavior is unchanged when no format
- * is active.
- * @param candidates - Same-keyword attribute candidates, in source order
- * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
- */
-function pickForActiveFormat<T extends { displayFormat?: string }>(candidates: T[], activeFormat?: string): T | undefined {
-    if (candidates.length === 0) {
-        return undefined;
-    };
-    if (!activeFormat) {
-        return candidates[0];
-    };
-    return candidates.find(c => c.displayFormat === activeFormat)
-        ?? candidates.find(c => !c.displayFormat)
-        ?? candidates[0];
-};
+import { PreviewSnapshot, buildPreviewSvg, buildPreviewHtml, describeSnapshot, toPreviewSnapshot } from './dspf-edit.preview-export';
+import { showPreviewText } from '../dspf-edit.commands/dspf-edit.render-text';
+import { ScreenComposer, ScreenOptions, findWindowAttribute, isSflCtlRecordInfo, findOwnSflPagAttribute, getEffectiveSize, pickForActiveFormat } from './dspf-edit.screen-composer';
+import { TestField, TestCommandKey, collectTestFields, collectCommandKeys, runTestKey } from './dspf-edit.test-mode';
+import { SampleData, findSampleDataFile, loadSampleData } from './dspf-edit.sample-data';
+import { LayoutAction, LayoutElement, computeLayout } from './dspf-edit.preview-layout';
+import { getIBMiConnection, getPendingMessageReferences, resolveMessageTexts } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
 
 /**
  * Read-only visual preview panel for a single DDS record.
  * Shows fields/constants positioned on a monospace grid matching the record's screen size.
  * WINDOW records are drawn at their real screen position, on a canvas sized to the full display,
  * optionally with another record overlaid behind them to see how the window sits on top of it.
- * Refreshes automatically whenever the DDS source is re-parsed.
+ * Refreshes automatically whenever the DDS source is re-parsed. There's one panel per source
+ * document, each bound to that document's own parsed model.
  */
 export class RecordPreviewPanel {
 
-    private static current: RecordPreviewPanel | undefined;
+    private static panels: Map<string, RecordPreviewPanel> = new Map();
 
     private readonly panel: vscode.WebviewPanel;
+    private readonly document: vscode.TextDocument;
+    private model: DdsDocumentModel;
     private recordName: string;
     private treeSubscription: vscode.Disposable | undefined;
+    private onRefresh: (() => void) | undefined;
     private treeProvider: DdsTreeProvider | undefined;
     private overlayRecordName: string | undefined;
     private indicatorsEnabled = false;
@@ -533,13 +45,23 @@ export class RecordPreviewPanel {
     private activeDisplayFormat: string | undefined;
     private lastRecordInfo: FieldsPerRecord | undefined;
     private lastSize: DdsSize | undefined;
-
-    private constructor(recordName: string) {
+    private lastSnapshot: PreviewSnapshot | undefined;
+    private testMode = false;
+    private testFields: TestField[] = [];
+    private testCommandKeys: TestCommandKey[] = [];
+    private sampleData: SampleData | undefined;
+    private sampleDataUri: vscode.Uri | undefined;
+    private sampleWarnings: string[] = [];
+    private resolvingMessages = false;
+
+    private constructor(document: vscode.TextDocument, recordName: string) {
+        this.document = document;
+        this.model = getDocumentModel(document);
         this.recordName = recordName;
 
         this.panel = vscode.window.createWebviewPanel(
             'dspfEditRecordPreview',
-            `Preview: ${recordName}`,
+            this.getTitle(),
             { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
             { enableScripts: true }
         );
@@ -550,46 +72,64 @@ export class RecordPreviewPanel {
 
         this.panel.onDidDispose(() => {
             this.treeSubscription?.dispose();
-            if (RecordPreviewPanel.current === this) {
-                RecordPreviewPanel.current = undefined;
+            const documentUri = this.document.uri.toString();
+            if (RecordPreviewPanel.panels.get(documentUri) === this) {
+                RecordPreviewPanel.panels.delete(documentUri);
             };
         });
+
+        void this.loadAdjacentSampleData();
     }
 
     /**
-     * Whether a preview panel is currently open (used to decide whether tree selection changes
-     * should retarget it to a different record).
+     * Whether a preview panel is currently open for the given document (used to decide whether
+     * tree selection changes should retarget it to a different record).
+     * @param documentUri - URI of the DDS source document
      */
-    static isOpen(): boolean {
-        return RecordPreviewPanel.current !== undefined;
+    static isOpen(documentUri: string): boolean {
+        return RecordPreviewPanel.panels.has(documentUri);
     };
 
     /**
-     * Name of the record currently shown in the open preview panel, if any. Used to tell whether
-     * a tree selection needs to retarget the panel or just highlight an item already shown in it.
+     * Name of the record currently shown in the document's open preview panel, if any. Used to
+     * tell whether a tree selection needs to retarget the panel or just highlight an item already
+     * shown in it.
+     * @param documentUri - URI of the DDS source document
      */
-    static getCurrentRecordName(): string | undefined {
-        return RecordPreviewPanel.current?.recordName;
+    static getCurrentRecordName(documentUri: string): string | undefined {
+        return RecordPreviewPanel.panels.get(documentUri)?.recordName;
     };
 
     /**
-     * Highlights the given source line in the open preview panel (the persistent selection box
-     * shown when clicking a field/constant), without navigating the editor or changing the
-     * previewed record. Used to mirror a tree selection into the preview. No-op if no panel is open.
+     * Highlights the given source line in the document's open preview panel (the persistent
+     * selection box shown when clicking a field/constant), without navigating the editor or
+     * changing the previewed record. Used to mirror a tree selection into the preview. No-op if
+     * no panel is open for that document.
+     * @param documentUri - URI of the DDS source document
      * @param lineIndex - Zero-based source line index to highlight
      */
-    static selectLineIfOpen(lineIndex: number): void {
-        RecordPreviewPanel.current?.panel.webview.postMessage({ type: 'selectLine', lineIndex });
+    static selectLineIfOpen(documentUri: string, lineIndex: number): void {
+        RecordPreviewPanel.panels.get(documentUri)?.panel.webview.postMessage({ type: 'selectLine', lineIndex });
     };
 
     /**
-     * Gets the single preview panel, retargeting it to the given record if it already exists,
+     * Closes the document's preview panel, if one is open (e.g. when the document itself is closed).
+     * @param documentUri - URI of the DDS source document
+     */
+    static disposeFor(documentUri: string): void {
+        RecordPreviewPanel.panels.get(documentUri)?.panel.dispose();
+    };
+
+    /**
+     * Gets the document's preview panel, retargeting it to the given record if it already exists,
      * or creates a new one.
+     * @param document - The DDS source document the record belongs to
      * @param recordName - Name of the record to preview
      * @param treeProvider - The tree provider, used to force a re-parse right after a drag/resize edit
      */
-    static getOrCreate(recordName: string, treeProvider: DdsTreeProvider): RecordPreviewPanel {
-        const existing = RecordPreviewPanel.current;
+    static getOrCreate(document: vscode.TextDocument, recordName: string, treeProvider: DdsTreeProvider): RecordPreviewPanel {
+        const documentUri = document.uri.toString();
+        const existing = RecordPreviewPanel.panels.get(documentUri);
         if (existing) {
             existing.recordName = recordName;
             existing.treeProvider = treeProvider;
@@ -597,19 +137,28 @@ export class RecordPreviewPanel {
             existing.indicatorsEnabled = false;
             existing.activeIndicators = new Set();
             existing.activeDisplayFormat = undefined;
-            existing.panel.title = `Preview: ${recordName}`;
+            existing.panel.title = existing.getTitle();
             // Reveal without forcing a column: the user may have moved the panel elsewhere
             // (e.g. to a bottom group), and switching records shouldn't snap it back to "Beside".
             existing.panel.reveal(undefined, true);
             return existing;
         };
 
-        const created = new RecordPreviewPanel(recordName);
+        const created = new RecordPreviewPanel(document, recordName);
         created.treeProvider = treeProvider;
-        RecordPreviewPanel.current = created;
+        RecordPreviewPanel.panels.set(documentUri, created);
         return created;
     };
 
+    /**
+     * The panel's title: the previewed record, plus the source file it comes from, since several
+     * documents can each have their own preview open at once.
+     */
+    private getTitle(): string {
+        const fileName = this.document.uri.path.split('/').pop() ?? '';
+        return `Preview: ${this.recordName} (${fileName})`;
+    };
+
     /**
      * Registers the listener that keeps this panel in sync with tree refreshes (i.e. re-parses of the DDS source).
      * Only one subscription is kept per panel; callers may call this again safely.
@@ -618,74 +167,41 @@ export class RecordPreviewPanel {
     setRefreshSource(event: vscode.Event<any>, onRefresh: () => void): void {
         this.treeSubscription?.dispose();
         this.treeSubscription = event(onRefresh);
+        this.onRefresh = onRefresh;
     };
 
     /**
      * Receives the current record's data and (re-)renders the preview.
+     * @param model - The parsed model of the panel's document
      * @param recordInfo - The record's fields/constants, or undefined if the record no longer exists
      * @param size - The record's screen size (rows/cols; window origin when it's a WINDOW record)
      */
-    update(recordInfo: FieldsPerRecord | undefined, size: DdsSize | undefined): void {
+    update(model: DdsDocumentModel, recordInfo: FieldsPerRecord | undefined, size: DdsSize | undefined): void {
+        this.model = model;
         this.lastRecordInfo = recordInfo;
         this.lastSize = size;
         this.render();
     };
 
     /**
-     * Resolves the previewed record's current geometry (size, whether it's a window, and the
-     * row/col offset that places its record-local coordinates on the screen canvas), honoring the
-     * active display format. Shared by `render()` and by anything that needs to convert a screen
-     * click back to a record-local position (e.g. placing a new constant).
+     * Creates the composer of the previewed record with the panel's current overlay, indicator
+     * simulation and display format (which it defaults to the first declared one).
      */
-    private resolveActiveGeometry(): {
-        recordInfo: FieldsPerRecord;
-        size: DdsSize;
-        isWindow: boolean;
-        rowOffset: number;
-        colOffset: number;
-        minDetailRow: number | null;
-    } | null {
-        const recordInfo = this.lastRecordInfo;
-        if (!recordInfo || !this.lastSize) {
-            return null;
-        };
+    private createComposer(): ScreenComposer {
+        const composer = new ScreenComposer(this.document.uri.toString(), this.model, this.recordName, this.lastRecordInfo, this.lastSize, this.getScreenOptions());
+        this.activeDisplayFormat = composer.activeDisplayFormat;
+        return composer;
+    };
 
-        // Default to the first declared format so a record's WINDOW()/attributes conditioned per
-        // format resolve consistently from the very first render, instead of showing every
-        // candidate at once. The selector itself stays locked to it when the file only declares one.
-        const availableFormats = getAvailableDisplayFormats();
-        if (availableFormats.length > 0 && !this.activeDisplayFormat) {
-            this.activeDisplayFormat = availableFormats[0].name;
-        };
-
-        // With a format actively selected, re-resolve the record's size live (it may be
-        // conditioned differently per format, e.g. a WINDOW() line per format); otherwise use the
-        // cached, parse-time size exactly as before.
-        const size = this.activeDisplayFormat
-            ? resolveRecordSizeForFormat(this.recordName, this.activeDisplayFormat)
-            : this.lastSize;
-
-        const isWindow = size.source === 'window';
-
-        // A window is drawn at its real screen position, on a canvas sized to the full display,
-        // so its own fields/constants (which are stored record-local) need shifting by its origin.
-        // Content starts 1 row/col past the border's own corner (see WINDOW_BORDER_* above).
-        const rowOffset = isWindow ? size.originRow : 0;
-        const colOffset = isWindow ? size.originCol : 0;
-
-        // A subfile detail (SFL) record's own rows shouldn't be draggable up into the area already
-        // occupied by its SFLCTL header's static content (labels, titles...) — that's not a valid
-        // screen layout, the repeating detail area has to start below wherever the header ends.
-        let minDetailRow: number | null = null;
-        if (isSflRecordInfo(recordInfo)) {
-            const pairName = findSubfilePairRecordName(this.recordName);
-            const headerItems = pairName ? this.buildBackgroundItemsFor(pairName) : undefined;
-            if (headerItems && headerItems.length > 0) {
-                minDetailRow = Math.max(...headerItems.map(item => item.row)) + 1;
-            };
+    /** The panel's current overlay, indicator simulation and display format. */
+    private getScreenOptions(): ScreenOptions {
+        return {
+            overlayRecordName: this.overlayRecordName,
+            indicatorsEnabled: this.indicatorsEnabled,
+            activeIndicators: this.activeIndicators,
+            activeDisplayFormat: this.activeDisplayFormat,
+            sampleData: this.sampleData
         };
-
-        return { recordInfo, size, isWindow, rowOffset, colOffset, minDetailRow };
     };
 
     /**
@@ -694,459 +210,74 @@ export class RecordPreviewPanel {
      * without needing a fresh parse.
      */
     private render(): void {
-        const geometry = this.resolveActiveGeometry();
-        if (!geometry) {
+        const screen = this.createComposer().compose();
+        if (!screen) {
+            this.lastSnapshot = undefined;
             this.panel.webview.postMessage({ type: 'notFound' });
             return;
         };
-        const { recordInfo, size, isWindow, rowOffset, colOffset, minDetailRow } = geometry;
 
-        const availableFormats = getAvailableDisplayFormats();
-        const defaultSize = this.activeDisplayFormat
-            ? (getSizeForFormat(this.activeDisplayFormat) ?? getDefaultSize())
-            : getDefaultSize();
-
-        const canvasSize = isWindow ? { rows: defaultSize.rows, cols: defaultSize.cols } : { rows: size.rows, cols: size.cols };
+        this.lastSnapshot = toPreviewSnapshot(screen, this.document.uri.path.split('/').pop() ?? '', this.getScreenOptions());
+        this.sampleWarnings = screen.sampleWarnings;
 
-        const items = this.buildItems(recordInfo, rowOffset, colOffset, false);
-        if (isSflRecordInfo(recordInfo)) {
-            items.push(...this.buildSubfileRepeats(items, this.recordName));
+        // In test mode, the fields typed in and the keys pressed follow what's shown: the active
+        // display format and, when simulated, the indicators conditioning the command keys
+        if (this.testMode && this.lastRecordInfo) {
+            const isOn = (indicator: number) => this.indicatorsEnabled && this.activeIndicators.has(indicator);
+            this.testFields = collectTestFields(this.document.uri.toString(), this.model, this.lastRecordInfo, screen);
+            this.testCommandKeys = collectCommandKeys(this.model, this.lastRecordInfo, screen.activeDisplayFormat ?? undefined, isOn);
         };
 
-        // The overlaid (background) record can be previewed on its own, whether or not it's itself
-        // a window, no matter what the record being previewed is. Indicator simulation doesn't
-        // apply to it, so its own indicators aren't offered in the toggle list either.
-        const backgroundItems: PreviewItem[] = [];
-        const shownAsBackground = new Set<string>([this.recordName]);
-        const toProcess: string[] = [this.recordName];
-
-        const addBackground = (name: string | undefined): void => {
-            if (!name || shownAsBackground.has(name)) {
-                return;
-            };
-            const items = this.buildBackgroundItemsFor(name);
-            if (!items) {
-                return;
-            };
-            backgroundItems.push(...items);
-            shownAsBackground.add(name);
-            toProcess.push(name);
-        };
-
-        addBackground(this.overlayRecordName);
-
-        // A subfile's own preview is incomplete without its counterpart: the SFL detail record
-        // has no header/titles of its own (those live on the SFLCTL record), and the SFLCTL record
-        // has no rows of its own. Likewise, a record whose WINDOW() keyword only names another
-        // record (or that inherited its window from an SFL/SFLCTL pair) is missing that owner's
-        // own content (e.g. WDWTITLE, footer text). Show whichever of these isn't already visible,
-        // automatically, following the chain (e.g. SFL -> its SFLCTL -> that SFLCTL's window owner).
-        for (let i = 0; i < toProcess.length; i++) {
-            const anchor = toProcess[i];
-            addBackground(findSubfilePairRecordName(anchor));
-            addBackground(findWindowOwnerRecordName(anchor, this.activeDisplayFormat));
-        };
-
-        const availableIndicators = this.collectIndicatorNumbers(recordInfo).sort((a, b) => a - b);
-
-        // The content area (where fields/constants live); its top-left is 1 row/col inside the border.
-        const windowFrame: WindowFrame | null = isWindow
-            ? { row: size.originRow + WINDOW_BORDER_TOP, col: size.originCol + WINDOW_BORDER_LEFT, rows: size.rows, cols: size.cols }
-            : null;
-
-        // The visual border itself: the content area padded out by the border widths.
-        const outerFrame: WindowFrame | null = (isWindow && windowFrame)
-            ? {
-                row: size.originRow,
-                col: size.originCol,
-                rows: windowFrame.rows + WINDOW_BORDER_TOP + WINDOW_BORDER_BOTTOM,
-                cols: windowFrame.cols + WINDOW_BORDER_LEFT + WINDOW_BORDER_RIGHT
-            }
-            : null;
-
-        // A window can't be resized past the edge of the physical screen it's positioned on
-        // (accounting for the border that surrounds the content area on every side).
-        const maxSize = isWindow
-            ? {
-                rows: defaultSize.rows - size.originRow - (WINDOW_BORDER_TOP + WINDOW_BORDER_BOTTOM) + 1,
-                cols: defaultSize.cols - size.originCol - (WINDOW_BORDER_LEFT + WINDOW_BORDER_RIGHT) + 1
-            }
-            : null;
-
-        const availableRecords = records.filter(name => name !== this.recordName);
-        const windowTitle = isWindow ? (findWindowTitle(this.recordName, this.activeDisplayFormat) ?? null) : null;
-        const errorMessage = this.resolveErrorMessage(recordInfo);
-        const sflPagAttr = isSflCtlRecordInfo(recordInfo) ? findOwnSflPagAttribute(recordInfo, this.activeDisplayFormat) : undefined;
-        const sflPagMatch = sflPagAttr?.value.match(/SFLPAG\(\s*(\d+)\s*\)/i);
-        const sflPag = sflPagMatch ? parseInt(sflPagMatch[1], 10) : null;
-
         this.panel.webview.postMessage({
             type: 'render',
-            recordName: this.recordName,
-            size: canvasSize,
-            isWindow,
-            windowFrame,
-            outerFrame,
-            windowTitle,
-            errorMessage,
-            sflPag,
-            maxSize,
-            availableRecords,
+            ...screen,
+            availableRecords: this.model.records.filter(name => name !== this.recordName),
             overlayRecordName: this.overlayRecordName ?? null,
-            availableIndicators,
             indicatorsEnabled: this.indicatorsEnabled,
             activeIndicators: [...this.activeIndicators],
-            availableFormats,
-            activeDisplayFormat: this.activeDisplayFormat ?? null,
-            minDetailRow,
-            items,
-            backgroundItems
+            availableFormats: getAvailableDisplayFormats(this.model),
+            testFields: this.testMode ? this.testFields : null,
+            testCommandKeys: this.testMode ? this.testCommandKeys : null,
+            sampleDataName: this.sampleData?.source ?? null
         });
-    };
-
-    /**
-     * Builds background (dimmed, non-interactive) items for an arbitrary record by name: figures
-     * out its own offset (in case it's itself a window) and expands subfile page-repeats if it's
-     * an SFL record. Used for both the manual overlay and the automatic SFL/SFLCTL pairing.
-     * @param recordName - Name of the record to render as background
-     */
-    private buildBackgroundItemsFor(recordName: string): PreviewItem[] | undefined {
-        const record = fieldsPerRecords.find(r => r.record === recordName);
-        if (!record) {
-            return undefined;
-        };
-
-        const size = getEffectiveSize(recordName, this.activeDisplayFormat);
-        const isWin = size?.source === 'window';
-        const rOffset = isWin && size ? size.originRow : 0;
-        const cOffset = isWin && size ? size.originCol : 0;
-
-        const items = this.buildItems(record, rOffset, cOffset, true);
-        if (isSflRecordInfo(record)) {
-            items.push(...this.buildSubfileRepeats(items, recordName));
-        };
-
-        // A same-window item (an auto-paired SFL/SFLCTL half, or the window's owner) is part of
-        // the window's own content and must show through its opaque frame, unlike a genuinely
-        // different record merely positioned behind the window.
-        const foregroundOwner = windowOwnerOf(this.recordName, this.activeDisplayFormat);
-        const sameWindow = foregroundOwner !== undefined && windowOwnerOf(recordName, this.activeDisplayFormat) === foregroundOwner;
-        for (const item of items) {
-            item.sameWindow = sameWindow;
-        };
-
-        return items;
-    };
-
-    /**
-     * Builds the preview items for a record's fields/constants, shifted by the given offset.
-     * @param recordInfo - The record's fields/constants
-     * @param rowOffset - Added to each field/constant's own row (0 unless this is a window's own content)
-     * @param colOffset - Added to each field/constant's own col (0 unless this is a window's own content)
-     * @param isBackground - Whether these items belong to the record overlaid behind a window
-     */
-    private buildItems(recordInfo: FieldsPerRecord, rowOffset: number, colOffset: number, isBackground: boolean): PreviewItem[] {
-        const items: PreviewItem[] = [];
-
-        // The parser stores a subfile (SFL) record's field/constant row and column swapped
-        // (a leftover of how move-fields/move-constants track "horizontal" movement for SFLs).
-        // Undo that swap here to get the real screen row/col for display.
-        const isSfl = isSflRecordInfo(recordInfo);
-
-        // Indicator toggling only applies to the record being actively previewed; an overlaid
-        // background record always uses the resting state (every indicator OFF), regardless of
-        // what's toggled for the foreground record.
-        const useLiveIndicators = this.indicatorsEnabled && !isBackground;
-        const documentUri = ExtensionState.lastDdsDocument?.uri.toString();
-
-        for (const field of recordInfo.fields) {
-            if (this.activeDisplayFormat && field.displayFormat && field.displayFormat !== this.activeDisplayFormat) {
-                continue;
-            };
-            if (!this.isItemDisplayed(field.indicators, useLiveIndicators)) {
-                continue;
-            };
-
-            const trueRow = isSfl ? field.col : field.row;
-            const trueCol = isSfl ? field.row : field.col;
-
-            if (trueRow > 0 && trueCol > 0) {
-                const activeAttrs = this.getActiveAttributes(field.attributes, useLiveIndicators);
-                const usageCode = (field.usage || '').trim().toUpperCase();
-                // A referenced field (REFFLD/position-29 `R`) has no type/length of its own in the
-                // source — they live in the external database field, which dspf-edit can't read on
-                // its own — so it's shown as a single marker character instead of a guessed-width
-                // placeholder, unless its real type/length has already been resolved (via the
-                // "Resolve Referenced Field" tree command), in which case it renders like any other
-                // field, just tinted the reference color when it carries no COLOR()/DSPATR() of its own.
-                const resolvedRef = field.referenced && documentUri ? getResolvedRef(documentUri, recordInfo.record, field.name) : undefined;
-                const isReferenced = field.referenced === true && !resolvedRef;
-                // The displayed text's own length drives the item's width/hit-box (below), not the
-                // parsed field length: a system keyword field (DATE, USER...) always renders at a
-                // fixed width of its own, regardless of whatever the source's length column holds
-                // — and an edited numeric field (EDTWRD, or EDTCDE with a standard code) is wider
-                // per insert character (its decimal point, thousands commas, sign...), which
-                // text.length already reflects.
-                const effectiveLength = resolvedRef?.length ?? field.length;
-                const effectiveDecimals = resolvedRef?.decimals ?? field.decimals ?? 0;
-                const text = isReferenced
-                    ? getFieldPlaceholderText(field.name, field.type, field.usage, 1)
-                    : getFieldPlaceholderText(field.name, resolvedRef?.type ?? field.type, field.usage, effectiveLength, getEditingMask(activeAttrs, effectiveLength, effectiveDecimals));
-                const color = isReferenced || (field.referenced && activeAttrs.length === 0)
-                    ? REFERENCED_FIELD_COLOR
-                    : getDisplayColor(activeAttrs, hasDisplayAttribute(activeAttrs, 'HI'));
-                const baseItem = {
-                    kind: 'field' as const,
-                    name: field.name,
-                    col: trueCol + colOffset,
-                    lineIndex: field.lineIndex,
-                    color,
-                    highIntensity: hasDisplayAttribute(activeAttrs, 'HI'),
-                    reverseImage: hasDisplayAttribute(activeAttrs, 'RI') || this.hasActiveErrorMessage(field.attributes, useLiveIndicators),
-                    blink: hasDisplayAttribute(activeAttrs, 'BL'),
-                    underline: hasDisplayAttribute(activeAttrs, 'UL'),
-                    columnSeparator: hasDisplayAttribute(activeAttrs, 'CS'),
-                    nonDisplay: hasDisplayAttribute(activeAttrs, 'ND'),
-                    rowOffset,
-                    colOffset,
-                    isBackground,
-                    isInteractive: !isBackground,
-                    isInputCapable: usageCode === 'I' || usageCode === 'B',
-                    isReferenced
-                };
-
-                // CNTFLD(n) wraps a field too long for one line across multiple rows, n characters
-                // per row, all starting at the same column — matching how RDi previews it — instead
-                // of a single run that overflows past the record's right edge.
-                const continuedWidth = getContinuedFieldWidth(activeAttrs);
-                if (continuedWidth && continuedWidth > 0 && text.length > continuedWidth) {
-                    const chunkCount = Math.ceil(text.length / continuedWidth);
-                    for (let chunk = 0; chunk < chunkCount; chunk++) {
-                        const chunkText = text.substr(chunk * continuedWidth, continuedWidth);
-                        items.push({ ...baseItem, text: chunkText, row: trueRow + rowOffset + chunk, length: chunkText.length });
-                    };
-                } else {
-                    items.push({ ...baseItem, text, row: trueRow + rowOffset, length: text.length });
-                };
-            };
-        };
-
-        for (const constant of recordInfo.constants) {
-            if (this.activeDisplayFormat && constant.displayFormat && constant.displayFormat !== this.activeDisplayFormat) {
-                continue;
-            };
-            if (!this.isItemDisplayed(constant.indicators, useLiveIndicators)) {
-                continue;
-            };
-
-            const trueRow = isSfl ? constant.col : constant.row;
-            const trueCol = isSfl ? constant.row : constant.col;
-
-            if (trueRow > 0 && trueCol > 0) {
-                const activeAttrs = this.getActiveAttributes(constant.attributes, useLiveIndicators);
-                // Same reasoning as the field loop above: a bare system keyword (DATE, USER...)
-                // renders at its own fixed width, not the raw constant text's length.
-                const text = SYSTEM_FIELD_PLACEHOLDER[constant.name.trim().toUpperCase()] || constant.name;
-                items.push({
-                    kind: 'constant',
-                    name: constant.name,
-                    text,
-                    row: trueRow + rowOffset,
-                    col: trueCol + colOffset,
-                    length: text.length,
-                    lineIndex: constant.lineIndex,
-                    color: getDisplayColor(activeAttrs, hasDisplayAttribute(activeAttrs, 'HI')),
-                    highIntensity: hasDisplayAttribute(activeAttrs, 'HI'),
-                    reverseImage: hasDisplayAttribute(activeAttrs, 'RI'),
-                    blink: hasDisplayAttribute(activeAttrs, 'BL'),
-                    underline: hasDisplayAttribute(activeAttrs, 'UL'),
-                    columnSeparator: hasDisplayAttribute(activeAttrs, 'CS'),
-                    nonDisplay: hasDisplayAttribute(activeAttrs, 'ND'),
-                    rowOffset,
-                    colOffset,
-                    isBackground,
-                    isInteractive: !isBackground,
-                    isInputCapable: false
-                });
-            };
-        };
 
-        // Even with indicators resolved (live or resting-state), two genuinely unconditioned
-        // items (or ones whose conditions aren't perfectly complementary) could still land on the
-        // exact same spot — keep only the first-defined one so they don't render stacked.
-        return this.dedupByPosition(items);
+        void this.resolvePendingMessages();
     };
 
     /**
-     * Checks whether a field/constant's own line-level indicators (columns 7-15, e.g. "61"/"N61")
-     * are satisfied. With live indicators, checks them against the currently toggled-on set
-     * (multiple indicators on one line are ANDed together, matching real DDS conditioning).
-     * Otherwise, uses the resting state — every indicator assumed OFF — so only unconditioned
-     * items and negated ("N") conditions show; this is what makes mutually-exclusive alternates
-     * (e.g. one shown on "61", another on "N61") resolve to a single, deterministic one even when
-     * they don't happen to share the same screen position. No indicators at all means "always shown".
-     * @param indicators - The item's own indicators
-     * @param useLiveIndicators - Whether to check against the toggled-on indicator set, or assume all OFF
+     * Reads the texts of the messages the document's MSGCON constants and ERRMSGID/SFLMSGID
+     * keywords name, when connected to an IBM i, and re-renders once they're in. Until then (and
+     * without a connection) the preview shows placeholders. Each message is only asked for once
+     * per document, found or not, so this settles after one round.
      */
-    private isItemDisplayed(indicators: DdsIndicator[] | undefined, useLiveIndicators: boolean): boolean {
-        if (!indicators || indicators.length === 0) {
-            return true;
-        };
-        if (!useLiveIndicators) {
-            return indicators.every(ind => !ind.active);
-        };
-        return indicators.every(ind => this.activeIndicators.has(ind.number) === ind.active);
-    };
-
-    /**
-     * Filters a field/constant's own COLOR()/DSPATR() attributes the same way visibility is
-     * filtered: attributes conditioned on a display format other than the active one are dropped
-     * first; then, ones whose own indicators aren't satisfied (checked live or against the resting
-     * state — see isItemDisplayed) are dropped too. If more than one candidate for the same
-     * keyword still remains (e.g. two unconditioned COLOR() lines), keeps just the first-defined one.
-     * @param attributes - The field/constant's own attributes
-     * @param useLiveIndicators - Whether to check against the toggled-on indicator set, or assume all OFF
-     */
-    private getActiveAttributes(attributes: AttributeWithIndicators[], useLiveIndicators: boolean): AttributeWithIndicators[] {
-        const forFormat = filterForActiveFormat(attributes, this.activeDisplayFormat);
-        const displayed = forFormat.filter(attr => this.isItemDisplayed(attr.indicators, useLiveIndicators));
-
-        const seen = new Set<string>();
-        const result: AttributeWithIndicators[] = [];
-        for (const attr of displayed) {
-            const key = attributeGroupKey(attr.value);
-            if (seen.has(key)) {
-                continue;
-            };
-            seen.add(key);
-            result.push(attr);
-        };
-        return result;
-    };
-
-    /**
-     * Whether a field's own ERRMSG() is currently active (its conditioning indicator satisfied) —
-     * the field it's attached to is shown in reverse image while its error is in effect, same as a
-     * real 5250 highlights the field an error message refers to.
-     */
-    private hasActiveErrorMessage(attributes: AttributeWithIndicators[], useLiveIndicators: boolean): boolean {
-        const forFormat = filterForActiveFormat(attributes, this.activeDisplayFormat);
-        return forFormat.some(attr => /^ERRMSG\(/i.test(attr.value) && this.isItemDisplayed(attr.indicators, useLiveIndicators));
-    };
-
-    /**
-     * Finds the record's currently-active ERRMSG() message, if any: an ERRMSG keyword (record-level,
-     * or on one of the record's own fields/constants) whose own conditioning indicator is satisfied
-     * by the indicator simulation — same gating already used for COLOR()/DSPATR() via isItemDisplayed.
-     * Shown on the display's message line (the bottom row) like a real 5250 error, in white.
-     */
-    private resolveErrorMessage(recordInfo: FieldsPerRecord): { text: string } | null {
-        const candidates: { value: string; indicators?: DdsIndicator[]; displayFormat?: string }[] = [
-            ...(recordInfo.attributes ?? []),
-            ...recordInfo.fields.flatMap(field => field.attributes),
-            ...recordInfo.constants.flatMap(constant => constant.attributes)
-        ];
-
-        const forFormat = filterForActiveFormat(candidates, this.activeDisplayFormat);
-        for (const attr of forFormat) {
-            if (!this.isItemDisplayed(attr.indicators, this.indicatorsEnabled)) {
-                continue;
-            };
-            const errmsgMatch = attr.value.match(/^ERRMSG\('([^']+)'\s*(\d{2})?\)$/);
-            if (errmsgMatch) {
-                return { text: errmsgMatch[1] };
-            };
+    private async resolvePendingMessages(): Promise<void> {
+        if (this.resolvingMessages || !getIBMiConnection()) {
+            return;
         };
-        return null;
-    };
-
-    /**
-     * Keeps only the first (lowest lineIndex) item at each exact (row, col), so alternate
-     * constants/fields that occupy the same spot don't render stacked on top of each other.
-     */
-    private dedupByPosition(items: PreviewItem[]): PreviewItem[] {
-        const bestByPosition = new Map<string, PreviewItem>();
-
-        for (const item of items) {
-            const key = item.row + ',' + item.col;
-            const existing = bestByPosition.get(key);
-            if (!existing || item.lineIndex < existing.lineIndex) {
-                bestByPosition.set(key, item);
-            };
+        const documentUri = this.document.uri.toString();
+        const pending = getPendingMessageReferences(documentUri, this.model);
+        if (pending.length === 0) {
+            return;
         };
 
-        const kept = new Set(bestByPosition.values());
-        return items.filter(item => kept.has(item));
-    };
-
-    /**
-     * Collects the distinct indicator numbers referenced by a record's own fields/constants, and
-     * its own record-level attributes (e.g. a record-level ERRMSG()) — used to populate the
-     * indicator toggle list in the toolbar.
-     */
-    private collectIndicatorNumbers(recordInfo: FieldsPerRecord): number[] {
-        const numbers = new Set<number>();
-        for (const attr of recordInfo.attributes ?? []) {
-            for (const ind of attr.indicators ?? []) {
-                numbers.add(ind.number);
-            };
+        this.resolvingMessages = true;
+        try {
+            await resolveMessageTexts(documentUri, pending);
+        } finally {
+            this.resolvingMessages = false;
         };
-        for (const field of recordInfo.fields) {
-            for (const ind of field.indicators ?? []) {
-                numbers.add(ind.number);
-            };
-            for (const attr of field.attributes) {
-                for (const ind of attr.indicators ?? []) {
-                    numbers.add(ind.number);
-                };
-            };
-        };
-        for (const constant of recordInfo.constants) {
-            for (const ind of constant.indicators ?? []) {
-                numbers.add(ind.number);
-            };
-            for (const attr of constant.attributes) {
-                for (const ind of attr.indicators ?? []) {
-                    numbers.add(ind.number);
-                };
-            };
-        };
-        return [...numbers];
+        this.render();
     };
 
-    /**
-     * Repeats a subfile's own base items for each additional visible page row (SFLPAG), stacked
-     * downward. The repeats are display-only: dragging/clicking always targets the single real
-     * source line, so only the first (base) instance stays interactive.
-     * @param baseItems - The subfile's own items, as built for its first (real) row
-     * @param recordName - Name of the subfile (SFL) record
-     */
-    private buildSubfileRepeats(baseItems: PreviewItem[], recordName: string): PreviewItem[] {
-        const sflPag = findSubfilePageSize(recordName, this.activeDisplayFormat);
-        if (!sflPag || sflPag <= 1 || baseItems.length === 0) {
-            return [];
-        };
-
-        const rows = baseItems.map(item => item.row);
-        const rowSpan = Math.max(...rows) - Math.min(...rows) + 1;
-
-        const repeats: PreviewItem[] = [];
-        for (let page = 1; page < sflPag; page++) {
-            for (const item of baseItems) {
-                repeats.push({ ...item, row: item.row + page * rowSpan, isInteractive: false });
-            };
-        };
-
-        return repeats;
-    };
 
     /**
-     * Handles messages posted from the webview: click-to-navigate, drag-to-move, window resize,
-     * and overlay selection.
+     * Handles messages posted from the webview: click-to-navigate, drag-to-move, the layout tools,
+     * keyboard edits of the selection, window resize, overlay selection, and the keys pressed in
+     * test mode.
      */
     private async onDidReceiveMessage(message: any): Promise<void> {
         if (message?.type === 'navigate' && typeof message.lineIndex === 'number') {
-            await this.navigateToLine(message.lineIndex);
+            await this.navigateToLine(message.lineIndex, message.preserveFocus === true);
             return;
         };
 
@@ -1190,6 +321,16 @@ export class RecordPreviewPanel {
             return;
         };
 
+        if (message?.type === 'elementCommand' && typeof message.lineIndex === 'number' && ['edit', 'rename', 'remove'].includes(message.action)) {
+            await this.runElementCommand(message.lineIndex, message.action);
+            return;
+        };
+
+        if (message?.type === 'layoutMenu' && Array.isArray(message.elements)) {
+            await this.showLayoutMenu(message.elements);
+            return;
+        };
+
         if (message?.type === 'addConstantAt' && typeof message.row === 'number' && typeof message.col === 'number') {
             await this.addConstantAt(message.row, message.col);
             return;
@@ -1235,6 +376,44 @@ export class RecordPreviewPanel {
 
         if (message?.type === 'sflpagDecrement') {
             await this.adjustSubfilePageSize(-1);
+            return;
+        };
+
+        if (message?.type === 'export') {
+            await this.exportPreview();
+            return;
+        };
+
+        if (message?.type === 'savePng' && typeof message.dataUrl === 'string') {
+            await this.savePng(message.dataUrl);
+            return;
+        };
+
+        if (message?.type === 'renderText') {
+            if (this.lastSnapshot) {
+                await showPreviewText(this.lastSnapshot);
+            };
+            return;
+        };
+
+        if (message?.type === 'sampleData') {
+            await this.showSampleDataMenu();
+            return;
+        };
+
+        if (message?.type === 'setTestMode') {
+            this.testMode = Boolean(message.enabled);
+            this.render();
+            return;
+        };
+
+        if (message?.type === 'testKey' && typeof message.key === 'string' && this.testMode) {
+            const values: Record<number, string> = message.values ?? {};
+            const modified: number[] = Array.isArray(message.modified) ? message.modified : [];
+            this.panel.webview.postMessage({
+                type: 'testResult',
+                ...runTestKey(message.key, this.testFields, this.testCommandKeys, values, modified)
+            });
         };
     };
 
@@ -1242,16 +421,13 @@ export class RecordPreviewPanel {
      * Navigates the DDS editor to the given line (used when clicking a field/constant in the preview),
      * and also selects the matching node in the tree view, if one is found.
      * @param lineIndex - Zero-based line index to jump to
+     * @param preserveFocus - Leave the focus in the preview (selecting from the canvas, whose keys
+     * nudge and edit the selection)
      */
-    private async navigateToLine(lineIndex: number): Promise<void> {
-        const { editor } = checkForEditorAndDocument();
-        if (!editor) {
-            return;
-        };
-
-        await vscode.window.showTextDocument(editor.document, {
-            viewColumn: editor.viewColumn,
-            preserveFocus: false
+    private async navigateToLine(lineIndex: number, preserveFocus: boolean = false): Promise<void> {
+        const editor = await vscode.window.showTextDocument(this.document, {
+            viewColumn: this.findEditor()?.viewColumn,
+            preserveFocus
         });
 
         const position = new vscode.Position(lineIndex, 0);
@@ -1260,11 +436,14 @@ export class RecordPreviewPanel {
             new vscode.Range(position, position),
             vscode.TextEditorRevealType.InCenterIfOutsideViewport
         );
-        await vscode.commands.executeCommand('cursorRight');
-        await vscode.commands.executeCommand('cursorLeft');
+        // The cursor commands act on the focused editor, so they only apply once it has the focus
+        if (!preserveFocus) {
+            await vscode.commands.executeCommand('cursorRight');
+            await vscode.commands.executeCommand('cursorLeft');
+        };
 
         const treeView = this.treeProvider?.getTreeView();
-        if (this.treeProvider && treeView) {
+        if (this.treeProvider && treeView && this.isTreeDocument()) {
             const node = await this.treeProvider.findFieldOrConstantNode(lineIndex);
             if (node) {
                 try {
@@ -1288,20 +467,17 @@ export class RecordPreviewPanel {
      * the row/col offset to subtract to get back to record-local coordinates
      */
     private async moveElements(moves: Array<{ lineIndex: number; newRow: number; newCol: number; rowOffset: number; colOffset: number }>): Promise<void> {
-        const { editor } = checkForEditorAndDocument();
-        if (!editor) {
-            return;
-        };
+        const document = this.document;
 
         // The raw source columns are always "Line spec" (38-41) / "Position spec" (41-44) — i.e.
         // row/col in that fixed order — for every record type. A subfile only swaps which of these
         // ends up labeled model.row/model.col internally (see buildItems' undo); the physical
         // columns themselves never swap, so no subfile-specific handling is needed here.
         const workspaceEdit = new vscode.WorkspaceEdit();
-        const uri = editor.document.uri;
+        const uri = document.uri;
 
         for (const move of moves) {
-            if (move.lineIndex >= editor.document.lineCount) {
+            if (move.lineIndex >= document.lineCount) {
                 continue;
             };
 
@@ -1315,7 +491,7 @@ export class RecordPreviewPanel {
         if (!(await applyWorkspaceEdit(workspaceEdit, moves.length > 1 ? 'move the elements' : 'move the element'))) {
             return;
         };
-        this.forceReparse(editor.document);
+        this.forceReparse();
     };
 
     /**
@@ -1327,7 +503,7 @@ export class RecordPreviewPanel {
      * @param screenCol - Column clicked, in screen/canvas coordinates
      */
     private async addConstantAt(screenRow: number, screenCol: number): Promise<void> {
-        const { editor } = checkForEditorAndDocument();
+        const editor = this.getEditor();
         if (!editor) {
             return;
         };
@@ -1346,7 +522,7 @@ export class RecordPreviewPanel {
         if (!(await insertNewConstant(editor, { text, row, column: col, recordName: this.recordName }))) {
             return;
         };
-        this.forceReparse(editor.document);
+        this.forceReparse();
     };
 
     /**
@@ -1358,7 +534,7 @@ export class RecordPreviewPanel {
      * @param screenCol - Column clicked, in screen/canvas coordinates
      */
     private async addFieldAt(screenRow: number, screenCol: number): Promise<void> {
-        const { editor } = checkForEditorAndDocument();
+        const editor = this.getEditor();
         if (!editor) {
             return;
         };
@@ -1368,8 +544,8 @@ export class RecordPreviewPanel {
             return;
         };
 
-        await addFieldAtPosition(this.recordName, { row: position.row, column: position.col });
-        this.forceReparse(editor.document);
+        await addFieldAtPosition(editor, this.recordName, { row: position.row, column: position.col });
+        this.forceReparse();
     };
 
     /**
@@ -1382,7 +558,7 @@ export class RecordPreviewPanel {
      * @param kind - What's being placed, only used to word the warning message
      */
     private resolveClickPosition(screenRow: number, screenCol: number, kind: 'constant' | 'field'): { row: number; col: number } | null {
-        const geometry = this.resolveActiveGeometry();
+        const geometry = this.createComposer().resolveGeometry();
         if (!geometry) {
             return null;
         };
@@ -1413,7 +589,7 @@ export class RecordPreviewPanel {
      * sharing one side's window) — in which case the real geometry lives on the owner record.
      */
     private resolveWindowRecordName(): string {
-        return getEffectiveSize(this.recordName, this.activeDisplayFormat)?.sharedFromRecord ?? this.recordName;
+        return getEffectiveSize(this.model, this.recordName, this.activeDisplayFormat)?.sharedFromRecord ?? this.recordName;
     };
 
     /**
@@ -1422,7 +598,7 @@ export class RecordPreviewPanel {
      * @param newCols - New window width
      */
     private async resizeWindow(newRows: number, newCols: number): Promise<void> {
-        const windowInfo = findWindowAttribute(this.resolveWindowRecordName(), this.activeDisplayFormat);
+        const windowInfo = findWindowAttribute(this.model, this.resolveWindowRecordName(), this.activeDisplayFormat);
         if (!windowInfo) {
             return;
         };
@@ -1436,7 +612,7 @@ export class RecordPreviewPanel {
      * @param newCol - New window screen column
      */
     private async moveWindowPosition(newRow: number, newCol: number): Promise<void> {
-        const windowInfo = findWindowAttribute(this.resolveWindowRecordName(), this.activeDisplayFormat);
+        const windowInfo = findWindowAttribute(this.model, this.resolveWindowRecordName(), this.activeDisplayFormat);
         if (!windowInfo) {
             return;
         };
@@ -1450,12 +626,13 @@ export class RecordPreviewPanel {
      * belongs to a shared window (WINDOW(other-record-name), or an inherited SFL/SFLCTL pair).
      */
     private async editWindowTitle(): Promise<void> {
-        await editWindowTitleForRecord(this.resolveWindowRecordName());
-
-        const { editor } = checkForEditorAndDocument();
-        if (editor) {
-            this.forceReparse(editor.document);
+        const editor = this.getEditor();
+        if (!editor) {
+            return;
         };
+
+        await editWindowTitleForRecord(editor, this.resolveWindowRecordName());
+        this.forceReparse();
     };
 
     /**
@@ -1490,14 +667,14 @@ export class RecordPreviewPanel {
      */
     private async centerWindowHorizontally(): Promise<void> {
         const windowRecordName = this.resolveWindowRecordName();
-        const windowInfo = findWindowAttribute(windowRecordName, this.activeDisplayFormat);
+        const windowInfo = findWindowAttribute(this.model, windowRecordName, this.activeDisplayFormat);
         if (!windowInfo) {
             return;
         };
 
         const defaultSize = this.activeDisplayFormat
-            ? (getSizeForFormat(this.activeDisplayFormat) ?? getDefaultSize())
-            : getDefaultSize();
+            ? (getSizeForFormat(this.model, this.activeDisplayFormat) ?? getDefaultSize(this.model))
+            : getDefaultSize(this.model);
 
         const newStartCol = Math.max(1, Math.floor((defaultSize.cols - windowInfo.numCols) / 2) + 1);
         if (newStartCol === windowInfo.startCol) {
@@ -1516,16 +693,15 @@ export class RecordPreviewPanel {
      * @param lineIndex - Zero-based source line index of the selected field/constant
      */
     private async centerElement(lineIndex: number): Promise<void> {
+        if (!this.ensureTreeDocument()) {
+            return;
+        };
         const node = await this.treeProvider?.findFieldOrConstantNode(lineIndex);
         if (!node) {
             return;
         };
         await vscode.commands.executeCommand('dspf-edit.center', node);
-
-        const { editor } = checkForEditorAndDocument();
-        if (editor) {
-            this.forceReparse(editor.document);
-        };
+        this.forceReparse();
     };
 
     /**
@@ -1536,6 +712,9 @@ export class RecordPreviewPanel {
      * @param lineIndex - Zero-based source line index of the selected field/constant
      */
     private async showElementMenu(lineIndex: number): Promise<void> {
+        if (!this.ensureTreeDocument()) {
+            return;
+        };
         const node = await this.treeProvider?.findFieldOrConstantNode(lineIndex);
         if (!node || (node.ddsElement.kind !== 'field' && node.ddsElement.kind !== 'constant')) {
             return;
@@ -1557,23 +736,122 @@ export class RecordPreviewPanel {
         };
 
         await vscode.commands.executeCommand(selection.command, node);
+        this.forceReparse();
+    };
 
-        const { editor } = checkForEditorAndDocument();
-        if (editor) {
-            this.forceReparse(editor.document);
+    /**
+     * Edits, renames or removes the selected field/constant from the preview's keyboard (Enter, F2,
+     * Delete), by running the tree's own command against the matching tree node, like
+     * centerElement. A constant has no name of its own, so renaming it edits its text. Once an
+     * element is removed the lines below it shift up, so the preview's selection is cleared rather
+     * than left on whatever now sits at that line.
+     * @param lineIndex - Zero-based source line index of the selected field/constant
+     * @param action - What the key does
+     */
+    private async runElementCommand(lineIndex: number, action: 'edit' | 'rename' | 'remove'): Promise<void> {
+        if (!this.ensureTreeDocument()) {
+            return;
+        };
+        const node = await this.treeProvider?.findFieldOrConstantNode(lineIndex);
+        if (!node || (node.ddsElement.kind !== 'field' && node.ddsElement.kind !== 'constant')) {
+            return;
+        };
+
+        const isField = node.ddsElement.kind === 'field';
+        const command = action === 'remove' ? 'dspf-edit.remove-element'
+            : action === 'rename' && isField ? 'dspf-edit.rename-field'
+                : isField ? 'dspf-edit.edit-field' : 'dspf-edit.edit-constant';
+        const lineCount = this.document.lineCount;
+
+        await vscode.commands.executeCommand(command, node);
+        if (action === 'remove' && this.document.lineCount < lineCount) {
+            this.panel.webview.postMessage({ type: 'clearSelection' });
         };
+        this.forceReparse();
     };
 
     /**
-     * Rewrites the record's WINDOW(startRow startCol numRows numCols) keyword in place.
+     * Shows the layout tools for a multi-selection (align left or right edges, align to a column,
+     * distribute evenly on a row, stack vertically) and applies the chosen one as a single move
+     * of every element, so one undo reverts it. Nothing moves when an element would end up
+     * outside the record, or above a subfile's header.
+     * @param elements - The selected elements, as rendered
      */
-    private async rewriteWindowKeyword(lineIndex: number, startRow: number, startCol: number, numRows: number, numCols: number): Promise<void> {
-        const { editor } = checkForEditorAndDocument();
-        if (!editor) {
+    private async showLayoutMenu(elements: LayoutElement[]): Promise<void> {
+        const geometry = this.createComposer().resolveGeometry();
+        if (!geometry || elements.length < 2) {
             return;
         };
+        const { size, rowOffset, colOffset, minDetailRow } = geometry;
+
+        const options: (vscode.QuickPickItem & { action: LayoutAction })[] = [
+            { label: 'Align Left Edges', description: 'On the leftmost element\'s column', action: 'alignLeft' },
+            { label: 'Align Right Edges', description: 'On the rightmost element\'s last character', action: 'alignRight' },
+            { label: 'Align to Column...', description: 'Left edges on a given column', action: 'alignColumn' },
+            { label: 'Distribute Evenly on a Row', description: 'Equal blanks between them, on the leftmost element\'s row', action: 'distributeRow' },
+            { label: 'Stack Vertically...', description: 'Under the first one, a given number of rows apart', action: 'stackVertically' }
+        ];
+        const selection = await vscode.window.showQuickPick(options, {
+            title: `Layout — ${elements.length} elements`,
+            placeHolder: 'Select a layout tool',
+            ignoreFocusOut: true
+        });
+        if (!selection) {
+            return;
+        };
+
+        let parameter = 1;
+        if (selection.action === 'alignColumn' || selection.action === 'stackVertically') {
+            const isColumn = selection.action === 'alignColumn';
+            const limit = isColumn ? size.cols : size.rows - 1;
+            const input = await vscode.window.showInputBox({
+                title: selection.label.replace('...', ''),
+                prompt: isColumn ? `Column to align the left edges on (1-${size.cols})` : `Rows from one element to the next (1 = consecutive rows)`,
+                value: isColumn ? String(Math.min(...elements.map(element => element.col)) - colOffset) : '1',
+                validateInput: value => {
+                    const number = Number(value.trim());
+                    return Number.isInteger(number) && number >= 1 && number <= limit ? null : `Enter a number from 1 to ${limit}.`;
+                }
+            });
+            if (!input) {
+                return;
+            };
+            parameter = Number(input.trim());
+        };
 
-        const line = editor.document.lineAt(lineIndex);
+        const moves = computeLayout(selection.action, elements, parameter);
+        if (moves.length === 0) {
+            vscode.window.showInformationMessage('The elements are already laid out that way.');
+            return;
+        };
+
+        const widthByLine = new Map(elements.map(element => [element.lineIndex, element.width]));
+        for (const move of moves) {
+            const row = move.newRow - rowOffset;
+            const col = move.newCol - colOffset;
+            const lastCol = col + (widthByLine.get(move.lineIndex) ?? 1) - 1;
+            if (row < 1 || row > size.rows || col < 1 || lastCol > size.cols) {
+                vscode.window.showWarningMessage(
+                    `Cannot apply "${selection.label.replace('...', '')}": an element would end up outside record '${this.recordName}' (rows 1-${size.rows}, columns 1-${size.cols}).`
+                );
+                return;
+            };
+            if (minDetailRow !== null && row < minDetailRow) {
+                vscode.window.showWarningMessage(
+                    `Cannot apply "${selection.label.replace('...', '')}": an element would end up on row ${row}, occupied by the subfile header (rows below ${minDetailRow} only).`
+                );
+                return;
+            };
+        };
+
+        await this.moveElements(moves);
+    };
+
+    /**
+     * Rewrites the record's WINDOW(startRow startCol numRows numCols) keyword in place.
+     */
+    private async rewriteWindowKeyword(lineIndex: number, startRow: number, startCol: number, numRows: number, numCols: number): Promise<void> {
+        const line = this.document.lineAt(lineIndex);
         const updatedLine = line.text.replace(
             /WINDOW\s*\(\s*\d+\s+\d+\s+\d+\s+\d+(\s+[^)]*)?\s*\)/i,
             (_match, suffix) => `WINDOW(${startRow} ${startCol} ${numRows} ${numCols}${suffix ?? ''})`
@@ -1584,11 +862,11 @@ export class RecordPreviewPanel {
         };
 
         const workspaceEdit = new vscode.WorkspaceEdit();
-        workspaceEdit.replace(editor.document.uri, line.range, updatedLine);
+        workspaceEdit.replace(this.document.uri, line.range, updatedLine);
         if (!(await applyWorkspaceEdit(workspaceEdit, 'resize/move the window'))) {
             return;
         };
-        this.forceReparse(editor.document);
+        this.forceReparse();
     };
 
     /**
@@ -1597,12 +875,8 @@ export class RecordPreviewPanel {
      * one row of headroom past what's visible. Both are 4-digit zero-padded numeric literals.
      */
     private async adjustSubfilePageSize(delta: number): Promise<void> {
-        const { editor } = checkForEditorAndDocument();
-        if (!editor) {
-            return;
-        };
-
-        const recordInfo = fieldsPerRecords.find(r => r.record === this.recordName);
+        const document = this.document;
+        const recordInfo = this.model.fieldsPerRecords.find(r => r.record === this.recordName);
         if (!recordInfo || !isSflCtlRecordInfo(recordInfo)) {
             return;
         };
@@ -1618,43 +892,251 @@ export class RecordPreviewPanel {
         if (newPag === currentPag) {
             return;
         };
-        const newSiz = newPag + 1;
+        const newSiz = newPag + 1;
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+
+        const pagLine = document.lineAt(pagAttr.lineIndex);
+        workspaceEdit.replace(
+            document.uri,
+            pagLine.range,
+            pagLine.text.replace(/SFLPAG\(\s*\d+\s*\)/i, `SFLPAG(${String(newPag).padStart(4, '0')})`)
+        );
+
+        const sizCandidates = recordInfo.attributes?.filter(a => a.value.toUpperCase().startsWith('SFLSIZ(')) ?? [];
+        const sizAttr = pickForActiveFormat(sizCandidates, this.activeDisplayFormat);
+        if (sizAttr) {
+            const sizLine = document.lineAt(sizAttr.lineIndex);
+            workspaceEdit.replace(
+                document.uri,
+                sizLine.range,
+                sizLine.text.replace(/SFLSIZ\(\s*\d+\s*\)/i, `SFLSIZ(${String(newSiz).padStart(4, '0')})`)
+            );
+        };
+
+        if (!(await applyWorkspaceEdit(workspaceEdit, 'change the subfile page size'))) {
+            return;
+        };
+        this.forceReparse();
+    };
+
+    /**
+     * Exports the current rendering — with the simulated indicators, display format and overlay as
+     * they are — as a PNG or SVG image, or a standalone HTML page whose fields show their names on
+     * hover. The PNG is the webview's own canvas, captured without the editing aids (selection,
+     * grid dots, window handles); the SVG and HTML are drawn here from what was last rendered.
+     */
+    private async exportPreview(): Promise<void> {
+        const snapshot = this.lastSnapshot;
+        if (!snapshot) {
+            vscode.window.showWarningMessage('There is nothing to export: the record no longer exists.');
+            return;
+        };
+
+        const selection = await vscode.window.showQuickPick(
+            [
+                { label: 'PNG', description: 'Image, exactly as the preview draws it', format: 'png' as const },
+                { label: 'SVG', description: 'Scalable image', format: 'svg' as const },
+                { label: 'HTML', description: 'Standalone page; hovering a field shows its name', format: 'html' as const }
+            ],
+            { title: `Export Preview of ${snapshot.recordName}`, placeHolder: describeSnapshot(snapshot) }
+        );
+        if (!selection) {
+            return;
+        };
+
+        // The canvas is only in the webview: it sends it back as a data URL (see savePng)
+        if (selection.format === 'png') {
+            this.panel.webview.postMessage({ type: 'capturePng' });
+            return;
+        };
+
+        const content = selection.format === 'svg' ? buildPreviewSvg(snapshot) : buildPreviewHtml(snapshot);
+        await this.saveExport(selection.format, Buffer.from(content, 'utf8'));
+    };
+
+    /**
+     * Saves the PNG captured by the webview.
+     * @param dataUrl - The canvas, as a base64 PNG data URL
+     */
+    private async savePng(dataUrl: string): Promise<void> {
+        const match = dataUrl.match(/^data:image\/png;base64,(.*)$/);
+        if (!match) {
+            vscode.window.showErrorMessage('The preview could not be captured as an image.');
+            return;
+        };
+        await this.saveExport('png', Buffer.from(match[1], 'base64'));
+    };
+
+    /**
+     * Asks where to save an export (next to the DDS source, when it's a local file) and writes it.
+     * @param format - The export's format, which is also its file extension
+     * @param content - The file's content
+     */
+    private async saveExport(format: 'png' | 'svg' | 'html', content: Uint8Array): Promise<void> {
+        try {
+            const sourceName = (this.document.uri.path.split('/').pop() ?? '').replace(/\.[^.]*$/, '');
+            const fileName = `${sourceName}_${this.recordName}.${format}`;
+            const folder = this.document.uri.scheme === 'file'
+                ? vscode.Uri.joinPath(this.document.uri, '..')
+                : vscode.workspace.workspaceFolders?.[0]?.uri;
+            const filters: Record<typeof format, Record<string, string[]>> = {
+                png: { 'PNG Image': ['png'] },
+                svg: { 'SVG Image': ['svg'] },
+                html: { 'HTML Page': ['html', 'htm'] }
+            };
+
+            const target = await vscode.window.showSaveDialog({
+                title: `Export Preview of ${this.recordName}`,
+                defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+                filters: filters[format]
+            });
+            if (!target) {
+                return;
+            };
+
+            await vscode.workspace.fs.writeFile(target, content);
+            vscode.window.showInformationMessage(`Preview of ${this.recordName} exported to ${target.path.split('/').pop()}.`);
+
+        } catch (error) {
+            console.error('Error exporting record preview:', error);
+            vscode.window.showErrorMessage('An error occurred while exporting the record preview.');
+        };
+    };
+
+    /**
+     * Loads the sample data file found next to the source (e.g. ITEMS.sample.json for
+     * ITEMS.dspf), if there is one.
+     */
+    private async loadAdjacentSampleData(): Promise<void> {
+        const uri = await findSampleDataFile(this.document.uri);
+        if (uri) {
+            await this.useSampleData(uri);
+        };
+    };
+
+    /**
+     * Reads a sample data file and re-renders the preview with its values.
+     * @param uri - The JSON or CSV file
+     */
+    private async useSampleData(uri: vscode.Uri): Promise<void> {
+        try {
+            this.sampleData = await loadSampleData(uri);
+            this.sampleDataUri = uri;
+            this.render();
+        } catch (error) {
+            console.error('Error reading sample data:', error);
+            vscode.window.showErrorMessage(`Could not read the sample data in ${uri.path.split('/').pop()}: ${error instanceof Error ? error.message : String(error)}`);
+        };
+    };
+
+    /**
+     * Shows the toolbar's sample data actions: choose a file, reload it, list the values that
+     * didn't fit their fields, or go back to placeholders.
+     */
+    private async showSampleDataMenu(): Promise<void> {
+        const fileName = this.sampleDataUri?.path.split('/').pop();
+        const options: (vscode.QuickPickItem & { action: string })[] = [
+            { label: '$(folder-opened) Choose Sample Data File...', description: 'JSON or CSV', action: 'choose' }
+        ];
+        if (this.sampleDataUri) {
+            options.push({ label: `$(refresh) Reload ${fileName}`, action: 'reload' });
+            if (this.sampleWarnings.length > 0) {
+                options.push({ label: '$(warning) Show Values That Don\'t Fit', description: `${this.sampleWarnings.length}`, action: 'warnings' });
+            };
+            options.push({ label: '$(close) Show Placeholders', description: 'Stop using the sample data', action: 'remove' });
+        };
+
+        const selection = await vscode.window.showQuickPick(options, {
+            title: 'Preview Sample Data',
+            placeHolder: fileName ? `Field values from ${fileName}` : 'Fields show placeholders',
+            ignoreFocusOut: true
+        });
+        if (!selection) {
+            return;
+        };
 
-        const workspaceEdit = new vscode.WorkspaceEdit();
+        if (selection.action === 'choose') {
+            const folder = this.document.uri.scheme === 'file'
+                ? vscode.Uri.joinPath(this.document.uri, '..')
+                : vscode.workspace.workspaceFolders?.[0]?.uri;
+            const picked = await vscode.window.showOpenDialog({
+                title: 'Choose Sample Data File',
+                defaultUri: folder,
+                canSelectMany: false,
+                filters: { 'Sample Data': ['json', 'csv'] }
+            });
+            if (picked?.[0]) {
+                await this.useSampleData(picked[0]);
+            };
+        } else if (selection.action === 'reload' && this.sampleDataUri) {
+            await this.useSampleData(this.sampleDataUri);
+        } else if (selection.action === 'warnings') {
+            const report = await vscode.workspace.openTextDocument({
+                language: 'markdown',
+                content: `# Sample values that don't fit\n\nFrom ${fileName}, previewing ${this.recordName}:\n\n` +
+                    this.sampleWarnings.map(warning => `- ${warning}`).join('\n') + '\n'
+            });
+            await vscode.window.showTextDocument(report, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+        } else if (selection.action === 'remove') {
+            this.sampleData = undefined;
+            this.sampleDataUri = undefined;
+            this.render();
+        };
+    };
 
-        const pagLine = editor.document.lineAt(pagAttr.lineIndex);
-        workspaceEdit.replace(
-            editor.document.uri,
-            pagLine.range,
-            pagLine.text.replace(/SFLPAG\(\s*\d+\s*\)/i, `SFLPAG(${String(newPag).padStart(4, '0')})`)
-        );
+    /**
+     * The webview holds focus during drag/resize, so the normal onDidChangeTextDocument listener
+     * (which only reacts when the edited document is the active text editor) won't fire.
+     * Force the re-parse immediately instead of waiting for the user to click back into the source.
+     * When the tree shows another document, only this panel's own model is refreshed.
+     */
+    private forceReparse(): void {
+        if (this.treeProvider && this.isTreeDocument()) {
+            updateTreeProvider(this.treeProvider, this.document);
+        } else {
+            this.onRefresh?.();
+        };
+    };
 
-        const sizCandidates = recordInfo.attributes?.filter(a => a.value.toUpperCase().startsWith('SFLSIZ(')) ?? [];
-        const sizAttr = pickForActiveFormat(sizCandidates, this.activeDisplayFormat);
-        if (sizAttr) {
-            const sizLine = editor.document.lineAt(sizAttr.lineIndex);
-            workspaceEdit.replace(
-                editor.document.uri,
-                sizLine.range,
-                sizLine.text.replace(/SFLSIZ\(\s*\d+\s*\)/i, `SFLSIZ(${String(newSiz).padStart(4, '0')})`)
-            );
+    /** Whether the DDS tree (and the tree-node based commands) currently shows this panel's document. */
+    private isTreeDocument(): boolean {
+        return ExtensionState.lastDdsDocument?.uri.toString() === this.document.uri.toString();
+    };
+
+    /**
+     * Checks the tree shows this panel's document before running a tree-node based command from
+     * the preview, telling the user to switch to it otherwise.
+     */
+    private ensureTreeDocument(): boolean {
+        if (this.isTreeDocument()) {
+            return true;
         };
+        vscode.window.showWarningMessage(`Switch to '${this.document.uri.path.split('/').pop()}' in the editor to use this action.`);
+        return false;
+    };
 
-        if (!(await applyWorkspaceEdit(workspaceEdit, 'change the subfile page size'))) {
-            return;
+    /**
+     * Finds an editor showing this panel's document: the last DDS editor used, if it's this
+     * document's, else any visible one (e.g. the other side of a split editor).
+     */
+    private findEditor(): vscode.TextEditor | undefined {
+        const documentUri = this.document.uri.toString();
+        if (ExtensionState.lastDdsEditor?.document.uri.toString() === documentUri) {
+            return ExtensionState.lastDdsEditor;
         };
-        this.forceReparse(editor.document);
+        return vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === documentUri);
     };
 
     /**
-     * The webview holds focus during drag/resize, so the normal onDidChangeTextDocument listener
-     * (which only reacts when the edited document is the active text editor) won't fire.
-     * Force the re-parse immediately instead of waiting for the user to click back into the source.
+     * Same as findEditor(), but tells the user when this panel's document isn't open in any editor.
      */
-    private forceReparse(document: vscode.TextDocument): void {
-        if (this.treeProvider) {
-            updateTreeProvider(this.treeProvider, document);
+    private getEditor(): vscode.TextEditor | undefined {
+        const editor = this.findEditor();
+        if (!editor) {
+            vscode.window.showErrorMessage(`No editor found for '${this.document.uri.path.split('/').pop()}'.`);
         };
+        return editor;
     };
 
     /**
@@ -1707,7 +1189,7 @@ export class RecordPreviewPanel {
         align-items: center;
         gap: 6px;
     }
-    #actionBar button, #sflpagBar button, #selectionBar button {
+    #actionBar button, #sflpagBar button, #selectionBar button, #testBar button {
         background: #000000;
         color: #00ff00;
         border: 1px solid #333333;
@@ -1716,7 +1198,7 @@ export class RecordPreviewPanel {
         padding: 2px 6px;
         cursor: pointer;
     }
-    #actionBar button.active {
+    #actionBar button.active, #testBar button.active {
         background: #00ff00;
         color: #000000;
         border-color: #00ff00;
@@ -1753,6 +1235,22 @@ export class RecordPreviewPanel {
         display: none;
         margin-bottom: 6px;
     }
+    #testBar {
+        display: none;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 6px;
+        font-size: 12px;
+    }
+    #testKeyList {
+        display: inline-flex;
+        flex-wrap: wrap;
+        gap: 4px;
+    }
+    #testStatus {
+        opacity: 0.8;
+    }
     .indicator-btn {
         display: inline-block;
         min-width: 20px;
@@ -1799,16 +1297,26 @@ export class RecordPreviewPanel {
     <span id="actionBar">
         <button id="addFieldBtn" title="Click, then click a point in the screen to place a new field there">+ Field</button>
         <button id="addConstantBtn" title="Click, then click a point in the screen to place a new constant there">+ Constant</button>
+        <button id="testBtn" title="Try the screen as a 5250 would: type in the input fields, Tab between them, and press Enter or a function key to run their validity checks (Esc leaves)">⌨ Test</button>
         <button id="gridDotsBtn" title="Show a dot in every empty character cell, to see spacing between fields/constants">⋅ Grid</button>
+        <button id="dataBtn" title="Show values from a sample data file (JSON or CSV) in the fields, one row per subfile row, instead of placeholders">⊞ Data</button>
+        <button id="textBtn" title="Render the screen as shown as a text grid, in a new Markdown document">▤ Text</button>
+        <button id="exportBtn" title="Save the screen as shown (indicators, format and overlay included) as a PNG/SVG image or an HTML page">⤓ Export</button>
     </span>
     <span id="selectionBar">
         <span id="selectionLabel"></span>
         <button id="selectionCenterBtn" title="Center horizontally">↔ Center</button>
         <button id="selectionMenuBtn" title="More actions (color, attributes...)">⋮ Actions</button>
+        <button id="selectionLayoutBtn" title="Align or distribute the selected fields/constants (one undo reverts it)">▥ Layout</button>
     </span>
 </div>
 <div id="indicatorList"></div>
-<canvas id="screen"></canvas>
+<div id="testBar">
+    <span id="testKeyList"></span>
+    <button id="testClearBtn" title="Blank every input field and reset their modified data tags">Clear</button>
+    <span id="testStatus"></span>
+</div>
+<canvas id="screen" tabindex="0"></canvas>
 <script>
     const vscode = acquireVsCodeApi();
     const canvas = document.getElementById('screen');
@@ -1828,10 +1336,19 @@ export class RecordPreviewPanel {
     const addConstantBtn = document.getElementById('addConstantBtn');
     const addFieldBtn = document.getElementById('addFieldBtn');
     const gridDotsBtn = document.getElementById('gridDotsBtn');
+    const exportBtn = document.getElementById('exportBtn');
+    const textBtn = document.getElementById('textBtn');
+    const dataBtn = document.getElementById('dataBtn');
+    const testBtn = document.getElementById('testBtn');
+    const testBar = document.getElementById('testBar');
+    const testKeyList = document.getElementById('testKeyList');
+    const testClearBtn = document.getElementById('testClearBtn');
+    const testStatus = document.getElementById('testStatus');
     const selectionBar = document.getElementById('selectionBar');
     const selectionLabel = document.getElementById('selectionLabel');
     const selectionCenterBtn = document.getElementById('selectionCenterBtn');
     const selectionMenuBtn = document.getElementById('selectionMenuBtn');
+    const selectionLayoutBtn = document.getElementById('selectionLayoutBtn');
 
     const CHAR_W = 9;
     const CHAR_H = 18;
@@ -1866,6 +1383,18 @@ export class RecordPreviewPanel {
     let currentRecordName = null;
     let placingKind = null; // null | 'constant' | 'field'
     let showGridDots = false;
+    let capturing = false;
+
+    // Test mode: what's typed in each input field (by line), which fields were typed in (their
+    // modified data tag), the fields the last key found in error, and the cursor's field/position.
+    let testMode = false;
+    let testFields = [];
+    let testFieldByLine = new Map();
+    let testValues = new Map();
+    let testModified = new Set();
+    let testErrorLines = new Set();
+    let testMessage = null;
+    let testCursor = null; // null | { lineIndex, pos }
 
     function clamp(value, min, max) {
         return Math.min(Math.max(value, min), max);
@@ -1904,9 +1433,14 @@ export class RecordPreviewPanel {
         const y = (row - 1) * CHAR_H;
         const w = Math.max(item.length, item.text.length, 1) * CHAR_W;
 
+        // In test mode, an input field shows what's typed in it instead of its placeholder, and
+        // turns reverse image when the last key found it in error, as the display station does.
+        const testField = testMode && item.isInteractive ? testFieldByLine.get(item.lineIndex) : undefined;
+        const reverseImage = item.reverseImage || Boolean(testField && testErrorLines.has(item.lineIndex));
+
         ctx.font = (item.highIntensity ? 'bold ' : '') + (CHAR_H - 4) + 'px ' + fontFamily;
 
-        if (item.reverseImage) {
+        if (reverseImage) {
             ctx.fillStyle = item.color;
             ctx.fillRect(x, y, w, CHAR_H);
             ctx.fillStyle = '#000000';
@@ -1920,7 +1454,11 @@ export class RecordPreviewPanel {
         // long enough string, and keeps each character's visual center aligned with a grid dot's,
         // instead of a fixed left pad making wider glyphs (e.g. bold capitals) look shifted right
         // of where a dot in the same cell sits.
-        const text = item.text.length > item.length ? item.text.substring(0, item.length) : item.text;
+        let text = item.text.length > item.length ? item.text.substring(0, item.length) : item.text;
+        if (testField) {
+            const segment = testField.segments.find(s => s.row === item.row && s.col === item.col) || testField.segments[0];
+            text = testValueOf(item.lineIndex).padEnd(testField.length).substr(segment.offset, segment.length);
+        }
         ctx.textAlign = 'center';
         for (let i = 0; i < text.length; i++) {
             ctx.fillText(text[i], x + i * CHAR_W + CHAR_W / 2, y + CHAR_H / 2);
@@ -1928,7 +1466,7 @@ export class RecordPreviewPanel {
         ctx.textAlign = 'start';
 
         if (item.underline || item.isInputCapable) {
-            ctx.strokeStyle = item.reverseImage ? '#000000' : item.color;
+            ctx.strokeStyle = reverseImage ? '#000000' : item.color;
             ctx.beginPath();
             ctx.moveTo(x, y + CHAR_H - 2.5);
             ctx.lineTo(x + w, y + CHAR_H - 2.5);
@@ -2105,24 +1643,30 @@ export class RecordPreviewPanel {
 
         drawGridDots(size, items, currentBackgroundItems, moveDelta, currentOuterFrame, currentWindowFrame);
 
-        // A currently-active ERRMSG() shows on the display's message line — the physical screen's
-        // bottom row, whether or not the record being previewed is itself a window — in white,
-        // overwriting whatever would otherwise be there, same as a real 5250 error line.
-        if (currentErrorMessage) {
+        // A currently-active ERRMSG() (or, in test mode, the message of the last key pressed) shows
+        // on the display's message line — the physical screen's bottom row, whether or not the
+        // record being previewed is itself a window — in white, overwriting whatever would
+        // otherwise be there, same as a real 5250 error line.
+        const messageLine = (testMode && testMessage) ? { text: testMessage } : currentErrorMessage;
+        if (messageLine) {
             const rowY = (size.rows - 1) * CHAR_H;
             ctx.fillStyle = '#000000';
             ctx.fillRect(0, rowY, canvas.width, CHAR_H);
             ctx.fillStyle = '#ffffff';
             ctx.font = (CHAR_H - 4) + 'px ' + fontFamily;
             ctx.textAlign = 'center';
-            const text = currentErrorMessage.text;
+            const text = messageLine.text;
             for (let i = 0; i < text.length && i < size.cols; i++) {
                 ctx.fillText(text[i], i * CHAR_W + CHAR_W / 2, rowY + CHAR_H / 2);
             }
             ctx.textAlign = 'start';
         }
 
-        if (currentOuterFrame) {
+        if (testMode && testCursor && !capturing) {
+            drawTestCursor(fontFamily);
+        }
+
+        if (currentOuterFrame && !capturing) {
             const hx = (currentOuterFrame.col - 1 + currentOuterFrame.cols) * CHAR_W;
             const hy = (currentOuterFrame.row - 1 + currentOuterFrame.rows) * CHAR_H;
             ctx.fillStyle = '#ffffff';
@@ -2211,8 +1755,9 @@ export class RecordPreviewPanel {
         // lineIndexes, not raw rendered items.
         const uniqueByLine = [...new Map(items.map(i => [i.lineIndex, i])).values()];
 
-        // A multi-selection only supports moving (dragging), not centering or the actions menu —
-        // those stay single-item, so the buttons are hidden rather than made to act on a group.
+        // A multi-selection supports moving (dragging) and the layout tools, not centering or the
+        // actions menu — those stay single-item, so the buttons are hidden rather than made to act
+        // on a group.
         const multi = uniqueByLine.length > 1;
         if (multi) {
             const kinds = new Set(uniqueByLine.map(i => i.kind));
@@ -2223,6 +1768,7 @@ export class RecordPreviewPanel {
         }
         selectionCenterBtn.style.display = multi ? 'none' : 'inline-block';
         selectionMenuBtn.style.display = multi ? 'none' : 'inline-block';
+        selectionLayoutBtn.style.display = multi ? 'inline-block' : 'none';
         selectionBar.style.display = 'inline-flex';
     }
 
@@ -2355,6 +1901,301 @@ export class RecordPreviewPanel {
         }
     });
 
+    // The layout tools work on the selection as rendered: one element per field (a CNTFLD-wrapped
+    // field's topmost line, its anchor, as for a drag), with its rendered width for right edges.
+    selectionLayoutBtn.addEventListener('click', () => {
+        const elementByLine = new Map();
+        for (const item of currentItems) {
+            if (!item.isInteractive || !selectedLineIndices.has(item.lineIndex)) {
+                continue;
+            }
+            const existing = elementByLine.get(item.lineIndex);
+            if (!existing || item.row < existing.row) {
+                elementByLine.set(item.lineIndex, {
+                    lineIndex: item.lineIndex,
+                    row: item.row,
+                    col: item.col,
+                    width: Math.max(item.length, item.text.length, 1),
+                    rowOffset: item.rowOffset,
+                    colOffset: item.colOffset
+                });
+            }
+        }
+        if (elementByLine.size > 1) {
+            vscode.postMessage({ type: 'layoutMenu', elements: [...elementByLine.values()] });
+        }
+    });
+
+    dataBtn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'sampleData' });
+    });
+
+    textBtn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'renderText' });
+    });
+
+    exportBtn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'export' });
+    });
+
+    // TEST MODE
+
+    function testValueOf(lineIndex) {
+        return testValues.get(lineIndex) || '';
+    }
+
+    function testCursorCell() {
+        const field = testFieldByLine.get(testCursor.lineIndex);
+        const segment = field.segments.find(s => testCursor.pos >= s.offset && testCursor.pos < s.offset + s.length)
+            || field.segments[field.segments.length - 1];
+        return { row: segment.row, col: segment.col + testCursor.pos - segment.offset };
+    }
+
+    function drawTestCursor(fontFamily) {
+        if (!testFieldByLine.has(testCursor.lineIndex)) {
+            return;
+        }
+        const { row, col } = testCursorCell();
+        const x = (col - 1) * CHAR_W;
+        const y = (row - 1) * CHAR_H;
+        ctx.fillStyle = '#00ff00';
+        ctx.fillRect(x, y, CHAR_W, CHAR_H);
+
+        // A non-display (ND) field, e.g. a password, doesn't show what's typed even under the cursor
+        const hidden = currentItems.some(i => i.lineIndex === testCursor.lineIndex && i.nonDisplay);
+        const char = hidden ? ' ' : testValueOf(testCursor.lineIndex).charAt(testCursor.pos);
+        ctx.fillStyle = '#000000';
+        ctx.font = (CHAR_H - 4) + 'px ' + fontFamily;
+        ctx.textAlign = 'center';
+        ctx.fillText(char, x + CHAR_W / 2, y + CHAR_H / 2);
+        ctx.textAlign = 'start';
+    }
+
+    function redrawScreen() {
+        if (currentSize) {
+            draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+        }
+    }
+
+    function setTestMode(enabled) {
+        testMode = enabled;
+        testBtn.classList.toggle('active', testMode);
+        testBar.style.display = testMode ? 'flex' : 'none';
+        addFieldBtn.disabled = testMode;
+        addConstantBtn.disabled = testMode;
+        testValues = new Map();
+        testModified = new Set();
+        testErrorLines = new Set();
+        testMessage = null;
+        testCursor = null;
+        testStatus.textContent = '';
+        if (testMode) {
+            setPlacingKind(null);
+            selectedLineIndices.clear();
+            canvas.focus();
+        }
+        vscode.postMessage({ type: 'setTestMode', enabled: testMode });
+        redrawScreen();
+    }
+
+    // Called on every render while in test mode: what's typed in a field that's still there is
+    // kept, so changing the indicators or the format (or editing the source) doesn't lose it.
+    function applyTestFields(fields, commandKeys) {
+        testFields = fields;
+        testFieldByLine = new Map(fields.map(f => [f.lineIndex, f]));
+        for (const lineIndex of [...testValues.keys()]) {
+            if (!testFieldByLine.has(lineIndex)) {
+                testValues.delete(lineIndex);
+                testModified.delete(lineIndex);
+            }
+        }
+        if (!testCursor || !testFieldByLine.has(testCursor.lineIndex)) {
+            testCursor = fields.length > 0 ? { lineIndex: fields[0].lineIndex, pos: 0 } : null;
+        }
+        if (fields.length === 0) {
+            testStatus.textContent = 'This record has no input-capable fields.';
+        }
+
+        testKeyList.innerHTML = '';
+        const keyButtons = [{ key: 'Enter', label: 'Enter', title: 'Enter: checks the input and returns it to the program' }]
+            .concat(commandKeys.map(k => ({
+                key: k.key,
+                label: k.key + (k.text ? '=' + k.text : ''),
+                title: k.keyword +
+                    (k.indicator !== undefined ? ': sets *IN' + String(k.indicator).padStart(2, '0') : ': sets no response indicator') +
+                    (k.validates ? '' : ', input not checked or returned')
+            })));
+        for (const k of keyButtons) {
+            const btn = document.createElement('button');
+            btn.textContent = k.label;
+            btn.title = k.title;
+            btn.addEventListener('click', () => {
+                submitTestKey(k.key);
+                canvas.focus();
+            });
+            testKeyList.appendChild(btn);
+        }
+    }
+
+    function submitTestKey(key) {
+        const values = {};
+        for (const [lineIndex, value] of testValues) {
+            values[lineIndex] = value;
+        }
+        vscode.postMessage({ type: 'testKey', key, values, modified: [...testModified] });
+    }
+
+    function moveTestField(step) {
+        const index = testFields.findIndex(f => f.lineIndex === testCursor.lineIndex);
+        const next = testFields[(index + step + testFields.length) % testFields.length];
+        testCursor = { lineIndex: next.lineIndex, pos: step < 0 && next.lineIndex !== testCursor.lineIndex ? next.length - 1 : 0 };
+    }
+
+    // Cursor up/down: the field on the nearest row above/below, the one closest to the cursor's column
+    function moveTestRow(step) {
+        const cell = testCursorCell();
+        const candidates = testFields.filter(f => step > 0 ? f.row > cell.row : f.row < cell.row);
+        if (candidates.length === 0) {
+            return;
+        }
+        const targetRow = step > 0 ? Math.min(...candidates.map(f => f.row)) : Math.max(...candidates.map(f => f.row));
+        const onRow = candidates.filter(f => f.row === targetRow);
+        const target = onRow.reduce((best, f) => Math.abs(f.col - cell.col) < Math.abs(best.col - cell.col) ? f : best);
+        testCursor = { lineIndex: target.lineIndex, pos: clamp(cell.col - target.col, 0, target.length - 1) };
+    }
+
+    function placeTestCursorAt(row, col) {
+        for (const field of testFields) {
+            const segment = field.segments.find(s => s.row === row && col >= s.col && col < s.col + s.length);
+            if (segment) {
+                testCursor = { lineIndex: field.lineIndex, pos: segment.offset + col - segment.col };
+                redrawScreen();
+                return;
+            }
+        }
+    }
+
+    function typeTestCharacter(field, char) {
+        const value = testValueOf(field.lineIndex).padEnd(testCursor.pos);
+        const typed = field.lowercase ? char : char.toUpperCase();
+        testValues.set(field.lineIndex, value.substring(0, testCursor.pos) + typed + value.substring(testCursor.pos + 1));
+        testModified.add(field.lineIndex);
+
+        // Typing past a field's last position moves on to the next field, as the 5250 does
+        if (testCursor.pos + 1 >= field.length) {
+            moveTestField(1);
+        } else {
+            testCursor.pos++;
+        }
+    }
+
+    function deleteTestCharacter(field) {
+        const value = testValueOf(field.lineIndex);
+        testValues.set(field.lineIndex, value.substring(0, testCursor.pos) + value.substring(testCursor.pos + 1));
+        testModified.add(field.lineIndex);
+    }
+
+    function handleTestKey(ev) {
+        if (ev.key === 'Escape') {
+            setTestMode(false);
+            return;
+        }
+
+        // Shift+F1 to Shift+F12 are F13 to F24, as on a 5250 keyboard
+        const functionNumber = /^F[0-9]{1,2}$/.test(ev.key) ? Number(ev.key.substring(1)) : 0;
+        if (functionNumber >= 1 && functionNumber <= 24) {
+            ev.preventDefault();
+            submitTestKey('F' + (functionNumber <= 12 && ev.shiftKey ? functionNumber + 12 : functionNumber));
+            return;
+        }
+        if (ev.key === 'Enter' || ev.key === 'PageUp' || ev.key === 'PageDown') {
+            ev.preventDefault();
+            submitTestKey(ev.key);
+            return;
+        }
+
+        const field = testCursor ? testFieldByLine.get(testCursor.lineIndex) : undefined;
+        if (!field) {
+            return;
+        }
+
+        if (ev.key === 'Tab') {
+            moveTestField(ev.shiftKey ? -1 : 1);
+            testCursor.pos = 0;
+        } else if (ev.key === 'ArrowLeft') {
+            if (testCursor.pos > 0) {
+                testCursor.pos--;
+            } else {
+                moveTestField(-1);
+            }
+        } else if (ev.key === 'ArrowRight') {
+            if (testCursor.pos + 1 < field.length) {
+                testCursor.pos++;
+            } else {
+                moveTestField(1);
+            }
+        } else if (ev.key === 'ArrowUp' || ev.key === 'ArrowDown') {
+            moveTestRow(ev.key === 'ArrowUp' ? -1 : 1);
+        } else if (ev.key === 'Home') {
+            testCursor = testFields.length > 0 ? { lineIndex: testFields[0].lineIndex, pos: 0 } : null;
+        } else if (ev.key === 'End') {
+            testCursor.pos = Math.min(testValueOf(field.lineIndex).trimEnd().length, field.length - 1);
+        } else if (ev.key === 'Backspace') {
+            if (testCursor.pos > 0) {
+                testCursor.pos--;
+                deleteTestCharacter(field);
+            }
+        } else if (ev.key === 'Delete') {
+            deleteTestCharacter(field);
+        } else if (ev.key.length === 1 && !ev.ctrlKey && !ev.metaKey && !ev.altKey) {
+            typeTestCharacter(field, ev.key);
+        } else {
+            return;
+        }
+
+        ev.preventDefault();
+        redrawScreen();
+    }
+
+    testBtn.addEventListener('click', () => {
+        setTestMode(!testMode);
+    });
+
+    testClearBtn.addEventListener('click', () => {
+        testValues = new Map();
+        testModified = new Set();
+        testErrorLines = new Set();
+        testMessage = null;
+        testStatus.textContent = '';
+        testCursor = testFields.length > 0 ? { lineIndex: testFields[0].lineIndex, pos: 0 } : null;
+        redrawScreen();
+        canvas.focus();
+    });
+
+    // Draws one frame without the editing aids (selection, grid dots, window handles and icons)
+    // and with blinking items on, and sends it to the host as a PNG, then redraws as before.
+    function capturePng() {
+        if (!currentSize) {
+            return;
+        }
+        const saved = { selection: selectedLineIndices, gridDots: showGridDots, hovered: windowHovered, blink: blinkOn };
+        selectedLineIndices = new Set();
+        showGridDots = false;
+        windowHovered = false;
+        blinkOn = true;
+        capturing = true;
+        draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+        const dataUrl = canvas.toDataURL('image/png');
+
+        capturing = false;
+        selectedLineIndices = saved.selection;
+        showGridDots = saved.gridDots;
+        windowHovered = saved.hovered;
+        blinkOn = saved.blink;
+        draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+        vscode.postMessage({ type: 'savePng', dataUrl });
+    }
+
     sflpagMinusBtn.addEventListener('click', () => {
         vscode.postMessage({ type: 'sflpagDecrement' });
     });
@@ -2363,9 +2204,162 @@ export class RecordPreviewPanel {
         vscode.postMessage({ type: 'sflpagIncrement' });
     });
 
+    // How far a group of items (each { item, startRow, startCol }) can move together. Every item
+    // must stay within its own valid bounds (window frame vs. whole canvas, an SFL detail record's
+    // rows below its header, and its own width for the column limit) — computed per item, then
+    // intersected so the group's shared delta can never push any one of them out of bounds.
+    function groupDeltaBounds(entries) {
+        let minRowDelta = -Infinity, maxRowDelta = Infinity, minColDelta = -Infinity, maxColDelta = Infinity;
+        for (const { item, startRow, startCol } of entries) {
+            const width = Math.max(item.length, item.text.length, 1);
+            let itemMinRow = 1, itemMaxRow = currentSize.rows, itemMinCol = 1, itemMaxCol = currentSize.cols - width + 1;
+            if (currentWindowFrame && !item.isBackground) {
+                itemMinRow = currentWindowFrame.row;
+                itemMaxRow = Math.max(currentWindowFrame.row + currentWindowFrame.rows - 1, itemMinRow);
+                // The window's own first content column can't be written to; the rest of its width,
+                // including the last column, is usable.
+                itemMinCol = currentWindowFrame.col + 1;
+                itemMaxCol = Math.max(currentWindowFrame.col + currentWindowFrame.cols - width, itemMinCol);
+            }
+            // A subfile detail record's own rows can't be moved up into its header's static content.
+            if (minDetailRow !== null && !item.isBackground) {
+                itemMinRow = Math.max(itemMinRow, minDetailRow);
+            }
+
+            minRowDelta = Math.max(minRowDelta, itemMinRow - startRow);
+            maxRowDelta = Math.min(maxRowDelta, itemMaxRow - startRow);
+            minColDelta = Math.max(minColDelta, itemMinCol - startCol);
+            maxColDelta = Math.min(maxColDelta, itemMaxCol - startCol);
+        }
+        return { minRowDelta, maxRowDelta, minColDelta, maxColDelta };
+    }
+
+    // Writes a group move back to the source. A CNTFLD-wrapped field renders as several items
+    // sharing one lineIndex (one per wrapped line), all moved together for a consistent visual —
+    // but the field has only one source line to write back to. Collapse each lineIndex down to a
+    // single move, using its topmost item (smallest startRow), which is the field's actual anchor
+    // row; the wrapped lines below it are re-derived from that on reparse. Without this, duplicate
+    // moves for the same line produce overlapping edits that VS Code rejects outright.
+    function postGroupMove(entries, rowDelta, colDelta) {
+        const primaryMoveByLine = new Map();
+        for (const d of entries) {
+            const existing = primaryMoveByLine.get(d.item.lineIndex);
+            if (!existing || d.startRow < existing.startRow) {
+                primaryMoveByLine.set(d.item.lineIndex, d);
+            }
+        }
+        vscode.postMessage({
+            type: 'move',
+            moves: [...primaryMoveByLine.values()].map(d => ({
+                lineIndex: d.item.lineIndex,
+                newRow: d.startRow + rowDelta,
+                newCol: d.startCol + colDelta,
+                rowOffset: d.item.rowOffset,
+                colOffset: d.item.colOffset
+            }))
+        });
+    }
+
+    // Arrow keys nudge the selection like a drag would, clamped to the same bounds. The items are
+    // moved here right away too, so a key held down keeps going from where the last press left
+    // them instead of from the last render.
+    function nudgeSelection(rowStep, colStep) {
+        const entries = currentItems
+            .filter(i => selectedLineIndices.has(i.lineIndex) && i.isInteractive)
+            .map(i => ({ item: i, startRow: i.row, startCol: i.col }));
+        if (entries.length === 0) {
+            return;
+        }
+        const { minRowDelta, maxRowDelta, minColDelta, maxColDelta } = groupDeltaBounds(entries);
+        const rowDelta = clamp(rowStep, Math.min(minRowDelta, 0), Math.max(maxRowDelta, 0));
+        const colDelta = clamp(colStep, Math.min(minColDelta, 0), Math.max(maxColDelta, 0));
+        if (rowDelta === 0 && colDelta === 0) {
+            return;
+        }
+
+        postGroupMove(entries, rowDelta, colDelta);
+        for (const { item } of entries) {
+            item.row += rowDelta;
+            item.col += colDelta;
+        }
+        draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+    }
+
+    // Tab/Shift+Tab select the next/previous field or constant in display order (row, then
+    // column), one stop per source line, and follow it in the editor without leaving the preview.
+    function cycleSelection(backwards) {
+        const anchors = [...new Map(
+            currentItems
+                .filter(i => i.isInteractive)
+                .sort((a, b) => b.row - a.row || b.col - a.col)
+                .map(i => [i.lineIndex, i])
+        ).values()].sort((a, b) => a.row - b.row || a.col - b.col);
+        if (anchors.length === 0) {
+            return;
+        }
+
+        const current = anchors.findIndex(i => selectedLineIndices.has(i.lineIndex));
+        let next;
+        if (current === -1) {
+            next = backwards ? anchors.length - 1 : 0;
+        } else {
+            next = (current + (backwards ? anchors.length - 1 : 1)) % anchors.length;
+        }
+        const lineIndex = anchors[next].lineIndex;
+        selectedLineIndices = new Set([lineIndex]);
+        draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+        vscode.postMessage({ type: 'navigate', lineIndex, preserveFocus: true });
+    }
+
+    // Keys on the focused canvas, outside test mode: arrows nudge the selection (Shift for five
+    // cells), Tab cycles it, and Enter/F2/Delete edit, rename or remove the one selected item
+    // through the same commands as the tree.
+    function handleDesignKey(ev) {
+        const steps = {
+            ArrowUp: [-1, 0],
+            ArrowDown: [1, 0],
+            ArrowLeft: [0, -1],
+            ArrowRight: [0, 1]
+        };
+        if (steps[ev.key]) {
+            const size = ev.shiftKey ? 5 : 1;
+            nudgeSelection(steps[ev.key][0] * size, steps[ev.key][1] * size);
+            ev.preventDefault();
+            return;
+        }
+        if (ev.key === 'Tab') {
+            cycleSelection(ev.shiftKey);
+            ev.preventDefault();
+            return;
+        }
+        if (ev.key === 'Escape' && selectedLineIndices.size > 0) {
+            selectedLineIndices.clear();
+            draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+            return;
+        }
+
+        const actions = { Enter: 'edit', F2: 'rename', Delete: 'remove' };
+        if (actions[ev.key] && selectedLineIndices.size === 1) {
+            vscode.postMessage({ type: 'elementCommand', lineIndex: [...selectedLineIndices][0], action: actions[ev.key] });
+            ev.preventDefault();
+        }
+    }
+
     document.addEventListener('keydown', (ev) => {
+        if (testMode) {
+            // The toolbar's own controls keep their keys (a focused button's Enter clicks it)
+            if (!['BUTTON', 'SELECT', 'INPUT'].includes(ev.target.tagName)) {
+                handleTestKey(ev);
+            }
+            return;
+        }
         if (ev.key === 'Escape' && placingKind) {
             setPlacingKind(null);
+            return;
+        }
+        // Only while the canvas has focus, so the toolbar keeps its own keyboard navigation
+        if (ev.target === canvas && !dragState) {
+            handleDesignKey(ev);
         }
     });
 
@@ -2377,6 +2371,14 @@ export class RecordPreviewPanel {
             return;
         }
 
+        // In test mode a click only places the cursor, in the input field clicked
+        if (testMode) {
+            const { row, col } = cellAt(ev);
+            placeTestCursorAt(row, col);
+            canvas.focus();
+            return;
+        }
+
         if (isOverResizeHandle(ev)) {
             resizeState = {
                 contentRows: currentOuterFrame.rows - WINDOW_BORDER_TOP - WINDOW_BORDER_BOTTOM,
@@ -2469,6 +2471,10 @@ export class RecordPreviewPanel {
             return;
         }
 
+        if (testMode) {
+            return;
+        }
+
         if (resizeState) {
             const { row, col } = cellAt(ev);
             const limitRows = maxSize ? maxSize.rows : currentSize.rows;
@@ -2540,33 +2546,7 @@ export class RecordPreviewPanel {
         const desiredRowDelta = (row - dragState.grabRowOffset) - primary.startRow;
         const desiredColDelta = (col - dragState.grabColOffset) - primary.startCol;
 
-        // Every dragged item must stay within its own valid bounds (window frame vs. whole canvas,
-        // an SFL detail record's rows below its header, and its own width for the column limit) —
-        // computed per item, same as a single drag always did, then intersected so the group's
-        // shared delta can never push any one of them out of bounds.
-        let minRowDelta = -Infinity, maxRowDelta = Infinity, minColDelta = -Infinity, maxColDelta = Infinity;
-        for (const { item, startRow, startCol } of dragState.items) {
-            const width = Math.max(item.length, item.text.length, 1);
-            let itemMinRow = 1, itemMaxRow = currentSize.rows, itemMinCol = 1, itemMaxCol = currentSize.cols - width + 1;
-            if (currentWindowFrame && !item.isBackground) {
-                itemMinRow = currentWindowFrame.row;
-                itemMaxRow = Math.max(currentWindowFrame.row + currentWindowFrame.rows - 1, itemMinRow);
-                // The window's own first content column can't be written to; the rest of its width,
-                // including the last column, is usable.
-                itemMinCol = currentWindowFrame.col + 1;
-                itemMaxCol = Math.max(currentWindowFrame.col + currentWindowFrame.cols - width, itemMinCol);
-            }
-            // A subfile detail record's own rows can't be dragged up into its header's static content.
-            if (minDetailRow !== null && !item.isBackground) {
-                itemMinRow = Math.max(itemMinRow, minDetailRow);
-            }
-
-            minRowDelta = Math.max(minRowDelta, itemMinRow - startRow);
-            maxRowDelta = Math.min(maxRowDelta, itemMaxRow - startRow);
-            minColDelta = Math.max(minColDelta, itemMinCol - startCol);
-            maxColDelta = Math.min(maxColDelta, itemMaxCol - startCol);
-        }
-
+        const { minRowDelta, maxRowDelta, minColDelta, maxColDelta } = groupDeltaBounds(dragState.items);
         const newRowDelta = clamp(desiredRowDelta, minRowDelta, maxRowDelta);
         const newColDelta = clamp(desiredColDelta, minColDelta, maxColDelta);
 
@@ -2602,35 +2582,14 @@ export class RecordPreviewPanel {
         }
 
         if (dragState.moved) {
-            // A CNTFLD-wrapped field renders as several items sharing one lineIndex (one per
-            // wrapped line), all dragged together for a consistent visual — but the field has only
-            // one source line to write back to. Collapse each lineIndex down to a single move, using
-            // its topmost item (smallest startRow), which is the field's actual anchor row; the
-            // wrapped lines below it are re-derived from that on reparse. Without this, duplicate
-            // moves for the same line produce overlapping edits that VS Code rejects outright.
-            const primaryMoveByLine = new Map();
-            for (const d of dragState.items) {
-                const existing = primaryMoveByLine.get(d.item.lineIndex);
-                if (!existing || d.startRow < existing.startRow) {
-                    primaryMoveByLine.set(d.item.lineIndex, d);
-                }
-            }
-            vscode.postMessage({
-                type: 'move',
-                moves: [...primaryMoveByLine.values()].map(d => ({
-                    lineIndex: d.item.lineIndex,
-                    newRow: d.startRow + dragState.rowDelta,
-                    newCol: d.startCol + dragState.colDelta,
-                    rowOffset: d.item.rowOffset,
-                    colOffset: d.item.colOffset
-                }))
-            });
+            postGroupMove(dragState.items, dragState.rowDelta, dragState.colDelta);
         } else {
             // No drag happened: a plain click on an item from a multi-selection collapses it back
             // down to just that one (the group stayed selected during mousedown only in case this
-            // turned into a group drag).
+            // turned into a group drag). The editor follows, but the keyboard stays on the canvas
+            // for nudging/editing the selection.
             selectedLineIndices = new Set([dragState.primaryLineIndex]);
-            vscode.postMessage({ type: 'navigate', lineIndex: dragState.primaryLineIndex });
+            vscode.postMessage({ type: 'navigate', lineIndex: dragState.primaryLineIndex, preserveFocus: true });
         }
 
         dragState = null;
@@ -2701,6 +2660,15 @@ export class RecordPreviewPanel {
                 currentRecordName = message.recordName;
                 selectedLineIndices.clear();
                 dragState = null;
+                testValues = new Map();
+                testModified = new Set();
+                testErrorLines = new Set();
+                testMessage = null;
+                testCursor = null;
+            }
+
+            if (testMode && message.testFields) {
+                applyTestFields(message.testFields, message.testCommandKeys || []);
             }
 
             maxSize = message.maxSize || null;
@@ -2744,14 +2712,40 @@ export class RecordPreviewPanel {
                   ' at (' + message.windowFrame.row + ',' + message.windowFrame.col + ')'
                 : baseInfo;
 
+            // The Data button names the sample data file in use, with how many values didn't fit
+            const sampleWarnings = message.sampleWarnings || [];
+            dataBtn.classList.toggle('active', Boolean(message.sampleDataName));
+            dataBtn.textContent = message.sampleDataName
+                ? '⊞ ' + message.sampleDataName + (sampleWarnings.length > 0 ? '  ⚠ ' + sampleWarnings.length : '')
+                : '⊞ Data';
+            dataBtn.title = message.sampleDataName
+                ? (sampleWarnings.length > 0 ? sampleWarnings.join('\\n') : 'Every sample value fits its field') + '\\n\\nClick to choose another file, reload it or stop using it'
+                : 'Show values from a sample data file (JSON or CSV) in the fields, one row per subfile row, instead of placeholders';
+
             currentErrorMessage = message.errorMessage || null;
             draw(message.size, message.items, message.backgroundItems, message.windowFrame, message.windowTitle, message.outerFrame);
         } else if (message.type === 'notFound') {
             info.textContent = 'Record no longer exists.';
             ctx.clearRect(0, 0, canvas.width, canvas.height);
+        } else if (message.type === 'testResult') {
+            testErrorLines = new Set(message.errorLineIndices);
+            testMessage = message.message;
+            testStatus.textContent = message.status;
+            if (typeof message.cursorLineIndex === 'number') {
+                testCursor = { lineIndex: message.cursorLineIndex, pos: 0 };
+            } else if (!message.message) {
+                // The program got the input: the next display starts with every modified data tag off
+                testModified = new Set();
+            }
+            redrawScreen();
+        } else if (message.type === 'capturePng') {
+            capturePng();
         } else if (message.type === 'selectLine') {
             selectedLineIndices = new Set([message.lineIndex]);
             draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
+        } else if (message.type === 'clearSelection') {
+            selectedLineIndices.clear();
+            draw(currentSize, currentItems, currentBackgroundItems, currentWindowFrame, currentWindowTitle, currentOuterFrame);
         }
     });
 </script>
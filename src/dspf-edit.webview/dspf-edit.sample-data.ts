@@ -0,0 +1,205 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.sample-data.ts
+*/
+
+import * as vscode from 'vscode';
+
+/** A row of sample values, by upper-cased field name. */
+export type SampleRow = Record<string, string>;
+
+/** Sample values shown in the preview's fields instead of their placeholders. */
+export interface SampleData {
+    /** The file they were read from, for the toolbar and exports */
+    source: string;
+    /** Rows given for a record by name (upper-cased): one for a plain record, one per subfile row */
+    rowsByRecord: Map<string, SampleRow[]>;
+    /** Rows given for any record, matched by field name (a CSV file's, or a JSON array's) */
+    rows: SampleRow[];
+};
+
+/** Extensions of the sample data files looked for next to a source, in order. */
+const SAMPLE_DATA_SUFFIXES = ['.sample.json', '.sample.csv'];
+
+/**
+ * Looks for a sample data file next to a DDS source, named after it: ITEMS.dspf's is
+ * ITEMS.sample.json or ITEMS.sample.csv.
+ * @param documentUri - URI of the DDS source document
+ * @returns The file's URI, or undefined when there's none
+ */
+export async function findSampleDataFile(documentUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+    const fileName = documentUri.path.split('/').pop() ?? '';
+    const baseName = fileName.includes('.') ? fileName.substring(0, fileName.lastIndexOf('.')) : fileName;
+    if (!baseName) {
+        return undefined;
+    };
+
+    for (const suffix of SAMPLE_DATA_SUFFIXES) {
+        const candidate = vscode.Uri.joinPath(documentUri, '..', baseName + suffix);
+        try {
+            await vscode.workspace.fs.stat(candidate);
+            return candidate;
+        } catch {
+            // Not there (or not on a file system that can be listed); try the next one
+        };
+    };
+    return undefined;
+};
+
+/**
+ * Reads a sample data file.
+ * @param uri - The JSON or CSV file
+ * @returns The sample data; throws with what's wrong when the file can't be read
+ */
+export async function loadSampleData(uri: vscode.Uri): Promise<SampleData> {
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    return parseSampleData(text, uri.path.split('/').pop() ?? uri.path);
+};
+
+/**
+ * Parses sample data. JSON is either an object keyed by record name, each holding one row (an
+ * object of field values) or an array of rows, or a plain array of rows for any record. CSV has
+ * a header line of field names, then one row per line, for any record; its separator can be a
+ * comma or a semicolon, and values can be quoted ("" for a quote).
+ * @param text - The file's contents
+ * @param fileName - Its name; a .csv name is read as CSV, anything else as JSON
+ * @returns The sample data; throws with what's wrong when the text can't be read
+ */
+export function parseSampleData(text: string, fileName: string): SampleData {
+    const data: SampleData = { source: fileName, rowsByRecord: new Map(), rows: [] };
+
+    if (fileName.toLowerCase().endsWith('.csv')) {
+        data.rows = parseCsvRows(text);
+        return data;
+    };
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    };
+
+    if (Array.isArray(parsed)) {
+        data.rows = parsed.map((row, index) => toSampleRow(row, `row ${index + 1}`));
+        return data;
+    };
+    if (!parsed || typeof parsed !== 'object') {
+        throw new Error('Expected an object keyed by record name, or an array of rows.');
+    };
+
+    for (const [recordName, rows] of Object.entries(parsed)) {
+        const list = Array.isArray(rows) ? rows : [rows];
+        data.rowsByRecord.set(recordName.toUpperCase(), list.map((row, index) => toSampleRow(row, `${recordName}, row ${index + 1}`)));
+    };
+    return data;
+};
+
+/**
+ * The rows of sample values for a record: its own, or else the ones given for any record.
+ * @param data - The sample data
+ * @param recordName - The record
+ */
+export function getSampleRows(data: SampleData, recordName: string): SampleRow[] {
+    return data.rowsByRecord.get(recordName.toUpperCase()) ?? data.rows;
+};
+
+// HELPERS
+
+/**
+ * Reads a JSON row into field values: numbers and booleans as their text, null left out.
+ * @param row - The row as parsed
+ * @param where - Where it is, for the error
+ */
+function toSampleRow(row: unknown, where: string): SampleRow {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        throw new Error(`Expected an object of field values (${where}).`);
+    };
+    const values: SampleRow = {};
+    for (const [name, value] of Object.entries(row)) {
+        if (value !== null && value !== undefined) {
+            values[name.toUpperCase()] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        };
+    };
+    return values;
+};
+
+/**
+ * Reads CSV text into rows, keyed by the header line's field names.
+ * @param text - The CSV text
+ */
+function parseCsvRows(text: string): SampleRow[] {
+    const lines = splitCsvLines(text.replace(/^\uFEFF/, ''));
+    if (lines.length === 0) {
+        throw new Error('The CSV file is empty.');
+    };
+    const separator = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+    const header = splitCsvLine(lines[0], separator).map(name => name.trim().toUpperCase());
+
+    return lines.slice(1).map(line => {
+        const values = splitCsvLine(line, separator);
+        const row: SampleRow = {};
+        header.forEach((name, index) => {
+            if (name && index < values.length) {
+                row[name] = values[index];
+            };
+        });
+        return row;
+    });
+};
+
+/**
+ * Splits CSV text into its non-blank lines, keeping line breaks inside quoted values.
+ * @param text - The CSV text
+ */
+function splitCsvLines(text: string): string[] {
+    const lines: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (const char of text) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && (char === '\n' || char === '\r')) {
+            if (current.trim()) {
+                lines.push(current);
+            };
+            current = '';
+            continue;
+        };
+        current += char;
+    };
+    if (current.trim()) {
+        lines.push(current);
+    };
+    return lines;
+};
+
+/**
+ * Splits a CSV line into its values, unquoting them.
+ * @param line - The line
+ * @param separator - The value separator
+ */
+function splitCsvLine(line: string, separator: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (inQuotes && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                inQuotes = !inQuotes;
+            };
+        } else if (char === separator && !inQuotes) {
+            values.push(current);
+            current = '';
+        } else {
+            current += char;
+        };
+    };
+    values.push(current);
+    return values;
+};
@@ -0,0 +1,1263 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.screen-composer.ts
+*/
+
+import { DdsDocumentModel, FieldsPerRecord, DdsSize, DdsAttribute, AttributeWithIndicators, DdsIndicator, getDefaultSize, getAvailableDisplayFormats, getSizeForFormat, isIndicatorConditionMet, SYSTEM_FIELD_PLACEHOLDER } from '../dspf-edit.model/dspf-edit.model';
+import { MessageKeyword, describeMessageReference, getResolvedMessage, getResolvedRef, parseMessageKeyword } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { resolveRecordSizeForFormat } from '../dspf-edit.parser/dspf-edit.parser';
+import { SampleData, getSampleRows } from './dspf-edit.sample-data';
+
+/**
+ * Item sent to the webview for rendering (a single field or constant on the screen grid).
+ */
+export interface PreviewItem {
+    kind: 'field' | 'constant';
+    name: string;
+    text: string;
+    row: number;
+    col: number;
+    length: number;
+    lineIndex: number;
+    color: string;
+    highIntensity: boolean;
+    reverseImage: boolean;
+    blink: boolean;
+    underline: boolean;
+    columnSeparator: boolean;
+    nonDisplay: boolean;
+    /** Row/col offset that was added to place this item, so a drag-to-move can be converted back to record-local coordinates. */
+    rowOffset: number;
+    colOffset: number;
+    /** True when this item belongs to the record overlaid *behind* a window, not the record being previewed. */
+    isBackground: boolean;
+    /** False for subfile page-repeat ghosts and background items: only the "real" instance can be clicked/dragged. */
+    isInteractive: boolean;
+    /** True for input-capable fields (usage I or B), shown underlined instead of boxed. Always false for constants and output-only fields. */
+    isInputCapable: boolean;
+    /**
+     * True when this background item shares the *same* window as the record being previewed
+     * (an auto-paired SFL/SFLCTL half, or the window's owner record) rather than belonging to a
+     * genuinely different record positioned behind it. The window's own opaque frame is drawn over
+     * "behind" background items (they're physically covered by the window), but same-window items
+     * must be drawn on top of that frame fill, since they're part of the window's own content.
+     */
+    sameWindow?: boolean;
+    /**
+     * True for a referenced field (REFFLD/position-29 `R`): its real type/length live in the
+     * external database field, which dspf-edit has no way to read, so it can't be previewed at its
+     * real width. Rendered as a single placeholder character in a distinct color with a dashed box,
+     * instead of pretending to know its size.
+     */
+    isReferenced?: boolean;
+};
+
+/** A rectangle in the coordinates of the canvas being drawn (the full display size). */
+export interface WindowFrame {
+    row: number;
+    col: number;
+    rows: number;
+    cols: number;
+};
+
+// A WINDOW(row col numRows numCols) keyword gives the *border's* corner and the *content* area's
+// size. The content sits inset from the border: 1 row above/below, 1 column to the left, and
+// 2 columns to the right (confirmed against a real window: WINDOW(17 25 6 29) borders rows 17-24
+// and columns 25-56, with content usable across its full width up to the last column).
+export const WINDOW_BORDER_TOP = 1;
+export const WINDOW_BORDER_BOTTOM = 1;
+export const WINDOW_BORDER_LEFT = 1;
+export const WINDOW_BORDER_RIGHT = 2;
+
+/** Placeholder character shown across a field's width, keyed by [isNumeric][usage]. */
+const FIELD_USAGE_PLACEHOLDER: Record<'alpha' | 'numeric', Record<string, string>> = {
+    alpha: { O: 'O', B: 'B', I: 'I' },
+    numeric: { O: '6', B: '9', I: '3' }
+};
+
+/**
+ * Builds the placeholder text shown across a field's width, based on its data type and usage
+ * (O=output, B=both, I=input), matching the classic screen-design-aid convention.
+ * Falls back to the field name if the usage code isn't one of O/B/I.
+ * @param name - Field name (used as a fallback label, and to detect a system keyword field)
+ * @param type - DDS data type code; blank (DDS's own default when no decimals are given) or 'A'
+ * is alphanumeric, anything else (Y, S, L, T, Z, ...) is treated as numeric
+ * @param usage - DDS usage code (O, B, I, H, ...)
+ * @param length - Field length, i.e. how many placeholder characters to repeat
+ * @param editWordMask - The field's EDTWRD() mask text, if any (e.g. '   .  ') — when present, its
+ * blanks are filled with the placeholder character instead of just repeating it for `length`, so
+ * an edited numeric field previews with its decimal point (or other insert characters) in place.
+ */
+export function getFieldPlaceholderText(name: string, type: string | undefined, usage: string | undefined, length: number, editWordMask?: string | null): string {
+    const systemPlaceholder = SYSTEM_FIELD_PLACEHOLDER[name.trim().toUpperCase()];
+    if (systemPlaceholder) {
+        return systemPlaceholder;
+    };
+
+    const trimmedType = (type || '').trim();
+    const isNumeric = trimmedType !== '' && trimmedType !== 'A';
+    // A blank usage column means Output — DDS's own default (see generateNewFieldLine, which
+    // leaves it blank for that same reason) — not "no usage code".
+    const usageCode = (usage || '').trim().toUpperCase() || 'O';
+    const placeholderChar = FIELD_USAGE_PLACEHOLDER[isNumeric ? 'numeric' : 'alpha'][usageCode];
+
+    if (!placeholderChar) {
+        return name;
+    };
+
+    if (editWordMask) {
+        return editWordMask.split('').map(ch => ch === ' ' ? placeholderChar : ch).join('');
+    };
+
+    return placeholderChar.repeat(Math.max(length, 1));
+};
+
+/**
+ * Extracts a field's EDTWRD() mask (the text between its quotes), if it carries one.
+ * @param attributes - The element's DDS attributes
+ */
+function getEditWordMask(attributes: AttributeWithIndicators[] | undefined): string | null {
+    const attr = attributes?.find(a => /^EDTWRD\(/i.test(a.value));
+    if (!attr) {
+        return null;
+    };
+
+    return attr.value.match(/^EDTWRD\(\s*'([^']*)'\s*\)$/i)?.[1] ?? null;
+};
+
+/**
+ * The standard DDS numeric edit codes: whether each inserts thousands commas, and what (if any)
+ * sign indicator it reserves trailing room for. Every edit code always inserts a decimal point
+ * when the field has decimals and suppresses leading zeros — irrelevant to a generic placeholder
+ * preview (there's no real value to format), which only needs the extra display width/characters.
+ */
+const EDIT_CODE_INFO: Record<string, { comma: boolean; sign: '' | '-' | 'CR' }> = {
+    '1': { comma: true, sign: '' },
+    '2': { comma: false, sign: '' },
+    '3': { comma: true, sign: '' },
+    '4': { comma: false, sign: '' },
+    A: { comma: true, sign: 'CR' },
+    B: { comma: false, sign: 'CR' },
+    C: { comma: true, sign: 'CR' },
+    D: { comma: false, sign: 'CR' },
+    J: { comma: true, sign: '-' },
+    K: { comma: false, sign: '-' },
+    L: { comma: true, sign: '-' },
+    M: { comma: false, sign: '-' }
+};
+
+/**
+ * Extracts a field's EDTCDE() code, if it carries one (its optional modifier — asterisk fill or a
+ * currency symbol — doesn't affect the preview mask, so it's not extracted here).
+ * @param attributes - The element's DDS attributes
+ */
+function getEditCode(attributes: AttributeWithIndicators[] | undefined): string | null {
+    const attr = attributes?.find(a => /^EDTCDE\(/i.test(a.value));
+    if (!attr) {
+        return null;
+    };
+
+    return attr.value.match(/^EDTCDE\(\s*([1-4A-DJ-M])/i)?.[1]?.toUpperCase() ?? null;
+};
+
+/**
+ * Builds an EDTWRD-mask-shaped string (blanks mark digit positions, everything else is literal)
+ * for a field carrying EDTCDE(code), from the standard DDS edit-code table above — the same extra
+ * width (commas, decimal point, sign) SDA/RDi reserve when previewing an edited numeric field.
+ * @param length - The field's digit length
+ * @param decimals - The field's decimal positions
+ * @param code - The EDTCDE code (1-4, A-D, J-M)
+ */
+function getEditCodeMask(length: number, decimals: number, code: string): string | null {
+    const info = EDIT_CODE_INFO[code];
+    if (!info) {
+        return null;
+    };
+
+    const intDigits = Math.max(length - decimals, 1);
+    let mask = '';
+    for (let i = 0; i < intDigits; i++) {
+        const remaining = intDigits - i;
+        if (info.comma && i > 0 && remaining % 3 === 0) {
+            mask += ',';
+        };
+        mask += ' ';
+    };
+    if (decimals > 0) {
+        mask += '.' + ' '.repeat(decimals);
+    };
+    mask += info.sign;
+
+    return mask;
+};
+
+/**
+ * Resolves the EDTWRD/EDTCDE mask that determines an edited numeric field's placeholder text and
+ * extra display width — EDTWRD (an explicit mask) takes precedence since DDS doesn't allow both on
+ * the same field.
+ * @param attributes - The element's DDS attributes
+ * @param length - The field's digit length (post REFFLD resolution, if applicable)
+ * @param decimals - The field's decimal positions (post REFFLD resolution, if applicable)
+ */
+function getEditingMask(attributes: AttributeWithIndicators[] | undefined, length: number, decimals: number): string | null {
+    const wordMask = getEditWordMask(attributes);
+    if (wordMask) {
+        return wordMask;
+    };
+
+    const code = getEditCode(attributes);
+    return code ? getEditCodeMask(length, decimals, code) : null;
+};
+
+/** Data types whose value is a number: signed, zoned (numeric only) and floating point. */
+export const NUMERIC_DATA_TYPES = new Set(['S', 'Y', 'F']);
+
+/**
+ * Formats a sample value the way the display shows it in a field: an alphanumeric value padded
+ * or cut to the field's length, a number through the field's EDTCDE/EDTWRD mask (see
+ * `applyEditMask`), or as plain zero-padded digits when it has none. High-order digits that
+ * don't fit are dropped, as the program's move into the field would.
+ * @param value - The sample value
+ * @param type - The field's data type
+ * @param length - Its length (digits, for a numeric field)
+ * @param decimals - Its decimal positions
+ * @param editingMask - Its editing mask, if any (see `getEditingMask`)
+ * @returns The text (undefined when a numeric field's value isn't a number), and what had to be
+ * cut to fit, if anything
+ */
+function formatSampleValue(value: string, type: string | undefined, length: number, decimals: number, editingMask: string | null): { text?: string; warning?: string } {
+    const trimmedType = (type || '').trim().toUpperCase();
+    const isNumeric = editingMask !== null || NUMERIC_DATA_TYPES.has(trimmedType) || (trimmedType === '' && decimals > 0);
+
+    if (!isNumeric) {
+        const width = Math.max(length, 1);
+        return value.length > width
+            ? { text: value.substring(0, width), warning: `"${value}" is ${value.length} characters, cut to ${width}.` }
+            : { text: value.padEnd(width) };
+    };
+
+    const match = value.trim().replace(/,/g, '').match(/^([+-]?)(\d*)(?:\.(\d*))?$/);
+    if (!match || (match[2] + (match[3] ?? '')) === '') {
+        return { warning: `"${value}" is not a number; the placeholder is shown.` };
+    };
+
+    const intDigits = Math.max(length - decimals, 0);
+    let integerPart = match[2].replace(/^0+/, '');
+    let decimalPart = match[3] ?? '';
+    const cuts: string[] = [];
+    if (integerPart.length > intDigits) {
+        cuts.push(`${integerPart.length} integer digits, the field holds ${intDigits}`);
+        integerPart = integerPart.substring(integerPart.length - intDigits);
+    };
+    if (decimalPart.replace(/0+$/, '').length > decimals) {
+        cuts.push(`${decimalPart.length} decimal positions, the field holds ${decimals}`);
+    };
+    decimalPart = decimalPart.substring(0, decimals);
+
+    const digits = integerPart.padStart(intDigits, '0') + decimalPart.padEnd(decimals, '0');
+    const text = editingMask ? applyEditMask(editingMask, digits, match[1] === '-') : digits;
+    return cuts.length > 0
+        ? { text, warning: `"${value}" has ${cuts.join(' and ')}; shown as "${text.trim()}".` }
+        : { text };
+};
+
+/**
+ * Fills an editing mask with a number's digits, the way EDTWRD edits a value: the mask's blanks
+ * (and its first '0', EDTWRD's zero-suppression stop) take the digits, right to left; leading
+ * zeros and the commas among them are blanked, up to the '0' (included), or else the decimal
+ * point, or else the last digit; a trailing sign ('-' or 'CR') only shows for a negative number,
+ * and '&' shows as a blank.
+ * @param mask - The editing mask (see `getEditingMask`)
+ * @param digits - The value's digits, decimals included, without sign or decimal point
+ * @param negative - Whether the value is negative
+ */
+function applyEditMask(mask: string, digits: string, negative: boolean): string {
+    const chars = mask.split('');
+    const zeroStop = mask.indexOf('0');
+    const positions = chars.map((char, index) => char === ' ' || index === zeroStop ? index : -1).filter(index => index >= 0);
+    if (positions.length === 0) {
+        return mask;
+    };
+
+    let digit = digits.length - 1;
+    for (let i = positions.length - 1; i >= 0; i--) {
+        chars[positions[i]] = digit >= 0 ? digits[digit--] : '0';
+    };
+
+    const lastPosition = positions[positions.length - 1];
+    const decimalPoint = mask.indexOf('.');
+    const suppressTo = zeroStop >= 0 ? zeroStop + 1 : (decimalPoint >= 0 ? decimalPoint : lastPosition);
+    for (let i = 0; i < suppressTo; i++) {
+        if (/[1-9]/.test(chars[i])) {
+            break;
+        };
+        chars[i] = ' ';
+    };
+
+    const body = chars.slice(0, lastPosition + 1).join('').replace(/&/g, ' ');
+    const status = chars.slice(lastPosition + 1).join('');
+    return body + (negative ? status : status.replace(/^(\s*)(CR|-)/, (_, blanks: string, sign: string) => blanks + ' '.repeat(sign.length)));
+};
+
+/**
+ * Extracts a field's CNTFLD() continuation width, if it carries one — the number of characters
+ * shown per line before wrapping to the next row (same column) for a field too long to fit on one line.
+ * @param attributes - The element's DDS attributes
+ */
+function getContinuedFieldWidth(attributes: AttributeWithIndicators[] | undefined): number | null {
+    const attr = attributes?.find(a => /^CNTFLD\(/i.test(a.value));
+    if (!attr) {
+        return null;
+    };
+
+    const width = attr.value.match(/^CNTFLD\(\s*(\d+)\s*\)$/i)?.[1];
+    return width ? Number(width) : null;
+};
+
+/** Default 5250-style green, used when a field/constant has no COLOR() keyword. */
+const DEFAULT_COLOR = '#00ff00';
+
+/** What DSPATR(HI) alone (no explicit COLOR()) renders as — matching a real 5250 display. */
+const HIGH_INTENSITY_COLOR = '#ffffff';
+
+/** Marker color for a referenced field (REFFLD), distinct from every DDS_COLOR_MAP value. */
+const REFERENCED_FIELD_COLOR = '#ff8800';
+
+/** Maps DDS COLOR() keyword codes to their on-screen color. */
+const DDS_COLOR_MAP: Record<string, string> = {
+    BLU: '#6a8ef0',
+    GRN: '#00ff00',
+    WHT: '#ffffff',
+    RED: '#ff4136',
+    TRQ: '#00e5ff',
+    YLW: '#ffe600',
+    PNK: '#ff66ff'
+};
+
+/**
+ * Determines the display color for a field/constant based on its COLOR() DDS keyword, if any —
+ * falling back to white (not the default green) when DSPATR(HI) is set without an explicit color,
+ * matching a real 5250 display.
+ * @param attributes - The element's DDS attributes
+ * @param highIntensity - Whether the element also carries DSPATR(HI)
+ * @returns A CSS color string
+ */
+function getDisplayColor(attributes: AttributeWithIndicators[] | undefined, highIntensity: boolean): string {
+    const colorAttr = attributes?.find(attr => /^COLOR\([A-Z]{3}\)$/.test(attr.value));
+    if (!colorAttr) {
+        return highIntensity ? HIGH_INTENSITY_COLOR : DEFAULT_COLOR;
+    };
+
+    const code = colorAttr.value.match(/^COLOR\(([A-Z]{3})\)$/)?.[1];
+    return (code && DDS_COLOR_MAP[code]) || (highIntensity ? HIGH_INTENSITY_COLOR : DEFAULT_COLOR);
+};
+
+/**
+ * Checks whether a field/constant carries a given DSPATR() keyword (e.g. DSPATR(UL)).
+ * @param attributes - The element's DDS attributes
+ * @param code - The two-letter DSPATR code to look for (HI, RI, BL, UL, ND, CS)
+ */
+function hasDisplayAttribute(attributes: AttributeWithIndicators[] | undefined, code: string): boolean {
+    return Boolean(attributes?.some(attr => attr.value === `DSPATR(${code})`));
+};
+
+/**
+ * Groups an attribute's DDS keyword for the "no indicator simulation" fallback: all COLOR() lines
+ * are alternatives for the same thing (only one color can apply), while each distinct DSPATR()
+ * code is its own independent flag.
+ * @param value - The attribute's raw keyword text (e.g. "COLOR(BLU)", "DSPATR(HI)")
+ */
+function attributeGroupKey(value: string): string {
+    const upper = value.toUpperCase();
+    return upper.startsWith('COLOR(') ? 'COLOR' : upper;
+};
+
+/**
+ * Finds the record's WINDOW() keyword, if any. When the record is conditioned by more than one
+ * display format (one WINDOW() line per format), picks the one matching activeFormat.
+ * @param model - The parsed model of the document
+ * @param recordName - Name of the record to inspect
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+export function findWindowAttribute(model: DdsDocumentModel, recordName: string, activeFormat?: string): { startRow: number; startCol: number; numRows: number; numCols: number; lineIndex: number } | undefined {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
+    const candidates = record?.attributes?.filter(a => a.value.toUpperCase().startsWith('WINDOW(')) ?? [];
+    const attr = pickForActiveFormat(candidates, activeFormat);
+    if (!attr) {
+        return undefined;
+    };
+
+    const match = attr.value.match(/WINDOW\s*\(\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+[^)]*)?\s*\)/i);
+    if (!match) {
+        return undefined;
+    };
+
+    return {
+        startRow: parseInt(match[1], 10),
+        startCol: parseInt(match[2], 10),
+        numRows: parseInt(match[3], 10),
+        numCols: parseInt(match[4], 10),
+        lineIndex: attr.lineIndex
+    };
+};
+
+/** A window's title, extracted from its WDWTITLE() keyword. */
+export interface WindowTitle {
+    text: string;
+    position: 'TOP' | 'BOTTOM';
+    align: 'LEFT' | 'CENTER' | 'RIGHT';
+};
+
+/**
+ * Finds and parses the record's WDWTITLE() keyword, if any. When the record shares its window
+ * with another record (WINDOW(other-record-name), or an SFL/SFLCTL pair where only one side
+ * declares the window), the title is commonly only present on that owner record — falls back
+ * to it if the record itself has none. When conditioned by more than one display format (one
+ * WDWTITLE() per format), picks the one matching activeFormat.
+ * Handles the common form WDWTITLE((*TEXT 'title text') [*TOP|*BOTTOM] [*LEFT|*CENTER|*RIGHT]).
+ * @param model - The parsed model of the document
+ * @param recordName - Name of the record to inspect
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+export function findWindowTitle(model: DdsDocumentModel, recordName: string, activeFormat?: string): WindowTitle | undefined {
+    const ownerName = getEffectiveSize(model, recordName, activeFormat)?.sharedFromRecord;
+
+    for (const name of ownerName ? [recordName, ownerName] : [recordName]) {
+        const rec = model.fieldsPerRecords.find(r => r.record === name);
+        const candidates = rec?.attributes?.filter(a => a.value.toUpperCase().startsWith('WDWTITLE(')) ?? [];
+        const attr = pickForActiveFormat(candidates, activeFormat);
+        if (!attr) {
+            continue;
+        };
+
+        const textMatch = attr.value.match(/WDWTITLE\(\(\*\w+\s+'([^']*)'\)/i);
+        if (!textMatch) {
+            continue;
+        };
+
+        const upperValue = attr.value.toUpperCase();
+
+        return {
+            text: textMatch[1],
+            position: upperValue.includes('*BOTTOM') ? 'BOTTOM' : 'TOP',
+            align: upperValue.includes('*RIGHT') ? 'RIGHT' : upperValue.includes('*LEFT') ? 'LEFT' : 'CENTER'
+        };
+    };
+
+    return undefined;
+};
+
+/** Whether a record's attributes include the SFL keyword (i.e. it's a subfile detail record). */
+export function isSflRecordInfo(recordInfo: FieldsPerRecord): boolean {
+    return recordInfo.attributes?.some(attr => attr.value === 'SFL') ?? false;
+};
+
+/** Whether a record's attributes include an SFLCTL() keyword (i.e. it's a subfile control record). */
+export function isSflCtlRecordInfo(recordInfo: FieldsPerRecord): boolean {
+    return recordInfo.attributes?.some(attr => attr.value.toUpperCase().startsWith('SFLCTL(')) ?? false;
+};
+
+/**
+ * Finds the control record for a subfile (SFL) record, i.e. the one carrying SFLCTL(sflRecordName).
+ * @param model - The parsed model of the document
+ * @param sflRecordName - Name of the subfile (SFL) record
+ */
+function findSflControlRecord(model: DdsDocumentModel, sflRecordName: string): FieldsPerRecord | undefined {
+    return model.fieldsPerRecords.find(r =>
+        r.attributes?.some(attr => {
+            const match = attr.value.match(/^SFLCTL\(\s*([A-Za-z0-9@#$]+)\s*\)$/i);
+            return Boolean(match && match[1].toUpperCase() === sflRecordName.toUpperCase());
+        })
+    );
+};
+
+/**
+ * Finds an SFLCTL record's own SFLPAG() attribute (the candidate matching activeFormat, when
+ * conditioned by more than one display format).
+ * @param recordInfo - The SFLCTL record
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+export function findOwnSflPagAttribute(recordInfo: FieldsPerRecord, activeFormat?: string): DdsAttribute | undefined {
+    const candidates = recordInfo.attributes?.filter(a => a.value.toUpperCase().startsWith('SFLPAG(')) ?? [];
+    return pickForActiveFormat(candidates, activeFormat);
+};
+
+/**
+ * Finds the SFLPAG (page size, i.e. number of subfile rows shown at once) for a subfile record,
+ * by locating its control record (the one with SFLCTL(sflRecordName)) and reading SFLPAG() from it.
+ * When conditioned by more than one display format (one SFLPAG() per format), picks the one
+ * matching activeFormat.
+ * @param model - The parsed model of the document
+ * @param sflRecordName - Name of the subfile (SFL) record
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+function findSubfilePageSize(model: DdsDocumentModel, sflRecordName: string, activeFormat?: string): number | undefined {
+    const controlRecord = findSflControlRecord(model, sflRecordName);
+    if (!controlRecord) {
+        return undefined;
+    };
+
+    const pagAttr = findOwnSflPagAttribute(controlRecord, activeFormat);
+    const match = pagAttr?.value.match(/SFLPAG\(\s*(\d+)\s*\)/i);
+    return match ? parseInt(match[1], 10) : undefined;
+};
+
+/**
+ * Finds the "other half" of a subfile pair: given the SFL detail record, its control record
+ * (SFLCTL); given the control record, the SFL detail record it controls. Used to automatically
+ * show the header (SFLCTL) alongside the detail rows (SFL), or vice versa, since neither preview
+ * is complete on its own.
+ * @param model - The parsed model of the document
+ * @param recordName - Name of an SFL or SFLCTL record
+ */
+function findSubfilePairRecordName(model: DdsDocumentModel, recordName: string): string | undefined {
+    const record = model.fieldsPerRecords.find(r => r.record === recordName);
+    if (!record) {
+        return undefined;
+    };
+
+    if (isSflRecordInfo(record)) {
+        return findSflControlRecord(model, recordName)?.record;
+    };
+
+    const sflctlAttr = record.attributes?.find(attr => attr.value.toUpperCase().startsWith('SFLCTL('));
+    const match = sflctlAttr?.value.match(/^SFLCTL\(\s*([A-Za-z0-9@#$]+)\s*\)$/i);
+    return match?.[1];
+};
+
+/**
+ * Finds the record that actually owns a shared window, i.e. the one named by
+ * WINDOW(other-record-name) (or, transitively, the SFL/SFLCTL pair that inherited it). Used to
+ * automatically show that owner as background too, since it commonly carries the WDWTITLE and
+ * other static text (e.g. function-key footers) that belong to the window as a whole.
+ * @param model - The parsed model of the document
+ * @param recordName - Name of the record to inspect
+ */
+function findWindowOwnerRecordName(model: DdsDocumentModel, recordName: string, activeFormat?: string): string | undefined {
+    const owner = getEffectiveSize(model, recordName, activeFormat)?.sharedFromRecord;
+    return owner && owner.toUpperCase() !== recordName.toUpperCase() ? owner : undefined;
+};
+
+/**
+ * Identifies which window a record's own content belongs to, for comparing whether two records
+ * share the exact same window (as opposed to one merely being positioned behind the other): the
+ * record's own name if it defines a window directly, or the name of the record it borrows one
+ * from (WINDOW(other-record-name), or an inherited SFL/SFLCTL pair). Undefined for non-window records.
+ * @param model - The parsed model of the document
+ * @param recordName - Name of the record to inspect
+ */
+function windowOwnerOf(model: DdsDocumentModel, recordName: string, activeFormat?: string): string | undefined {
+    const size = getEffectiveSize(model, recordName, activeFormat);
+    if (size?.source !== 'window') {
+        return undefined;
+    };
+    return size.sharedFromRecord ?? recordName;
+};
+
+/**
+ * Resolves a record's effective size: the live, display-format-aware resolution
+ * (resolveRecordSizeForFormat) when a display format is actively selected in the preview, else the
+ * cached parse-time size — unchanged behavior for files that don't declare multiple DSPSIZ formats.
+ * @param model - The parsed model of the document
+ * @param recordName - Name of the record to resolve
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+export function getEffectiveSize(model: DdsDocumentModel, recordName: string, activeFormat?: string): DdsSize | undefined {
+    if (activeFormat) {
+        return resolveRecordSizeForFormat(model, recordName, activeFormat);
+    };
+    return model.fieldsPerRecords.find(r => r.record === recordName)?.size;
+};
+
+/**
+ * Filters out attributes/fields/constants conditioned by a display format other than the active
+ * one; unconditioned ones (and everything, when no format is active) always pass through.
+ * @param items - Items carrying an optional displayFormat condition
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+export function filterForActiveFormat<T extends { displayFormat?: string }>(items: T[], activeFormat: string | undefined): T[] {
+    if (!activeFormat) {
+        return items;
+    };
+    return items.filter(item => !item.displayFormat || item.displayFormat === activeFormat);
+};
+
+/**
+ * Picks which of several same-keyword candidates applies, when a record/field/constant is
+ * conditioned by more than one display format (one line per format, e.g. WDWTITLE or SFLPAG
+ * declared once for *DS3 and once for *DS4). Prefers the one matching activeFormat, falling back
+ * to an unconditioned one, then to the first candidate — so behavior is unchanged when no format
+ * is active.
+ * @param candidates - Same-keyword attribute candidates, in source order
+ * @param activeFormat - Currently selected display format name (e.g. "*DS3"), or undefined
+ */
+export function pickForActiveFormat<T extends { displayFormat?: string }>(candidates: T[], activeFormat?: string): T | undefined {
+    if (candidates.length === 0) {
+        return undefined;
+    };
+    if (!activeFormat) {
+        return candidates[0];
+    };
+    return candidates.find(c => c.displayFormat === activeFormat)
+        ?? candidates.find(c => !c.displayFormat)
+        ?? candidates[0];
+};
+
+/** How a record is composed: what's simulated and shown along with it. */
+export interface ScreenOptions {
+    /** Another record shown (dimmed) behind the one composed. */
+    overlayRecordName?: string;
+    /** Whether the record's own indicators are simulated (else every indicator is off). */
+    indicatorsEnabled?: boolean;
+    /** The indicators set on, when simulated. */
+    activeIndicators?: Iterable<number>;
+    /** The display format (e.g. "*DS4"); defaults to the first one the file declares. */
+    activeDisplayFormat?: string;
+    /** Values shown in the fields instead of their placeholders. */
+    sampleData?: SampleData;
+};
+
+/** Where a record sits on the screen canvas. */
+export interface ScreenGeometry {
+    recordInfo: FieldsPerRecord;
+    size: DdsSize;
+    isWindow: boolean;
+    rowOffset: number;
+    colOffset: number;
+    minDetailRow: number | null;
+};
+
+/** A record composed on its screen: everything the preview draws, in screen coordinates. */
+export interface ComposedScreen {
+    recordName: string;
+    /** The canvas: the whole display for a window, else the record's own size. */
+    size: { rows: number; cols: number };
+    isWindow: boolean;
+    /** A window's content area. */
+    windowFrame: WindowFrame | null;
+    /** A window's border. */
+    outerFrame: WindowFrame | null;
+    windowTitle: WindowTitle | null;
+    errorMessage: { text: string } | null;
+    sflPag: number | null;
+    /** Largest size a window can be resized to on its screen. */
+    maxSize: { rows: number; cols: number } | null;
+    availableIndicators: number[];
+    activeDisplayFormat: string | null;
+    minDetailRow: number | null;
+    items: PreviewItem[];
+    backgroundItems: PreviewItem[];
+    /** Sample values that had to be cut to fit their field, or that a numeric field can't show. */
+    sampleWarnings: string[];
+};
+
+/**
+ * Composes a record on its screen the way the preview shows it: its fields and constants as
+ * placeholder runs and text, filtered by the simulated indicators and the display format, with
+ * its subfile pair, its window's owner and an overlaid record behind it. Shared by the preview
+ * panel (which draws the result on its canvas), its image exports and the text rendering.
+ */
+export class ScreenComposer {
+
+    private readonly indicatorsEnabled: boolean;
+    private readonly activeIndicators: Set<number>;
+    private readonly overlayRecordName: string | undefined;
+    readonly activeDisplayFormat: string | undefined;
+    private readonly sampleData: SampleData | undefined;
+    /** A field's sample text for each subfile row (see `createSampleText`) and its placeholder, by line */
+    private readonly sampleTextByLine = new Map<number, { sampleText: (rowIndex: number) => string | undefined; placeholder: string }>();
+    private readonly sampleWarnings = new Set<string>();
+
+    /**
+     * @param documentUri - URI of the DDS source document (for resolved referenced fields)
+     * @param model - The parsed model of the document
+     * @param recordName - The record to compose
+     * @param recordInfo - The record's fields/constants, or undefined if it no longer exists
+     * @param parsedSize - The record's parse-time size
+     * @param options - What's simulated and shown along with it
+     */
+    constructor(
+        private readonly documentUri: string,
+        private readonly model: DdsDocumentModel,
+        private readonly recordName: string,
+        private readonly recordInfo: FieldsPerRecord | undefined,
+        private readonly parsedSize: DdsSize | undefined,
+        options: ScreenOptions = {}
+    ) {
+        this.indicatorsEnabled = options.indicatorsEnabled ?? false;
+        this.activeIndicators = new Set(options.activeIndicators ?? []);
+        this.overlayRecordName = options.overlayRecordName;
+        this.sampleData = options.sampleData;
+        // Default to the first declared format so a record's WINDOW()/attributes conditioned per
+        // format resolve consistently from the very first render, instead of showing every
+        // candidate at once. The preview's selector stays locked to it when the file only declares one.
+        this.activeDisplayFormat = options.activeDisplayFormat ?? getAvailableDisplayFormats(model)[0]?.name;
+    }
+
+    /**
+     * Creates a composer for a record of a document, with its parse-time size.
+     * @param documentUri - URI of the DDS source document
+     * @param model - The parsed model of the document
+     * @param recordName - The record to compose
+     * @param options - What's simulated and shown along with it
+     */
+    static forRecord(documentUri: string, model: DdsDocumentModel, recordName: string, options: ScreenOptions = {}): ScreenComposer {
+        const recordInfo = model.fieldsPerRecords.find(record => record.record === recordName);
+        return new ScreenComposer(documentUri, model, recordName, recordInfo, recordInfo?.size ?? getDefaultSize(model), options);
+    };
+
+    /**
+     * Resolves the record's current geometry (size, whether it's a window, and the row/col offset
+     * that places its record-local coordinates on the screen canvas), honoring the active display
+     * format. Shared by `compose()` and by anything that needs to convert a screen click back to a
+     * record-local position (e.g. placing a new constant).
+     */
+    resolveGeometry(): ScreenGeometry | null {
+        const recordInfo = this.recordInfo;
+        if (!recordInfo || !this.parsedSize) {
+            return null;
+        };
+
+        // With a format actively selected, re-resolve the record's size live (it may be
+        // conditioned differently per format, e.g. a WINDOW() line per format); otherwise use the
+        // cached, parse-time size exactly as before.
+        const size = this.activeDisplayFormat
+            ? resolveRecordSizeForFormat(this.model, this.recordName, this.activeDisplayFormat)
+            : this.parsedSize;
+
+        const isWindow = size.source === 'window';
+
+        // A window is drawn at its real screen position, on a canvas sized to the full display,
+        // so its own fields/constants (which are stored record-local) need shifting by its origin.
+        // Content starts 1 row/col past the border's own corner (see WINDOW_BORDER_* above).
+        const rowOffset = isWindow ? size.originRow : 0;
+        const colOffset = isWindow ? size.originCol : 0;
+
+        // A subfile detail (SFL) record's own rows shouldn't be draggable up into the area already
+        // occupied by its SFLCTL header's static content (labels, titles...) — that's not a valid
+        // screen layout, the repeating detail area has to start below wherever the header ends.
+        let minDetailRow: number | null = null;
+        if (isSflRecordInfo(recordInfo)) {
+            const pairName = findSubfilePairRecordName(this.model, this.recordName);
+            const headerItems = pairName ? this.buildBackgroundItemsFor(pairName) : undefined;
+            if (headerItems && headerItems.length > 0) {
+                minDetailRow = Math.max(...headerItems.map(item => item.row)) + 1;
+            };
+        };
+
+        return { recordInfo, size, isWindow, rowOffset, colOffset, minDetailRow };
+    };
+
+    /**
+     * Composes the screen: the record's own items (with its subfile page repeats), the records
+     * shown behind or around it, its window's frames and title, and the active error message.
+     * @returns The composed screen, or null when the record no longer exists
+     */
+    compose(): ComposedScreen | null {
+        const geometry = this.resolveGeometry();
+        if (!geometry) {
+            return null;
+        };
+        const { recordInfo, size, isWindow, rowOffset, colOffset, minDetailRow } = geometry;
+
+        const defaultSize = this.activeDisplayFormat
+            ? (getSizeForFormat(this.model, this.activeDisplayFormat) ?? getDefaultSize(this.model))
+            : getDefaultSize(this.model);
+
+        const canvasSize = isWindow ? { rows: defaultSize.rows, cols: defaultSize.cols } : { rows: size.rows, cols: size.cols };
+
+        const items = this.buildItems(recordInfo, rowOffset, colOffset, false);
+        if (isSflRecordInfo(recordInfo)) {
+            items.push(...this.buildSubfileRepeats(items, this.recordName));
+        };
+
+        // The overlaid (background) record can be previewed on its own, whether or not it's itself
+        // a window, no matter what the record being previewed is. Indicator simulation doesn't
+        // apply to it, so its own indicators aren't offered in the toggle list either.
+        const backgroundItems: PreviewItem[] = [];
+        const shownAsBackground = new Set<string>([this.recordName]);
+        const toProcess: string[] = [this.recordName];
+
+        const addBackground = (name: string | undefined): void => {
+            if (!name || shownAsBackground.has(name)) {
+                return;
+            };
+            const items = this.buildBackgroundItemsFor(name);
+            if (!items) {
+                return;
+            };
+            backgroundItems.push(...items);
+            shownAsBackground.add(name);
+            toProcess.push(name);
+        };
+
+        addBackground(this.overlayRecordName);
+
+        // A subfile's own preview is incomplete without its counterpart: the SFL detail record
+        // has no header/titles of its own (those live on the SFLCTL record), and the SFLCTL record
+        // has no rows of its own. Likewise, a record whose WINDOW() keyword only names another
+        // record (or that inherited its window from an SFL/SFLCTL pair) is missing that owner's
+        // own content (e.g. WDWTITLE, footer text). Show whichever of these isn't already visible,
+        // automatically, following the chain (e.g. SFL -> its SFLCTL -> that SFLCTL's window owner).
+        for (let i = 0; i < toProcess.length; i++) {
+            const anchor = toProcess[i];
+            addBackground(findSubfilePairRecordName(this.model, anchor));
+            addBackground(findWindowOwnerRecordName(this.model, anchor, this.activeDisplayFormat));
+        };
+
+        const availableIndicators = this.collectIndicatorNumbers(recordInfo).sort((a, b) => a - b);
+
+        // The content area (where fields/constants live); its top-left is 1 row/col inside the border.
+        const windowFrame: WindowFrame | null = isWindow
+            ? { row: size.originRow + WINDOW_BORDER_TOP, col: size.originCol + WINDOW_BORDER_LEFT, rows: size.rows, cols: size.cols }
+            : null;
+
+        // The visual border itself: the content area padded out by the border widths.
+        const outerFrame: WindowFrame | null = (isWindow && windowFrame)
+            ? {
+                row: size.originRow,
+                col: size.originCol,
+                rows: windowFrame.rows + WINDOW_BORDER_TOP + WINDOW_BORDER_BOTTOM,
+                cols: windowFrame.cols + WINDOW_BORDER_LEFT + WINDOW_BORDER_RIGHT
+            }
+            : null;
+
+        // A window can't be resized past the edge of the physical screen it's positioned on
+        // (accounting for the border that surrounds the content area on every side).
+        const maxSize = isWindow
+            ? {
+                rows: defaultSize.rows - size.originRow - (WINDOW_BORDER_TOP + WINDOW_BORDER_BOTTOM) + 1,
+                cols: defaultSize.cols - size.originCol - (WINDOW_BORDER_LEFT + WINDOW_BORDER_RIGHT) + 1
+            }
+            : null;
+
+        const windowTitle = isWindow ? (findWindowTitle(this.model, this.recordName, this.activeDisplayFormat) ?? null) : null;
+        const errorMessage = this.resolveErrorMessage(recordInfo);
+        const sflPagAttr = isSflCtlRecordInfo(recordInfo) ? findOwnSflPagAttribute(recordInfo, this.activeDisplayFormat) : undefined;
+        const sflPagMatch = sflPagAttr?.value.match(/SFLPAG\(\s*(\d+)\s*\)/i);
+        const sflPag = sflPagMatch ? parseInt(sflPagMatch[1], 10) : null;
+
+        return {
+            recordName: this.recordName,
+            size: canvasSize,
+            isWindow,
+            windowFrame,
+            outerFrame,
+            windowTitle,
+            errorMessage,
+            sflPag,
+            maxSize,
+            availableIndicators,
+            activeDisplayFormat: this.activeDisplayFormat ?? null,
+            minDetailRow,
+            items,
+            backgroundItems,
+            sampleWarnings: [...this.sampleWarnings]
+        };
+    };
+
+    /**
+     * Builds background (dimmed, non-interactive) items for an arbitrary record by name: figures
+     * out its own offset (in case it's itself a window) and expands subfile page-repeats if it's
+     * an SFL record. Used for both the manual overlay and the automatic SFL/SFLCTL pairing.
+     * @param recordName - Name of the record to render as background
+     */
+    private buildBackgroundItemsFor(recordName: string): PreviewItem[] | undefined {
+        const record = this.model.fieldsPerRecords.find(r => r.record === recordName);
+        if (!record) {
+            return undefined;
+        };
+
+        const size = getEffectiveSize(this.model, recordName, this.activeDisplayFormat);
+        const isWin = size?.source === 'window';
+        const rOffset = isWin && size ? size.originRow : 0;
+        const cOffset = isWin && size ? size.originCol : 0;
+
+        const items = this.buildItems(record, rOffset, cOffset, true);
+        if (isSflRecordInfo(record)) {
+            items.push(...this.buildSubfileRepeats(items, recordName));
+        };
+
+        // A same-window item (an auto-paired SFL/SFLCTL half, or the window's owner) is part of
+        // the window's own content and must show through its opaque frame, unlike a genuinely
+        // different record merely positioned behind the window.
+        const foregroundOwner = windowOwnerOf(this.model, this.recordName, this.activeDisplayFormat);
+        const sameWindow = foregroundOwner !== undefined && windowOwnerOf(this.model, recordName, this.activeDisplayFormat) === foregroundOwner;
+        for (const item of items) {
+            item.sameWindow = sameWindow;
+        };
+
+        return items;
+    };
+
+    /**
+     * Builds the preview items for a record's fields/constants, shifted by the given offset.
+     * @param recordInfo - The record's fields/constants
+     * @param rowOffset - Added to each field/constant's own row (0 unless this is a window's own content)
+     * @param colOffset - Added to each field/constant's own col (0 unless this is a window's own content)
+     * @param isBackground - Whether these items belong to the record overlaid behind a window
+     */
+    private buildItems(recordInfo: FieldsPerRecord, rowOffset: number, colOffset: number, isBackground: boolean): PreviewItem[] {
+        const items: PreviewItem[] = [];
+
+        // The parser stores a subfile (SFL) record's field/constant row and column swapped
+        // (a leftover of how move-fields/move-constants track "horizontal" movement for SFLs).
+        // Undo that swap here to get the real screen row/col for display.
+        const isSfl = isSflRecordInfo(recordInfo);
+
+        // Indicator toggling only applies to the record being actively previewed; an overlaid
+        // background record always uses the resting state (every indicator OFF), regardless of
+        // what's toggled for the foreground record.
+        const useLiveIndicators = this.indicatorsEnabled && !isBackground;
+        const documentUri = this.documentUri;
+
+        for (const field of recordInfo.fields) {
+            if (this.activeDisplayFormat && field.displayFormat && field.displayFormat !== this.activeDisplayFormat) {
+                continue;
+            };
+            if (!this.isItemDisplayed(field.indicators, useLiveIndicators)) {
+                continue;
+            };
+
+            const trueRow = isSfl ? field.col : field.row;
+            const trueCol = isSfl ? field.row : field.col;
+
+            if (trueRow > 0 && trueCol > 0) {
+                const activeAttrs = this.getActiveAttributes(field.attributes, useLiveIndicators);
+                const usageCode = (field.usage || '').trim().toUpperCase();
+                // A referenced field (REFFLD/position-29 `R`) has no type/length of its own in the
+                // source — they live in the external database field, which dspf-edit can't read on
+                // its own — so it's shown as a single marker character instead of a guessed-width
+                // placeholder, unless its real type/length has already been resolved (via the
+                // "Resolve Referenced Field" tree command), in which case it renders like any other
+                // field, just tinted the reference color when it carries no COLOR()/DSPATR() of its own.
+                const resolvedRef = field.referenced && documentUri ? getResolvedRef(documentUri, recordInfo.record, field.name) : undefined;
+                const isReferenced = field.referenced === true && !resolvedRef;
+                // The displayed text's own length drives the item's width/hit-box (below), not the
+                // parsed field length: a system keyword field (DATE, USER...) always renders at a
+                // fixed width of its own, regardless of whatever the source's length column holds
+                // — and an edited numeric field (EDTWRD, or EDTCDE with a standard code) is wider
+                // per insert character (its decimal point, thousands commas, sign...), which
+                // text.length already reflects.
+                const effectiveLength = resolvedRef?.length ?? field.length;
+                const effectiveDecimals = resolvedRef?.decimals ?? field.decimals ?? 0;
+                const editingMask = getEditingMask(activeAttrs, effectiveLength, effectiveDecimals);
+                // With sample data, a field shows its value in the record's first row instead of
+                // its placeholder (a subfile's other rows get theirs in buildSubfileRepeats)
+                const sampleText = isReferenced
+                    ? undefined
+                    : this.createSampleText(recordInfo, field.name, resolvedRef?.type ?? field.type, effectiveLength, effectiveDecimals, editingMask);
+                const placeholder = isReferenced
+                    ? getFieldPlaceholderText(field.name, field.type, field.usage, 1)
+                    : getFieldPlaceholderText(field.name, resolvedRef?.type ?? field.type, field.usage, effectiveLength, editingMask);
+                const text = sampleText?.(0) ?? placeholder;
+                const color = isReferenced || (field.referenced && activeAttrs.length === 0)
+                    ? REFERENCED_FIELD_COLOR
+                    : getDisplayColor(activeAttrs, hasDisplayAttribute(activeAttrs, 'HI'));
+                const baseItem = {
+                    kind: 'field' as const,
+                    name: field.name,
+                    col: trueCol + colOffset,
+                    lineIndex: field.lineIndex,
+                    color,
+                    highIntensity: hasDisplayAttribute(activeAttrs, 'HI'),
+                    reverseImage: hasDisplayAttribute(activeAttrs, 'RI') || this.hasActiveErrorMessage(field.attributes, useLiveIndicators),
+                    blink: hasDisplayAttribute(activeAttrs, 'BL'),
+                    underline: hasDisplayAttribute(activeAttrs, 'UL'),
+                    columnSeparator: hasDisplayAttribute(activeAttrs, 'CS'),
+                    nonDisplay: hasDisplayAttribute(activeAttrs, 'ND'),
+                    rowOffset,
+                    colOffset,
+                    isBackground,
+                    isInteractive: !isBackground,
+                    isInputCapable: usageCode === 'I' || usageCode === 'B',
+                    isReferenced
+                };
+
+                // CNTFLD(n) wraps a field too long for one line across multiple rows, n characters
+                // per row, all starting at the same column — matching how RDi previews it — instead
+                // of a single run that overflows past the record's right edge.
+                const continuedWidth = getContinuedFieldWidth(activeAttrs);
+                if (continuedWidth && continuedWidth > 0 && text.length > continuedWidth) {
+                    const chunkCount = Math.ceil(text.length / continuedWidth);
+                    for (let chunk = 0; chunk < chunkCount; chunk++) {
+                        const chunkText = text.substr(chunk * continuedWidth, continuedWidth);
+                        items.push({ ...baseItem, text: chunkText, row: trueRow + rowOffset + chunk, length: chunkText.length });
+                    };
+                } else {
+                    items.push({ ...baseItem, text, row: trueRow + rowOffset, length: text.length });
+                    if (sampleText) {
+                        this.sampleTextByLine.set(field.lineIndex, { sampleText, placeholder });
+                    };
+                };
+            };
+        };
+
+        for (const constant of recordInfo.constants) {
+            if (this.activeDisplayFormat && constant.displayFormat && constant.displayFormat !== this.activeDisplayFormat) {
+                continue;
+            };
+            if (!this.isItemDisplayed(constant.indicators, useLiveIndicators)) {
+                continue;
+            };
+
+            const trueRow = isSfl ? constant.col : constant.row;
+            const trueCol = isSfl ? constant.row : constant.col;
+
+            if (trueRow > 0 && trueCol > 0) {
+                const activeAttrs = this.getActiveAttributes(constant.attributes, useLiveIndicators);
+                // Same reasoning as the field loop above: a bare system keyword (DATE, USER...)
+                // renders at its own fixed width, not the raw constant text's length. So does a
+                // MSGCON constant, at its declared length.
+                const message = parseMessageKeyword(constant.name);
+                const text = message?.keyword === 'MSGCON'
+                    ? this.messageConstantText(message)
+                    : SYSTEM_FIELD_PLACEHOLDER[constant.name.trim().toUpperCase()] || constant.name;
+                items.push({
+                    kind: 'constant',
+                    name: constant.name,
+                    text,
+                    row: trueRow + rowOffset,
+                    col: trueCol + colOffset,
+                    length: text.length,
+                    lineIndex: constant.lineIndex,
+                    color: getDisplayColor(activeAttrs, hasDisplayAttribute(activeAttrs, 'HI')),
+                    highIntensity: hasDisplayAttribute(activeAttrs, 'HI'),
+                    reverseImage: hasDisplayAttribute(activeAttrs, 'RI'),
+                    blink: hasDisplayAttribute(activeAttrs, 'BL'),
+                    underline: hasDisplayAttribute(activeAttrs, 'UL'),
+                    columnSeparator: hasDisplayAttribute(activeAttrs, 'CS'),
+                    nonDisplay: hasDisplayAttribute(activeAttrs, 'ND'),
+                    rowOffset,
+                    colOffset,
+                    isBackground,
+                    isInteractive: !isBackground,
+                    isInputCapable: false
+                });
+            };
+        };
+
+        // Even with indicators resolved (live or resting-state), two genuinely unconditioned
+        // items (or ones whose conditions aren't perfectly complementary) could still land on the
+        // exact same spot — keep only the first-defined one so they don't render stacked.
+        return this.dedupByPosition(items);
+    };
+
+    /**
+     * Creates the function giving a field's sample text for a row of its record (the first row of
+     * a plain record; any row of a subfile), formatted by `formatSampleValue`. What had to be cut
+     * to fit is collected in the screen's sample warnings.
+     * @param recordInfo - The field's record
+     * @param fieldName - The field
+     * @param type - Its data type (post REFFLD resolution, if applicable)
+     * @param length - Its length
+     * @param decimals - Its decimal positions
+     * @param editingMask - Its editing mask, if any
+     * @returns The function, or undefined when no sample row gives the field a value
+     */
+    private createSampleText(recordInfo: FieldsPerRecord, fieldName: string, type: string | undefined, length: number, decimals: number, editingMask: string | null): ((rowIndex: number) => string | undefined) | undefined {
+        if (!this.sampleData) {
+            return undefined;
+        };
+        const rows = getSampleRows(this.sampleData, recordInfo.record);
+        const key = fieldName.toUpperCase();
+        if (!rows.some(row => row[key] !== undefined)) {
+            return undefined;
+        };
+
+        const rowLabel = (rowIndex: number) => isSflRecordInfo(recordInfo) ? ` (row ${rowIndex + 1})` : '';
+        return rowIndex => {
+            const value = rows[rowIndex]?.[key];
+            if (value === undefined) {
+                return undefined;
+            };
+            const formatted = formatSampleValue(value, type, length, decimals, editingMask);
+            if (formatted.warning) {
+                this.sampleWarnings.add(`${recordInfo.record}.${fieldName}${rowLabel(rowIndex)}: ${formatted.warning}`);
+            };
+            return formatted.text;
+        };
+    };
+
+    /**
+     * Checks whether a field/constant's own line-level indicators (columns 7-15, e.g. "61"/"N61")
+     * are satisfied. With live indicators, checks them against the currently toggled-on set
+     * (indicators within an OR group are ANDed together, and any satisfied OR group is enough,
+     * matching real DDS conditioning). Otherwise, uses the resting state — every indicator assumed
+     * OFF — so only unconditioned items and negated ("N") conditions show; this is what makes mutually-exclusive alternates
+     * (e.g. one shown on "61", another on "N61") resolve to a single, deterministic one even when
+     * they don't happen to share the same screen position. No indicators at all means "always shown".
+     * @param indicators - The item's own indicators
+     * @param useLiveIndicators - Whether to check against the toggled-on indicator set, or assume all OFF
+     */
+    private isItemDisplayed(indicators: DdsIndicator[] | undefined, useLiveIndicators: boolean): boolean {
+        if (!useLiveIndicators) {
+            return isIndicatorConditionMet(indicators, () => false);
+        };
+        return isIndicatorConditionMet(indicators, indicator => this.activeIndicators.has(indicator));
+    };
+
+    /**
+     * Filters a field/constant's own COLOR()/DSPATR() attributes the same way visibility is
+     * filtered: attributes conditioned on a display format other than the active one are dropped
+     * first; then, ones whose own indicators aren't satisfied (checked live or against the resting
+     * state — see isItemDisplayed) are dropped too. If more than one candidate for the same
+     * keyword still remains (e.g. two unconditioned COLOR() lines), keeps just the first-defined one.
+     * @param attributes - The field/constant's own attributes
+     * @param useLiveIndicators - Whether to check against the toggled-on indicator set, or assume all OFF
+     */
+    private getActiveAttributes(attributes: AttributeWithIndicators[], useLiveIndicators: boolean): AttributeWithIndicators[] {
+        const forFormat = filterForActiveFormat(attributes, this.activeDisplayFormat);
+        const displayed = forFormat.filter(attr => this.isItemDisplayed(attr.indicators, useLiveIndicators));
+
+        const seen = new Set<string>();
+        const result: AttributeWithIndicators[] = [];
+        for (const attr of displayed) {
+            const key = attributeGroupKey(attr.value);
+            if (seen.has(key)) {
+                continue;
+            };
+            seen.add(key);
+            result.push(attr);
+        };
+        return result;
+    };
+
+    /**
+     * Whether a field's own ERRMSG() is currently active (its conditioning indicator satisfied) —
+     * the field it's attached to is shown in reverse image while its error is in effect, same as a
+     * real 5250 highlights the field an error message refers to.
+     */
+    private hasActiveErrorMessage(attributes: AttributeWithIndicators[], useLiveIndicators: boolean): boolean {
+        const forFormat = filterForActiveFormat(attributes, this.activeDisplayFormat);
+        return forFormat.some(attr => /^ERRMSG(ID)?\(/i.test(attr.value) && this.isItemDisplayed(attr.indicators, useLiveIndicators));
+    };
+
+    /**
+     * The text a MSGCON constant shows: its message's, once read from the message file, cut or
+     * padded to the declared length; until then (or without a connection), the message ID padded
+     * with dots to that length.
+     * @param message - The constant's MSGCON keyword
+     */
+    private messageConstantText(message: MessageKeyword): string {
+        const length = message.length ?? 1;
+        const resolved = getResolvedMessage(this.documentUri, message.reference);
+        return resolved
+            ? resolved.substring(0, length).padEnd(length, ' ')
+            : message.reference.messageId.substring(0, length).padEnd(length, '.');
+    };
+
+    /**
+     * Finds the record's currently-active ERRMSG() message, if any: an ERRMSG keyword (record-level,
+     * or on one of the record's own fields/constants) whose own conditioning indicator is satisfied
+     * by the indicator simulation — same gating already used for COLOR()/DSPATR() via isItemDisplayed.
+     * An ERRMSGID/SFLMSGID shows its message file's text once read, or names the message until then.
+     * Shown on the display's message line (the bottom row) like a real 5250 error, in white.
+     */
+    private resolveErrorMessage(recordInfo: FieldsPerRecord): { text: string } | null {
+        const candidates: { value: string; indicators?: DdsIndicator[]; displayFormat?: string }[] = [
+            ...(recordInfo.attributes ?? []),
+            ...recordInfo.fields.flatMap(field => field.attributes),
+            ...recordInfo.constants.flatMap(constant => constant.attributes)
+        ];
+
+        const forFormat = filterForActiveFormat(candidates, this.activeDisplayFormat);
+        for (const attr of forFormat) {
+            if (!this.isItemDisplayed(attr.indicators, this.indicatorsEnabled)) {
+                continue;
+            };
+            const errmsgMatch = attr.value.match(/^ERRMSG\('([^']+)'\s*(\d{2})?\)$/);
+            if (errmsgMatch) {
+                return { text: errmsgMatch[1] };
+            };
+            const message = parseMessageKeyword(attr.value);
+            if (message && message.keyword !== 'MSGCON') {
+                return { text: getResolvedMessage(this.documentUri, message.reference) ?? `Message ${describeMessageReference(message.reference)}` };
+            };
+        };
+        return null;
+    };
+
+    /**
+     * Keeps only the first (lowest lineIndex) item at each exact (row, col), so alternate
+     * constants/fields that occupy the same spot don't render stacked on top of each other.
+     */
+    private dedupByPosition(items: PreviewItem[]): PreviewItem[] {
+        const bestByPosition = new Map<string, PreviewItem>();
+
+        for (const item of items) {
+            const key = item.row + ',' + item.col;
+            const existing = bestByPosition.get(key);
+            if (!existing || item.lineIndex < existing.lineIndex) {
+                bestByPosition.set(key, item);
+            };
+        };
+
+        const kept = new Set(bestByPosition.values());
+        return items.filter(item => kept.has(item));
+    };
+
+    /**
+     * Collects the distinct indicator numbers referenced by a record's own fields/constants, and
+     * its own record-level attributes (e.g. a record-level ERRMSG()) — used to populate the
+     * indicator toggle list in the toolbar.
+     */
+    private collectIndicatorNumbers(recordInfo: FieldsPerRecord): number[] {
+        const numbers = new Set<number>();
+        for (const attr of recordInfo.attributes ?? []) {
+            for (const ind of attr.indicators ?? []) {
+                numbers.add(ind.number);
+            };
+        };
+        for (const field of recordInfo.fields) {
+            for (const ind of field.indicators ?? []) {
+                numbers.add(ind.number);
+            };
+            for (const attr of field.attributes) {
+                for (const ind of attr.indicators ?? []) {
+                    numbers.add(ind.number);
+                };
+            };
+        };
+        for (const constant of recordInfo.constants) {
+            for (const ind of constant.indicators ?? []) {
+                numbers.add(ind.number);
+            };
+            for (const attr of constant.attributes) {
+                for (const ind of attr.indicators ?? []) {
+                    numbers.add(ind.number);
+                };
+            };
+        };
+        return [...numbers];
+    };
+
+    /**
+     * Repeats a subfile's own base items for each additional visible page row (SFLPAG), stacked
+     * downward. The repeats are display-only: dragging/clicking always targets the single real
+     * source line, so only the first (base) instance stays interactive.
+     * @param baseItems - The subfile's own items, as built for its first (real) row
+     * @param recordName - Name of the subfile (SFL) record
+     */
+    private buildSubfileRepeats(baseItems: PreviewItem[], recordName: string): PreviewItem[] {
+        const sflPag = findSubfilePageSize(this.model, recordName, this.activeDisplayFormat);
+        if (!sflPag || sflPag <= 1 || baseItems.length === 0) {
+            return [];
+        };
+
+        const rows = baseItems.map(item => item.row);
+        const rowSpan = Math.max(...rows) - Math.min(...rows) + 1;
+
+        const repeats: PreviewItem[] = [];
+        for (let page = 1; page < sflPag; page++) {
+            for (const item of baseItems) {
+                // A row the sample data has no value for shows the field's placeholder
+                const sample = item.kind === 'field' ? this.sampleTextByLine.get(item.lineIndex) : undefined;
+                const text = sample ? (sample.sampleText(page) ?? sample.placeholder) : item.text;
+                repeats.push({ ...item, text, row: item.row + page * rowSpan, isInteractive: false });
+            };
+        };
+
+        return repeats;
+    };};
@@ -0,0 +1,475 @@
+/*
+    Christian Larsen, 2026
+    "RPG structure"
+    dspf-edit.test-mode.ts
+*/
+
+import { DdsDocumentModel, FieldsPerRecord, FieldInfo, isIndicatorConditionMet } from '../dspf-edit.model/dspf-edit.model';
+import { describeMessageReference, getResolvedMessage, getResolvedRef, parseMessageKeyword } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+import { splitKeywords } from '../dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { findResponseIndicator } from '../dspf-edit.providers/dspf-edit.indicator-provider';
+import { ComposedScreen, NUMERIC_DATA_TYPES, filterForActiveFormat } from './dspf-edit.screen-composer';
+
+/** Characters each restricted keyboard shift accepts, besides blanks. */
+const KEYBOARD_SHIFT_CHARACTERS: Record<string, RegExp> = {
+    X: /^[A-Za-z,.\- ]*$/,
+    D: /^[0-9 ]*$/,
+    M: /^[0-9+\-,. ]*$/
+};
+
+/** COMP/CMP relational operators, with how they read in a message. */
+const RELATIONAL_OPERATORS: Record<string, { text: string; test: (order: number) => boolean }> = {
+    EQ: { text: 'equal to', test: order => order === 0 },
+    NE: { text: 'not equal to', test: order => order !== 0 },
+    LT: { text: 'less than', test: order => order < 0 },
+    NL: { text: 'not less than', test: order => order >= 0 },
+    GT: { text: 'greater than', test: order => order > 0 },
+    NG: { text: 'not greater than', test: order => order <= 0 },
+    LE: { text: 'less than or equal to', test: order => order <= 0 },
+    GE: { text: 'greater than or equal to', test: order => order >= 0 }
+};
+
+/** A field's VALUES, RANGE or COMP (CMP) keyword, with its parameters as coded. */
+interface ValidityKeyword {
+    keyword: 'VALUES' | 'RANGE' | 'COMP';
+    parameters: string[];
+};
+
+/** One line of an input-capable field on the screen (a CNTFLD field takes several). */
+export interface TestFieldSegment {
+    row: number;
+    col: number;
+    length: number;
+    /** Position of the segment's first character in the field's value */
+    offset: number;
+};
+
+/** An input-capable field of the record under test, in tab order. */
+export interface TestField {
+    lineIndex: number;
+    name: string;
+    row: number;
+    col: number;
+    /** Positions the operator can type in: the field as displayed, edit characters included */
+    length: number;
+    segments: TestFieldSegment[];
+    /** The field's own length and decimal positions, for its numeric checks */
+    digits: number;
+    decimals: number;
+    dataType: string;
+    numeric: boolean;
+    /** CHECK(LC) (or LOWER): lowercase letters are kept as typed instead of shifted to uppercase */
+    lowercase: boolean;
+    checkCodes: string[];
+    validity: ValidityKeyword[];
+    /** The field's own ERRMSG/ERRMSGID text, shown instead of the system's when a check fails */
+    errorMessage?: string;
+};
+
+/** A command key the record enables (CAnn, CFnn, PAGEUP/ROLLDOWN, PAGEDOWN/ROLLUP). */
+export interface TestCommandKey {
+    /** The key pressed: 'F1' to 'F24', 'PageUp' or 'PageDown' */
+    key: string;
+    keyword: string;
+    /** CF keys and the page keys return (and so validate) the input; CA keys return none */
+    validates: boolean;
+    indicator?: number;
+    text?: string;
+};
+
+/** What pressing Enter or a command key on the record under test would do. */
+export interface TestResult {
+    /** Lines of the fields that failed their checks, shown in reverse image */
+    errorLineIndices: number[];
+    /** Text for the message line, or null to clear it */
+    message: string | null;
+    /** What the program would receive, or why it wouldn't be called */
+    status: string;
+    cursorLineIndex: number | null;
+};
+
+/**
+ * Collects the input-capable fields (usage I or B) of the composed record, in tab order: by row,
+ * then by column, the way the 5250 moves the cursor between fields.
+ * @param documentUri - URI of the DDS source document (for resolved referenced fields)
+ * @param model - The parsed model of the document
+ * @param recordInfo - The record under test
+ * @param screen - The record as composed for the preview
+ */
+export function collectTestFields(documentUri: string, model: DdsDocumentModel, recordInfo: FieldsPerRecord, screen: ComposedScreen): TestField[] {
+    const activeFormat = screen.activeDisplayFormat ?? undefined;
+    const inheritedKeywords = [
+        ...filterForActiveFormat(model.attributesFileLevel, activeFormat),
+        ...filterForActiveFormat(recordInfo.attributes ?? [], activeFormat)
+    ].flatMap(attr => splitKeywords(attr.value).keywords);
+
+    // Only the first row of a subfile is interactive; the page repeats are display-only
+    const segmentsByLine = new Map<number, TestFieldSegment[]>();
+    for (const item of screen.items) {
+        if (item.kind !== 'field' || !item.isInputCapable || !item.isInteractive) {
+            continue;
+        };
+        const segments = segmentsByLine.get(item.lineIndex) ?? [];
+        segments.push({ row: item.row, col: item.col, length: item.length, offset: 0 });
+        segmentsByLine.set(item.lineIndex, segments);
+    };
+
+    const fields: TestField[] = [];
+    for (const [lineIndex, segments] of segmentsByLine) {
+        const field = recordInfo.fields.find(candidate => candidate.lineIndex === lineIndex);
+        if (!field) {
+            continue;
+        };
+        const testField = buildTestField(documentUri, recordInfo.record, field, segments, inheritedKeywords, activeFormat);
+        if (testField) {
+            fields.push(testField);
+        };
+    };
+
+    return fields.sort((a, b) => a.row - b.row || a.col - b.col);
+};
+
+/**
+ * Collects the command keys the record enables, its own and the file-level ones, honoring the
+ * display format and the indicators conditioning them.
+ * @param model - The parsed model of the document
+ * @param recordInfo - The record under test
+ * @param activeFormat - The display format shown, if any
+ * @param isOn - Whether an indicator is on
+ */
+export function collectCommandKeys(model: DdsDocumentModel, recordInfo: FieldsPerRecord, activeFormat: string | undefined, isOn: (indicator: number) => boolean): TestCommandKey[] {
+    const keys = new Map<string, TestCommandKey>();
+
+    // A record-level key takes precedence over the same key at file level
+    const sources = [recordInfo.attributes ?? [], model.attributesFileLevel];
+    for (const attributes of sources) {
+        for (const attr of filterForActiveFormat(attributes, activeFormat)) {
+            if (!isIndicatorConditionMet(attr.indicators, isOn)) {
+                continue;
+            };
+            for (const keyword of splitKeywords(attr.value).keywords) {
+                const commandKey = parseCommandKey(keyword);
+                if (commandKey && !keys.has(commandKey.key)) {
+                    keys.set(commandKey.key, commandKey);
+                };
+            };
+        };
+    };
+
+    return [...keys.values()].sort((a, b) => keyOrder(a.key) - keyOrder(b.key));
+};
+
+/**
+ * Works out what pressing a key on the record under test would do, the way the display station
+ * would: a key the record doesn't enable is refused, a CA key returns to the program without the
+ * input, and Enter, a CF key or a page key first checks every changed field's keyboard shift and
+ * validity keywords, returning only when they all pass.
+ * @param key - 'Enter', 'F1' to 'F24', 'PageUp' or 'PageDown'
+ * @param fields - The record's input-capable fields
+ * @param commandKeys - The command keys it enables
+ * @param values - What's typed in each field, by line
+ * @param modified - Lines of the fields typed in (their modified data tag is on)
+ */
+export function runTestKey(key: string, fields: TestField[], commandKeys: TestCommandKey[], values: Record<number, string>, modified: number[]): TestResult {
+    const commandKey = commandKeys.find(candidate => candidate.key === key);
+    if (key !== 'Enter' && !commandKey) {
+        return {
+            errorLineIndices: [],
+            message: 'Function key not allowed.',
+            status: `${key} is not enabled for this record; the program is not called.`,
+            cursorLineIndex: null
+        };
+    };
+
+    const label = commandKey ? describeCommandKey(commandKey) : 'Enter';
+    const indicatorText = commandKey?.indicator !== undefined
+        ? `with *IN${String(commandKey.indicator).padStart(2, '0')} on`
+        : 'with no response indicator set';
+
+    if (commandKey && !commandKey.validates) {
+        return {
+            errorLineIndices: [],
+            message: null,
+            status: `${label}: returns to the program ${indicatorText}; the input is neither checked nor returned.`,
+            cursorLineIndex: null
+        };
+    };
+
+    const modifiedLines = new Set(modified);
+    const errors: { field: TestField; message: string }[] = [];
+    for (const field of fields) {
+        const message = validateTestField(field, values[field.lineIndex] ?? '', modifiedLines.has(field.lineIndex));
+        if (message) {
+            errors.push({ field, message });
+        };
+    };
+
+    if (errors.length > 0) {
+        return {
+            errorLineIndices: errors.map(error => error.field.lineIndex),
+            message: errors[0].field.errorMessage ?? errors[0].message,
+            status: `${label}: ${errors.length} field(s) in error (${errors.map(error => error.field.name).join(', ')}); the program is not called.`,
+            cursorLineIndex: errors[0].field.lineIndex
+        };
+    };
+
+    const changed = fields
+        .filter(field => modifiedLines.has(field.lineIndex))
+        .map(field => `${field.name}=${normalizeTestValue(field, values[field.lineIndex] ?? '')}`);
+
+    return {
+        errorLineIndices: [],
+        message: null,
+        status: `${label}: returns to the program ${indicatorText}; ` + (changed.length > 0 ? `changed: ${changed.join(', ')}.` : 'no field changed.'),
+        cursorLineIndex: null
+    };
+};
+
+// HELPERS
+
+/**
+ * Builds the test information of an input-capable field from its keywords. A field with
+ * inhibited keyboard entry (data type I) can't be typed in and is left out.
+ * @param documentUri - URI of the DDS source document
+ * @param recordName - The field's record
+ * @param field - The field
+ * @param segments - Where it's shown, one segment per screen line
+ * @param inheritedKeywords - The file- and record-level keywords, for CHECK codes set there
+ * @param activeFormat - The display format shown, if any
+ */
+function buildTestField(documentUri: string, recordName: string, field: FieldInfo, segments: TestFieldSegment[], inheritedKeywords: string[], activeFormat: string | undefined): TestField | undefined {
+    const resolvedRef = field.referenced ? getResolvedRef(documentUri, recordName, field.name) : undefined;
+    const codedType = (resolvedRef?.type ?? field.type ?? '').trim().toUpperCase();
+    const decimals = resolvedRef?.decimals ?? field.decimals ?? 0;
+    // Same rule as the sample values: no type but decimals means zoned
+    const numeric = NUMERIC_DATA_TYPES.has(codedType) || (codedType === '' && decimals > 0);
+    const dataType = codedType || (numeric ? 'S' : 'A');
+    if (dataType === 'I') {
+        return undefined;
+    };
+
+    segments.sort((a, b) => a.row - b.row || a.col - b.col);
+    let offset = 0;
+    for (const segment of segments) {
+        segment.offset = offset;
+        offset += segment.length;
+    };
+
+    const fieldKeywords = filterForActiveFormat(field.attributes, activeFormat).flatMap(attr => splitKeywords(attr.value).keywords);
+    const checkCodes: string[] = [];
+    const validity: ValidityKeyword[] = [];
+    let lowercase = false;
+    let errorMessage: string | undefined;
+
+    for (const keyword of [...inheritedKeywords, ...fieldKeywords]) {
+        const match = keyword.match(/^([A-Za-z]+)(?:\((.*)\))?$/s);
+        if (!match) {
+            continue;
+        };
+        const name = match[1].toUpperCase();
+        const parameters = splitKeywords(match[2] ?? '').keywords;
+
+        if (name === 'CHECK') {
+            checkCodes.push(...parameters.map(code => code.toUpperCase()));
+        } else if (name === 'LOWER') {
+            lowercase = true;
+        } else if (name === 'VALUES' || name === 'RANGE') {
+            validity.push({ keyword: name, parameters });
+        } else if (name === 'COMP' || name === 'CMP') {
+            validity.push({ keyword: 'COMP', parameters });
+        } else if (name === 'ERRMSG' && errorMessage === undefined) {
+            errorMessage = match[2]?.match(/'((?:[^']|'')*)'/)?.[1].replace(/''/g, "'");
+        } else if (name === 'ERRMSGID' && errorMessage === undefined) {
+            const message = parseMessageKeyword(keyword);
+            errorMessage = message
+                ? getResolvedMessage(documentUri, message.reference) ?? `Message ${describeMessageReference(message.reference)}`
+                : `Message ${parameters[0] ?? ''} in ${parameters[1] ?? ''}`.trim();
+        };
+    };
+    lowercase = lowercase || checkCodes.includes('LC');
+
+    return {
+        lineIndex: field.lineIndex,
+        name: field.name,
+        row: segments[0].row,
+        col: segments[0].col,
+        length: offset,
+        segments,
+        digits: resolvedRef?.length ?? field.length,
+        decimals,
+        dataType,
+        numeric,
+        lowercase,
+        checkCodes,
+        validity,
+        errorMessage
+    };
+};
+
+/**
+ * Runs a field's checks on what's typed in it, in the order the display station does: mandatory
+ * entry and fill first, then, for a changed field only, its keyboard shift and validity keywords.
+ * @param field - The field
+ * @param value - What's typed in it
+ * @param entered - Whether it was typed in at all
+ * @returns The system's message for the first check that fails, or undefined when it passes
+ */
+function validateTestField(field: TestField, value: string, entered: boolean): string | undefined {
+    const trimmed = value.trim();
+
+    if (field.checkCodes.includes('ME') && (!entered || trimmed === '')) {
+        return `Entry required in field ${field.name}.`;
+    };
+    if (!entered) {
+        return undefined;
+    };
+    if (trimmed === '' && field.checkCodes.includes('AB')) {
+        return undefined;
+    };
+    if (field.checkCodes.includes('MF') && value.trimEnd().length < field.length) {
+        return `Field ${field.name} must be filled completely.`;
+    };
+
+    let comparable: string | number;
+    if (field.numeric) {
+        const number = parseNumericInput(trimmed, field.digits, field.decimals);
+        if (typeof number === 'string') {
+            return `${number} in field ${field.name}.`;
+        };
+        comparable = number;
+    } else {
+        const allowed = KEYBOARD_SHIFT_CHARACTERS[field.dataType];
+        if (allowed && !allowed.test(value)) {
+            return `Characters typed in field ${field.name} are not allowed by its keyboard shift (${field.dataType}).`;
+        };
+        comparable = normalizeTestValue(field, value);
+    };
+
+    for (const check of field.validity) {
+        const operands = check.parameters.map(parameter => parseOperand(parameter, field.numeric));
+        if (check.keyword === 'VALUES' && !operands.some(operand => compareOperand(comparable, operand, field.length) === 0)) {
+            return `Value entered for field ${field.name} is not valid. Valid values: ${check.parameters.join(' ')}.`;
+        };
+        if (check.keyword === 'RANGE' && operands.length >= 2
+            && (compareOperand(comparable, operands[0], field.length) < 0 || compareOperand(comparable, operands[1], field.length) > 0)) {
+            return `Value entered for field ${field.name} is not in the range ${check.parameters[0]} to ${check.parameters[1]}.`;
+        };
+        if (check.keyword === 'COMP' && operands.length >= 2) {
+            const operator = RELATIONAL_OPERATORS[String(check.parameters[0]).toUpperCase()];
+            if (operator && !operator.test(compareOperand(comparable, operands[1], field.length))) {
+                return `Value entered for field ${field.name} must be ${operator.text} ${check.parameters[1]}.`;
+            };
+        };
+    };
+
+    return undefined;
+};
+
+/**
+ * Reads what's typed in a numeric field as a number: an optional leading or trailing sign, digits
+ * (thousands commas allowed, as an edited field shows them) and at most one decimal point, with
+ * no more integer and decimal digits than the field holds. Blank reads as zero.
+ * @param text - What's typed, trimmed
+ * @param digits - The field's length
+ * @param decimals - Its decimal positions
+ * @returns The number, or what's wrong with the text
+ */
+function parseNumericInput(text: string, digits: number, decimals: number): number | string {
+    if (text === '') {
+        return 0;
+    };
+    const match = text.replace(/,/g, '').match(/^([+-]?)\s*(\d*)(?:\.(\d*))?\s*([+-]?)$/);
+    if (!match || (match[1] && match[4]) || (match[2] + (match[3] ?? '')) === '') {
+        return 'Only numeric data is allowed';
+    };
+    const integerDigits = match[2].replace(/^0+/, '');
+    const decimalDigits = (match[3] ?? '').replace(/0+$/, '');
+    if (integerDigits.length > digits - decimals || decimalDigits.length > decimals) {
+        return `Too many digits (${digits - decimals} integer and ${decimals} decimal positions allowed)`;
+    };
+    const number = Number(`${match[2] || '0'}.${match[3] || '0'}`);
+    return match[1] === '-' || match[4] === '-' ? -number : number;
+};
+
+/**
+ * Reads a VALUES/RANGE/COMP parameter: a number for a numeric field, the quoted text otherwise.
+ * @param parameter - The parameter as coded
+ * @param numeric - Whether the field is numeric
+ */
+function parseOperand(parameter: string, numeric: boolean): string | number {
+    const text = parameter.replace(/^'(.*)'$/s, '$1').replace(/''/g, "'");
+    return numeric ? Number(text.replace(/,/g, '')) : text;
+};
+
+/**
+ * Compares a field's value to a keyword's operand: numerically for a numeric field, and for an
+ * alphanumeric one as the display station does, both padded with blanks to the field's length.
+ * Character order here is the workstation's (ASCII), not EBCDIC's, where letters sort before digits.
+ * @returns Negative, zero or positive, as the value is less than, equal to or greater than the operand
+ */
+function compareOperand(value: string | number, operand: string | number, length: number): number {
+    if (typeof value === 'number' || typeof operand === 'number') {
+        return Number(value) - Number(operand);
+    };
+    const left = value.padEnd(length);
+    const right = operand.padEnd(length);
+    return left === right ? 0 : (left < right ? -1 : 1);
+};
+
+/**
+ * What the program would receive for an alphanumeric field: uppercased unless the field keeps
+ * lowercase, and without trailing blanks. A numeric field's value is returned trimmed.
+ * @param field - The field
+ * @param value - What's typed in it
+ */
+function normalizeTestValue(field: TestField, value: string): string {
+    if (field.numeric) {
+        return value.trim() || '0';
+    };
+    return (field.lowercase ? value : value.toUpperCase()).trimEnd();
+};
+
+/**
+ * Reads a command key keyword: CAnn/CFnn (1 to 24), PAGEUP/ROLLDOWN and PAGEDOWN/ROLLUP, with
+ * their optional response indicator and text.
+ * @param keyword - The keyword as coded, e.g. CA03(03 'Exit')
+ */
+function parseCommandKey(keyword: string): TestCommandKey | undefined {
+    const match = keyword.match(/^(C[AF](\d{2})|PAGEUP|PAGEDOWN|ROLLUP|ROLLDOWN)(?:\((.*)\))?$/is);
+    if (!match) {
+        return undefined;
+    };
+    const name = match[1].toUpperCase();
+    const number = match[2] ? Number(match[2]) : undefined;
+    if (number !== undefined && (number < 1 || number > 24)) {
+        return undefined;
+    };
+
+    const key = number !== undefined
+        ? `F${number}`
+        : (name === 'PAGEUP' || name === 'ROLLDOWN' ? 'PageUp' : 'PageDown');
+
+    return {
+        key,
+        keyword: name,
+        validates: !name.startsWith('CA'),
+        indicator: findResponseIndicator(keyword)?.indicator,
+        text: match[3]?.match(/'((?:[^']|'')*)'/)?.[1].replace(/''/g, "'")
+    };
+};
+
+/**
+ * Describes a command key for the test status, e.g. "F3 (CA03 'Exit')".
+ * @param commandKey - The command key
+ */
+function describeCommandKey(commandKey: TestCommandKey): string {
+    return `${commandKey.key} (${commandKey.keyword}${commandKey.text ? ` '${commandKey.text}'` : ''})`;
+};
+
+/**
+ * Sort order of the keys on the test bar: F1 to F24, then Page Up and Page Down.
+ * @param key - The key
+ */
+function keyOrder(key: string): number {
+    return key.startsWith('F') ? Number(key.substring(1)) : (key === 'PageUp' ? 25 : 26);
+};
@@ -9,6 +9,15 @@ import { DdsTreeProvider } from './dspf-edit.providers/dspf-edit.providers';
 import { registerCommands } from './dspf-edit.commands/register-commands';
 import { ExtensionState } from './dspf-edit.states/state';
 import { initializeDocumentListeners } from './dspf-edit.listeners/listeners';
+import { initializeDiagnostics } from './dspf-edit.diagnostics/dspf-edit.diagnostics';
+import { registerCodeActions } from './dspf-edit.diagnostics/dspf-edit.code-actions';
+import { registerHoverProvider } from './dspf-edit.providers/dspf-edit.hover-provider';
+import { registerCompletionProvider } from './dspf-edit.providers/dspf-edit.completion-provider';
+import { registerFormatter } from './dspf-edit.formatter/dspf-edit.formatter';
+import { registerSymbolProviders } from './dspf-edit.providers/dspf-edit.symbol-provider';
+import { registerIndicatorView } from './dspf-edit.providers/dspf-edit.indicator-provider';
+import { initializeRefStore, flushRefStore } from './dspf-edit.ibmi/dspf-edit.ref-store';
+import { initializeLocalDefinitions } from './dspf-edit.ibmi/dspf-edit.local-definitions';
 
 // Activate extension
 export function activate(context: vscode.ExtensionContext) {
@@ -30,6 +39,31 @@ export function activate(context: vscode.ExtensionContext) {
 	// Add treeView to subscriptions for proper disposal
 	context.subscriptions.push(treeView);
 
+	// Indicators cross-reference, refreshed along with the tree
+	ExtensionState.indicatorProvider = registerIndicatorView(context);
+
+	// Create the Problems panel collection before the first parse publishes to it, and its quick fixes
+	initializeDiagnostics(context);
+	registerCodeActions(context);
+
+	// Keyword documentation and field definitions on hover
+	registerHoverProvider(context);
+
+	// Column-aware completion of keywords, values, indicators, types, usages and positions
+	registerCompletionProvider(context);
+
+	// Format Document / Format Selection realign the fixed columns
+	registerFormatter(context);
+
+	// Outline, breadcrumbs and Go to Symbol (also in workspace) for records, fields and constants
+	registerSymbolProviders(context);
+
+	// Referenced fields resolved in earlier sessions; the tree shows their lengths once loaded
+	void initializeRefStore(context).then(() => treeProvider.refresh());
+
+	// Referenced fields defined by local PF/LF DDS sources and SQL scripts, read again when they change
+	initializeLocalDefinitions(context, () => treeProvider.refresh());
+
 	initializeDocumentListeners(context, treeProvider);
 	
 	// Register all commands
@@ -38,4 +72,6 @@ export function activate(context: vscode.ExtensionContext) {
 
 export function deactivate() {
 	ExtensionState.clearTimeout();
+	// Writes the referenced fields resolved in the last moments before shutting down
+	return flushRefStore();
 };
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+
+import { MinimalIBMiConnection, compileDisplayFile, parseCompileListing } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+const STARTED = '2026-10-19 10:00:00.000000';
+
+const LISTING = [
+	'5770WDS V7R5M0 220415                Data Description Source                     MYLIB/SCREEN        10/19/26 10:00:00    Page    1',
+	' File name . . . . . . . . . . . . . . . . . . . . : SCREEN',
+	' SEQNBR *...+... 1 ...+... 2 ...+... 3 ...+... 4 ...+... 5 ...+... 6 ...+... 7 ...+... 8          Date',
+	'    100      A                                      DSPSIZ(24 80 *DS3)                          10/19/26',
+	'    200      A          R SCREEN1                                                               10/19/26',
+	'    300      A            FLD1          10A  B  3  2BADKWD                                      10/19/26',
+	'                        * * * * *   E N D   O F   S O U R C E   * * * * *',
+	'5770WDS V7R5M0 220415                Data Description Source                     MYLIB/SCREEN        10/19/26 10:00:00    Page    2',
+	'                                         M e s s a g e s',
+	' ID       Severity  Number',
+	' * CPD7812   30       300    Message . . . . :   Keyword BADKWD not valid',
+	'                                                 for this field.',
+	' * CPD7999   10              Message . . . . :   Some whole-file note.',
+	'                                   M e s s a g e   S u m m a r y',
+	' Total  Informational  Warning  Error  Severe  Terminal',
+	'     2        0           1       0       1        0'
+];
+
+/** A call the stub connection received. */
+interface StubCall {
+	statement: string;
+	bindings: (string | number | null)[];
+}
+
+/**
+ * Builds a connection answering the compile's statements: CRTDSPF fails when asked to, the job
+ * has a listing spooled since the compile started when `spooledFileNumber` is given, and the job
+ * log holds `jobLog`.
+ */
+function stubConnection(options: { failCompile: boolean; spooledFileNumber?: number; jobLog?: Record<string, string | number | null>[] }): { connection: MinimalIBMiConnection; calls: StubCall[] } {
+	const calls: StubCall[] = [];
+	const connection: MinimalIBMiConnection = {
+		async runSQL(statements, runOptions) {
+			const statement = Array.isArray(statements) ? statements.join(';') : statements;
+			const bindings = runOptions?.bindings ?? [];
+			calls.push({ statement, bindings });
+
+			if (statement.includes('SYSDUMMY1')) {
+				return [{ STARTED }];
+			}
+			if (statement.includes('QCMDEXC') && String(bindings[0]).startsWith('CRTDSPF') && options.failCompile) {
+				throw new Error('SQL0443 CPF7302');
+			}
+			if (statement.includes('OUTPUT_QUEUE_ENTRIES_BASIC')) {
+				return options.spooledFileNumber !== undefined ? [{ FILE_NUMBER: options.spooledFileNumber }] : [];
+			}
+			if (statement.includes('SPOOLED_FILE_DATA')) {
+				return LISTING.map(line => ({ SPOOLED_DATA: line }));
+			}
+			if (statement.includes('JOBLOG_INFO')) {
+				return options.jobLog ?? [];
+			}
+			return [];
+		}
+	};
+	return { connection, calls };
+}
+
+suite('Compile Listing Test Suite', () => {
+	test('Maps listing messages to source lines', () => {
+		const messages = parseCompileListing(LISTING);
+
+		assert.deepStrictEqual(messages, [
+			{ id: 'CPD7812', severity: 30, text: 'Keyword BADKWD not valid for this field.', lineIndex: 2 },
+			{ id: 'CPD7999', severity: 10, text: 'Some whole-file note.' }
+		]);
+	});
+
+	test('Keeps a message about an unlisted statement on the whole file', () => {
+		const listing = LISTING.map(line => line.replace('CPD7812   30       300', 'CPD7812   30       900'));
+		const [message] = parseCompileListing(listing);
+
+		assert.strictEqual(message.lineIndex, undefined);
+		assert.strictEqual(message.text, 'Keyword BADKWD not valid for this field. (statement 900)');
+	});
+
+	test('Reports a failed compile with its listing and job log messages', async () => {
+		const { connection } = stubConnection({
+			failCompile: true,
+			spooledFileNumber: 3,
+			jobLog: [{ MESSAGE_ID: 'CPF7302', SEVERITY: 40, MESSAGE_TEXT: 'File SCREEN not created in library MYLIB.' }]
+		});
+
+		const result = await compileDisplayFile(connection, 'mylib', 'screen', { library: 'MYLIB', file: 'QDDSSRC', member: 'SCREEN' });
+
+		assert.strictEqual(result.object, 'MYLIB/SCREEN');
+		assert.strictEqual(result.created, false);
+		assert.deepStrictEqual(result.messages.map(message => [message.id, message.lineIndex]), [
+			['CPD7812', 2],
+			['CPD7999', undefined],
+			['CPF7302', undefined]
+		]);
+		assert.strictEqual(result.messages[2].severity, 40);
+	});
+
+	test('Reads only the listing spooled since the compile started', async () => {
+		const { connection, calls } = stubConnection({ failCompile: false, spooledFileNumber: 7 });
+
+		const result = await compileDisplayFile(connection, 'MYLIB', 'SCREEN', { library: 'MYLIB', file: 'QDDSSRC', member: 'SCREEN' });
+
+		assert.strictEqual(result.created, true);
+		const lookup = calls.find(call => call.statement.includes('OUTPUT_QUEUE_ENTRIES_BASIC'));
+		assert.deepStrictEqual(lookup?.bindings, ['SCREEN', STARTED]);
+		const read = calls.find(call => call.statement.includes('SPOOLED_FILE_DATA'));
+		assert.deepStrictEqual(read?.bindings, ['SCREEN', '7']);
+	});
+
+	test('Ignores an earlier compile\'s listing', async () => {
+		const { connection, calls } = stubConnection({
+			failCompile: true,
+			jobLog: [{ MESSAGE_ID: 'CPF7302', SEVERITY: 40, MESSAGE_TEXT: 'File SCREEN not created in library MYLIB.' }]
+		});
+
+		const result = await compileDisplayFile(connection, 'MYLIB', 'SCREEN', { library: 'MYLIB', file: 'QDDSSRC', member: 'SCREEN' });
+
+		assert.strictEqual(calls.some(call => call.statement.includes('SPOOLED_FILE_DATA')), false);
+		assert.deepStrictEqual(result.messages.map(message => message.id), ['CPF7302']);
+	});
+});
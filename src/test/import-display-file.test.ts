@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+
+import { MinimalIBMiConnection, describeDisplayFile } from '../dspf-edit.ibmi/dspf-edit.ibmi-integration';
+
+/** Builds a DSPFFD outfile row of record SCREEN1, referring to a database field when `reference` is given. */
+function fieldRow(name: string, length: number, digits: number, decimals: number, reference?: [string, string, string]): Record<string, string | number | null> {
+	return {
+		WHNAME: 'SCREEN1', WHTEXT: 'Customer', WHFLDE: name, WHFLDT: digits > 0 ? 'S' : 'A', WHSHFT: '', WHFLDB: length,
+		WHFLDD: digits, WHFLDP: decimals, WHFIOB: 'B', WHFTXT: '', WHECDE: '', WHEWRD: '',
+		WHRLIB: reference?.[0] ?? '', WHRFIL: reference?.[1] ?? '', WHRFLD: reference?.[2] ?? ''
+	};
+}
+
+const FIELDS = [
+	fieldRow('CUSNO', 7, 7, 0, ['MYLIB', 'CUSTOMER', 'CUSNO']),
+	fieldRow('CUSNAM', 40, 0, 0, ['MYLIB', 'CUSTOMER', 'CUSNAM']),
+	fieldRow('OLDFLD', 5, 0, 0, ['MYLIB', 'DROPPED', 'OLDFLD']),
+	fieldRow('*IN03', 1, 0, 0),
+	fieldRow('NOTE', 20, 0, 0)
+];
+
+/**
+ * Builds a connection describing a display file with FIELDS, whose QSYS2.SYSCOLUMNS knows only
+ * MYLIB/CUSTOMER, and records the files looked up there.
+ */
+function stubConnection(): { connection: MinimalIBMiConnection; lookups: string[] } {
+	const lookups: string[] = [];
+	const connection: MinimalIBMiConnection = {
+		async runSQL(statements, runOptions) {
+			const statement = Array.isArray(statements) ? statements.join(';') : statements;
+			const bindings = runOptions?.bindings ?? [];
+
+			if (statement.includes('OBJECT_STATISTICS')) {
+				return [{ OBJATTRIBUTE: 'DSPF' }];
+			}
+			if (statement.includes('DSPFEDTFFD')) {
+				return FIELDS;
+			}
+			if (statement.includes('SYSCOLUMNS')) {
+				lookups.push(`${bindings[1]}/${bindings[0]}`);
+				return bindings[0] === 'CUSTOMER' ? [
+					{ SYSTEM_TABLE_SCHEMA: 'MYLIB', SYSTEM_COLUMN_NAME: 'CUSNO', DATA_TYPE: 'DECIMAL', LENGTH: 7, NUMERIC_PRECISION: 7, NUMERIC_SCALE: 0, COLUMN_TEXT: null, COLUMN_HEADING: null },
+					{ SYSTEM_TABLE_SCHEMA: 'MYLIB', SYSTEM_COLUMN_NAME: 'CUSNAM', DATA_TYPE: 'CHAR', LENGTH: 30, NUMERIC_PRECISION: null, NUMERIC_SCALE: null, COLUMN_TEXT: null, COLUMN_HEADING: null }
+				] : [];
+			}
+			return [];
+		}
+	};
+	return { connection, lookups };
+}
+
+suite('Import Display File Test Suite', () => {
+	test('Reads the record\'s fields in buffer order, without the option indicators', async () => {
+		const { connection } = stubConnection();
+		const [record] = await describeDisplayFile(connection, 'MYLIB', 'SCREEN');
+
+		assert.strictEqual(record.name, 'SCREEN1');
+		assert.strictEqual(record.text, 'Customer');
+		assert.deepStrictEqual(record.fields.map(field => field.name), ['CUSNO', 'CUSNAM', 'OLDFLD', 'NOTE']);
+		assert.deepStrictEqual(record.fields.map(field => [field.length, field.numeric]), [[7, true], [40, false], [5, false], [20, false]]);
+	});
+
+	test('Keeps the references QSYS2.SYSCOLUMNS still knows, looking each file up once', async () => {
+		const { connection, lookups } = stubConnection();
+		const [record] = await describeDisplayFile(connection, 'MYLIB', 'SCREEN');
+		const [cusno, cusnam, oldfld, note] = record.fields;
+
+		assert.deepStrictEqual(cusno.reference, { library: 'MYLIB', file: 'CUSTOMER', field: 'CUSNO', sameLength: true });
+		assert.deepStrictEqual(cusnam.reference, { library: 'MYLIB', file: 'CUSTOMER', field: 'CUSNAM', sameLength: false });
+		assert.strictEqual(oldfld.reference, undefined);
+		assert.strictEqual(note.reference, undefined);
+		assert.deepStrictEqual(lookups, ['MYLIB/CUSTOMER', 'MYLIB/DROPPED']);
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+
+import { LocalFileDefinition, parseDdsFileDefinition, parseSqlTableDefinitions, resolveLocalField } from '../dspf-edit.ibmi/dspf-edit.local-definitions';
+
+/**
+ * Builds a PF/LF DDS line: the name type (column 17), the name (19-28), the reference, length,
+ * type and decimals columns (29-37) and the keywords (45-80).
+ */
+function ddsLine(nameType: string, name: string, columns = '', keywords = ''): string {
+	return '     A' + ' '.repeat(10) + nameType.padEnd(2, ' ') + name.padEnd(10, ' ') + columns.padEnd(16, ' ') + keywords;
+}
+
+/**
+ * Builds the reference (column 29), length (30-34), type (35) and decimals (36-37) columns.
+ */
+function fieldColumns(length: string, type: string, decimals = '', reference = ' '): string {
+	return reference + length.padStart(5, ' ') + type.padEnd(1, ' ') + decimals.padStart(2, ' ');
+}
+
+const REFERENCE_FILE = [
+	ddsLine('R', 'REFREC'),
+	ddsLine('', 'CUSNO', fieldColumns('7', 'P', '0')),
+	ddsLine('', 'CUSNAM', fieldColumns('30', 'A')),
+	ddsLine('', 'AMOUNT', fieldColumns('11', 'P', '2'))
+].join('\n');
+
+const PHYSICAL_FILE = [
+	ddsLine('', '', '', 'REF(MYLIB/REFFILE)'),
+	ddsLine('R', 'CUSREC'),
+	ddsLine('', 'CUSNO', 'R'),
+	ddsLine('', 'NAME', fieldColumns('+5', '', '', 'R')),
+	ddsLine('', '', '', 'REFFLD(CUSNAM)'),
+	ddsLine('', 'TOTAL', 'R', 'REFFLD(AMOUNT *LIBL/REFFILE)'),
+	ddsLine('', 'CITY', fieldColumns('20', 'A')),
+	ddsLine('', 'CITY2', 'R', 'REFFLD(CITY *SRC)'),
+	ddsLine('K', 'CUSNO')
+].join('\n');
+
+const LOGICAL_FILE = [
+	ddsLine('R', 'CUSREC', '', 'PFILE(MYLIB/CUSTOMER)'),
+	ddsLine('', 'CUSNO'),
+	ddsLine('', 'CUSTNAME', '', 'RENAME(NAME)'),
+	ddsLine('K', 'CUSNO')
+].join('\n');
+
+const SQL_SCRIPT = `
+-- Order headers
+CREATE OR REPLACE TABLE MYLIB.ORDER_HEADER FOR SYSTEM NAME ORDHDR (
+    ORDER_NUMBER FOR COLUMN ORDNO DECIMAL(9, 0) NOT NULL,
+    CUSTOMER_NOTE FOR COLUMN ORDNOTE VARCHAR(200),
+    CREATED_AT FOR COLUMN ORDTS TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    AMOUNT DECIMAL(11, 2),
+    CONSTRAINT ORDHDR_PK PRIMARY KEY (ORDER_NUMBER)
+);
+`;
+
+/** Keys the definitions by file name, as the folders read are. */
+function byName(definitions: LocalFileDefinition[]): Map<string, LocalFileDefinition> {
+	return new Map(definitions.map(definition => [definition.name, definition]));
+}
+
+suite('Local Definitions Test Suite', () => {
+	const files = byName([
+		parseDdsFileDefinition('refFile', REFERENCE_FILE),
+		parseDdsFileDefinition('CUSTOMER', PHYSICAL_FILE),
+		parseDdsFileDefinition('CUSTL', LOGICAL_FILE),
+		...parseSqlTableDefinitions(SQL_SCRIPT)
+	]);
+
+	test('Reads a physical file\'s fields and its REF() file', () => {
+		const customer = files.get('CUSTOMER')!;
+
+		assert.strictEqual(customer.ref, 'REFFILE');
+		assert.deepStrictEqual([...customer.fields.keys()], ['CUSNO', 'NAME', 'TOTAL', 'CITY', 'CITY2']);
+		assert.deepStrictEqual(customer.fields.get('CITY'), { type: 'A', length: 20 });
+		assert.deepStrictEqual(customer.fields.get('NAME'), { lengthAdjustment: 5, reference: { fieldName: 'CUSNAM', file: undefined } });
+	});
+
+	test('Resolves R fields through REFFLD() and the REF() file', () => {
+		assert.deepStrictEqual(resolveLocalField(files, 'CUSTOMER', 'CUSNO'), { type: 'P', length: 7, decimals: 0 });
+		assert.deepStrictEqual(resolveLocalField(files, 'CUSTOMER', 'TOTAL'), { type: 'P', length: 11, decimals: 2 });
+		assert.deepStrictEqual(resolveLocalField(files, 'customer', 'city2'), { type: 'A', length: 20, decimals: 0 });
+	});
+
+	test('Adds a +n length to the referenced field\'s', () => {
+		assert.deepStrictEqual(resolveLocalField(files, 'CUSTOMER', 'NAME'), { type: 'A', length: 35, decimals: 0 });
+	});
+
+	test('Resolves a logical file\'s fields from its PFILE(), renamed by RENAME()', () => {
+		assert.deepStrictEqual(resolveLocalField(files, 'CUSTL', 'CUSNO'), { type: 'P', length: 7, decimals: 0 });
+		assert.deepStrictEqual(resolveLocalField(files, 'CUSTL', 'CUSTNAME'), { type: 'A', length: 35, decimals: 0 });
+	});
+
+	test('Reads a CREATE TABLE by its system names, skipping its constraint', () => {
+		const table = files.get('ORDHDR')!;
+
+		assert.deepStrictEqual([...table.fields.keys()], ['ORDNO', 'ORDNOTE', 'ORDTS', 'AMOUNT']);
+		assert.deepStrictEqual(resolveLocalField(files, 'ORDHDR', 'ORDNO'), { type: 'P', length: 9, decimals: 0 });
+		assert.deepStrictEqual(resolveLocalField(files, 'ORDHDR', 'ORDNOTE'), { type: 'A', length: 200, decimals: 0 });
+		assert.deepStrictEqual(resolveLocalField(files, 'ORDHDR', 'ORDTS'), { type: 'Z', length: 26, decimals: 0 });
+		assert.deepStrictEqual(resolveLocalField(files, 'ORDHDR', 'AMOUNT'), { type: 'P', length: 11, decimals: 2 });
+	});
+
+	test('Gives up on an unknown field and on a reference loop', () => {
+		const looping = byName([parseDdsFileDefinition('LOOP', [
+			ddsLine('R', 'LOOPREC'),
+			ddsLine('', 'FIRST', 'R', 'REFFLD(SECOND)'),
+			ddsLine('', 'SECOND', 'R', 'REFFLD(FIRST)')
+		].join('\n'))]);
+
+		assert.strictEqual(resolveLocalField(files, 'CUSTOMER', 'NOSUCH'), undefined);
+		assert.strictEqual(resolveLocalField(looping, 'LOOP', 'FIRST'), undefined);
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+
+import { getAllDdsElements, parseDocument } from '../dspf-edit.parser/dspf-edit.parser';
+
+/**
+ * Builds a DDS line: the condition (columns 7-16), then the rest of the line from column 17.
+ */
+function ddsLine(condition: string, rest: string): string {
+	return '     A' + condition.padEnd(10, ' ') + rest;
+}
+
+const FIELD = '  ' + 'FLD1'.padEnd(10, ' ') + '    10A  O  2  2';
+const KEYWORD = ' '.repeat(28) + 'DSPATR(HI)';
+const CONSTANT = ' '.repeat(22) + '  5  2' + "'Hello'";
+
+const SOURCE = [
+	ddsLine('', 'R REC1'),
+	ddsLine('', FIELD),
+	ddsLine('  03', ''),
+	ddsLine('  04', KEYWORD),
+	ddsLine('  01', ''),
+	ddsLine('O 02', ''),
+	ddsLine('  05', CONSTANT)
+].join('\n');
+
+suite('Parser Test Suite', () => {
+	test('Starts a constant at the stacked AND/OR lines conditioning it', () => {
+		const constant = getAllDdsElements(SOURCE).find(element => element.kind === 'constant');
+
+		assert.ok(constant && constant.kind === 'constant');
+		assert.strictEqual(constant.lineIndex, 6);
+		assert.strictEqual(constant.conditionLineIndex, 4);
+		assert.deepStrictEqual(constant.indicators, [
+			{ active: true, number: 1 },
+			{ active: true, number: 2, orGroup: 1 },
+			{ active: true, number: 5, orGroup: 1 }
+		]);
+	});
+
+	test('Starts a keyword line at the condition lines above it', () => {
+		const model = parseDocument(SOURCE);
+		const [field] = model.fieldsPerRecords[0].fields;
+		const [constant] = model.fieldsPerRecords[0].constants;
+
+		assert.strictEqual(field.conditionLineIndex, undefined);
+		assert.strictEqual(field.attributes.length, 1);
+		assert.strictEqual(field.attributes[0].lineIndex, 3);
+		assert.strictEqual(field.attributes[0].conditionLineIndex, 2);
+		assert.deepStrictEqual(field.attributes[0].indicators?.map(indicator => indicator.number), [3, 4]);
+		assert.strictEqual(constant.conditionLineIndex, 4);
+	});
+
+	test('Leaves an unconditioned element\'s range on its own line', () => {
+		const source = [ddsLine('', 'R REC1'), ddsLine('  01', CONSTANT), ddsLine('', CONSTANT.replace('  5', '  6'))].join('\n');
+		const [first, second] = parseDocument(source).fieldsPerRecords[0].constants;
+
+		assert.strictEqual(first.conditionLineIndex, undefined);
+		assert.strictEqual(second.conditionLineIndex, undefined);
+		assert.deepStrictEqual(second.indicators, []);
+	});
+});